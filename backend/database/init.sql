@@ -26,6 +26,10 @@ CREATE TABLE users (
     is_restricted BOOLEAN DEFAULT false,
     preferred_language VARCHAR(10) DEFAULT 'en',
     -- Language preference for wrapped page and emails (en, es, fr, de, sl)
+    timezone VARCHAR(64),
+    -- IANA timezone used to bucket stats (NULL = server TIMEZONE setting)
+    history_provider VARCHAR(32) NOT NULL DEFAULT 'tautulli',
+    -- Provider the user was synced from (tautulli, jellyfin)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     last_seen TIMESTAMP WITH TIME ZONE
@@ -36,6 +40,35 @@ CREATE INDEX idx_users_email ON users(email) WHERE email IS NOT NULL;
 CREATE INDEX idx_users_username ON users(username);
 CREATE INDEX idx_users_preferred_language ON users(preferred_language);
 
+-- =============================================================================
+-- Media Servers Table
+-- Extra Tautulli servers added from the admin panel, synced as history source tautulli:{id}
+-- =============================================================================
+CREATE TABLE media_servers (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    url VARCHAR(500) NOT NULL,
+    api_key VARCHAR(255) NOT NULL,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- User Server Accounts Table
+-- Account ids a user has on each history source, matched by Plex user id or email, or by name for imported history
+-- =============================================================================
+CREATE TABLE user_server_accounts (
+    source VARCHAR(100) NOT NULL,
+    plex_user_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (source, plex_user_id)
+);
+
+CREATE INDEX idx_user_server_accounts_user ON user_server_accounts(user_id);
+
 -- =============================================================================
 -- Wrapped Generations Table
 -- Tracks each wrapped generation run
@@ -44,7 +77,7 @@ CREATE TABLE wrapped_generations (
     id SERIAL PRIMARY KEY,
     year INTEGER NOT NULL,
     status VARCHAR(50) NOT NULL DEFAULT 'pending',
-    -- Status: pending, processing, completed, failed, cancelled
+    -- Status: pending, processing, paused, completed, failed, cancelled
     started_at TIMESTAMP WITH TIME ZONE,
     completed_at TIMESTAMP WITH TIME ZONE,
     total_users INTEGER DEFAULT 0,
@@ -54,16 +87,63 @@ CREATE TABLE wrapped_generations (
     error_log TEXT,
     triggered_by VARCHAR(255),
     config JSONB,
+    dry_run BOOLEAN DEFAULT false,
+    -- Dry runs stage their results in staged_wrapped_stats until published
+    published_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
 
-    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'))
+    CHECK (status IN ('pending', 'processing', 'paused', 'completed', 'failed', 'cancelled'))
 );
 
 CREATE INDEX idx_wrapped_generations_year ON wrapped_generations(year);
 CREATE INDEX idx_wrapped_generations_status ON wrapped_generations(status);
 CREATE INDEX idx_wrapped_generations_created ON wrapped_generations(created_at DESC);
 
+-- =============================================================================
+-- Generation User Status Table
+-- Tracks how each user fared in a generation run
+-- =============================================================================
+CREATE TABLE generation_user_status (
+    id SERIAL PRIMARY KEY,
+    generation_id INTEGER NOT NULL REFERENCES wrapped_generations(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(50) NOT NULL DEFAULT 'queued',
+    -- Status: queued, processing, succeeded, failed, cancelled
+    attempts INTEGER DEFAULT 0,
+    error_message TEXT,
+    duration_ms INTEGER,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(generation_id, user_id),
+    CHECK (status IN ('queued', 'processing', 'succeeded', 'failed', 'cancelled'))
+);
+
+CREATE INDEX idx_generation_user_status_generation ON generation_user_status(generation_id);
+CREATE INDEX idx_generation_user_status_status ON generation_user_status(generation_id, status);
+
+-- =============================================================================
+-- Staged Wrapped Stats Table
+-- Results of dry-run generations, promoted to user_wrapped_stats when published
+-- =============================================================================
+CREATE TABLE staged_wrapped_stats (
+    id SERIAL PRIMARY KEY,
+    generation_id INTEGER NOT NULL REFERENCES wrapped_generations(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    stats JSONB NOT NULL,
+    -- Calculated stats as produced by the stats calculator
+    processing_time_seconds INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(generation_id, user_id)
+);
+
+CREATE INDEX idx_staged_wrapped_stats_generation ON staged_wrapped_stats(generation_id);
+
 -- =============================================================================
 -- User Wrapped Stats Table
 -- Stores processed statistics for each user per year
@@ -110,6 +190,23 @@ CREATE TABLE user_wrapped_stats (
     top_directors JSONB DEFAULT '[]'::jsonb,
     -- [{"name", "count", "titles": []}]
 
+    -- Music
+    total_listening_minutes INTEGER DEFAULT 0,
+    total_tracks INTEGER DEFAULT 0,
+    unique_artists INTEGER DEFAULT 0,
+
+    top_artists JSONB DEFAULT '[]'::jsonb,
+    -- [{"name", "plays", "minutes", "thumb", "ratingKey"}]
+
+    top_albums JSONB DEFAULT '[]'::jsonb,
+    -- [{"title", "artist", "year", "plays", "minutes", "thumb", "ratingKey"}]
+
+    top_tracks JSONB DEFAULT '[]'::jsonb,
+    -- [{"title", "artist", "album", "plays", "thumb", "ratingKey"}]
+
+    top_music_genres JSONB DEFAULT '[]'::jsonb,
+    -- [{"genre", "count", "minutes", "percentage"}]
+
     -- Device and platform stats
     top_devices JSONB DEFAULT '[]'::jsonb,
     -- [{"device", "platform", "plays", "minutes"}]
@@ -130,7 +227,12 @@ CREATE TABLE user_wrapped_stats (
 
     -- Fun stats and achievements
     percentage_of_library_watched DECIMAL(5,2) DEFAULT 0,
+    library_coverage JSONB DEFAULT '[]'::jsonb,
+    -- [{"sectionId", "sectionName", "sectionType", "watched", "total", "percentage"}]
     total_seasons_completed INTEGER DEFAULT 0,
+    total_series_completed INTEGER DEFAULT 0,
+    completed_shows JSONB DEFAULT '[]'::jsonb,
+    -- [{"title", "ratingKey", "thumb", "seasonsCompleted", "totalSeasons", "seriesCompleted", "completedSeasonNumbers"}]
     rewatches INTEGER DEFAULT 0,
     first_watch_title VARCHAR(255),
     first_watch_date TIMESTAMP WITH TIME ZONE,
@@ -141,13 +243,25 @@ CREATE TABLE user_wrapped_stats (
 
     -- Fun facts and badges
     fun_facts JSONB DEFAULT '[]'::jsonb,
-    -- ["Marathon Master", "Night Owl", "Completionist", etc.]
+    -- [{"key": "marathonMaster", "params": {"show": "...", "hours": 5}}, ...] (rendered per locale)
 
     badges JSONB DEFAULT '[]'::jsonb,
-    -- [{"name": "Marathon Master", "description": "...", "icon": "..."}]
+    -- [{"key": "marathonMaster", "icon": "...", "params": {}}] (rendered per locale)
+
+    -- Overseerr request stats (NULL when Overseerr is disabled)
+    overseerr_stats JSONB,
+    -- {"totalRequests", "movieRequests", "tvRequests", "averageApprovalTimeHours", "requestsByMonth", "topGenres", "topRequests", ...}
 
-    -- Raw data cache (for future reprocessing if needed)
-    raw_data JSONB,
+    request_correlation JSONB,
+    -- {"requestedCount", "watchedCount", "watchedPercentage", "averageHoursToFirstWatch", "watched": [], "neverWatched": []}
+
+    -- Standing relative to the rest of the server (filled in after each generation)
+    percentiles JSONB,
+    -- {"watchTime": 82, "streak": 40, "uniqueTitles": 75, "binge": 90, "totalUsers": 24}
+
+    -- Plays per server the user's history came from
+    server_breakdown JSONB DEFAULT '[]'::jsonb,
+    -- [{"source": "tautulli:2", "name": "Home", "plays": 120, "minutes": 5400, "percentage": 64.5}]
 
     -- Metadata
     generated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
@@ -167,6 +281,150 @@ CREATE INDEX idx_user_wrapped_stats_user_year ON user_wrapped_stats(user_id, yea
 CREATE INDEX idx_user_wrapped_stats_generation ON user_wrapped_stats(generation_id);
 CREATE INDEX idx_user_wrapped_stats_public ON user_wrapped_stats(is_public) WHERE is_public = true;
 
+-- =============================================================================
+-- Wrapped Stats Snapshots Table
+-- Each generation's stats for a user, so regenerations can be compared and rolled back
+-- =============================================================================
+CREATE TABLE wrapped_stats_snapshots (
+    id SERIAL PRIMARY KEY,
+    user_wrapped_stats_id INTEGER NOT NULL REFERENCES user_wrapped_stats(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    generation_id INTEGER REFERENCES wrapped_generations(id) ON DELETE SET NULL,
+    data JSONB NOT NULL,
+    -- Full user_wrapped_stats row as it was after the generation
+    is_active BOOLEAN DEFAULT false,
+    -- The snapshot currently live in user_wrapped_stats
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(user_id, year, generation_id)
+);
+
+CREATE INDEX idx_wrapped_stats_snapshots_user_year ON wrapped_stats_snapshots(user_id, year);
+CREATE INDEX idx_wrapped_stats_snapshots_generation ON wrapped_stats_snapshots(generation_id);
+
+-- =============================================================================
+-- Watch History Table
+-- Local copy of the media servers' play history, synced before generations or imported from exports,
+-- and read by the stats calculator
+-- =============================================================================
+CREATE TABLE watch_history (
+    -- Provider name for synced history, the import's name for uploaded exports
+    source VARCHAR(100) NOT NULL DEFAULT 'tautulli',
+    -- History row id on the provider (Tautulli's row id, the Playback Reporting rowid for Jellyfin)
+    -- Negative for plays received by webhook, replaced by the synced row once it arrives
+    row_id INTEGER NOT NULL,
+    reference_id INTEGER,
+    plex_user_id INTEGER NOT NULL,
+    username VARCHAR(255),
+    friendly_name VARCHAR(255),
+
+    -- Unix timestamps, as Tautulli reports them
+    date BIGINT NOT NULL,
+    started BIGINT,
+    stopped BIGINT,
+    duration INTEGER DEFAULT 0,
+    -- Seconds watched
+    paused_counter INTEGER DEFAULT 0,
+
+    -- Player
+    platform VARCHAR(100),
+    product VARCHAR(100),
+    player VARCHAR(255),
+
+    -- Media
+    media_type VARCHAR(20) NOT NULL,
+    rating_key INTEGER,
+    parent_rating_key INTEGER,
+    grandparent_rating_key INTEGER,
+    title VARCHAR(500),
+    parent_title VARCHAR(500),
+    grandparent_title VARCHAR(500),
+    original_title VARCHAR(500),
+    year INTEGER,
+    media_index INTEGER,
+    parent_media_index INTEGER,
+    thumb VARCHAR(500),
+    parent_thumb VARCHAR(500),
+    grandparent_thumb VARCHAR(500),
+    guid VARCHAR(500),
+
+    -- Quality
+    video_decision VARCHAR(50),
+    audio_decision VARCHAR(50),
+    transcode_decision VARCHAR(50),
+    stream_video_resolution VARCHAR(50),
+
+    -- Progress
+    percent_complete INTEGER,
+    watched_status NUMERIC(3, 2),
+
+    -- Metadata
+    genres JSONB DEFAULT '[]'::jsonb,
+    actors JSONB DEFAULT '[]'::jsonb,
+    directors JSONB DEFAULT '[]'::jsonb,
+
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (source, row_id)
+);
+
+CREATE INDEX idx_watch_history_user_date ON watch_history(plex_user_id, date);
+CREATE INDEX idx_watch_history_date ON watch_history(date);
+CREATE INDEX idx_watch_history_rating_key ON watch_history(rating_key);
+CREATE INDEX idx_watch_history_webhook ON watch_history(source, plex_user_id, rating_key) WHERE row_id < 0;
+
+-- =============================================================================
+-- Jellyfin Ids Table
+-- The GUID behind each numeric id given to Jellyfin users and items
+-- =============================================================================
+CREATE TABLE jellyfin_ids (
+    -- Hash of the GUID, stored as plex_user_id (negative for users) and rating keys in watch_history
+    id INTEGER PRIMARY KEY,
+    guid VARCHAR(36) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- Server Wrapped Stats Table
+-- Whole-server aggregate report built at the end of each generation
+-- =============================================================================
+CREATE TABLE server_wrapped_stats (
+    id SERIAL PRIMARY KEY,
+    year INTEGER UNIQUE NOT NULL,
+    generation_id INTEGER REFERENCES wrapped_generations(id) ON DELETE SET NULL,
+    share_token VARCHAR(128) UNIQUE NOT NULL,
+    -- Public token for the shareable Server Unwrapped page
+
+    -- Totals across all users
+    total_users INTEGER DEFAULT 0,
+    active_users INTEGER DEFAULT 0,
+    total_watch_time_minutes INTEGER DEFAULT 0,
+    total_listening_minutes INTEGER DEFAULT 0,
+    total_plays INTEGER DEFAULT 0,
+    total_movies INTEGER DEFAULT 0,
+    total_tv_episodes INTEGER DEFAULT 0,
+
+    -- Top content across all users (JSONB)
+    top_movies JSONB DEFAULT '[]'::jsonb,
+    top_shows JSONB DEFAULT '[]'::jsonb,
+    -- [{"title", "ratingKey", "thumb", "plays", "durationMinutes", "viewers"}]
+
+    busiest_day_date DATE,
+    busiest_day_minutes INTEGER DEFAULT 0,
+
+    top_devices JSONB DEFAULT '[]'::jsonb,
+    -- [{"device", "platform", "plays", "minutes", "users"}]
+    most_popular_device VARCHAR(255),
+
+    new_users JSONB DEFAULT '[]'::jsonb,
+    -- [{"userId", "username", "friendlyName", "firstWatchDate"}] - first ever play during the year
+
+    generated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_server_wrapped_stats_token ON server_wrapped_stats(share_token);
+
 -- =============================================================================
 -- Access Tokens Table
 -- Secure tokens for sharing wrapped stats
@@ -210,6 +468,37 @@ CREATE INDEX idx_access_tokens_user_year ON access_tokens(user_id, year);
 CREATE INDEX idx_access_tokens_user_stats ON access_tokens(user_wrapped_stats_id);
 CREATE INDEX idx_access_tokens_expires ON access_tokens(expires_at) WHERE expires_at IS NOT NULL;
 
+-- =============================================================================
+-- Live Wrapped Table
+-- Opt-in year-to-date wrapped per user, behind a link that doesn't change
+-- =============================================================================
+CREATE TABLE live_wrapped (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    token VARCHAR(128) UNIQUE NOT NULL,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    enabled BOOLEAN DEFAULT true,
+
+    -- Latest refresh
+    year INTEGER,
+    stats JSONB,
+    -- Same shape as a generated wrapped's stats, for the year so far
+    last_year_stats JSONB,
+    -- {"year", "totalWatchTimeMinutes", "totalPlays", ...} of the previous year up to the same point
+    as_of TIMESTAMP WITH TIME ZONE,
+    refreshed_at TIMESTAMP WITH TIME ZONE,
+    refresh_error TEXT,
+
+    -- Access tracking
+    access_count INTEGER DEFAULT 0,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_live_wrapped_enabled ON live_wrapped(enabled) WHERE enabled = true;
+
 -- =============================================================================
 -- Email Logs Table
 -- Track sent emails for audit and delivery monitoring
@@ -297,6 +586,30 @@ CREATE TABLE system_config (
 
 CREATE INDEX idx_system_config_public ON system_config(is_public) WHERE is_public = true;
 
+-- =============================================================================
+-- Badge Definitions Table
+-- Declarative badge rules evaluated against each user's stats
+-- =============================================================================
+CREATE TABLE badge_definitions (
+    id SERIAL PRIMARY KEY,
+    key VARCHAR(100) UNIQUE NOT NULL,
+    metric VARCHAR(100) NOT NULL,
+    -- Stat the rule checks (see backend/src/processors/badge-rules.ts)
+    comparator VARCHAR(2) NOT NULL DEFAULT '>=',
+    threshold NUMERIC NOT NULL,
+    icon VARCHAR(20) NOT NULL,
+    names JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- {"en": {"name", "description"}, "de": {...}} - description may use {value} and {threshold}
+    is_enabled BOOLEAN DEFAULT true,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CHECK (comparator IN ('>', '>=', '<', '<=', '='))
+);
+
+CREATE INDEX idx_badge_definitions_enabled ON badge_definitions(is_enabled, sort_order);
+
 -- =============================================================================
 -- Audit Log Table
 -- Track important system events and changes
@@ -351,6 +664,9 @@ CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
 CREATE TRIGGER update_wrapped_generations_updated_at BEFORE UPDATE ON wrapped_generations
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_generation_user_status_updated_at BEFORE UPDATE ON generation_user_status
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_email_logs_updated_at BEFORE UPDATE ON email_logs
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -360,6 +676,15 @@ CREATE TRIGGER update_admin_users_updated_at BEFORE UPDATE ON admin_users
 CREATE TRIGGER update_system_config_updated_at BEFORE UPDATE ON system_config
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_badge_definitions_updated_at BEFORE UPDATE ON badge_definitions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_media_servers_updated_at BEFORE UPDATE ON media_servers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_live_wrapped_updated_at BEFORE UPDATE ON live_wrapped
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- =============================================================================
 -- Initial Data
 -- =============================================================================
@@ -377,6 +702,15 @@ INSERT INTO system_config (key, value, value_type, description, is_public, is_ed
     ('token_expiration_days', '90', 'number', 'Token expiration in days (0 = never)', false, true)
 ON CONFLICT (key) DO NOTHING;
 
+-- Insert default badge definitions
+INSERT INTO badge_definitions (key, metric, comparator, threshold, icon, names, sort_order) VALUES
+    ('marathonMaster', 'longestBingeMinutes', '>', 240, '🏃', '{"en": {"name": "Marathon Master", "description": "Binged for over 4 hours straight"}, "es": {"name": "Maestro del maratón", "description": "Más de 4 horas seguidas viendo"}, "fr": {"name": "Roi du marathon", "description": "Plus de 4 heures d''affilée"}, "de": {"name": "Marathon-Meister", "description": "Über 4 Stunden am Stück geschaut"}, "sl": {"name": "Mojster maratona", "description": "Več kot 4 ure gledanja v kosu"}}', 10),
+    ('consistentViewer', 'longestStreakDays', '>', 30, '🔥', '{"en": {"name": "Consistent Viewer", "description": "{value} day viewing streak"}, "es": {"name": "Espectador constante", "description": "Racha de {value} días"}, "fr": {"name": "Spectateur régulier", "description": "Série de {value} jours"}, "de": {"name": "Beständiger Zuschauer", "description": "{value} Tage in Folge geschaut"}, "sl": {"name": "Vztrajni gledalec", "description": "{value} dni gledanja zapored"}}', 20),
+    ('tvFanatic', 'totalTvEpisodes', '>', 500, '📺', '{"en": {"name": "TV Fanatic", "description": "Watched over 500 episodes"}, "es": {"name": "Fanático de la TV", "description": "Más de 500 episodios vistos"}, "fr": {"name": "Fan de séries", "description": "Plus de 500 épisodes regardés"}, "de": {"name": "Serien-Fanatiker", "description": "Über 500 Episoden geschaut"}, "sl": {"name": "Serijski fanatik", "description": "Več kot 500 pogledanih epizod"}}', 30),
+    ('cinemaEnthusiast', 'totalMovies', '>', 100, '🎬', '{"en": {"name": "Cinema Enthusiast", "description": "Watched over 100 movies"}, "es": {"name": "Amante del cine", "description": "Más de 100 películas vistas"}, "fr": {"name": "Cinéphile", "description": "Plus de 100 films regardés"}, "de": {"name": "Kino-Enthusiast", "description": "Über 100 Filme geschaut"}, "sl": {"name": "Filmski navdušenec", "description": "Več kot 100 pogledanih filmov"}}', 40),
+    ('contentCurator', 'overseerrRequests', '>', 50, '📝', '{"en": {"name": "Content Curator", "description": "Requested over 50 titles"}, "es": {"name": "Curador de contenido", "description": "Más de 50 títulos solicitados"}, "fr": {"name": "Curateur", "description": "Plus de 50 titres demandés"}, "de": {"name": "Kurator", "description": "Über 50 Titel angefragt"}, "sl": {"name": "Kurator vsebin", "description": "Več kot 50 zahtevanih naslovov"}}', 50)
+ON CONFLICT (key) DO NOTHING;
+
 -- =============================================================================
 -- Views
 -- =============================================================================
@@ -0,0 +1,10 @@
+-- Migration: Add library_coverage column to user_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Store per-library watch coverage alongside the overall percentage
+
+-- Add library_coverage column to user_wrapped_stats table
+ALTER TABLE user_wrapped_stats
+ADD COLUMN IF NOT EXISTS library_coverage JSONB DEFAULT '[]'::jsonb;
+
+-- Add comment
+COMMENT ON COLUMN user_wrapped_stats.library_coverage IS 'Per-library coverage: [{"sectionId", "sectionName", "sectionType", "watched", "total", "percentage"}]';
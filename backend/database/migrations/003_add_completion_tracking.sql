@@ -0,0 +1,12 @@
+-- Migration: Add season and series completion columns to user_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Store which seasons and whole series each user finished during the year
+
+-- Add completion columns to user_wrapped_stats table
+ALTER TABLE user_wrapped_stats
+ADD COLUMN IF NOT EXISTS total_series_completed INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS completed_shows JSONB DEFAULT '[]'::jsonb;
+
+-- Add comments
+COMMENT ON COLUMN user_wrapped_stats.total_series_completed IS 'Number of shows where every season was finished during the year';
+COMMENT ON COLUMN user_wrapped_stats.completed_shows IS 'Per-show completion: [{"title", "ratingKey", "thumb", "seasonsCompleted", "totalSeasons", "seriesCompleted", "completedSeasonNumbers"}]';
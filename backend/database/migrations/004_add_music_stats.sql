@@ -0,0 +1,20 @@
+-- Migration: Add music listening columns to user_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Store top artists, albums, tracks, listening minutes and music genres for track plays
+
+-- Add music columns to user_wrapped_stats table
+ALTER TABLE user_wrapped_stats
+ADD COLUMN IF NOT EXISTS total_listening_minutes INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_tracks INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS unique_artists INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS top_artists JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS top_albums JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS top_tracks JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS top_music_genres JSONB DEFAULT '[]'::jsonb;
+
+-- Add comments
+COMMENT ON COLUMN user_wrapped_stats.total_listening_minutes IS 'Minutes spent listening to music (not included in total_watch_time_minutes)';
+COMMENT ON COLUMN user_wrapped_stats.top_artists IS 'Top artists by plays: [{"name", "plays", "minutes", "thumb", "ratingKey"}]';
+COMMENT ON COLUMN user_wrapped_stats.top_albums IS 'Top albums by plays: [{"title", "artist", "year", "plays", "minutes", "thumb", "ratingKey"}]';
+COMMENT ON COLUMN user_wrapped_stats.top_tracks IS 'Top tracks by plays: [{"title", "artist", "album", "plays", "thumb", "ratingKey"}]';
+COMMENT ON COLUMN user_wrapped_stats.top_music_genres IS 'Music genres by listening time: [{"genre", "count", "minutes", "percentage"}]';
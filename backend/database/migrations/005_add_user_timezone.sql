@@ -0,0 +1,10 @@
+-- Migration: Add timezone column to users table
+-- Date: 2026-10-19
+-- Description: Bucket stats (hours, days, months, year window) in each user's timezone
+
+-- Add timezone column to users table
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+
+-- Add comment
+COMMENT ON COLUMN users.timezone IS 'IANA timezone used to bucket stats (NULL = server TIMEZONE setting)';
@@ -0,0 +1,15 @@
+-- Migration: Add overseerr_stats column to user_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Store Overseerr request stats with the wrapped row instead of the raw_data cache
+
+-- Add overseerr_stats column to user_wrapped_stats table
+ALTER TABLE user_wrapped_stats
+ADD COLUMN IF NOT EXISTS overseerr_stats JSONB;
+
+-- Add comment
+COMMENT ON COLUMN user_wrapped_stats.overseerr_stats IS 'Overseerr request stats (NULL when Overseerr is disabled)';
+
+-- Move request stats previously written to raw_data
+UPDATE user_wrapped_stats
+SET overseerr_stats = raw_data, raw_data = NULL
+WHERE overseerr_stats IS NULL AND raw_data ? 'totalRequests';
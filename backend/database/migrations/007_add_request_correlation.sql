@@ -0,0 +1,10 @@
+-- Migration: Add request_correlation column to user_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Store which Overseerr requests the user actually watched and how quickly
+
+-- Add request_correlation column to user_wrapped_stats table
+ALTER TABLE user_wrapped_stats
+ADD COLUMN IF NOT EXISTS request_correlation JSONB;
+
+-- Add comment
+COMMENT ON COLUMN user_wrapped_stats.request_correlation IS 'Requested titles matched to watch history: {"requestedCount", "watchedCount", "watchedPercentage", "averageHoursToFirstWatch", "watched": [], "neverWatched": []}';
@@ -0,0 +1,36 @@
+-- Migration: Add badge_definitions table
+-- Date: 2026-10-19
+-- Description: Move hard-coded badge thresholds into admin-editable rule definitions
+
+CREATE TABLE IF NOT EXISTS badge_definitions (
+    id SERIAL PRIMARY KEY,
+    key VARCHAR(100) UNIQUE NOT NULL,
+    metric VARCHAR(100) NOT NULL,
+    -- Stat the rule checks (see backend/src/processors/badge-rules.ts)
+    comparator VARCHAR(2) NOT NULL DEFAULT '>=',
+    threshold NUMERIC NOT NULL,
+    icon VARCHAR(20) NOT NULL,
+    names JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- {"en": {"name", "description"}, "de": {...}} - description may use {value} and {threshold}
+    is_enabled BOOLEAN DEFAULT true,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CHECK (comparator IN ('>', '>=', '<', '<=', '='))
+);
+
+CREATE INDEX IF NOT EXISTS idx_badge_definitions_enabled ON badge_definitions(is_enabled, sort_order);
+
+DROP TRIGGER IF EXISTS update_badge_definitions_updated_at ON badge_definitions;
+CREATE TRIGGER update_badge_definitions_updated_at BEFORE UPDATE ON badge_definitions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the previously hard-coded badges
+INSERT INTO badge_definitions (key, metric, comparator, threshold, icon, names, sort_order) VALUES
+    ('marathonMaster', 'longestBingeMinutes', '>', 240, '🏃', '{"en": {"name": "Marathon Master", "description": "Binged for over 4 hours straight"}, "es": {"name": "Maestro del maratón", "description": "Más de 4 horas seguidas viendo"}, "fr": {"name": "Roi du marathon", "description": "Plus de 4 heures d''affilée"}, "de": {"name": "Marathon-Meister", "description": "Über 4 Stunden am Stück geschaut"}, "sl": {"name": "Mojster maratona", "description": "Več kot 4 ure gledanja v kosu"}}', 10),
+    ('consistentViewer', 'longestStreakDays', '>', 30, '🔥', '{"en": {"name": "Consistent Viewer", "description": "{value} day viewing streak"}, "es": {"name": "Espectador constante", "description": "Racha de {value} días"}, "fr": {"name": "Spectateur régulier", "description": "Série de {value} jours"}, "de": {"name": "Beständiger Zuschauer", "description": "{value} Tage in Folge geschaut"}, "sl": {"name": "Vztrajni gledalec", "description": "{value} dni gledanja zapored"}}', 20),
+    ('tvFanatic', 'totalTvEpisodes', '>', 500, '📺', '{"en": {"name": "TV Fanatic", "description": "Watched over 500 episodes"}, "es": {"name": "Fanático de la TV", "description": "Más de 500 episodios vistos"}, "fr": {"name": "Fan de séries", "description": "Plus de 500 épisodes regardés"}, "de": {"name": "Serien-Fanatiker", "description": "Über 500 Episoden geschaut"}, "sl": {"name": "Serijski fanatik", "description": "Več kot 500 pogledanih epizod"}}', 30),
+    ('cinemaEnthusiast', 'totalMovies', '>', 100, '🎬', '{"en": {"name": "Cinema Enthusiast", "description": "Watched over 100 movies"}, "es": {"name": "Amante del cine", "description": "Más de 100 películas vistas"}, "fr": {"name": "Cinéphile", "description": "Plus de 100 films regardés"}, "de": {"name": "Kino-Enthusiast", "description": "Über 100 Filme geschaut"}, "sl": {"name": "Filmski navdušenec", "description": "Več kot 100 pogledanih filmov"}}', 40),
+    ('contentCurator', 'overseerrRequests', '>', 50, '📝', '{"en": {"name": "Content Curator", "description": "Requested over 50 titles"}, "es": {"name": "Curador de contenido", "description": "Más de 50 títulos solicitados"}, "fr": {"name": "Curateur", "description": "Plus de 50 titres demandés"}, "de": {"name": "Kurator", "description": "Über 50 Titel angefragt"}, "sl": {"name": "Kurator vsebin", "description": "Več kot 50 zahtevanih naslovov"}}', 50)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,10 @@
+-- Migration: Add percentiles column to user_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Store each user's percentile against the rest of the server for the year
+
+-- Add percentiles column to user_wrapped_stats table
+ALTER TABLE user_wrapped_stats
+ADD COLUMN IF NOT EXISTS percentiles JSONB;
+
+-- Add comment
+COMMENT ON COLUMN user_wrapped_stats.percentiles IS 'Share of other users beaten (0-100): {"watchTime", "streak", "uniqueTitles", "binge", "totalUsers"}';
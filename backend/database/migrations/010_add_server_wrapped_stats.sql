@@ -0,0 +1,39 @@
+-- Migration: Add server_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Whole-server "Server Unwrapped" report built at the end of each generation
+
+CREATE TABLE IF NOT EXISTS server_wrapped_stats (
+    id SERIAL PRIMARY KEY,
+    year INTEGER UNIQUE NOT NULL,
+    generation_id INTEGER REFERENCES wrapped_generations(id) ON DELETE SET NULL,
+    share_token VARCHAR(128) UNIQUE NOT NULL,
+    -- Public token for the shareable Server Unwrapped page
+
+    -- Totals across all users
+    total_users INTEGER DEFAULT 0,
+    active_users INTEGER DEFAULT 0,
+    total_watch_time_minutes INTEGER DEFAULT 0,
+    total_listening_minutes INTEGER DEFAULT 0,
+    total_plays INTEGER DEFAULT 0,
+    total_movies INTEGER DEFAULT 0,
+    total_tv_episodes INTEGER DEFAULT 0,
+
+    -- Top content across all users (JSONB)
+    top_movies JSONB DEFAULT '[]'::jsonb,
+    top_shows JSONB DEFAULT '[]'::jsonb,
+    -- [{"title", "ratingKey", "thumb", "plays", "durationMinutes", "viewers"}]
+
+    busiest_day_date DATE,
+    busiest_day_minutes INTEGER DEFAULT 0,
+
+    top_devices JSONB DEFAULT '[]'::jsonb,
+    -- [{"device", "platform", "plays", "minutes", "users"}]
+    most_popular_device VARCHAR(255),
+
+    new_users JSONB DEFAULT '[]'::jsonb,
+    -- [{"userId", "username", "friendlyName", "firstWatchDate"}] - first ever play during the year
+
+    generated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_server_wrapped_stats_token ON server_wrapped_stats(share_token);
@@ -0,0 +1,40 @@
+-- Migration: Add generation_user_status table and paused generation status
+-- Date: 2026-10-19
+-- Description: Track each user's outcome in a generation and allow generations to be paused
+
+-- Allow generations to be paused
+ALTER TABLE wrapped_generations
+DROP CONSTRAINT IF EXISTS wrapped_generations_status_check;
+
+ALTER TABLE wrapped_generations
+ADD CONSTRAINT wrapped_generations_status_check
+CHECK (status IN ('pending', 'processing', 'paused', 'completed', 'failed', 'cancelled'));
+
+-- Per-user status for each generation
+CREATE TABLE IF NOT EXISTS generation_user_status (
+    id SERIAL PRIMARY KEY,
+    generation_id INTEGER NOT NULL REFERENCES wrapped_generations(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(50) NOT NULL DEFAULT 'queued',
+    attempts INTEGER DEFAULT 0,
+    error_message TEXT,
+    duration_ms INTEGER,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(generation_id, user_id),
+    CHECK (status IN ('queued', 'processing', 'succeeded', 'failed', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_user_status_generation ON generation_user_status(generation_id);
+CREATE INDEX IF NOT EXISTS idx_generation_user_status_status ON generation_user_status(generation_id, status);
+
+DROP TRIGGER IF EXISTS update_generation_user_status_updated_at ON generation_user_status;
+CREATE TRIGGER update_generation_user_status_updated_at BEFORE UPDATE ON generation_user_status
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments
+COMMENT ON COLUMN generation_user_status.status IS 'queued, processing, succeeded, failed or cancelled';
+COMMENT ON COLUMN generation_user_status.duration_ms IS 'Time spent on the last attempt in milliseconds';
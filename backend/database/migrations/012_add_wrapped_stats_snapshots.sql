@@ -0,0 +1,29 @@
+-- Migration: Add wrapped_stats_snapshots table
+-- Date: 2026-10-19
+-- Description: Keep each generation's stats per user so regenerations can be compared and rolled back
+
+CREATE TABLE IF NOT EXISTS wrapped_stats_snapshots (
+    id SERIAL PRIMARY KEY,
+    user_wrapped_stats_id INTEGER NOT NULL REFERENCES user_wrapped_stats(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    generation_id INTEGER REFERENCES wrapped_generations(id) ON DELETE SET NULL,
+    data JSONB NOT NULL,
+    is_active BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(user_id, year, generation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wrapped_stats_snapshots_user_year ON wrapped_stats_snapshots(user_id, year);
+CREATE INDEX IF NOT EXISTS idx_wrapped_stats_snapshots_generation ON wrapped_stats_snapshots(generation_id);
+
+-- Snapshot the stats that are live today so there is something to roll back to
+INSERT INTO wrapped_stats_snapshots (user_wrapped_stats_id, user_id, year, generation_id, data, is_active, created_at)
+SELECT id, user_id, year, generation_id, to_jsonb(uws) - 'raw_data', true, generated_at
+FROM user_wrapped_stats uws
+ON CONFLICT (user_id, year, generation_id) DO NOTHING;
+
+-- Add comments
+COMMENT ON COLUMN wrapped_stats_snapshots.data IS 'Full user_wrapped_stats row as it was after the generation';
+COMMENT ON COLUMN wrapped_stats_snapshots.is_active IS 'The snapshot currently live in user_wrapped_stats';
@@ -0,0 +1,30 @@
+-- Migration: Add dry-run generations and staged_wrapped_stats table
+-- Date: 2026-10-19
+-- Description: Dry runs calculate stats into a staging table that is reviewed and then published
+
+-- Mark dry-run generations and when they were published
+ALTER TABLE wrapped_generations
+ADD COLUMN IF NOT EXISTS dry_run BOOLEAN DEFAULT false;
+
+ALTER TABLE wrapped_generations
+ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+
+-- Staged results of dry runs
+CREATE TABLE IF NOT EXISTS staged_wrapped_stats (
+    id SERIAL PRIMARY KEY,
+    generation_id INTEGER NOT NULL REFERENCES wrapped_generations(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    stats JSONB NOT NULL,
+    processing_time_seconds INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(generation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staged_wrapped_stats_generation ON staged_wrapped_stats(generation_id);
+
+-- Add comments
+COMMENT ON COLUMN wrapped_generations.dry_run IS 'Results are staged in staged_wrapped_stats instead of going live';
+COMMENT ON COLUMN wrapped_generations.published_at IS 'When a dry run''s staged results were promoted to user_wrapped_stats';
+COMMENT ON COLUMN staged_wrapped_stats.stats IS 'Calculated stats as produced by the stats calculator';
@@ -0,0 +1,72 @@
+-- Migration: Add watch_history table
+-- Date: 2026-10-19
+-- Description: Keep a normalized copy of Tautulli's play history for the stats calculator to read from, replacing the raw_data history cache
+
+CREATE TABLE IF NOT EXISTS watch_history (
+    -- Tautulli's history row id
+    row_id INTEGER PRIMARY KEY,
+    reference_id INTEGER,
+    plex_user_id INTEGER NOT NULL,
+    username VARCHAR(255),
+    friendly_name VARCHAR(255),
+
+    -- Unix timestamps, as Tautulli reports them
+    date BIGINT NOT NULL,
+    started BIGINT,
+    stopped BIGINT,
+    duration INTEGER DEFAULT 0,
+    -- Seconds watched
+    paused_counter INTEGER DEFAULT 0,
+
+    -- Player
+    platform VARCHAR(100),
+    product VARCHAR(100),
+    player VARCHAR(255),
+
+    -- Media
+    media_type VARCHAR(20) NOT NULL,
+    rating_key INTEGER,
+    parent_rating_key INTEGER,
+    grandparent_rating_key INTEGER,
+    title VARCHAR(500),
+    parent_title VARCHAR(500),
+    grandparent_title VARCHAR(500),
+    original_title VARCHAR(500),
+    year INTEGER,
+    media_index INTEGER,
+    parent_media_index INTEGER,
+    thumb VARCHAR(500),
+    parent_thumb VARCHAR(500),
+    grandparent_thumb VARCHAR(500),
+    guid VARCHAR(500),
+
+    -- Quality
+    video_decision VARCHAR(50),
+    audio_decision VARCHAR(50),
+    transcode_decision VARCHAR(50),
+    stream_video_resolution VARCHAR(50),
+
+    -- Progress
+    percent_complete INTEGER,
+    watched_status NUMERIC(3, 2),
+
+    -- Metadata
+    genres JSONB DEFAULT '[]'::jsonb,
+    actors JSONB DEFAULT '[]'::jsonb,
+    directors JSONB DEFAULT '[]'::jsonb,
+
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_history_user_date ON watch_history(plex_user_id, date);
+CREATE INDEX IF NOT EXISTS idx_watch_history_date ON watch_history(date);
+CREATE INDEX IF NOT EXISTS idx_watch_history_rating_key ON watch_history(rating_key);
+
+-- History used to be cached per user in raw_data, it's replaced by watch_history
+ALTER TABLE user_wrapped_stats DROP COLUMN IF EXISTS raw_data;
+
+-- Add comments
+COMMENT ON TABLE watch_history IS 'Tautulli play history, populated by the history sync';
+COMMENT ON COLUMN watch_history.row_id IS 'Tautulli history row id, increases with every recorded play';
+COMMENT ON COLUMN watch_history.plex_user_id IS 'Plex/Tautulli user id, matches users.plex_user_id';
+COMMENT ON COLUMN watch_history.date IS 'Unix timestamp of the play, as reported by Tautulli';
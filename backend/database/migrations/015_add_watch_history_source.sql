@@ -0,0 +1,13 @@
+-- Migration: Add source to watch_history
+-- Date: 2026-10-19
+-- Description: Imported Tautulli history exports are stored next to synced history, keyed by where they came from
+
+ALTER TABLE watch_history
+ADD COLUMN IF NOT EXISTS source VARCHAR(100) NOT NULL DEFAULT 'tautulli';
+
+-- Row ids are only unique within one Tautulli instance
+ALTER TABLE watch_history DROP CONSTRAINT IF EXISTS watch_history_pkey;
+ALTER TABLE watch_history ADD PRIMARY KEY (source, row_id);
+
+-- Add comments
+COMMENT ON COLUMN watch_history.source IS '''tautulli'' for synced history, the import''s name for uploaded exports';
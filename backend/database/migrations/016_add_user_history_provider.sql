@@ -0,0 +1,19 @@
+-- Migration: Add history provider to users and jellyfin_ids
+-- Date: 2026-10-19
+-- Description: Users can come from Tautulli or Jellyfin, stats and artwork are fetched from the provider they came from. Keep the GUID behind each numeric id given to Jellyfin users and items, so synced history can be resolved back to them
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS history_provider VARCHAR(32) NOT NULL DEFAULT 'tautulli';
+
+CREATE TABLE IF NOT EXISTS jellyfin_ids (
+    -- Hash of the GUID, stored as plex_user_id (negative for users) and rating keys in watch_history
+    id INTEGER PRIMARY KEY,
+    guid VARCHAR(36) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add comments
+COMMENT ON COLUMN users.history_provider IS 'Provider the user was synced from (tautulli, jellyfin)';
+COMMENT ON COLUMN watch_history.source IS 'Provider name for synced history, the import''s name for uploaded exports';
+COMMENT ON TABLE jellyfin_ids IS 'Numeric ids of Jellyfin users and items mapped back to their GUIDs, filled by the history sync';
+COMMENT ON COLUMN jellyfin_ids.guid IS 'Jellyfin GUID without dashes';
@@ -0,0 +1,52 @@
+-- Migration: Add media_servers and user_server_accounts tables
+-- Date: 2026-10-19
+-- Description: Extra Tautulli servers configured from the admin panel, with users matched across servers and a per-server usage breakdown
+
+CREATE TABLE IF NOT EXISTS media_servers (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    url VARCHAR(500) NOT NULL,
+    api_key VARCHAR(255) NOT NULL,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DROP TRIGGER IF EXISTS update_media_servers_updated_at ON media_servers;
+CREATE TRIGGER update_media_servers_updated_at BEFORE UPDATE ON media_servers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS user_server_accounts (
+    source VARCHAR(100) NOT NULL,
+    plex_user_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (source, plex_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_server_accounts_user ON user_server_accounts(user_id);
+
+-- Link the users synced so far to the history they were synced with
+INSERT INTO user_server_accounts (source, plex_user_id, user_id)
+SELECT history_provider, plex_user_id, id FROM users
+ON CONFLICT (source, plex_user_id) DO NOTHING;
+
+-- Wrapped reads history from sources other than the user's own provider through user_server_accounts only,
+-- link the users imported history was matched to
+INSERT INTO user_server_accounts (source, plex_user_id, user_id)
+SELECT DISTINCT w.source, w.plex_user_id, u.id
+FROM watch_history w
+JOIN users u ON u.plex_user_id = w.plex_user_id
+-- Sources not synced from a history provider or media server are imports
+WHERE w.source NOT IN ('tautulli', 'jellyfin', 'plex')
+  AND w.source !~ '^tautulli:\d+$'
+ON CONFLICT (source, plex_user_id) DO NOTHING;
+
+ALTER TABLE user_wrapped_stats
+ADD COLUMN IF NOT EXISTS server_breakdown JSONB DEFAULT '[]'::jsonb;
+
+-- Add comments
+COMMENT ON TABLE media_servers IS 'Tautulli servers added from the admin panel, synced as history source tautulli:{id}';
+COMMENT ON TABLE user_server_accounts IS 'Account ids a user has on each history source, matched by Plex user id or email, or by name for imported history';
+COMMENT ON COLUMN user_wrapped_stats.server_breakdown IS 'Plays per server: [{"source", "name", "plays", "minutes", "percentage"}]';
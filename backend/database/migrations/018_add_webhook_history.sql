@@ -0,0 +1,10 @@
+-- Migration: Add webhook history index
+-- Date: 2026-10-19
+-- Description: Plays received from Tautulli's webhook agent are stored in watch_history with negative row ids until the history sync replaces them
+
+CREATE INDEX IF NOT EXISTS idx_watch_history_webhook
+ON watch_history(source, plex_user_id, rating_key)
+WHERE row_id < 0;
+
+-- Add comments
+COMMENT ON COLUMN watch_history.row_id IS 'Provider history row id, negative for plays received by webhook and not synced yet';
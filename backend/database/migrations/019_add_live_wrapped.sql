@@ -0,0 +1,38 @@
+-- Migration: Add live_wrapped table
+-- Date: 2026-10-19
+-- Description: Opt-in year-to-date wrapped per user, behind a link that doesn't change and refreshed on a schedule
+
+CREATE TABLE IF NOT EXISTS live_wrapped (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    token VARCHAR(128) UNIQUE NOT NULL,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    enabled BOOLEAN DEFAULT true,
+
+    -- Latest refresh
+    year INTEGER,
+    stats JSONB,
+    last_year_stats JSONB,
+    as_of TIMESTAMP WITH TIME ZONE,
+    refreshed_at TIMESTAMP WITH TIME ZONE,
+    refresh_error TEXT,
+
+    -- Access tracking
+    access_count INTEGER DEFAULT 0,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_wrapped_enabled ON live_wrapped(enabled) WHERE enabled = true;
+
+DROP TRIGGER IF EXISTS update_live_wrapped_updated_at ON live_wrapped;
+CREATE TRIGGER update_live_wrapped_updated_at BEFORE UPDATE ON live_wrapped
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments
+COMMENT ON TABLE live_wrapped IS 'Year-to-date wrapped users opted into, served from /wrapped/{token} all year';
+COMMENT ON COLUMN live_wrapped.stats IS 'Stats calculator output for the year so far, in the same shape as a generated wrapped';
+COMMENT ON COLUMN live_wrapped.last_year_stats IS 'Totals of the previous year up to the same point: {"year", "totalWatchTimeMinutes", "totalPlays", ...}';
+COMMENT ON COLUMN live_wrapped.as_of IS 'Point in the year the stats were calculated up to';
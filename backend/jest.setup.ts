@@ -0,0 +1,13 @@
+// Tests never write to the log files
+jest.mock('./src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+    logRequest: jest.fn(),
+    logServiceCall: jest.fn(),
+    logServiceError: jest.fn(),
+  },
+}));
@@ -0,0 +1,62 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubRequest {
+  method: string;
+  url: URL;
+  body: string;
+}
+
+export interface StubServer {
+  // Every request received, to check what the service asked for
+  requests: URL[];
+  // Base URL of the server, without a trailing slash
+  listen(): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * Stands in for a media server or request manager, answering with recorded responses
+ * Requests without the API key in the header get a 401, and requests the handler has no answer for
+ * (undefined) a 404. Anything else is sent back as JSON.
+ */
+export function createStubServer(
+  auth: { header: string; value: string },
+  answer: (request: StubRequest) => unknown
+): StubServer {
+  const requests: URL[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url);
+
+      if (req.headers[auth.header.toLowerCase()] !== auth.value) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      const response = answer({ method: req.method || 'GET', url, body });
+      if (response === undefined) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  return {
+    requests,
+    async listen() {
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    },
+    async close() {
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
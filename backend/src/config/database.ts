@@ -39,6 +39,9 @@ const config = {
 // Create database instance
 const db = pgp(config);
 
+// The database or an open transaction, for model methods that can run inside either
+export type DbContext = pgPromise.IBaseProtocol<unknown>;
+
 // Test connection
 export async function testConnection(): Promise<boolean> {
   try {
@@ -6,6 +6,8 @@ import dotenv from 'dotenv';
 import logger from './utils/logger';
 import { testConnection, closeDatabase } from './config/database';
 import { createRedisClient, closeRedis } from './config/redis';
+import { getGenerationQueue } from './services/generation-queue.service';
+import { getLiveWrappedService } from './services/live-wrapped.service';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import { skipHealthCheck } from './middleware/request-logger.middleware';
 
@@ -13,6 +15,7 @@ import { skipHealthCheck } from './middleware/request-logger.middleware';
 import healthRoutes from './routes/health.routes';
 import wrappedRoutes from './routes/wrapped.routes';
 import adminRoutes from './routes/admin.routes';
+import webhookRoutes from './routes/webhook.routes';
 
 // Load environment variables
 dotenv.config();
@@ -37,6 +40,12 @@ app.use(cors({
   credentials: true,
 }));
 
+// Request logging (skip health checks)
+app.use(skipHealthCheck);
+
+// Webhooks verify signatures over the raw body, so they're mounted ahead of the body parsers
+app.use('/api/webhooks', webhookRoutes);
+
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -44,9 +53,6 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Compression
 app.use(compression());
 
-// Request logging (skip health checks)
-app.use(skipHealthCheck);
-
 // Mount routes
 app.use('/api/health', healthRoutes);
 app.use('/api/wrapped', wrappedRoutes);
@@ -62,6 +68,7 @@ app.get('/', (req, res) => {
       health: '/api/health',
       wrapped: '/api/wrapped/:token',
       admin: '/api/admin',
+      webhooks: '/api/webhooks/tautulli',
     },
     docs: 'https://github.com/yourusername/unwrapped-for-plex',
   });
@@ -87,35 +94,43 @@ async function startServer() {
     logger.info('Connecting to Redis...');
     await createRedisClient();
 
+    // Start generation workers (resumes jobs left over from a previous run)
+    logger.info('Starting generation queue...');
+    await getGenerationQueue().start();
+
+    // Keep opted-in users' year-to-date wrapped current
+    getLiveWrappedService().start();
+
     // Test external services (optional, won't fail startup)
     try {
-      const { getTautulliService } = await import('./services/tautulli.service');
-      const tautulli = getTautulliService();
-      const tautulliHealth = await tautulli.healthCheck();
-      if (tautulliHealth.healthy) {
-        logger.info(`Tautulli connected: ${tautulliHealth.message}`);
-      } else {
-        logger.warn(`Tautulli connection issue: ${tautulliHealth.message}`);
+      const { getHistoryProviders } = await import('./services/history-provider.service');
+      for (const provider of await getHistoryProviders()) {
+        const providerHealth = await provider.healthCheck();
+        if (providerHealth.healthy) {
+          logger.info(`${provider.name} connected: ${providerHealth.message}`);
+        } else {
+          logger.warn(`${provider.name} connection issue: ${providerHealth.message}`);
+        }
       }
     } catch (error: any) {
-      logger.warn('Tautulli connection failed:', error.message);
+      logger.warn('History provider connection failed:', error.message);
     }
 
     try {
-      const { getOverseerrService } = await import('./services/overseerr.service');
-      const overseerr = getOverseerrService();
-      if (overseerr.isEnabled()) {
-        const overseerrHealth = await overseerr.healthCheck();
-        if (overseerrHealth.healthy) {
-          logger.info(`Overseerr connected: ${overseerrHealth.message}`);
+      const { getRequestProvider } = await import('./services/request-provider.service');
+      const requestProvider = getRequestProvider();
+      if (requestProvider.isEnabled()) {
+        const requestHealth = await requestProvider.healthCheck();
+        if (requestHealth.healthy) {
+          logger.info(`${requestProvider.name} connected: ${requestHealth.message}`);
         } else {
-          logger.warn(`Overseerr connection issue: ${overseerrHealth.message}`);
+          logger.warn(`${requestProvider.name} connection issue: ${requestHealth.message}`);
         }
       } else {
-        logger.info('Overseerr integration is disabled');
+        logger.info(`${requestProvider.name} integration is disabled`);
       }
     } catch (error: any) {
-      logger.warn('Overseerr connection check failed:', error.message);
+      logger.warn('Request provider connection check failed:', error.message);
     }
 
     // Start Express server
@@ -134,6 +149,9 @@ async function startServer() {
         logger.info('HTTP server closed');
 
         try {
+          // Unfinished jobs stay in Redis and are picked up again on the next start
+          getLiveWrappedService().stop();
+          await getGenerationQueue().stop();
           await closeDatabase();
           await closeRedis();
           logger.info('All connections closed');
@@ -36,6 +36,21 @@ export const adminRateLimiter = rateLimit({
   },
 });
 
+/**
+ * Rate limiter for webhook endpoints, roomy enough for a busy server's playback events
+ */
+export const webhookRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: parseInt(process.env.RATE_LIMIT_WEBHOOK || '1000', 10),
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    error: 'Too many requests',
+    message: 'Please try again later',
+  },
+  skip: () => process.env.NODE_ENV === 'test',
+});
+
 /**
  * Stricter rate limiter for authentication endpoints
  */
@@ -95,6 +110,7 @@ export function createRedisRateLimiter(options: {
 export default {
   publicRateLimiter,
   adminRateLimiter,
+  webhookRateLimiter,
   authRateLimiter,
   createRedisRateLimiter,
 };
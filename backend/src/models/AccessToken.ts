@@ -1,4 +1,4 @@
-import { db } from '../config/database';
+import { db, type DbContext } from '../config/database';
 import crypto from 'crypto';
 
 export interface AccessToken {
@@ -47,7 +47,7 @@ export class AccessTokenModel {
   /**
    * Create a new access token
    */
-  static async create(data: AccessTokenCreate): Promise<{ token: string; record: AccessToken }> {
+  static async create(data: AccessTokenCreate, t: DbContext = db): Promise<{ token: string; record: AccessToken }> {
     const tokenLength = parseInt(process.env.TOKEN_LENGTH || '32', 10);
     const token = this.generateToken(tokenLength);
     const tokenHash = this.hashToken(token);
@@ -61,7 +61,7 @@ export class AccessTokenModel {
       expiresAt = expiry;
     }
 
-    const record = await db.one<AccessToken>(
+    const record = await t.one<AccessToken>(
       `INSERT INTO access_tokens (
         token, token_hash, user_wrapped_stats_id, user_id, year,
         expires_at, created_by
@@ -0,0 +1,119 @@
+import { db } from '../config/database';
+
+export type BadgeComparator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface BadgeDefinition {
+  id: number;
+  key: string;
+  metric: string;
+  comparator: BadgeComparator;
+  threshold: number;
+  icon: string;
+  names: Record<string, { name: string; description: string }>;
+  is_enabled: boolean;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BadgeDefinitionCreate {
+  key: string;
+  metric: string;
+  comparator: BadgeComparator;
+  threshold: number;
+  icon: string;
+  names: BadgeDefinition['names'];
+  is_enabled?: boolean;
+  sort_order?: number;
+}
+
+export interface BadgeDefinitionUpdate {
+  metric?: string;
+  comparator?: BadgeComparator;
+  threshold?: number;
+  icon?: string;
+  names?: BadgeDefinition['names'];
+  is_enabled?: boolean;
+  sort_order?: number;
+}
+
+// NUMERIC columns come back from pg as strings
+function parseDefinition(row: any): BadgeDefinition {
+  return { ...row, threshold: parseFloat(row.threshold) };
+}
+
+export class BadgeDefinitionModel {
+  static async create(data: BadgeDefinitionCreate): Promise<BadgeDefinition> {
+    const row = await db.one(
+      `INSERT INTO badge_definitions (key, metric, comparator, threshold, icon, names, is_enabled, sort_order)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        data.key,
+        data.metric,
+        data.comparator,
+        data.threshold,
+        data.icon,
+        JSON.stringify(data.names),
+        data.is_enabled !== false,
+        data.sort_order || 0,
+      ]
+    );
+    return parseDefinition(row);
+  }
+
+  static async findById(id: number): Promise<BadgeDefinition | null> {
+    const row = await db.oneOrNone('SELECT * FROM badge_definitions WHERE id = $1', [id]);
+    return row ? parseDefinition(row) : null;
+  }
+
+  static async findByKey(key: string): Promise<BadgeDefinition | null> {
+    const row = await db.oneOrNone('SELECT * FROM badge_definitions WHERE key = $1', [key]);
+    return row ? parseDefinition(row) : null;
+  }
+
+  static async findAll(): Promise<BadgeDefinition[]> {
+    const rows = await db.manyOrNone('SELECT * FROM badge_definitions ORDER BY sort_order ASC, id ASC');
+    return rows.map(parseDefinition);
+  }
+
+  static async findEnabled(): Promise<BadgeDefinition[]> {
+    const rows = await db.manyOrNone(
+      'SELECT * FROM badge_definitions WHERE is_enabled = true ORDER BY sort_order ASC, id ASC'
+    );
+    return rows.map(parseDefinition);
+  }
+
+  static async update(id: number, data: BadgeDefinitionUpdate): Promise<BadgeDefinition | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      updates.push(`${key} = $${paramIndex}`);
+      values.push(key === 'names' ? JSON.stringify(value) : value);
+      paramIndex++;
+    });
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(id);
+
+    const row = await db.oneOrNone(
+      `UPDATE badge_definitions SET ${updates.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+    return row ? parseDefinition(row) : null;
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await db.result('DELETE FROM badge_definitions WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+}
+
+export default BadgeDefinitionModel;
@@ -0,0 +1,124 @@
+import { db } from '../config/database';
+
+export interface GenerationUserStatus {
+  id: number;
+  generation_id: number;
+  user_id: number;
+  status: 'queued' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+  attempts: number;
+  error_message: string | null;
+  duration_ms: number | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface GenerationUserStatusWithUser extends GenerationUserStatus {
+  username: string;
+  friendly_name: string | null;
+  email: string | null;
+}
+
+export class GenerationUserStatusModel {
+  /**
+   * Mark users as queued for a generation, resetting any previous attempt
+   */
+  static async queue(generationId: number, userIds: number[]): Promise<void> {
+    if (userIds.length === 0) return;
+
+    await db.none(
+      `INSERT INTO generation_user_status (generation_id, user_id, status)
+       SELECT $1, unnest($2::int[]), 'queued'
+       ON CONFLICT (generation_id, user_id) DO UPDATE SET
+         status = 'queued',
+         attempts = 0,
+         error_message = NULL,
+         duration_ms = NULL,
+         started_at = NULL,
+         completed_at = NULL`,
+      [generationId, userIds]
+    );
+  }
+
+  static async markProcessing(generationId: number, userId: number, attempts: number): Promise<void> {
+    await db.none(
+      `UPDATE generation_user_status
+       SET status = 'processing', attempts = $3, started_at = CURRENT_TIMESTAMP
+       WHERE generation_id = $1 AND user_id = $2`,
+      [generationId, userId, attempts]
+    );
+  }
+
+  static async markSucceeded(generationId: number, userId: number, durationMs: number): Promise<void> {
+    await db.none(
+      `UPDATE generation_user_status
+       SET status = 'succeeded', error_message = NULL, duration_ms = $3, completed_at = CURRENT_TIMESTAMP
+       WHERE generation_id = $1 AND user_id = $2`,
+      [generationId, userId, durationMs]
+    );
+  }
+
+  /**
+   * Record a failed attempt, either waiting for a retry (queued) or given up on (failed)
+   */
+  static async markFailed(
+    generationId: number,
+    userId: number,
+    errorMessage: string,
+    durationMs: number,
+    willRetry: boolean
+  ): Promise<void> {
+    await db.none(
+      `UPDATE generation_user_status
+       SET status = $3, error_message = $4, duration_ms = $5,
+           completed_at = CASE WHEN $3 = 'failed' THEN CURRENT_TIMESTAMP ELSE NULL END
+       WHERE generation_id = $1 AND user_id = $2`,
+      [generationId, userId, willRetry ? 'queued' : 'failed', errorMessage, durationMs]
+    );
+  }
+
+  /**
+   * Cancel every user that hasn't been processed yet
+   */
+  static async cancelQueued(generationId: number): Promise<number> {
+    const result = await db.result(
+      `UPDATE generation_user_status
+       SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP
+       WHERE generation_id = $1 AND status = 'queued'`,
+      [generationId]
+    );
+    return result.rowCount;
+  }
+
+  static async findByGeneration(generationId: number): Promise<GenerationUserStatusWithUser[]> {
+    return db.manyOrNone<GenerationUserStatusWithUser>(
+      `SELECT gus.*, u.username, u.friendly_name, u.email
+       FROM generation_user_status gus
+       JOIN users u ON u.id = gus.user_id
+       WHERE gus.generation_id = $1
+       ORDER BY
+         CASE gus.status
+           WHEN 'processing' THEN 0
+           WHEN 'failed' THEN 1
+           WHEN 'queued' THEN 2
+           ELSE 3
+         END,
+         u.username ASC`,
+      [generationId]
+    );
+  }
+
+  static async findUserIdsByStatus(
+    generationId: number,
+    status: GenerationUserStatus['status']
+  ): Promise<number[]> {
+    const rows = await db.manyOrNone<{ user_id: number }>(
+      'SELECT user_id FROM generation_user_status WHERE generation_id = $1 AND status = $2',
+      [generationId, status]
+    );
+    return rows.map((row) => row.user_id);
+  }
+}
+
+export default GenerationUserStatusModel;
@@ -0,0 +1,26 @@
+import { db, pgp } from '../config/database';
+
+export interface JellyfinId {
+  id: number;
+  guid: string;
+  created_at: Date;
+}
+
+export class JellyfinIdModel {
+  /**
+   * Store GUIDs under their numeric ids, ids already stored keep their GUID
+   */
+  static async saveMany(ids: Map<number, string>): Promise<void> {
+    if (ids.size === 0) return;
+
+    const rows = Array.from(ids, ([id, guid]) => ({ id, guid }));
+    await db.none(pgp.helpers.insert(rows, ['id', 'guid'], 'jellyfin_ids') + ' ON CONFLICT (id) DO NOTHING');
+  }
+
+  static async findGuid(id: number): Promise<string | null> {
+    const row = await db.oneOrNone<{ guid: string }>('SELECT guid FROM jellyfin_ids WHERE id = $1', [id]);
+    return row ? row.guid : null;
+  }
+}
+
+export default JellyfinIdModel;
@@ -0,0 +1,111 @@
+import { db } from '../config/database';
+import { AccessTokenModel } from './AccessToken';
+import type { PeriodTotals, ProcessedStats } from '../processors/stats-calculator';
+
+export interface LiveWrapped {
+  id: number;
+  user_id: number;
+  token: string;
+  token_hash: string;
+  enabled: boolean;
+  year: number | null;
+  stats: ProcessedStats | null;
+  last_year_stats: PeriodTotals | null;
+  as_of: Date | null;
+  refreshed_at: Date | null;
+  refresh_error: string | null;
+  access_count: number;
+  last_accessed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LiveWrappedRefresh {
+  year: number;
+  stats: ProcessedStats;
+  last_year_stats: PeriodTotals;
+  as_of: Date;
+}
+
+export class LiveWrappedModel {
+  /**
+   * Opt a user in, keeping the link they had if they were opted in before
+   */
+  static async enable(userId: number): Promise<LiveWrapped> {
+    const tokenLength = parseInt(process.env.TOKEN_LENGTH || '32', 10);
+    const token = AccessTokenModel.generateToken(tokenLength);
+
+    return db.one<LiveWrapped>(
+      `INSERT INTO live_wrapped (user_id, token, token_hash)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) DO UPDATE SET enabled = true
+       RETURNING *`,
+      [userId, token, AccessTokenModel.hashToken(token)]
+    );
+  }
+
+  /**
+   * Opt a user out, the link stops working until they're opted in again
+   */
+  static async disable(userId: number): Promise<LiveWrapped | null> {
+    return db.oneOrNone<LiveWrapped>(
+      'UPDATE live_wrapped SET enabled = false WHERE user_id = $1 RETURNING *',
+      [userId]
+    );
+  }
+
+  static async findByUser(userId: number): Promise<LiveWrapped | null> {
+    return db.oneOrNone<LiveWrapped>('SELECT * FROM live_wrapped WHERE user_id = $1', [userId]);
+  }
+
+  /**
+   * Find an enabled live wrapped by its link's token (plain text)
+   */
+  static async findByToken(token: string): Promise<LiveWrapped | null> {
+    return db.oneOrNone<LiveWrapped>(
+      'SELECT * FROM live_wrapped WHERE token_hash = $1 AND enabled = true',
+      [AccessTokenModel.hashToken(token)]
+    );
+  }
+
+  static async findEnabled(): Promise<LiveWrapped[]> {
+    return db.manyOrNone<LiveWrapped>('SELECT * FROM live_wrapped WHERE enabled = true ORDER BY id ASC');
+  }
+
+  /**
+   * Store a refresh's stats and clear the last refresh error
+   */
+  static async saveRefresh(id: number, data: LiveWrappedRefresh): Promise<void> {
+    await db.none(
+      `UPDATE live_wrapped
+       SET year = $2, stats = $3, last_year_stats = $4, as_of = $5,
+           refreshed_at = CURRENT_TIMESTAMP, refresh_error = NULL
+       WHERE id = $1`,
+      [
+        id,
+        data.year,
+        JSON.stringify(data.stats),
+        JSON.stringify(data.last_year_stats),
+        data.as_of,
+      ]
+    );
+  }
+
+  /**
+   * Record why a refresh failed, the previous stats keep being served
+   */
+  static async saveRefreshError(id: number, error: string): Promise<void> {
+    await db.none('UPDATE live_wrapped SET refresh_error = $2 WHERE id = $1', [id, error]);
+  }
+
+  static async trackAccess(id: number): Promise<void> {
+    await db.none(
+      `UPDATE live_wrapped
+       SET access_count = access_count + 1, last_accessed_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id]
+    );
+  }
+}
+
+export default LiveWrappedModel;
@@ -0,0 +1,106 @@
+import { db } from '../config/database';
+
+export interface MediaServer {
+  id: number;
+  name: string;
+  url: string;
+  api_key: string;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface MediaServerCreate {
+  name: string;
+  url: string;
+  api_key: string;
+  enabled?: boolean;
+}
+
+export interface MediaServerUpdate {
+  name?: string;
+  url?: string;
+  api_key?: string;
+  enabled?: boolean;
+}
+
+// Extra Tautulli servers sync their history under this source
+export const MEDIA_SERVER_SOURCE_PATTERN = /^tautulli:(\d+)$/;
+
+/**
+ * The watch_history source a media server's history is synced under
+ */
+export function getMediaServerSource(id: number): string {
+  return `tautulli:${id}`;
+}
+
+export class MediaServerModel {
+  static async create(data: MediaServerCreate): Promise<MediaServer> {
+    return db.one(
+      `INSERT INTO media_servers (name, url, api_key, enabled)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [data.name, data.url, data.api_key, data.enabled !== false]
+    );
+  }
+
+  static async findById(id: number): Promise<MediaServer | null> {
+    return db.oneOrNone('SELECT * FROM media_servers WHERE id = $1', [id]);
+  }
+
+  /**
+   * The media server a watch_history source belongs to, null for other sources
+   */
+  static async findBySource(source: string): Promise<MediaServer | null> {
+    const match = source.match(MEDIA_SERVER_SOURCE_PATTERN);
+    return match ? this.findById(parseInt(match[1], 10)) : null;
+  }
+
+  static async findAll(): Promise<MediaServer[]> {
+    return db.manyOrNone('SELECT * FROM media_servers ORDER BY id ASC');
+  }
+
+  static async findEnabled(): Promise<MediaServer[]> {
+    return db.manyOrNone('SELECT * FROM media_servers WHERE enabled = true ORDER BY id ASC');
+  }
+
+  static async update(id: number, data: MediaServerUpdate): Promise<MediaServer | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      updates.push(`${key} = $${paramIndex}`);
+      values.push(value);
+      paramIndex++;
+    });
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(id);
+
+    return db.oneOrNone(
+      `UPDATE media_servers SET ${updates.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+  }
+
+  /**
+   * Remove a server along with the history and accounts synced from it
+   */
+  static async delete(id: number): Promise<boolean> {
+    const source = getMediaServerSource(id);
+    return db.tx(async (t) => {
+      await t.none('DELETE FROM watch_history WHERE source = $1', [source]);
+      await t.none('DELETE FROM user_server_accounts WHERE source = $1', [source]);
+      const result = await t.result('DELETE FROM media_servers WHERE id = $1', [id]);
+      return result.rowCount > 0;
+    });
+  }
+}
+
+export default MediaServerModel;
@@ -0,0 +1,111 @@
+import { db } from '../config/database';
+import crypto from 'crypto';
+import type { ServerStats } from '../processors/server-stats-calculator';
+
+export interface ServerWrappedStats {
+  id: number;
+  year: number;
+  generation_id: number | null;
+  share_token: string;
+
+  // Totals across all users
+  total_users: number;
+  active_users: number;
+  total_watch_time_minutes: number;
+  total_listening_minutes: number;
+  total_plays: number;
+  total_movies: number;
+  total_tv_episodes: number;
+
+  // Top content (JSONB)
+  top_movies: any;
+  top_shows: any;
+
+  busiest_day_date: Date | null;
+  busiest_day_minutes: number;
+
+  top_devices: any;
+  most_popular_device: string | null;
+
+  new_users: any;
+
+  generated_at: Date;
+}
+
+export class ServerWrappedStatsModel {
+  /**
+   * Save the report for a year, keeping the existing share token so shared links keep working
+   */
+  static async upsert(year: number, generationId: number | null, stats: ServerStats): Promise<ServerWrappedStats> {
+    const shareToken = crypto.randomBytes(parseInt(process.env.TOKEN_LENGTH || '32', 10)).toString('hex');
+
+    return db.one<ServerWrappedStats>(
+      `INSERT INTO server_wrapped_stats (
+        year, generation_id, share_token,
+        total_users, active_users, total_watch_time_minutes, total_listening_minutes,
+        total_plays, total_movies, total_tv_episodes,
+        top_movies, top_shows, busiest_day_date, busiest_day_minutes,
+        top_devices, most_popular_device, new_users
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      ON CONFLICT (year) DO UPDATE SET
+        generation_id = EXCLUDED.generation_id,
+        total_users = EXCLUDED.total_users,
+        active_users = EXCLUDED.active_users,
+        total_watch_time_minutes = EXCLUDED.total_watch_time_minutes,
+        total_listening_minutes = EXCLUDED.total_listening_minutes,
+        total_plays = EXCLUDED.total_plays,
+        total_movies = EXCLUDED.total_movies,
+        total_tv_episodes = EXCLUDED.total_tv_episodes,
+        top_movies = EXCLUDED.top_movies,
+        top_shows = EXCLUDED.top_shows,
+        busiest_day_date = EXCLUDED.busiest_day_date,
+        busiest_day_minutes = EXCLUDED.busiest_day_minutes,
+        top_devices = EXCLUDED.top_devices,
+        most_popular_device = EXCLUDED.most_popular_device,
+        new_users = EXCLUDED.new_users,
+        generated_at = CURRENT_TIMESTAMP
+      RETURNING *`,
+      [
+        year,
+        generationId,
+        shareToken,
+        stats.totalUsers,
+        stats.activeUsers,
+        stats.totalWatchTimeMinutes,
+        stats.totalListeningMinutes,
+        stats.totalPlays,
+        stats.totalMovies,
+        stats.totalTvEpisodes,
+        JSON.stringify(stats.topMovies),
+        JSON.stringify(stats.topShows),
+        stats.busiestDayDate,
+        stats.busiestDayMinutes,
+        JSON.stringify(stats.topDevices),
+        stats.mostPopularDevice,
+        JSON.stringify(stats.newUsers),
+      ]
+    );
+  }
+
+  /**
+   * Find the report for a year
+   */
+  static async findByYear(year: number): Promise<ServerWrappedStats | null> {
+    return db.oneOrNone<ServerWrappedStats>(
+      'SELECT * FROM server_wrapped_stats WHERE year = $1',
+      [year]
+    );
+  }
+
+  /**
+   * Find a report by its public share token
+   */
+  static async findByToken(token: string): Promise<ServerWrappedStats | null> {
+    return db.oneOrNone<ServerWrappedStats>(
+      'SELECT * FROM server_wrapped_stats WHERE share_token = $1',
+      [token]
+    );
+  }
+}
+
+export default ServerWrappedStatsModel;
@@ -0,0 +1,66 @@
+import { db, type DbContext } from '../config/database';
+import type { ProcessedStats } from '../processors/stats-calculator';
+
+export interface StagedWrappedStats {
+  id: number;
+  generation_id: number;
+  user_id: number;
+  year: number;
+  stats: ProcessedStats;
+  processing_time_seconds: number | null;
+  created_at: Date;
+}
+
+export interface StagedWrappedStatsWithUser extends StagedWrappedStats {
+  username: string;
+  friendly_name: string | null;
+}
+
+export interface StagedWrappedStatsCreate {
+  generation_id: number;
+  user_id: number;
+  year: number;
+  stats: ProcessedStats;
+  processing_time_seconds?: number;
+}
+
+export class StagedWrappedStatsModel {
+  /**
+   * Stage a user's stats for a dry run, replacing an earlier attempt in the same run
+   */
+  static async upsert(data: StagedWrappedStatsCreate): Promise<StagedWrappedStats> {
+    return db.one<StagedWrappedStats>(
+      `INSERT INTO staged_wrapped_stats (generation_id, user_id, year, stats, processing_time_seconds)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (generation_id, user_id) DO UPDATE SET
+         stats = EXCLUDED.stats,
+         processing_time_seconds = EXCLUDED.processing_time_seconds,
+         created_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        data.generation_id,
+        data.user_id,
+        data.year,
+        JSON.stringify(data.stats),
+        data.processing_time_seconds || null,
+      ]
+    );
+  }
+
+  static async findByGeneration(generationId: number): Promise<StagedWrappedStatsWithUser[]> {
+    return db.manyOrNone<StagedWrappedStatsWithUser>(
+      `SELECT s.*, u.username, u.friendly_name
+       FROM staged_wrapped_stats s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.generation_id = $1
+       ORDER BY u.username ASC`,
+      [generationId]
+    );
+  }
+
+  static async deleteByGeneration(generationId: number, t: DbContext = db): Promise<void> {
+    await t.none('DELETE FROM staged_wrapped_stats WHERE generation_id = $1', [generationId]);
+  }
+}
+
+export default StagedWrappedStatsModel;
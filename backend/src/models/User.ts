@@ -13,6 +13,8 @@ export interface User {
   is_allow_sync: boolean;
   is_restricted: boolean;
   preferred_language: string;
+  timezone: string | null;
+  history_provider: string;
   created_at: Date;
   updated_at: Date;
   last_seen: Date | null;
@@ -29,6 +31,8 @@ export interface UserCreate {
   is_allow_sync?: boolean;
   is_restricted?: boolean;
   preferred_language?: string;
+  timezone?: string | null;
+  history_provider?: string;
 }
 
 export interface UserUpdate {
@@ -41,6 +45,7 @@ export interface UserUpdate {
   is_allow_sync?: boolean;
   is_restricted?: boolean;
   preferred_language?: string;
+  timezone?: string | null;
   last_seen?: Date;
 }
 
@@ -52,8 +57,8 @@ export class UserModel {
     return db.one<User>(
       `INSERT INTO users (
         plex_user_id, username, email, friendly_name, thumb,
-        is_admin, is_home_user, is_allow_sync, is_restricted
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        is_admin, is_home_user, is_allow_sync, is_restricted, history_provider
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *`,
       [
         data.plex_user_id,
@@ -65,6 +70,7 @@ export class UserModel {
         data.is_home_user || true,
         data.is_allow_sync || false,
         data.is_restricted || false,
+        data.history_provider || 'tautulli',
       ]
     );
   }
@@ -90,6 +96,25 @@ export class UserModel {
     return db.oneOrNone<User>('SELECT * FROM users WHERE email = $1', [email]);
   }
 
+  /**
+   * Find the user an account on a history source belongs to
+   * Accounts already linked come first, then the same Plex user id, then the same email
+   */
+  static async findByServerAccount(source: string, plexUserId: number, email?: string | null): Promise<User | null> {
+    const linked = await db.oneOrNone<User>(
+      `SELECT u.* FROM users u
+       JOIN user_server_accounts a ON a.user_id = u.id
+       WHERE a.source = $1 AND a.plex_user_id = $2`,
+      [source, plexUserId]
+    );
+    if (linked) return linked;
+
+    const byPlexUserId = await this.findByPlexUserId(plexUserId);
+    if (byPlexUserId) return byPlexUserId;
+
+    return email ? db.oneOrNone<User>('SELECT * FROM users WHERE LOWER(email) = LOWER($1) LIMIT 1', [email]) : null;
+  }
+
   /**
    * Find all users
    */
@@ -149,8 +174,8 @@ export class UserModel {
     return db.one<User>(
       `INSERT INTO users (
         plex_user_id, username, email, friendly_name, thumb,
-        is_admin, is_home_user, is_allow_sync, is_restricted
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        is_admin, is_home_user, is_allow_sync, is_restricted, history_provider
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       ON CONFLICT (plex_user_id) DO UPDATE SET
         username = EXCLUDED.username,
         email = EXCLUDED.email,
@@ -160,6 +185,7 @@ export class UserModel {
         is_home_user = EXCLUDED.is_home_user,
         is_allow_sync = EXCLUDED.is_allow_sync,
         is_restricted = EXCLUDED.is_restricted,
+        history_provider = EXCLUDED.history_provider,
         updated_at = CURRENT_TIMESTAMP
       RETURNING *`,
       [
@@ -172,6 +198,7 @@ export class UserModel {
         data.is_home_user || true,
         data.is_allow_sync || false,
         data.is_restricted || false,
+        data.history_provider || 'tautulli',
       ]
     );
   }
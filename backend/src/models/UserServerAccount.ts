@@ -0,0 +1,48 @@
+import { db, type DbContext } from '../config/database';
+
+export interface UserServerAccount {
+  source: string;
+  plex_user_id: number;
+  user_id: number;
+  created_at: Date;
+}
+
+export class UserServerAccountModel {
+  /**
+   * Record that an account on a history source belongs to a user
+   * An account already linked elsewhere moves to this user
+   */
+  static async link(userId: number, source: string, plexUserId: number, t: DbContext = db): Promise<void> {
+    await t.none(
+      `INSERT INTO user_server_accounts (source, plex_user_id, user_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (source, plex_user_id) DO UPDATE SET user_id = EXCLUDED.user_id`,
+      [source, plexUserId, userId]
+    );
+  }
+
+  /**
+   * The user an account on a history source is linked to
+   */
+  static async findUserId(source: string, plexUserId: number): Promise<number | null> {
+    const row = await db.oneOrNone<{ user_id: number }>(
+      'SELECT user_id FROM user_server_accounts WHERE source = $1 AND plex_user_id = $2',
+      [source, plexUserId]
+    );
+    return row ? row.user_id : null;
+  }
+
+  static async findByUser(userId: number): Promise<UserServerAccount[]> {
+    return db.manyOrNone('SELECT * FROM user_server_accounts WHERE user_id = $1 ORDER BY source', [userId]);
+  }
+
+  /**
+   * Unlink every account on a history source, e.g. when an import is replaced or removed
+   */
+  static async deleteBySource(source: string, t: DbContext = db): Promise<number> {
+    const result = await t.result('DELETE FROM user_server_accounts WHERE source = $1', [source]);
+    return result.rowCount;
+  }
+}
+
+export default UserServerAccountModel;
@@ -1,4 +1,4 @@
-import { db } from '../config/database';
+import { db, type DbContext } from '../config/database';
 import type { ProcessedStats } from '../processors/stats-calculator';
 
 export interface UserWrappedStats {
@@ -32,6 +32,15 @@ export interface UserWrappedStats {
   top_actors: any;
   top_directors: any;
 
+  // Music
+  total_listening_minutes: number;
+  total_tracks: number;
+  unique_artists: number;
+  top_artists: any;
+  top_albums: any;
+  top_tracks: any;
+  top_music_genres: any;
+
   // Device stats (JSONB)
   top_devices: any;
   top_platforms: any;
@@ -43,7 +52,10 @@ export interface UserWrappedStats {
 
   // Fun stats
   percentage_of_library_watched: number;
+  library_coverage: any;
   total_seasons_completed: number;
+  total_series_completed: number;
+  completed_shows: any;
   rewatches: number;
   first_watch_title: string | null;
   first_watch_date: Date | null;
@@ -56,8 +68,15 @@ export interface UserWrappedStats {
   fun_facts: any;
   badges: any;
 
-  // Raw data cache
-  raw_data: any;
+  // Overseerr request stats
+  overseerr_stats: any;
+  request_correlation: any;
+
+  // Standing relative to the rest of the server
+  percentiles: any;
+
+  // Plays per server the history came from
+  server_breakdown: any;
 
   // Metadata
   generated_at: Date;
@@ -74,10 +93,10 @@ export interface UserWrappedStatsCreate {
 }
 
 export class UserWrappedStatsModel {
-  static async create(data: UserWrappedStatsCreate): Promise<UserWrappedStats> {
+  static async create(data: UserWrappedStatsCreate, t: DbContext = db): Promise<UserWrappedStats> {
     const stats = data.stats;
 
-    return db.one<UserWrappedStats>(
+    return t.one<UserWrappedStats>(
       `INSERT INTO user_wrapped_stats (
         user_id, generation_id, year,
         total_watch_time_minutes, total_plays, total_movies, total_tv_episodes,
@@ -89,11 +108,17 @@ export class UserWrappedStatsModel {
         content_shared_with, percentage_of_library_watched, total_seasons_completed, rewatches,
         first_watch_title, first_watch_date, last_watch_title, last_watch_date,
         most_memorable_day_date, most_memorable_day_minutes,
-        fun_facts, badges, raw_data, processing_time_seconds
+        fun_facts, badges, processing_time_seconds, library_coverage,
+        total_series_completed, completed_shows,
+        total_listening_minutes, total_tracks, unique_artists,
+        top_artists, top_albums, top_tracks, top_music_genres,
+        overseerr_stats, request_correlation, server_breakdown
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
         $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30,
-        $31, $32, $33, $34, $35, $36, $37, $38, $39, $40
+        $31, $32, $33, $34, $35, $36, $37, $38, $39, $40, $41,
+        $42, $43, $44, $45, $46, $47, $48, $49, $50,
+        $51, $52, $53
       )
       ON CONFLICT (user_id, year) DO UPDATE SET
         generation_id = EXCLUDED.generation_id,
@@ -116,13 +141,23 @@ export class UserWrappedStatsModel {
         top_genres = EXCLUDED.top_genres,
         top_actors = EXCLUDED.top_actors,
         top_directors = EXCLUDED.top_directors,
+        total_listening_minutes = EXCLUDED.total_listening_minutes,
+        total_tracks = EXCLUDED.total_tracks,
+        unique_artists = EXCLUDED.unique_artists,
+        top_artists = EXCLUDED.top_artists,
+        top_albums = EXCLUDED.top_albums,
+        top_tracks = EXCLUDED.top_tracks,
+        top_music_genres = EXCLUDED.top_music_genres,
         top_devices = EXCLUDED.top_devices,
         top_platforms = EXCLUDED.top_platforms,
         quality_stats = EXCLUDED.quality_stats,
         monthly_stats = EXCLUDED.monthly_stats,
         content_shared_with = EXCLUDED.content_shared_with,
         percentage_of_library_watched = EXCLUDED.percentage_of_library_watched,
+        library_coverage = EXCLUDED.library_coverage,
         total_seasons_completed = EXCLUDED.total_seasons_completed,
+        total_series_completed = EXCLUDED.total_series_completed,
+        completed_shows = EXCLUDED.completed_shows,
         rewatches = EXCLUDED.rewatches,
         first_watch_title = EXCLUDED.first_watch_title,
         first_watch_date = EXCLUDED.first_watch_date,
@@ -132,7 +167,9 @@ export class UserWrappedStatsModel {
         most_memorable_day_minutes = EXCLUDED.most_memorable_day_minutes,
         fun_facts = EXCLUDED.fun_facts,
         badges = EXCLUDED.badges,
-        raw_data = EXCLUDED.raw_data,
+        overseerr_stats = EXCLUDED.overseerr_stats,
+        request_correlation = EXCLUDED.request_correlation,
+        server_breakdown = EXCLUDED.server_breakdown,
         processing_time_seconds = EXCLUDED.processing_time_seconds,
         generated_at = CURRENT_TIMESTAMP
       RETURNING *`,
@@ -175,8 +212,20 @@ export class UserWrappedStatsModel {
         stats.mostMemorableDayMinutes,
         JSON.stringify(stats.funFacts),
         JSON.stringify(stats.badges),
-        JSON.stringify(stats.overseerrStats || {}),
         data.processing_time_seconds || null,
+        JSON.stringify(stats.libraryCoverage || []),
+        stats.totalSeriesCompleted || 0,
+        JSON.stringify(stats.completedShows || []),
+        stats.totalListeningMinutes || 0,
+        stats.totalTracks || 0,
+        stats.uniqueArtists || 0,
+        JSON.stringify(stats.topArtists || []),
+        JSON.stringify(stats.topAlbums || []),
+        JSON.stringify(stats.topTracks || []),
+        JSON.stringify(stats.topMusicGenres || []),
+        stats.overseerrStats ? JSON.stringify(stats.overseerrStats) : null,
+        stats.requestCorrelation ? JSON.stringify(stats.requestCorrelation) : null,
+        JSON.stringify(stats.serverBreakdown || []),
       ]
     );
   }
@@ -213,6 +262,39 @@ export class UserWrappedStatsModel {
     await db.none('UPDATE user_wrapped_stats SET is_public = $1 WHERE id = $2', [isPublic, id]);
   }
 
+  static async updatePercentiles(id: number, percentiles: any, badges: any[]): Promise<void> {
+    await db.none(
+      'UPDATE user_wrapped_stats SET percentiles = $1, badges = $2 WHERE id = $3',
+      [JSON.stringify(percentiles), JSON.stringify(badges), id]
+    );
+  }
+
+  static async getRequestCorrelationSummary(year: number): Promise<{
+    requestedCount: number;
+    watchedCount: number;
+    averageHoursToFirstWatch: number | null;
+  }> {
+    const result = await db.one<{ requested: string; watched: string; avg_hours: string | null }>(
+      `SELECT
+        COALESCE(SUM((request_correlation->>'requestedCount')::int), 0) as requested,
+        COALESCE(SUM((request_correlation->>'watchedCount')::int), 0) as watched,
+        (
+          SELECT AVG((w->>'hoursToFirstWatch')::numeric)
+          FROM user_wrapped_stats s, jsonb_array_elements(s.request_correlation->'watched') w
+          WHERE s.year = $1
+        ) as avg_hours
+      FROM user_wrapped_stats
+      WHERE year = $1 AND request_correlation IS NOT NULL`,
+      [year]
+    );
+
+    return {
+      requestedCount: parseInt(result.requested, 10),
+      watchedCount: parseInt(result.watched, 10),
+      averageHoursToFirstWatch: result.avg_hours !== null ? parseFloat(parseFloat(result.avg_hours).toFixed(1)) : null,
+    };
+  }
+
   static async countByYear(year: number): Promise<number> {
     const result = await db.one<{ count: string }>(
       'SELECT COUNT(*) FROM user_wrapped_stats WHERE year = $1',
@@ -0,0 +1,254 @@
+import { db, pgp, type DbContext } from '../config/database';
+import type { TautulliHistoryRecord } from '../types/tautulli.types';
+
+// Source of history synced from Tautulli, other providers sync under their own name
+export const TAUTULLI_SOURCE = 'tautulli';
+
+// How far a webhook play's stop time may be from the synced play's start and stop times to count as the same play
+const WEBHOOK_MATCH_WINDOW_SECONDS = 300;
+
+export interface WatchHistorySourceCount {
+  source: string;
+  records: number;
+  latest_date: number | null;
+  // Plays received by webhook that no sync has replaced yet
+  webhook_records: number;
+}
+
+// Tautulli sends numbers as strings at times, and empty strings for missing ones
+const toInt = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = parseInt(String(value), 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const toList = (value: any): string[] => (Array.isArray(value) ? value : []);
+
+const columns = new pgp.helpers.ColumnSet(
+  [
+    'source', 'row_id', 'reference_id', 'plex_user_id', 'username', 'friendly_name',
+    'date', 'started', 'stopped', 'duration', 'paused_counter',
+    'platform', 'product', 'player',
+    'media_type', 'rating_key', 'parent_rating_key', 'grandparent_rating_key',
+    'title', 'parent_title', 'grandparent_title', 'original_title', 'year',
+    'media_index', 'parent_media_index', 'thumb', 'parent_thumb', 'grandparent_thumb', 'guid',
+    'video_decision', 'audio_decision', 'transcode_decision', 'stream_video_resolution',
+    'percent_complete', 'watched_status',
+    { name: 'genres', mod: ':json' },
+    { name: 'actors', mod: ':json' },
+    { name: 'directors', mod: ':json' },
+  ],
+  { table: 'watch_history' }
+);
+
+/**
+ * Shape a Tautulli history record as a watch_history row
+ */
+function toRow(record: TautulliHistoryRecord, source: string): Record<string, any> {
+  return {
+    source,
+    row_id: toInt(record.row_id),
+    reference_id: toInt(record.reference_id),
+    plex_user_id: toInt(record.user_id),
+    username: record.user || null,
+    friendly_name: record.friendly_name || null,
+    date: toInt(record.date),
+    started: toInt(record.started),
+    stopped: toInt(record.stopped),
+    duration: toInt(record.duration) || 0,
+    paused_counter: toInt(record.paused_counter) || 0,
+    platform: record.platform || null,
+    product: record.product || null,
+    player: record.player || null,
+    media_type: record.media_type,
+    rating_key: toInt(record.rating_key),
+    parent_rating_key: toInt(record.parent_rating_key),
+    grandparent_rating_key: toInt(record.grandparent_rating_key),
+    title: record.title || null,
+    parent_title: record.parent_title || null,
+    grandparent_title: record.grandparent_title || null,
+    original_title: record.original_title || null,
+    year: toInt(record.year),
+    media_index: toInt(record.media_index),
+    parent_media_index: toInt(record.parent_media_index),
+    thumb: record.thumb || null,
+    parent_thumb: record.parent_thumb || null,
+    grandparent_thumb: record.grandparent_thumb || null,
+    guid: record.guid || null,
+    video_decision: record.video_decision || null,
+    audio_decision: record.audio_decision || null,
+    transcode_decision: record.transcode_decision || null,
+    stream_video_resolution: record.stream_video_resolution || null,
+    percent_complete: toInt(record.percent_complete),
+    watched_status: record.watched_status ?? null,
+    genres: toList(record.genres),
+    actors: toList(record.actors),
+    directors: toList(record.directors),
+  };
+}
+
+/**
+ * Shape a watch_history row back into the record the stats calculator consumes
+ */
+function toRecord(row: any): TautulliHistoryRecord {
+  return {
+    ...row,
+    user_id: row.plex_user_id,
+    user: row.username,
+    date: Number(row.date),
+    started: Number(row.started),
+    stopped: Number(row.stopped),
+    watched_status: Number(row.watched_status),
+  } as TautulliHistoryRecord;
+}
+
+export class WatchHistoryModel {
+  /**
+   * Insert or refresh records by source and row id
+   */
+  static async upsertMany(
+    records: TautulliHistoryRecord[],
+    source: string = TAUTULLI_SOURCE,
+    t: DbContext = db
+  ): Promise<number> {
+    const rows = records.map((record) => toRow(record, source)).filter((row) => row.row_id !== null && row.date !== null);
+    if (rows.length === 0) return 0;
+
+    const query =
+      pgp.helpers.insert(rows, columns) +
+      ' ON CONFLICT (source, row_id) DO UPDATE SET ' +
+      columns.assignColumns({ from: 'EXCLUDED', skip: ['source', 'row_id'] }) +
+      ', synced_at = CURRENT_TIMESTAMP';
+
+    await t.none(query);
+    return rows.length;
+  }
+
+  /**
+   * A user's plays between two unix timestamps, newest first like Tautulli returns them
+   * Covers the user's own account on their provider and the accounts linked to them in user_server_accounts,
+   * which include accounts on other servers and imported history
+   */
+  static async findByUser(
+    plexUserId: number,
+    startTimestamp: number,
+    endTimestamp: number,
+    mediaType?: TautulliHistoryRecord['media_type']
+  ): Promise<TautulliHistoryRecord[]> {
+    return db.map(
+      `SELECT w.* FROM watch_history w
+       JOIN users u ON u.plex_user_id = $1
+       WHERE w.date BETWEEN $2 AND $3
+         AND ($4::text IS NULL OR w.media_type = $4)
+         AND (
+           (w.source = u.history_provider AND w.plex_user_id = $1)
+           OR (w.source, w.plex_user_id) IN (
+             SELECT a.source, a.plex_user_id
+             FROM user_server_accounts a
+             WHERE a.user_id = u.id
+           )
+         )
+       ORDER BY w.date DESC, w.row_id DESC`,
+      [plexUserId, startTimestamp, endTimestamp, mediaType ?? null],
+      toRecord
+    );
+  }
+
+  /**
+   * Newest row id synced from a provider, incremental syncs fetch everything after it
+   */
+  static async getLatestRowId(source: string = TAUTULLI_SOURCE): Promise<number | null> {
+    const result = await db.one<{ row_id: number | null }>(
+      'SELECT MAX(row_id) AS row_id FROM watch_history WHERE source = $1 AND row_id > 0',
+      [source]
+    );
+    return result.row_id;
+  }
+
+  /**
+   * Whether a play received by webhook was already synced from the provider's history
+   */
+  static async hasSyncedPlay(record: TautulliHistoryRecord, source: string = TAUTULLI_SOURCE): Promise<boolean> {
+    const row = await db.oneOrNone(
+      `SELECT 1 FROM watch_history
+       WHERE source = $1 AND row_id > 0
+         AND plex_user_id = $2 AND rating_key = $3
+         AND $4 BETWEEN started - $5 AND stopped + $5
+       LIMIT 1`,
+      [source, toInt(record.user_id), toInt(record.rating_key), toInt(record.stopped), WEBHOOK_MATCH_WINDOW_SECONDS]
+    );
+    return row !== null;
+  }
+
+  /**
+   * Drop plays received by webhook that the history sync has since stored with their real row id
+   */
+  static async deleteWebhookDuplicates(source: string = TAUTULLI_SOURCE, t: DbContext = db): Promise<number> {
+    const result = await t.result(
+      `DELETE FROM watch_history w
+       USING watch_history h
+       WHERE w.source = $1 AND w.row_id < 0
+         AND h.source = w.source AND h.row_id > 0
+         AND h.plex_user_id = w.plex_user_id
+         AND h.rating_key = w.rating_key
+         AND w.stopped BETWEEN h.started - $2 AND h.stopped + $2`,
+      [source, WEBHOOK_MATCH_WINDOW_SECONDS]
+    );
+    return result.rowCount;
+  }
+
+  /**
+   * Day with the most watch time across all users, days bucketed in the given timezone
+   */
+  static async getBusiestDay(
+    startTimestamp: number,
+    endTimestamp: number,
+    timeZone: string
+  ): Promise<{ day: string; seconds: number } | null> {
+    const row = await db.oneOrNone(
+      `SELECT to_char(to_timestamp(date) AT TIME ZONE $3, 'YYYY-MM-DD') AS day, SUM(duration) AS seconds
+       FROM watch_history
+       WHERE date BETWEEN $1 AND $2
+       GROUP BY day
+       ORDER BY seconds DESC
+       LIMIT 1`,
+      [startTimestamp, endTimestamp, timeZone]
+    );
+    return row ? { day: row.day, seconds: Number(row.seconds) } : null;
+  }
+
+  static async count(): Promise<number> {
+    const result = await db.one<{ count: string }>('SELECT COUNT(*) FROM watch_history');
+    return parseInt(result.count, 10);
+  }
+
+  /**
+   * Stored records per source, synced history and each import
+   */
+  static async countBySource(): Promise<WatchHistorySourceCount[]> {
+    return db.map(
+      `SELECT source, COUNT(*) AS records, MAX(date) AS latest_date,
+              COUNT(*) FILTER (WHERE row_id < 0) AS webhook_records
+       FROM watch_history
+       GROUP BY source
+       ORDER BY source`,
+      [],
+      (row) => ({
+        source: row.source,
+        records: parseInt(row.records, 10),
+        latest_date: row.latest_date !== null ? Number(row.latest_date) : null,
+        webhook_records: parseInt(row.webhook_records, 10),
+      })
+    );
+  }
+
+  /**
+   * Remove everything from one source, e.g. to replace an import
+   */
+  static async deleteBySource(source: string, t: DbContext = db): Promise<number> {
+    const result = await t.result('DELETE FROM watch_history WHERE source = $1', [source]);
+    return result.rowCount;
+  }
+}
+
+export default WatchHistoryModel;
@@ -1,9 +1,9 @@
-import { db } from '../config/database';
+import { db, type DbContext } from '../config/database';
 
 export interface WrappedGeneration {
   id: number;
   year: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   started_at: Date | null;
   completed_at: Date | null;
   total_users: number;
@@ -13,6 +13,8 @@ export interface WrappedGeneration {
   error_log: string | null;
   triggered_by: string | null;
   config: any;
+  dry_run: boolean;
+  published_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -21,6 +23,7 @@ export interface WrappedGenerationCreate {
   year: number;
   triggered_by?: string;
   config?: any;
+  dry_run?: boolean;
 }
 
 export interface WrappedGenerationUpdate {
@@ -37,10 +40,10 @@ export interface WrappedGenerationUpdate {
 export class WrappedGenerationModel {
   static async create(data: WrappedGenerationCreate): Promise<WrappedGeneration> {
     return db.one<WrappedGeneration>(
-      `INSERT INTO wrapped_generations (year, triggered_by, config, status)
-       VALUES ($1, $2, $3, 'pending')
+      `INSERT INTO wrapped_generations (year, triggered_by, config, dry_run, status)
+       VALUES ($1, $2, $3, $4, 'pending')
        RETURNING *`,
-      [data.year, data.triggered_by || null, data.config || null]
+      [data.year, data.triggered_by || null, data.config || null, data.dry_run || false]
     );
   }
 
@@ -58,6 +61,12 @@ export class WrappedGenerationModel {
     );
   }
 
+  static async findUnfinished(): Promise<WrappedGeneration[]> {
+    return db.manyOrNone<WrappedGeneration>(
+      "SELECT * FROM wrapped_generations WHERE status IN ('pending', 'processing', 'paused') ORDER BY created_at ASC"
+    );
+  }
+
   static async findAll(limit = 50): Promise<WrappedGeneration[]> {
     return db.manyOrNone<WrappedGeneration>(
       'SELECT * FROM wrapped_generations ORDER BY created_at DESC LIMIT $1',
@@ -102,6 +111,29 @@ export class WrappedGenerationModel {
     );
   }
 
+  /**
+   * Take failed users back out of the counts so they can be processed again
+   */
+  static async requeueFailed(id: number, count: number): Promise<void> {
+    await db.none(
+      `UPDATE wrapped_generations
+       SET status = 'processing',
+           processed_users = GREATEST(processed_users - $2, 0),
+           failed_users = GREATEST(failed_users - $2, 0),
+           completed_at = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, count]
+    );
+  }
+
+  static async markPublished(id: number, t: DbContext = db): Promise<void> {
+    await t.none(
+      'UPDATE wrapped_generations SET published_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+  }
+
   static async getLatestByYear(year: number): Promise<WrappedGeneration | null> {
     return db.oneOrNone<WrappedGeneration>(
       'SELECT * FROM wrapped_generations WHERE year = $1 ORDER BY created_at DESC LIMIT 1',
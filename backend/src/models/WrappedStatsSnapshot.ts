@@ -0,0 +1,131 @@
+import { db, type DbContext } from '../config/database';
+import type { UserWrappedStats } from './UserWrappedStats';
+
+export interface WrappedStatsSnapshot {
+  id: number;
+  user_wrapped_stats_id: number;
+  user_id: number;
+  year: number;
+  generation_id: number | null;
+  data: Record<string, any>;
+  is_active: boolean;
+  created_at: Date;
+}
+
+// Identity and sharing columns stay as they are when a snapshot is restored
+const KEPT_COLUMNS = ['id', 'user_id', 'year', 'is_public'];
+
+export class WrappedStatsSnapshotModel {
+  /**
+   * Snapshot a user's live stats row and make it the active snapshot for the year
+   */
+  static async capture(userWrappedStatsId: number, context: DbContext = db): Promise<WrappedStatsSnapshot> {
+    return context.tx(async (t) => {
+      const snapshot = await t.one<WrappedStatsSnapshot>(
+        `INSERT INTO wrapped_stats_snapshots (user_wrapped_stats_id, user_id, year, generation_id, data, is_active)
+         SELECT id, user_id, year, generation_id, to_jsonb(uws), true
+         FROM user_wrapped_stats uws
+         WHERE id = $1
+         ON CONFLICT (user_id, year, generation_id) DO UPDATE SET
+           user_wrapped_stats_id = EXCLUDED.user_wrapped_stats_id,
+           data = EXCLUDED.data,
+           is_active = true,
+           created_at = CURRENT_TIMESTAMP
+         RETURNING *`,
+        [userWrappedStatsId]
+      );
+
+      await t.none(
+        'UPDATE wrapped_stats_snapshots SET is_active = false WHERE user_id = $1 AND year = $2 AND id <> $3',
+        [snapshot.user_id, snapshot.year, snapshot.id]
+      );
+
+      return snapshot;
+    });
+  }
+
+  /**
+   * Copy changes made to live rows after the generation (percentiles, relative badges) into their active snapshots
+   */
+  static async syncActiveForYear(year: number): Promise<void> {
+    await db.none(
+      `UPDATE wrapped_stats_snapshots s
+       SET data = to_jsonb(uws)
+       FROM user_wrapped_stats uws
+       WHERE s.user_wrapped_stats_id = uws.id AND s.is_active = true AND uws.year = $1`,
+      [year]
+    );
+  }
+
+  /**
+   * Put a snapshot back into the user's live stats row and mark it active
+   * Tokens point at the live row, so existing links show the restored stats
+   */
+  static async restore(snapshotId: number): Promise<UserWrappedStats | null> {
+    return db.tx(async (t) => {
+      const snapshot = await t.oneOrNone<WrappedStatsSnapshot>(
+        'SELECT * FROM wrapped_stats_snapshots WHERE id = $1',
+        [snapshotId]
+      );
+      if (!snapshot) return null;
+
+      const columns = await t.map<string>(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'user_wrapped_stats'
+           AND NOT (column_name::text = ANY($1))`,
+        [KEPT_COLUMNS],
+        (row) => row.column_name
+      );
+
+      const restored = await t.oneOrNone<UserWrappedStats>(
+        `UPDATE user_wrapped_stats uws
+         SET ${columns.map((column) => `"${column}" = snapshot."${column}"`).join(', ')}
+         FROM jsonb_populate_record(NULL::user_wrapped_stats, $1) snapshot
+         WHERE uws.user_id = $2 AND uws.year = $3
+         RETURNING uws.*`,
+        [snapshot.data, snapshot.user_id, snapshot.year]
+      );
+      if (!restored) return null;
+
+      await t.none(
+        'UPDATE wrapped_stats_snapshots SET is_active = (id = $1) WHERE user_id = $2 AND year = $3',
+        [snapshot.id, snapshot.user_id, snapshot.year]
+      );
+
+      return restored;
+    });
+  }
+
+  static async findById(id: number): Promise<WrappedStatsSnapshot | null> {
+    return db.oneOrNone<WrappedStatsSnapshot>(
+      'SELECT * FROM wrapped_stats_snapshots WHERE id = $1',
+      [id]
+    );
+  }
+
+  /**
+   * All of a user's snapshots for a year, newest first
+   */
+  static async findByUserAndYear(userId: number, year: number): Promise<WrappedStatsSnapshot[]> {
+    return db.manyOrNone<WrappedStatsSnapshot>(
+      'SELECT * FROM wrapped_stats_snapshots WHERE user_id = $1 AND year = $2 ORDER BY created_at DESC',
+      [userId, year]
+    );
+  }
+
+  static async findActive(userId: number, year: number): Promise<WrappedStatsSnapshot | null> {
+    return db.oneOrNone<WrappedStatsSnapshot>(
+      'SELECT * FROM wrapped_stats_snapshots WHERE user_id = $1 AND year = $2 AND is_active = true',
+      [userId, year]
+    );
+  }
+
+  static async findByGeneration(generationId: number): Promise<WrappedStatsSnapshot[]> {
+    return db.manyOrNone<WrappedStatsSnapshot>(
+      'SELECT * FROM wrapped_stats_snapshots WHERE generation_id = $1',
+      [generationId]
+    );
+  }
+}
+
+export default WrappedStatsSnapshotModel;
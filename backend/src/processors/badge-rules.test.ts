@@ -0,0 +1,78 @@
+import { evaluateBadges, getBadgeMetric, meetsThreshold } from './badge-rules';
+import type { BadgeComparator } from '../models/BadgeDefinition';
+import type { UserWrappedStats } from '../models/UserWrappedStats';
+import type { ProcessedStats } from './stats-calculator';
+
+const names = { en: { name: 'Test', description: 'A test badge' } };
+
+function definition(key: string, metric: string, comparator: BadgeComparator, threshold: number) {
+  return { key, metric, comparator, threshold, icon: '🏅', names };
+}
+
+describe('meetsThreshold', () => {
+  it.each<[BadgeComparator, number, boolean]>([
+    ['>', 10, false],
+    ['>', 9, true],
+    ['>=', 10, true],
+    ['>=', 11, false],
+    ['<', 10, false],
+    ['<', 11, true],
+    ['<=', 10, true],
+    ['<=', 9, false],
+    ['=', 10, true],
+    ['=', 10.5, false],
+  ])('10 %s %d is %s', (comparator, threshold, expected) => {
+    expect(meetsThreshold(10, comparator, threshold)).toBe(expected);
+  });
+
+  it('never passes an unknown comparator', () => {
+    expect(meetsThreshold(10, '!=' as BadgeComparator, 5)).toBe(false);
+  });
+});
+
+describe('evaluateBadges', () => {
+  const values: Record<string, number> = {
+    totalPlays: 120,
+    daysActive: 200,
+    mostActiveHour: 3,
+  };
+  const getValue = (metric: { key: string }) => values[metric.key];
+
+  it('returns the unlocked badges with their value and threshold', () => {
+    const badges = evaluateBadges(
+      [
+        definition('binger', 'totalPlays', '>=', 100),
+        definition('regular', 'daysActive', '>', 300),
+        definition('night-owl', 'mostActiveHour', '<', 5),
+      ],
+      getValue
+    );
+
+    expect(badges).toEqual([
+      { key: 'binger', icon: '🏅', params: { value: 120, threshold: 100 }, names },
+      { key: 'night-owl', icon: '🏅', params: { value: 3, threshold: 5 }, names },
+    ]);
+  });
+
+  it('skips definitions for metrics that no longer exist', () => {
+    expect(evaluateBadges([definition('gone', 'removedMetric', '>', 0)], getValue)).toEqual([]);
+  });
+
+  it('treats missing values as zero', () => {
+    const badges = evaluateBadges([definition('idle', 'totalMovies', '=', 0)], getValue);
+    expect(badges.map((b) => b.params)).toEqual([{ value: 0, threshold: 0 }]);
+  });
+
+  it('compares thresholds stored as numeric strings by value', () => {
+    const stored = { ...definition('binger', 'totalPlays', '>', 0), threshold: '99.5' as unknown as number };
+    expect(evaluateBadges([stored], getValue)[0].params).toEqual({ value: 120, threshold: 99.5 });
+  });
+});
+
+describe('getBadgeMetric', () => {
+  it('reads the same metric from stats and stored rows', () => {
+    const metric = getBadgeMetric('overseerrRequests')!;
+    expect(metric.fromStats({ overseerrStats: { totalRequests: 4 } } as unknown as ProcessedStats)).toBe(4);
+    expect(metric.fromRow({ overseerr_stats: null } as unknown as UserWrappedStats)).toBe(0);
+  });
+});
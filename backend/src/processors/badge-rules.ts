@@ -0,0 +1,166 @@
+import type { BadgeComparator, BadgeDefinition } from '../models/BadgeDefinition';
+import type { UserWrappedStats } from '../models/UserWrappedStats';
+import type { Badge, ProcessedStats } from './stats-calculator';
+
+export interface BadgeMetric {
+  key: string;
+  label: string;
+  fromStats: (stats: ProcessedStats) => number;
+  fromRow: (row: UserWrappedStats) => number;
+}
+
+/**
+ * Stats a badge rule can check
+ * Each metric reads from freshly calculated stats and from a stored wrapped row (for previews)
+ */
+export const BADGE_METRICS: BadgeMetric[] = [
+  {
+    key: 'totalWatchTimeMinutes',
+    label: 'Total watch time (minutes)',
+    fromStats: (s) => s.totalWatchTimeMinutes,
+    fromRow: (r) => r.total_watch_time_minutes,
+  },
+  {
+    key: 'totalPlays',
+    label: 'Total plays',
+    fromStats: (s) => s.totalPlays,
+    fromRow: (r) => r.total_plays,
+  },
+  {
+    key: 'totalMovies',
+    label: 'Movies watched',
+    fromStats: (s) => s.totalMovies,
+    fromRow: (r) => r.total_movies,
+  },
+  {
+    key: 'totalTvEpisodes',
+    label: 'Episodes watched',
+    fromStats: (s) => s.totalTvEpisodes,
+    fromRow: (r) => r.total_tv_episodes,
+  },
+  {
+    key: 'uniqueShows',
+    label: 'Different shows watched',
+    fromStats: (s) => s.uniqueShows,
+    fromRow: (r) => r.unique_shows,
+  },
+  {
+    key: 'daysActive',
+    label: 'Days active',
+    fromStats: (s) => s.daysActive,
+    fromRow: (r) => r.days_active,
+  },
+  {
+    key: 'longestStreakDays',
+    label: 'Longest streak (days)',
+    fromStats: (s) => s.longestStreakDays,
+    fromRow: (r) => r.longest_streak_days,
+  },
+  {
+    key: 'longestBingeMinutes',
+    label: 'Longest binge (minutes)',
+    fromStats: (s) => s.longestBingeMinutes,
+    fromRow: (r) => r.longest_binge_minutes,
+  },
+  {
+    key: 'mostActiveHour',
+    label: 'Most active hour (0-23)',
+    fromStats: (s) => s.mostActiveHour,
+    fromRow: (r) => r.most_active_hour ?? 0,
+  },
+  {
+    key: 'rewatches',
+    label: 'Titles rewatched',
+    fromStats: (s) => s.rewatches,
+    fromRow: (r) => r.rewatches,
+  },
+  {
+    key: 'percentageOfLibraryWatched',
+    label: 'Library watched (%)',
+    fromStats: (s) => Number(s.percentageOfLibraryWatched),
+    fromRow: (r) => Number(r.percentage_of_library_watched),
+  },
+  {
+    key: 'totalSeasonsCompleted',
+    label: 'Seasons completed',
+    fromStats: (s) => s.totalSeasonsCompleted,
+    fromRow: (r) => r.total_seasons_completed,
+  },
+  {
+    key: 'totalSeriesCompleted',
+    label: 'Series completed',
+    fromStats: (s) => s.totalSeriesCompleted,
+    fromRow: (r) => r.total_series_completed,
+  },
+  {
+    key: 'totalListeningMinutes',
+    label: 'Music listened (minutes)',
+    fromStats: (s) => s.totalListeningMinutes,
+    fromRow: (r) => r.total_listening_minutes,
+  },
+  {
+    key: 'uniqueArtists',
+    label: 'Different artists played',
+    fromStats: (s) => s.uniqueArtists,
+    fromRow: (r) => r.unique_artists,
+  },
+  {
+    key: 'overseerrRequests',
+    label: 'Overseerr requests',
+    fromStats: (s) => s.overseerrStats?.totalRequests || 0,
+    fromRow: (r) => r.overseerr_stats?.totalRequests || 0,
+  },
+];
+
+export const BADGE_COMPARATORS: BadgeComparator[] = ['>', '>=', '<', '<=', '='];
+
+export function getBadgeMetric(key: string): BadgeMetric | undefined {
+  return BADGE_METRICS.find((m) => m.key === key);
+}
+
+/**
+ * Check a metric value against a rule
+ */
+export function meetsThreshold(value: number, comparator: BadgeComparator, threshold: number): boolean {
+  switch (comparator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+    case '=':
+      return value === threshold;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate badge definitions against a metric lookup, returning the badges that were unlocked
+ */
+export function evaluateBadges(
+  definitions: Pick<BadgeDefinition, 'key' | 'metric' | 'comparator' | 'threshold' | 'icon' | 'names'>[],
+  getValue: (metric: BadgeMetric) => number
+): Badge[] {
+  const badges: Badge[] = [];
+
+  definitions.forEach((definition) => {
+    const metric = getBadgeMetric(definition.metric);
+    if (!metric) return;
+
+    const value = Number(getValue(metric)) || 0;
+    if (!meetsThreshold(value, definition.comparator, Number(definition.threshold))) return;
+
+    badges.push({
+      key: definition.key,
+      icon: definition.icon,
+      params: { value, threshold: Number(definition.threshold) },
+      names: definition.names,
+    });
+  });
+
+  return badges;
+}
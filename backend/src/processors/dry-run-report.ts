@@ -0,0 +1,123 @@
+import type { UserWrappedStats } from '../models/UserWrappedStats';
+import type { StagedWrappedStatsWithUser } from '../models/StagedWrappedStats';
+import type { ProcessedStats } from './stats-calculator';
+import { diffStats, processedStatsToRow, summarizeChanges, type StatsChange } from './stats-diff';
+import { mergeRelativeBadges } from './percentiles';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface DryRunUser {
+  userId: number;
+  username: string;
+}
+
+export interface DryRunUserChange extends DryRunUser {
+  // No live stats yet, everything is new
+  isNew: boolean;
+  changes: StatsChange[];
+  summary: string;
+}
+
+export interface DryRunAnomaly extends DryRunUser {
+  type: 'dayOver24h' | 'monthOverCapacity' | 'playsWithoutWatchTime' | 'playsDropped';
+  message: string;
+}
+
+export interface DryRunReport {
+  totalUsers: number;
+  newUsers: number;
+  unchangedUsers: number;
+  changedUsers: DryRunUserChange[];
+  noHistoryUsers: DryRunUser[];
+  anomalies: DryRunAnomaly[];
+}
+
+/**
+ * Compare a dry run's staged stats with the live ones and flag numbers that can't be right
+ */
+export function buildDryRunReport(staged: StagedWrappedStatsWithUser[], liveRows: UserWrappedStats[]): DryRunReport {
+  const liveByUser = new Map(liveRows.map((row) => [row.user_id, row]));
+  const report: DryRunReport = {
+    totalUsers: staged.length,
+    newUsers: 0,
+    unchangedUsers: 0,
+    changedUsers: [],
+    noHistoryUsers: [],
+    anomalies: [],
+  };
+
+  staged.forEach((row) => {
+    const user: DryRunUser = { userId: row.user_id, username: row.friendly_name || row.username };
+    const stats = row.stats;
+    const live = liveByUser.get(row.user_id);
+
+    if (!stats.totalPlays) {
+      report.noHistoryUsers.push(user);
+    }
+
+    if (!live) {
+      report.newUsers++;
+      report.changedUsers.push({ ...user, isNew: true, changes: [], summary: 'No live stats yet' });
+    } else {
+      // Relative badges are only awarded once the results are published, so leave them out
+      const changes = diffStats(
+        { ...live, badges: mergeRelativeBadges(live.badges, []) },
+        processedStatsToRow(stats)
+      );
+
+      if (changes.length === 0) {
+        report.unchangedUsers++;
+      } else {
+        report.changedUsers.push({ ...user, isNew: false, changes, summary: summarizeChanges(changes) });
+      }
+    }
+
+    report.anomalies.push(...findAnomalies(user, stats, live));
+  });
+
+  return report;
+}
+
+function findAnomalies(user: DryRunUser, stats: ProcessedStats, live?: UserWrappedStats): DryRunAnomaly[] {
+  const anomalies: DryRunAnomaly[] = [];
+
+  if (stats.mostMemorableDayMinutes > MINUTES_PER_DAY) {
+    const date = stats.mostMemorableDayDate ? new Date(stats.mostMemorableDayDate).toISOString().slice(0, 10) : 'one day';
+    anomalies.push({
+      ...user,
+      type: 'dayOver24h',
+      message: `${Math.round(stats.mostMemorableDayMinutes / 60)} hours watched on ${date}`,
+    });
+  }
+
+  (stats.monthlyStats || []).forEach((month) => {
+    const [year, monthNumber] = month.month.split('-').map((part) => parseInt(part, 10));
+    const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+    if (month.minutes > daysInMonth * MINUTES_PER_DAY) {
+      anomalies.push({
+        ...user,
+        type: 'monthOverCapacity',
+        message: `${Math.round(month.minutes / 60)} hours in ${month.monthName}, more than the month has`,
+      });
+    }
+  });
+
+  if (stats.totalPlays > 0 && stats.totalWatchTimeMinutes === 0) {
+    anomalies.push({
+      ...user,
+      type: 'playsWithoutWatchTime',
+      message: `${stats.totalPlays} plays but no watch time`,
+    });
+  }
+
+  // History only grows, so fewer plays than before means records went missing
+  if (live && stats.totalPlays < live.total_plays) {
+    anomalies.push({
+      ...user,
+      type: 'playsDropped',
+      message: `Total plays dropped from ${live.total_plays} to ${stats.totalPlays}`,
+    });
+  }
+
+  return anomalies;
+}
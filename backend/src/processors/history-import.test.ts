@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { db } from '../config/database';
+import { UserModel, type User } from '../models/User';
+import { UserServerAccountModel } from '../models/UserServerAccount';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import { detectExportFormat, importHistoryExport, matchUsers, parseHistoryExport } from './history-import';
+
+jest.mock('../config/database', () => ({ db: { tx: jest.fn() } }));
+jest.mock('../models/User', () => ({ UserModel: { findAll: jest.fn() } }));
+jest.mock('../models/UserServerAccount', () => ({
+  UserServerAccountModel: { deleteBySource: jest.fn(), link: jest.fn() },
+}));
+jest.mock('../models/WatchHistory', () => ({
+  WatchHistoryModel: { deleteBySource: jest.fn(), upsertMany: jest.fn() },
+}));
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+// A saved get_history API response and a CSV exported from the history table in Tautulli's web UI
+const apiExport = fixture('tautulli-get-history.json');
+const tableExport = fixture('tautulli-history-table.csv');
+
+const users = [
+  { id: 1, plex_user_id: 4821937, username: 'alice', friendly_name: 'Alice' },
+  { id: 2, plex_user_id: 9917402, username: 'bob', friendly_name: 'Bobby' },
+] as User[];
+
+describe('detectExportFormat', () => {
+  it('goes by the file extension first', () => {
+    expect(detectExportFormat(apiExport, 'history.CSV')).toBe('csv');
+    expect(detectExportFormat(tableExport, 'history.json')).toBe('json');
+  });
+
+  it('sniffs the content when the name does not tell', () => {
+    expect(detectExportFormat(apiExport)).toBe('json');
+    expect(detectExportFormat('\n  []', 'export.txt')).toBe('json');
+    expect(detectExportFormat(tableExport)).toBe('csv');
+  });
+});
+
+describe('parseHistoryExport', () => {
+  it('reads the records of a get_history response and skips unsupported media types', () => {
+    const { records, skipped } = parseHistoryExport(apiExport, 'json');
+
+    expect(skipped).toBe(1);
+    expect(records.map((r) => [r.row_id, r.media_type, r.title, r.user_id])).toEqual([
+      [5121, 'movie', 'Heat', 4821937],
+      [5122, 'episode', 'The Target', 9917402],
+      [5123, 'track', 'Teardrop', 4821937],
+    ]);
+    expect(records[1]).toMatchObject({
+      date: 1740950000,
+      duration: 3300,
+      grandparent_title: 'The Wire',
+      parent_media_index: 1,
+      media_index: 1,
+      genres: [],
+    });
+  });
+
+  it('accepts a bare array of records', () => {
+    const data = JSON.parse(apiExport).response.data.data;
+    expect(parseHistoryExport(JSON.stringify(data), 'json')).toEqual(parseHistoryExport(apiExport, 'json'));
+  });
+
+  it('maps the web UI column names and normalizes CSV values', () => {
+    const { records, skipped } = parseHistoryExport(tableExport, 'csv');
+
+    // The row without a date is skipped
+    expect(skipped).toBe(1);
+    expect(records).toHaveLength(4);
+
+    expect(records[0]).toMatchObject({
+      user: 'alice',
+      media_type: 'movie',
+      title: 'Crouching Tiger, Hidden Dragon',
+      date: 1740860100,
+      // Worked out from the start and stop times less the pause
+      duration: 6600,
+      genres: ['Action', 'Drama'],
+    });
+    expect(records[1]).toMatchObject({
+      user: 'BOBBY',
+      title: 'The "Other" Episode',
+      grandparent_title: 'The Wire',
+      parent_media_index: '1',
+      media_index: '2',
+      // Millisecond timestamps are brought down to seconds
+      date: 1740950000,
+      stopped: 1740953300,
+      genres: ['Crime', 'Drama'],
+    });
+    expect(records[2].date).toBe(Date.UTC(2025, 2, 3, 21) / 1000);
+  });
+
+  it('gives records without a row id the same id on every import', () => {
+    const first = parseHistoryExport(tableExport, 'csv').records.map((r) => r.row_id);
+    const second = parseHistoryExport(tableExport, 'csv').records.map((r) => r.row_id);
+
+    expect(first).toEqual(second);
+    expect(new Set(first).size).toBe(first.length);
+    first.forEach((rowId) => expect(rowId).toBeGreaterThan(0));
+  });
+
+  it('rejects JSON that is not a history export', () => {
+    expect(() => parseHistoryExport('{"response": {"result": "error"}}', 'json')).toThrow(/array of history records/);
+    expect(() => parseHistoryExport('', 'csv')).toThrow('CSV export is empty');
+  });
+});
+
+describe('matchUsers', () => {
+  it('keeps records that already have a user id', () => {
+    const { records } = parseHistoryExport(apiExport, 'json');
+    const { matched, unmatched } = matchUsers(records, []);
+
+    expect(matched).toEqual(records);
+    expect(unmatched.size).toBe(0);
+  });
+
+  it('matches usernames and friendly names regardless of case', () => {
+    const { records } = parseHistoryExport(tableExport, 'csv');
+    const { matched, unmatched } = matchUsers(records, users);
+
+    expect(matched.map((r) => [r.title, r.user_id])).toEqual([
+      ['Crouching Tiger, Hidden Dragon', 4821937],
+      ['The "Other" Episode', 9917402],
+    ]);
+    expect(Array.from(unmatched)).toEqual(['mallory', '(no user)']);
+  });
+});
+
+describe('importHistoryExport', () => {
+  const t = { name: 'transaction' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.tx as jest.Mock).mockImplementation((callback) => callback(t));
+    (UserModel.findAll as jest.Mock).mockResolvedValue(users);
+    (WatchHistoryModel.upsertMany as jest.Mock).mockImplementation(async (records) => records.length);
+  });
+
+  it('stores the matched records and reports what was left out', async () => {
+    const result = await importHistoryExport(tableExport, { source: 'old-server' });
+
+    expect(result).toEqual({
+      source: 'old-server',
+      format: 'csv',
+      imported: 2,
+      skipped: 3,
+      unmatchedUsers: ['mallory', '(no user)'],
+    });
+    expect(WatchHistoryModel.deleteBySource).not.toHaveBeenCalled();
+    expect(WatchHistoryModel.upsertMany).toHaveBeenCalledWith(expect.any(Array), 'old-server', t);
+  });
+
+  it('links the matched users to the import so it counts towards their wrapped', async () => {
+    await importHistoryExport(apiExport, { source: 'old-server' });
+
+    expect((UserServerAccountModel.link as jest.Mock).mock.calls).toEqual([
+      [1, 'old-server', 4821937, t],
+      [2, 'old-server', 9917402, t],
+    ]);
+  });
+
+  it('replaces the previous import in the same transaction as the new one', async () => {
+    await importHistoryExport(apiExport, { source: 'old-server', replace: true });
+
+    expect(db.tx).toHaveBeenCalledTimes(1);
+    expect(WatchHistoryModel.deleteBySource).toHaveBeenCalledWith('old-server', t);
+    expect(UserServerAccountModel.deleteBySource).toHaveBeenCalledWith('old-server', t);
+    expect(WatchHistoryModel.upsertMany).toHaveBeenCalledWith(expect.any(Array), 'old-server', t);
+  });
+
+  it('fails the import when a batch fails', async () => {
+    (WatchHistoryModel.upsertMany as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+    await expect(importHistoryExport(apiExport, { source: 'old-server', replace: true })).rejects.toThrow('connection lost');
+  });
+
+  it('refuses the names of synced history providers', async () => {
+    await expect(importHistoryExport(apiExport, { source: 'tautulli' })).rejects.toThrow(/reserved for synced history/);
+    expect(db.tx).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,295 @@
+import logger from '../utils/logger';
+import { db } from '../config/database';
+import { UserModel, type User } from '../models/User';
+import { UserServerAccountModel } from '../models/UserServerAccount';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import { isHistoryProviderName } from '../services/history-provider.service';
+import type { TautulliHistoryRecord } from '../types/tautulli.types';
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+export interface HistoryImportOptions {
+  // Name the records are stored under, so the import can be replaced or removed later
+  source: string;
+  format?: HistoryExportFormat;
+  // Drop what was imported under this source before
+  replace?: boolean;
+}
+
+export interface HistoryImportResult {
+  source: string;
+  format: HistoryExportFormat;
+  imported: number;
+  skipped: number;
+  unmatchedUsers: string[];
+}
+
+const BATCH_SIZE = 1000;
+const MEDIA_TYPES = ['movie', 'episode', 'track', 'photo', 'clip'];
+const LIST_FIELDS = ['genres', 'labels', 'directors', 'writers', 'actors'];
+const TIMESTAMP_FIELDS = ['date', 'started', 'stopped'];
+
+// Column names used by the history table in Tautulli's web UI, mapped to the API's field names
+const HEADER_ALIASES: Record<string, string> = {
+  username: 'user',
+  user_name: 'user',
+  paused: 'paused_counter',
+  paused_time: 'paused_counter',
+  full_title: 'title',
+  show: 'grandparent_title',
+  season: 'parent_title',
+  episode_number: 'media_index',
+  season_number: 'parent_media_index',
+  id: 'row_id',
+};
+
+/**
+ * Guess the format from the file name, falling back to the first character of the content
+ */
+export function detectExportFormat(content: string, filename?: string): HistoryExportFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'json') return extension;
+
+  const first = content.trimStart()[0];
+  return first === '[' || first === '{' ? 'json' : 'csv';
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields with commas, quotes and line breaks
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+const normalizeHeader = (header: string): string => {
+  const key = header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return HEADER_ALIASES[key] || key;
+};
+
+/**
+ * Pull the list of records out of the shapes a JSON export can have:
+ * a bare array, { data: [...] } or a saved get_history API response
+ */
+function extractJsonRecords(parsed: any): any[] {
+  if (Array.isArray(parsed)) return parsed;
+  const candidates = [parsed?.response?.data?.data, parsed?.response?.data, parsed?.data];
+  const records = candidates.find((candidate) => Array.isArray(candidate));
+  if (!records) {
+    throw new Error('JSON export must be an array of history records or a Tautulli get_history response');
+  }
+  return records;
+}
+
+// Unix seconds, milliseconds or a date string
+const toTimestamp = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (/^\d+(\.\d+)?$/.test(String(value))) {
+    const number = Number(value);
+    return Math.floor(number > 1e12 ? number / 1000 : number);
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : Math.floor(parsed / 1000);
+};
+
+const toList = (value: any): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string' || value.trim() === '') return [];
+  if (value.trim().startsWith('[')) {
+    try {
+      return JSON.parse(value).map(String);
+    } catch {
+      // Not JSON after all, split it below
+    }
+  }
+  return value.split(/[;|]/).map((item) => item.trim()).filter(Boolean);
+};
+
+/**
+ * Stable id for records exported without one, so importing the same file twice doesn't duplicate plays
+ */
+const fallbackRowId = (record: Record<string, any>): number => {
+  const key = `${record.user_id ?? record.user}:${record.date}:${record.rating_key ?? record.title}`;
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  // Positive and within INTEGER
+  return (hash >>> 1) || 1;
+};
+
+/**
+ * Turn one exported row into a history record, or null when it can't be used
+ */
+export function normalizeHistoryRecord(raw: Record<string, any>): TautulliHistoryRecord | null {
+  const record: Record<string, any> = { ...raw };
+
+  TIMESTAMP_FIELDS.forEach((field) => {
+    record[field] = toTimestamp(record[field]);
+  });
+  record.date = record.date ?? record.started;
+  LIST_FIELDS.forEach((field) => {
+    record[field] = toList(record[field]);
+  });
+
+  const mediaType = String(record.media_type || '').toLowerCase();
+  if (!record.date || !MEDIA_TYPES.includes(mediaType)) return null;
+  record.media_type = mediaType;
+
+  // Work out the watched time when the export only has start and stop times
+  if (!record.duration && record.started && record.stopped) {
+    record.duration = Math.max(0, record.stopped - record.started - (Number(record.paused_counter) || 0));
+  }
+
+  if (!record.row_id) {
+    record.row_id = fallbackRowId(record);
+  }
+
+  return record as TautulliHistoryRecord;
+}
+
+/**
+ * Parse a Tautulli history export into the records the stats calculator consumes
+ * CSV needs a header row with Tautulli's field names (row_id, date, user_id, media_type, rating_key, ...)
+ */
+export function parseHistoryExport(
+  content: string,
+  format: HistoryExportFormat
+): { records: TautulliHistoryRecord[]; skipped: number } {
+  let rawRecords: Record<string, any>[];
+
+  if (format === 'json') {
+    rawRecords = extractJsonRecords(JSON.parse(content));
+  } else {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) {
+      throw new Error('CSV export is empty');
+    }
+    const keys = header.map(normalizeHeader);
+    rawRecords = rows.map((row) => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ''])));
+  }
+
+  const records: TautulliHistoryRecord[] = [];
+  rawRecords.forEach((raw) => {
+    const record = normalizeHistoryRecord(raw);
+    if (record) records.push(record);
+  });
+
+  return { records, skipped: rawRecords.length - records.length };
+}
+
+/**
+ * Fill in the Plex user id of records exported without one, matching by username or friendly name
+ */
+export function matchUsers(records: TautulliHistoryRecord[], users: User[]): { matched: TautulliHistoryRecord[]; unmatched: Set<string> } {
+  const byName = new Map<string, User>();
+  users.forEach((user) => {
+    if (user.username) byName.set(user.username.toLowerCase(), user);
+    if (user.friendly_name) byName.set(user.friendly_name.toLowerCase(), user);
+  });
+
+  const matched: TautulliHistoryRecord[] = [];
+  const unmatched = new Set<string>();
+
+  records.forEach((record) => {
+    if (record.user_id) {
+      matched.push(record);
+      return;
+    }
+
+    const name = String(record.user || record.friendly_name || '');
+    const user = byName.get(name.toLowerCase());
+    if (user) {
+      matched.push({ ...record, user_id: user.plex_user_id });
+    } else {
+      unmatched.add(name || '(no user)');
+    }
+  });
+
+  return { matched, unmatched };
+}
+
+/**
+ * Parse an export and store it in watch_history under its own source
+ */
+export async function importHistoryExport(content: string, options: HistoryImportOptions): Promise<HistoryImportResult> {
+  if (isHistoryProviderName(options.source)) {
+    throw new Error(`"${options.source}" is reserved for synced history, pick another name for the import`);
+  }
+
+  const format = options.format || detectExportFormat(content);
+  const { records, skipped } = parseHistoryExport(content, format);
+  const users = await UserModel.findAll();
+  const { matched, unmatched } = matchUsers(records, users);
+
+  // All or nothing, a failed batch must not leave a replaced import half written
+  const imported = await db.tx(async (t) => {
+    if (options.replace) {
+      await WatchHistoryModel.deleteBySource(options.source, t);
+      await UserServerAccountModel.deleteBySource(options.source, t);
+    }
+
+    // Wrapped only reads other sources through linked accounts
+    const importedUserIds = new Set(matched.map((record) => Number(record.user_id)));
+    for (const user of users.filter((u) => importedUserIds.has(u.plex_user_id))) {
+      await UserServerAccountModel.link(user.id, options.source, user.plex_user_id, t);
+    }
+
+    let count = 0;
+    for (let i = 0; i < matched.length; i += BATCH_SIZE) {
+      count += await WatchHistoryModel.upsertMany(matched.slice(i, i + BATCH_SIZE), options.source, t);
+    }
+    return count;
+  });
+
+  const result: HistoryImportResult = {
+    source: options.source,
+    format,
+    imported,
+    skipped: skipped + (records.length - matched.length),
+    unmatchedUsers: Array.from(unmatched),
+  };
+
+  logger.info(
+    `Imported ${imported} history records as "${options.source}" (${result.skipped} skipped, ${unmatched.size} unmatched users)`
+  );
+  return result;
+}
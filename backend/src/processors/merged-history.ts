@@ -0,0 +1,147 @@
+import logger from '../utils/logger';
+import { getHistoryProviders, isHistoryProviderName } from '../services/history-provider.service';
+import type { HistoryProvider } from '../types/history-provider.types';
+import type { TautulliChildMetadata, TautulliHistoryRecord, TautulliLibrary, TautulliMetadata } from '../types/tautulli.types';
+
+/**
+ * What the stats calculator needs from a provider to look up items and libraries
+ */
+export type MetadataProvider = Pick<HistoryProvider, 'name' | 'getMetadata' | 'getChildrenMetadata' | 'getLibraries'>;
+
+interface ForeignKey {
+  source: string;
+  key: number;
+}
+
+/**
+ * Deterministic negative key for an item or library on another server
+ * Providers only hand out positive keys, so these can't collide with the primary server's
+ */
+function toForeignKey(source: string, kind: 'item' | 'section', key: number): number {
+  // 32-bit FNV-1a
+  const input = `${source}:${kind}:${key}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return -((hash >>> 1) || 1);
+}
+
+/**
+ * Metadata for a history merged from several servers
+ * Rating keys are only unique within a server, so records synced from servers other than the user's own
+ * get negative keys that are routed back to the server they came from.
+ * The user's own server and imported history (exports of it) keep their keys.
+ */
+export class MergedMetadataProvider implements MetadataProvider {
+  readonly name: string;
+  private primary: HistoryProvider;
+  private itemKeys = new Map<number, ForeignKey>();
+  private sources = new Set<string>();
+  private providers: Promise<HistoryProvider[]> | null = null;
+
+  constructor(primary: HistoryProvider) {
+    this.primary = primary;
+    this.name = primary.name;
+  }
+
+  /**
+   * Give the records from other servers keys of their own
+   */
+  rekeyHistory(history: TautulliHistoryRecord[]): TautulliHistoryRecord[] {
+    return history.map((record) => {
+      const source = record.source;
+      if (!source || source === this.primary.name || !isHistoryProviderName(source)) {
+        return record;
+      }
+
+      this.sources.add(source);
+      return {
+        ...record,
+        rating_key: this.rekeyItem(source, record.rating_key),
+        parent_rating_key: this.rekeyItem(source, record.parent_rating_key),
+        grandparent_rating_key: this.rekeyItem(source, record.grandparent_rating_key),
+      };
+    });
+  }
+
+  async getMetadata(ratingKey: number): Promise<TautulliMetadata> {
+    const foreign = this.itemKeys.get(ratingKey);
+    if (!foreign) {
+      return this.primary.getMetadata(ratingKey);
+    }
+
+    const provider = await this.getProvider(foreign.source);
+    const metadata = await provider.getMetadata(foreign.key);
+    return {
+      ...metadata,
+      rating_key: this.rekeyItem(foreign.source, metadata.rating_key),
+      parent_rating_key: this.rekeyItem(foreign.source, metadata.parent_rating_key),
+      grandparent_rating_key: this.rekeyItem(foreign.source, metadata.grandparent_rating_key),
+      section_id: this.rekeySection(foreign.source, metadata.section_id),
+    };
+  }
+
+  async getChildrenMetadata(ratingKey: number): Promise<TautulliChildMetadata[]> {
+    const foreign = this.itemKeys.get(ratingKey);
+    if (!foreign) {
+      return this.primary.getChildrenMetadata(ratingKey);
+    }
+
+    const provider = await this.getProvider(foreign.source);
+    const children = await provider.getChildrenMetadata(foreign.key);
+    return children.map((child) => ({
+      ...child,
+      rating_key: this.rekeyItem(foreign.source, child.rating_key),
+      parent_rating_key: ratingKey,
+    }));
+  }
+
+  /**
+   * The primary server's libraries followed by those of every other server in the history
+   */
+  async getLibraries(): Promise<TautulliLibrary[]> {
+    const libraries = [...(await this.primary.getLibraries())];
+
+    for (const source of this.sources) {
+      try {
+        const provider = await this.getProvider(source);
+        const foreign = await provider.getLibraries();
+        libraries.push(
+          ...foreign.map((library) => ({ ...library, section_id: this.rekeySection(source, library.section_id) }))
+        );
+      } catch (error: any) {
+        logger.warn(`Failed to get ${source} libraries: ${error.message}`);
+      }
+    }
+
+    return libraries;
+  }
+
+  private rekeyItem(source: string, key: number): number {
+    const parsed = Number(key);
+    if (!parsed) return key;
+
+    const rekeyed = toForeignKey(source, 'item', parsed);
+    this.itemKeys.set(rekeyed, { source, key: parsed });
+    return rekeyed;
+  }
+
+  private rekeySection(source: string, sectionId: number): number {
+    const parsed = Number(sectionId);
+    return parsed ? toForeignKey(source, 'section', parsed) : sectionId;
+  }
+
+  private async getProvider(source: string): Promise<HistoryProvider> {
+    if (!this.providers) {
+      this.providers = getHistoryProviders();
+    }
+
+    const provider = (await this.providers).find((p) => p.name === source);
+    if (!provider) {
+      throw new Error(`History provider ${source} is not configured`);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,100 @@
+import { calculatePercentiles, mergeRelativeBadges } from './percentiles';
+import type { UserWrappedStats } from '../models/UserWrappedStats';
+import type { Badge } from './stats-calculator';
+
+function row(id: number, watchMinutes: number, extra: Partial<UserWrappedStats> = {}): UserWrappedStats {
+  return {
+    id,
+    total_watch_time_minutes: watchMinutes,
+    longest_streak_days: 0,
+    unique_movies: 0,
+    unique_shows: 0,
+    longest_binge_minutes: 0,
+    ...extra,
+  } as UserWrappedStats;
+}
+
+// Users 1-20 watched 10, 20, ... 200 minutes
+const twentyUsers = Array.from({ length: 20 }, (_, i) => row(i + 1, (i + 1) * 10));
+
+describe('calculatePercentiles', () => {
+  it('gives the share of the other users each user beat', () => {
+    const results = calculatePercentiles(twentyUsers);
+
+    expect(results.get(20)!.percentiles).toEqual({
+      watchTime: 100,
+      streak: 0,
+      uniqueTitles: 0,
+      binge: 0,
+      totalUsers: 20,
+    });
+    expect(results.get(1)!.percentiles.watchTime).toBe(0);
+    expect(results.get(10)!.percentiles.watchTime).toBe(47);
+  });
+
+  it('only awards the best top percent tier reached', () => {
+    const results = calculatePercentiles(twentyUsers);
+    const topViewer = (id: number) => results.get(id)!.badges.find((b) => b.key === 'topViewer')?.params;
+
+    expect(topViewer(20)).toEqual({ percent: 5 });
+    expect(topViewer(19)).toEqual({ percent: 10 });
+    expect(topViewer(18)).toEqual({ percent: 25 });
+    expect(topViewer(15)).toBeUndefined();
+  });
+
+  it('ranks tied users the same', () => {
+    const rows = [...twentyUsers.slice(0, 18), row(19, 500), row(20, 500)];
+    const results = calculatePercentiles(rows);
+
+    expect(results.get(19)).toEqual(results.get(20));
+    expect(results.get(19)!.percentiles.watchTime).toBe(94);
+    expect(results.get(19)!.badges).toEqual([{ key: 'topViewer', icon: '🏆', params: { percent: 5 } }]);
+  });
+
+  it('never gives a badge for a metric the user has nothing in', () => {
+    const results = calculatePercentiles(twentyUsers);
+    results.forEach(({ badges }) => {
+      expect(badges.map((b) => b.key)).toEqual(expect.not.arrayContaining(['topStreaker', 'topExplorer', 'topBinger']));
+    });
+  });
+
+  it('counts unique movies and shows together for the explorer badge', () => {
+    const rows = twentyUsers.map((r) => ({ ...r, unique_movies: r.id === 3 ? 40 : 1, unique_shows: 1 }));
+    const badges = calculatePercentiles(rows).get(3)!.badges;
+
+    expect(badges).toContainEqual({ key: 'topExplorer', icon: '🧭', params: { percent: 5 } });
+  });
+
+  it('skips relative badges on small servers', () => {
+    const results = calculatePercentiles(twentyUsers.slice(0, 4));
+
+    expect(results.get(4)!.percentiles.watchTime).toBe(100);
+    expect(results.get(4)!.badges).toEqual([]);
+  });
+
+  it('puts a lone user at 0 without badges', () => {
+    expect(calculatePercentiles([row(1, 300)]).get(1)).toEqual({
+      percentiles: { watchTime: 0, streak: 0, uniqueTitles: 0, binge: 0, totalUsers: 1 },
+      badges: [],
+    });
+  });
+
+  it('reads missing stats as zero', () => {
+    const rows = [...twentyUsers.slice(0, 19), row(20, null as unknown as number)];
+    const results = calculatePercentiles(rows);
+
+    expect(results.get(20)!.percentiles.watchTime).toBe(0);
+    expect(results.get(20)!.badges).toEqual([]);
+  });
+});
+
+describe('mergeRelativeBadges', () => {
+  it('replaces relative badges from an earlier pass and keeps the rest', () => {
+    const nightOwl: Badge = { key: 'nightOwl', icon: '🦉', params: { hour: 2 } };
+    const existing: Badge[] = [nightOwl, { key: 'topViewer', icon: '🏆', params: { percent: 25 } }];
+    const relative: Badge[] = [{ key: 'topViewer', icon: '🏆', params: { percent: 5 } }];
+
+    expect(mergeRelativeBadges(existing, relative)).toEqual([nightOwl, ...relative]);
+    expect(mergeRelativeBadges(null, [])).toEqual([]);
+  });
+});
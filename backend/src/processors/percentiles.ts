@@ -0,0 +1,90 @@
+import type { UserWrappedStats } from '../models/UserWrappedStats';
+import type { Badge } from './stats-calculator';
+
+export type PercentileMetric = 'watchTime' | 'streak' | 'uniqueTitles' | 'binge';
+
+export interface UserPercentiles {
+  // Share of the other users on the server this user beat, 0-100
+  watchTime: number;
+  streak: number;
+  uniqueTitles: number;
+  binge: number;
+  totalUsers: number;
+}
+
+interface RelativeBadgeRule {
+  key: string;
+  icon: string;
+  metric: PercentileMetric;
+}
+
+const METRIC_VALUES: Record<PercentileMetric, (row: UserWrappedStats) => number> = {
+  watchTime: (r) => r.total_watch_time_minutes || 0,
+  streak: (r) => r.longest_streak_days || 0,
+  uniqueTitles: (r) => (r.unique_movies || 0) + (r.unique_shows || 0),
+  binge: (r) => r.longest_binge_minutes || 0,
+};
+
+export const RELATIVE_BADGES: RelativeBadgeRule[] = [
+  { key: 'topViewer', icon: '🏆', metric: 'watchTime' },
+  { key: 'topStreaker', icon: '📅', metric: 'streak' },
+  { key: 'topExplorer', icon: '🧭', metric: 'uniqueTitles' },
+  { key: 'topBinger', icon: '🍿', metric: 'binge' },
+];
+
+// Best tier wins, so a top 1% viewer only gets the 1% badge
+const TOP_PERCENT_TIERS = [1, 5, 10, 25];
+
+// "Top 10%" means little on a server with a handful of users
+const MIN_USERS_FOR_RELATIVE_BADGES = 5;
+
+/**
+ * Work out each user's standing on the server for a year
+ * Returns percentiles and relative badges keyed by user_wrapped_stats id
+ */
+export function calculatePercentiles(rows: UserWrappedStats[]): Map<number, { percentiles: UserPercentiles; badges: Badge[] }> {
+  const results = new Map<number, { percentiles: UserPercentiles; badges: Badge[] }>();
+  const totalUsers = rows.length;
+
+  const valuesByMetric = {} as Record<PercentileMetric, number[]>;
+  (Object.keys(METRIC_VALUES) as PercentileMetric[]).forEach((metric) => {
+    valuesByMetric[metric] = rows.map(METRIC_VALUES[metric]);
+  });
+
+  rows.forEach((row) => {
+    const percentiles = { totalUsers } as UserPercentiles;
+    const topPercent = {} as Record<PercentileMetric, number>;
+
+    (Object.keys(METRIC_VALUES) as PercentileMetric[]).forEach((metric) => {
+      const value = METRIC_VALUES[metric](row);
+      const values = valuesByMetric[metric];
+      const below = values.filter((v) => v < value).length;
+      const above = values.filter((v) => v > value).length;
+
+      percentiles[metric] = totalUsers > 1 ? Math.floor((below / (totalUsers - 1)) * 100) : 0;
+      topPercent[metric] = value > 0 ? ((above + 1) / totalUsers) * 100 : 100;
+    });
+
+    const badges: Badge[] = [];
+    if (totalUsers >= MIN_USERS_FOR_RELATIVE_BADGES) {
+      RELATIVE_BADGES.forEach((rule) => {
+        const tier = TOP_PERCENT_TIERS.find((t) => topPercent[rule.metric] <= t);
+        if (tier !== undefined) {
+          badges.push({ key: rule.key, icon: rule.icon, params: { percent: tier } });
+        }
+      });
+    }
+
+    results.set(row.id, { percentiles, badges });
+  });
+
+  return results;
+}
+
+/**
+ * Replace any relative badges from a previous pass with the new ones
+ */
+export function mergeRelativeBadges(existing: Badge[] | null, relative: Badge[]): Badge[] {
+  const relativeKeys = RELATIVE_BADGES.map((b) => b.key);
+  return [...(existing || []).filter((b) => !relativeKeys.includes(b.key)), ...relative];
+}
@@ -0,0 +1,93 @@
+import { MediaType, MediaRequestStatus, MediaStatus } from '../types/overseerr.types';
+import type { OverseerrUserRequestStats } from '../types/overseerr.types';
+import type { ProviderRequest } from '../types/request-provider.types';
+
+/**
+ * Requests made during a year (UTC)
+ */
+export function filterRequestsByYear<T extends ProviderRequest>(requests: T[], year: number): T[] {
+  const startDate = new Date(`${year}-01-01T00:00:00Z`);
+  const endDate = new Date(`${year}-12-31T23:59:59Z`);
+
+  return requests.filter((req) => {
+    const createdAt = new Date(req.createdAt);
+    return createdAt >= startDate && createdAt <= endDate;
+  });
+}
+
+/**
+ * Statistics for a user's requests, the same for every request provider
+ * Pass the year the requests were filtered to for a per-month breakdown
+ */
+export function calculateRequestStats(
+  userId: number,
+  requests: ProviderRequest[],
+  year?: number
+): OverseerrUserRequestStats {
+  const stats: OverseerrUserRequestStats = {
+    userId,
+    totalRequests: requests.length,
+    movieRequests: requests.filter((r) => r.type === MediaType.MOVIE).length,
+    tvRequests: requests.filter((r) => r.type === MediaType.TV).length,
+    approvedRequests: requests.filter((r) => r.status === MediaRequestStatus.APPROVED).length,
+    pendingRequests: requests.filter((r) => r.status === MediaRequestStatus.PENDING).length,
+    declinedRequests: requests.filter((r) => r.status === MediaRequestStatus.DECLINED).length,
+    availableRequests: requests.filter((r) => r.media.status === MediaStatus.AVAILABLE).length,
+  };
+
+  // Calculate approval times
+  const approvedWithTimes = requests
+    .filter((r) => r.status === MediaRequestStatus.APPROVED)
+    .map((r) => {
+      const created = new Date(r.createdAt).getTime();
+      const updated = new Date(r.updatedAt).getTime();
+      return (updated - created) / (1000 * 60 * 60); // hours
+    })
+    .filter((time) => time > 0);
+
+  if (approvedWithTimes.length > 0) {
+    stats.averageApprovalTimeHours =
+      approvedWithTimes.reduce((a, b) => a + b, 0) / approvedWithTimes.length;
+    stats.fastestApprovalTimeHours = Math.min(...approvedWithTimes);
+    stats.slowestApprovalTimeHours = Math.max(...approvedWithTimes);
+  }
+
+  // Requests by month (if year specified)
+  if (year) {
+    const byMonth: Record<string, number> = {};
+    requests.forEach((req) => {
+      const month = req.createdAt.substring(0, 7); // YYYY-MM
+      byMonth[month] = (byMonth[month] || 0) + 1;
+    });
+    stats.requestsByMonth = Object.entries(byMonth)
+      .map(([month, count]) => ({ month, count }))
+      .sort((a, b) => a.month.localeCompare(b.month));
+  }
+
+  // Top genres (from movie/tv data)
+  const genreCounts: Record<string, number> = {};
+  requests.forEach((req) => {
+    const genres = req.movie?.genres || req.tv?.genres || [];
+    genres.forEach((g) => {
+      genreCounts[g.name] = (genreCounts[g.name] || 0) + 1;
+    });
+  });
+  stats.topGenres = Object.entries(genreCounts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+    .map(([genre, count]) => ({ genre, count }));
+
+  // Top requests
+  stats.topRequests = requests
+    .slice(0, 10)
+    .map((req) => ({
+      title: req.title || req.movie?.title || req.tv?.name || 'Unknown',
+      type: req.type,
+      status: req.media.status,
+      requestedAt: req.createdAt,
+      tmdbId: req.media.tmdbId,
+      posterPath: req.posterPath || req.movie?.posterPath || req.tv?.posterPath,
+    }));
+
+  return stats;
+}
@@ -0,0 +1,182 @@
+import logger from '../utils/logger';
+import { getServerTimezone, getYearBoundaries } from '../utils/timezone';
+import { getHistoryProvider } from '../services/history-provider.service';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import type { User } from '../models/User';
+import type { UserWrappedStats } from '../models/UserWrappedStats';
+import type { DeviceStat, TopMovie, TopShow } from './stats-calculator';
+
+export interface ServerTopTitle {
+  title: string;
+  ratingKey: number;
+  thumb: string;
+  plays: number;
+  durationMinutes: number;
+  viewers: number;
+}
+
+export interface ServerTopDevice {
+  device: string;
+  platform: string;
+  plays: number;
+  minutes: number;
+  users: number;
+}
+
+export interface ServerNewUser {
+  userId: number;
+  username: string;
+  friendlyName: string | null;
+  firstWatchDate: string;
+}
+
+export interface ServerStats {
+  totalUsers: number;
+  activeUsers: number;
+  totalWatchTimeMinutes: number;
+  totalListeningMinutes: number;
+  totalPlays: number;
+  totalMovies: number;
+  totalTvEpisodes: number;
+  topMovies: ServerTopTitle[];
+  topShows: ServerTopTitle[];
+  busiestDayDate: string | null;
+  busiestDayMinutes: number;
+  topDevices: ServerTopDevice[];
+  mostPopularDevice: string | null;
+  newUsers: ServerNewUser[];
+}
+
+export class ServerStatsCalculator {
+  /**
+   * Aggregate every user's wrapped stats for a year into a server-wide report
+   */
+  async calculateServerStats(year: number, rows: UserWrappedStats[], users: User[]): Promise<ServerStats> {
+    logger.info(`Calculating server stats for year ${year} from ${rows.length} users`);
+
+    const activeRows = rows.filter((r) => r.total_plays > 0);
+    const busiestDay = await this.calculateBusiestDay(year);
+    const topDevices = this.aggregateDevices(activeRows);
+
+    return {
+      totalUsers: rows.length,
+      activeUsers: activeRows.length,
+      totalWatchTimeMinutes: activeRows.reduce((sum, r) => sum + (r.total_watch_time_minutes || 0), 0),
+      totalListeningMinutes: activeRows.reduce((sum, r) => sum + (r.total_listening_minutes || 0), 0),
+      totalPlays: activeRows.reduce((sum, r) => sum + (r.total_plays || 0), 0),
+      totalMovies: activeRows.reduce((sum, r) => sum + (r.total_movies || 0), 0),
+      totalTvEpisodes: activeRows.reduce((sum, r) => sum + (r.total_tv_episodes || 0), 0),
+      topMovies: this.aggregateTitles(activeRows.map((r) => (r.top_movies || []) as TopMovie[])),
+      topShows: this.aggregateTitles(activeRows.map((r) => (r.top_shows || []) as TopShow[])),
+      ...busiestDay,
+      topDevices,
+      mostPopularDevice: topDevices[0]?.device || null,
+      newUsers: await this.findNewUsers(year, activeRows, users),
+    };
+  }
+
+  /**
+   * Merge every user's top list into one server-wide list
+   * Built from each user's top 10, so titles everyone watched a little can be missed
+   */
+  private aggregateTitles(lists: Array<Array<TopMovie | TopShow>>): ServerTopTitle[] {
+    const titles: Record<number, ServerTopTitle> = {};
+
+    lists.forEach((list) => {
+      list.forEach((item) => {
+        if (!titles[item.ratingKey]) {
+          titles[item.ratingKey] = {
+            title: item.title,
+            ratingKey: item.ratingKey,
+            thumb: item.thumb,
+            plays: 0,
+            durationMinutes: 0,
+            viewers: 0,
+          };
+        }
+        titles[item.ratingKey].plays += item.plays;
+        titles[item.ratingKey].durationMinutes += item.durationMinutes;
+        titles[item.ratingKey].viewers++;
+      });
+    });
+
+    return Object.values(titles)
+      .sort((a, b) => b.viewers - a.viewers || b.plays - a.plays)
+      .slice(0, 10);
+  }
+
+  /**
+   * Merge every user's devices, counting how many users used each
+   */
+  private aggregateDevices(rows: UserWrappedStats[]): ServerTopDevice[] {
+    const devices: Record<string, ServerTopDevice> = {};
+
+    rows.forEach((row) => {
+      ((row.top_devices || []) as DeviceStat[]).forEach((d) => {
+        const key = `${d.device}-${d.platform}`;
+        if (!devices[key]) {
+          devices[key] = { device: d.device, platform: d.platform, plays: 0, minutes: 0, users: 0 };
+        }
+        devices[key].plays += d.plays;
+        devices[key].minutes += d.minutes;
+        devices[key].users++;
+      });
+    });
+
+    return Object.values(devices)
+      .sort((a, b) => b.plays - a.plays)
+      .slice(0, 5);
+  }
+
+  /**
+   * Find the day with the most watch time across the whole server, from the stored history of every provider
+   */
+  private async calculateBusiestDay(year: number): Promise<{ busiestDayDate: string | null; busiestDayMinutes: number }> {
+    try {
+      const timeZone = getServerTimezone();
+      const { startTimestamp, endTimestamp } = getYearBoundaries(year, timeZone);
+      const busiest = await WatchHistoryModel.getBusiestDay(startTimestamp, endTimestamp, timeZone);
+
+      return {
+        busiestDayDate: busiest?.day || null,
+        busiestDayMinutes: Math.round((busiest?.seconds || 0) / 60),
+      };
+    } catch (error: any) {
+      logger.error('Failed to calculate busiest server day:', error);
+      return { busiestDayDate: null, busiestDayMinutes: 0 };
+    }
+  }
+
+  /**
+   * Users whose first ever play on the server happened during the year
+   */
+  private async findNewUsers(year: number, rows: UserWrappedStats[], users: User[]): Promise<ServerNewUser[]> {
+    const { startTimestamp, endTimestamp } = getYearBoundaries(year, getServerTimezone());
+    const newUsers: ServerNewUser[] = [];
+
+    for (const row of rows) {
+      const user = users.find((u) => u.id === row.user_id);
+      if (!user) continue;
+
+      try {
+        const provider = await getHistoryProvider(user.history_provider);
+        const firstPlay = await provider.getFirstPlayDate(user.plex_user_id);
+
+        if (firstPlay && firstPlay >= startTimestamp && firstPlay <= endTimestamp) {
+          newUsers.push({
+            userId: user.id,
+            username: user.username,
+            friendlyName: user.friendly_name,
+            firstWatchDate: new Date(firstPlay * 1000).toISOString(),
+          });
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to fetch first play for user ${user.id}:`, error.message);
+      }
+    }
+
+    return newUsers.sort((a, b) => a.firstWatchDate.localeCompare(b.firstWatchDate));
+  }
+}
+
+export default ServerStatsCalculator;
@@ -0,0 +1,219 @@
+import { StatsCalculator } from './stats-calculator';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import type { TautulliChildMetadata, TautulliHistoryRecord, TautulliMetadata } from '../types/tautulli.types';
+
+const provider = {
+  name: 'tautulli',
+  getMetadata: jest.fn(),
+  getChildrenMetadata: jest.fn(),
+  getLibraries: jest.fn(),
+  getServerName: jest.fn(),
+};
+
+jest.mock('../services/history-provider.service', () => ({
+  isHistoryProviderName: (name: string) => name === 'tautulli',
+  getHistoryProvider: async () => provider,
+  getHistoryProviders: async () => [provider],
+}));
+jest.mock('../services/request-provider.service', () => ({
+  getRequestProvider: () => ({ isEnabled: () => false }),
+}));
+jest.mock('../models/BadgeDefinition', () => ({
+  BadgeDefinitionModel: { findEnabled: jest.fn().mockResolvedValue([]) },
+}));
+jest.mock('../models/WatchHistory', () => ({
+  WatchHistoryModel: { findByUser: jest.fn() },
+}));
+
+const BOB = 9917402;
+const SHOW_KEY = 599;
+
+// The Wire: specials, then two seasons. Episode keys follow their season's, S1E3 is 613
+const SEASONS = [
+  { key: 600, index: 0, episodes: 1 },
+  { key: 610, index: 1, episodes: 3 },
+  { key: 620, index: 2, episodes: 2 },
+];
+
+const timestamp = (date: string) => Date.parse(`${date}T20:00:00Z`) / 1000;
+
+let rowId = 0;
+
+function play(fields: Partial<TautulliHistoryRecord>): TautulliHistoryRecord {
+  rowId++;
+  return {
+    row_id: rowId,
+    user_id: BOB,
+    duration: 3000,
+    percent_complete: 100,
+    watched_status: 1,
+    platform: 'Android',
+    player: 'SHIELD',
+    genres: [],
+    actors: [],
+    directors: [],
+    source: 'tautulli',
+    ...fields,
+  } as TautulliHistoryRecord;
+}
+
+function episode(seasonIndex: number, episodeIndex: number, date: string): TautulliHistoryRecord {
+  const season = SEASONS.find((s) => s.index === seasonIndex)!;
+  return play({
+    media_type: 'episode',
+    rating_key: season.key + episodeIndex,
+    parent_rating_key: season.key,
+    grandparent_rating_key: SHOW_KEY,
+    title: `Episode ${episodeIndex}`,
+    grandparent_title: 'The Wire',
+    grandparent_thumb: '/library/metadata/599/thumb',
+    parent_media_index: seasonIndex,
+    media_index: episodeIndex,
+    date: timestamp(date),
+    started: timestamp(date),
+    stopped: timestamp(date) + 3000,
+  });
+}
+
+const wholeSeason = (seasonIndex: number, date: string) =>
+  Array.from({ length: SEASONS.find((s) => s.index === seasonIndex)!.episodes }, (_, i) => episode(seasonIndex, i + 1, date));
+
+describe('StatsCalculator.calculateUserStats', () => {
+  let plays: TautulliHistoryRecord[] = [];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    plays = [];
+
+    (WatchHistoryModel.findByUser as jest.Mock).mockImplementation(
+      async (_userId: number, start: number, end: number, mediaType?: string) =>
+        plays
+          .filter((r) => r.date >= start && r.date <= end && (!mediaType || r.media_type === mediaType))
+          .sort((a, b) => b.date - a.date)
+    );
+    provider.getMetadata.mockImplementation(async (ratingKey: number) => {
+      const season = SEASONS.find((s) => s.key === ratingKey);
+      return { rating_key: ratingKey, media_type: 'season', children_count: season?.episodes ?? 0 } as TautulliMetadata;
+    });
+    provider.getChildrenMetadata.mockImplementation(async (ratingKey: number): Promise<TautulliChildMetadata[]> =>
+      ratingKey === SHOW_KEY
+        ? SEASONS.map((s) => ({
+            media_type: 'season',
+            rating_key: s.key,
+            parent_rating_key: SHOW_KEY,
+            title: s.index ? `Season ${s.index}` : 'Specials',
+            media_index: s.index,
+            thumb: '',
+          }))
+        : []
+    );
+    provider.getLibraries.mockResolvedValue([]);
+    provider.getServerName.mockResolvedValue('Home');
+  });
+
+  const calculate = () => new StatsCalculator().calculateUserStats(BOB, 2025, 'UTC');
+
+  describe('completion', () => {
+    it('leaves specials out of the seasons a series needs and of the seasons completed', async () => {
+      plays = [...wholeSeason(1, '2025-02-01'), ...wholeSeason(2, '2025-03-01'), ...wholeSeason(0, '2025-03-02')];
+
+      const stats = await calculate();
+
+      expect(stats.completedShows).toEqual([
+        {
+          title: 'The Wire',
+          ratingKey: SHOW_KEY,
+          thumb: '/library/metadata/599/thumb',
+          seasonsCompleted: 2,
+          totalSeasons: 2,
+          seriesCompleted: true,
+          completedSeasonNumbers: [1, 2],
+        },
+      ]);
+      expect(stats.totalSeasonsCompleted).toBe(2);
+      expect(stats.totalSeriesCompleted).toBe(1);
+    });
+
+    it('finishes a series this year when its earlier seasons were watched in earlier years', async () => {
+      plays = [...wholeSeason(1, '2024-05-01'), episode(2, 1, '2024-12-30'), episode(2, 2, '2025-01-04')];
+
+      const stats = await calculate();
+
+      expect(stats.completedShows).toEqual([
+        expect.objectContaining({ seasonsCompleted: 1, totalSeasons: 2, seriesCompleted: true, completedSeasonNumbers: [2] }),
+      ]);
+      expect(stats.totalSeriesCompleted).toBe(1);
+    });
+
+    it('does not count seasons finished in an earlier year, or series still missing a season', async () => {
+      // Season 1 was finished last year and only rewatched this year, season 2 is never finished
+      plays = [...wholeSeason(1, '2024-05-01'), episode(1, 1, '2025-06-01'), episode(2, 1, '2025-06-02')];
+
+      const stats = await calculate();
+
+      expect(stats.completedShows).toEqual([]);
+      expect(stats.totalSeasonsCompleted).toBe(0);
+      expect(stats.totalSeriesCompleted).toBe(0);
+    });
+
+    it('does not count plays after the end of the year', async () => {
+      plays = [...wholeSeason(1, '2025-11-01'), episode(2, 1, '2025-12-01'), episode(2, 2, '2026-01-02')];
+
+      const stats = await calculate();
+
+      expect(stats.completedShows).toEqual([
+        expect.objectContaining({ completedSeasonNumbers: [1], seriesCompleted: false }),
+      ]);
+    });
+  });
+
+  describe('music', () => {
+    it('reports track plays with the music stats instead of in the plays and watch time', async () => {
+      const track = (title: string, date: string) =>
+        play({
+          media_type: 'track',
+          rating_key: title === 'Teardrop' ? 701 : 702,
+          parent_rating_key: 700,
+          grandparent_rating_key: 699,
+          title,
+          parent_title: 'Mezzanine',
+          grandparent_title: 'Massive Attack',
+          genres: ['Trip Hop'],
+          duration: 330,
+          date: timestamp(date),
+          started: timestamp(date),
+        });
+
+      plays = [
+        episode(1, 1, '2025-02-01'),
+        play({
+          media_type: 'movie',
+          rating_key: 500,
+          title: 'Heat',
+          duration: 10200,
+          date: timestamp('2025-02-02'),
+          started: timestamp('2025-02-02'),
+        }),
+        track('Teardrop', '2025-02-03'),
+        track('Angel', '2025-02-03'),
+        track('Teardrop', '2025-02-04'),
+      ];
+
+      const stats = await calculate();
+
+      expect(stats).toMatchObject({
+        totalPlays: 2,
+        totalMovies: 1,
+        totalTvEpisodes: 1,
+        totalWatchTimeMinutes: 220,
+        totalTracks: 3,
+        totalListeningMinutes: 17,
+        uniqueArtists: 1,
+      });
+      expect(stats.topTracks.map((t) => [t.title, t.plays])).toEqual([
+        ['Teardrop', 2],
+        ['Angel', 1],
+      ]);
+    });
+  });
+});
@@ -1,9 +1,20 @@
-import { format, parse, differenceInDays } from 'date-fns';
+import { parse, differenceInDays } from 'date-fns';
 import logger from '../utils/logger';
-import { getTautulliService } from '../services/tautulli.service';
-import { getOverseerrService } from '../services/overseerr.service';
-import type { TautulliHistoryRecord, TautulliMetadata } from '../types/tautulli.types';
+import { getYearBoundaries, getZonedDateKey, getZonedMonthKey, getZonedParts, resolveTimezone } from '../utils/timezone';
+import { getHistoryProvider, getHistoryProviders } from '../services/history-provider.service';
+import { getRequestProvider } from '../services/request-provider.service';
+import { BadgeDefinitionModel } from '../models/BadgeDefinition';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import { evaluateBadges } from './badge-rules';
+import { MergedMetadataProvider, type MetadataProvider } from './merged-history';
+import type {
+  TautulliChildMetadata,
+  TautulliHistoryRecord,
+  TautulliLibrary,
+  TautulliMetadata,
+} from '../types/tautulli.types';
 import type { OverseerrUserRequestStats } from '../types/overseerr.types';
+import type { ProviderRequest } from '../types/request-provider.types';
 
 export interface ProcessedStats {
   // Basic stats
@@ -31,6 +42,15 @@ export interface ProcessedStats {
   topActors: TopPerson[];
   topDirectors: TopPerson[];
 
+  // Music
+  totalListeningMinutes: number;
+  totalTracks: number; // Track plays, left out of totalPlays
+  uniqueArtists: number;
+  topArtists: TopArtist[];
+  topAlbums: TopAlbum[];
+  topTracks: TopTrack[];
+  topMusicGenres: TopGenre[];
+
   // Device stats
   topDevices: DeviceStat[];
   topPlatforms: PlatformStat[];
@@ -40,9 +60,15 @@ export interface ProcessedStats {
   monthlyStats: MonthlyStat[];
   contentSharedWith: number;
 
+  // Plays per server the history came from
+  serverBreakdown: ServerBreakdown[];
+
   // Fun stats
   percentageOfLibraryWatched: number;
+  libraryCoverage: LibraryCoverage[];
   totalSeasonsCompleted: number;
+  totalSeriesCompleted: number;
+  completedShows: CompletedShow[];
   rewatches: number;
   firstWatchTitle: string | null;
   firstWatchDate: Date | null;
@@ -52,11 +78,12 @@ export interface ProcessedStats {
   mostMemorableDayMinutes: number;
 
   // Fun facts and badges
-  funFacts: string[];
+  funFacts: FunFact[];
   badges: Badge[];
 
-  // Overseerr stats (if available)
+  // Request stats from the request provider (if available)
   overseerrStats?: OverseerrUserRequestStats;
+  requestCorrelation?: RequestCorrelation;
 }
 
 export interface TopMovie {
@@ -96,6 +123,33 @@ export interface TopGenre {
   percentage: number;
 }
 
+export interface TopArtist {
+  name: string;
+  plays: number;
+  minutes: number;
+  thumb: string;
+  ratingKey: number;
+}
+
+export interface TopAlbum {
+  title: string;
+  artist: string;
+  year: number;
+  plays: number;
+  minutes: number;
+  thumb: string;
+  ratingKey: number;
+}
+
+export interface TopTrack {
+  title: string;
+  artist: string;
+  album: string;
+  plays: number;
+  thumb: string;
+  ratingKey: number;
+}
+
 export interface TopPerson {
   name: string;
   count: number;
@@ -122,6 +176,24 @@ export interface QualityStats {
   resolutions: Record<string, number>;
 }
 
+export interface ServerBreakdown {
+  source: string;
+  name: string;
+  plays: number;
+  minutes: number;
+  percentage: number;
+}
+
+// Headline totals of part of a year, what a year-to-date wrapped is compared against
+export interface PeriodTotals {
+  year: number;
+  totalWatchTimeMinutes: number;
+  totalPlays: number;
+  totalMovies: number;
+  totalTvEpisodes: number;
+  daysActive: number;
+}
+
 export interface MonthlyStat {
   month: string;
   monthName: string;
@@ -129,26 +201,94 @@ export interface MonthlyStat {
   minutes: number;
 }
 
+export interface CompletedShow {
+  title: string;
+  ratingKey: number;
+  thumb: string;
+  seasonsCompleted: number;
+  totalSeasons: number;
+  seriesCompleted: boolean;
+  completedSeasonNumbers: number[];
+}
+
+export interface RequestedTitle {
+  title: string;
+  type: string;
+  tmdbId: number;
+  requestedAt: string;
+  posterPath?: string;
+}
+
+export interface WatchedRequest extends RequestedTitle {
+  availableAt: Date | null;
+  firstWatchedAt: Date;
+  hoursToFirstWatch: number;
+  plays: number;
+}
+
+export interface RequestCorrelation {
+  requestedCount: number;
+  watchedCount: number;
+  watchedPercentage: number;
+  averageHoursToFirstWatch: number | null;
+  watched: WatchedRequest[];
+  neverWatched: RequestedTitle[];
+}
+
+export interface LibraryCoverage {
+  sectionId: number;
+  sectionName: string;
+  sectionType: string;
+  watched: number;
+  total: number;
+  percentage: number;
+}
+
+// Fun facts and badges are stored as translation keys so each viewer sees them in their own locale
+export interface FunFact {
+  key: string;
+  params: Record<string, string | number>;
+}
+
 export interface Badge {
-  name: string;
-  description: string;
+  key: string;
   icon: string;
+  params: Record<string, string | number>;
+  // Localized name/description from the badge definition, keyed by locale
+  names?: Record<string, { name: string; description: string }>;
 }
 
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
 export class StatsCalculator {
-  private tautulli = getTautulliService();
-  private overseerr = getOverseerrService();
+  private requestProvider = getRequestProvider();
 
   /**
    * Calculate all wrapped stats for a user for a specific year
+   * Hours, days, months and the year window are bucketed in the given timezone
+   * (falls back to the server timezone)
+   * History is read from watch_history, sync it first for up to date stats
+   * Metadata and libraries come from the provider the user was synced from (defaults to the first one),
+   * plays from accounts linked on other servers are looked up on the server they came from
    */
-  async calculateUserStats(userId: number, year: number): Promise<ProcessedStats> {
-    logger.info(`Calculating stats for user ${userId} for year ${year}`);
+  async calculateUserStats(
+    userId: number,
+    year: number,
+    timezone?: string | null,
+    providerName?: string | null
+  ): Promise<ProcessedStats> {
+    const timeZone = resolveTimezone(timezone);
+    const provider = new MergedMetadataProvider(await getHistoryProvider(providerName));
+    logger.info(`Calculating stats for user ${userId} for year ${year} (${timeZone})`);
 
     const startTime = Date.now();
 
-    // Fetch all history for the year
-    const history = await this.tautulli.getAllHistoryForYear(userId, year);
+    // All history for the year, bounded in the user's timezone
+    const { startTimestamp, endTimestamp } = getYearBoundaries(year, timeZone);
+    const history = provider.rekeyHistory(await WatchHistoryModel.findByUser(userId, startTimestamp, endTimestamp));
 
     if (history.length === 0) {
       logger.warn(`No history found for user ${userId} in year ${year}`);
@@ -156,57 +296,105 @@ export class StatsCalculator {
     }
 
     // Calculate all stats
-    const basicStats = this.calculateBasicStats(history);
-    const viewingPatterns = this.calculateViewingPatterns(history);
+    const basicStats = this.calculateBasicStats(history, timeZone);
+    const viewingPatterns = this.calculateViewingPatterns(history, timeZone);
     const topContent = await this.calculateTopContent(history);
     const topGenres = this.calculateTopGenres(history);
     const topPeople = await this.calculateTopPeople(history);
+    const musicStats = await this.calculateMusicStats(history, provider);
     const deviceStats = this.calculateDeviceStats(history);
-    const monthlyStats = this.calculateMonthlyStats(history);
-    const funStats = this.calculateFunStats(history);
+    const monthlyStats = this.calculateMonthlyStats(history, timeZone);
+    const funStats = this.calculateFunStats(history, timeZone);
+    const libraryStats = await this.calculateLibraryCoverage(history, provider);
+    // Shows are judged finished on every episode watched up to the end of the year, not just this year's
+    const episodeHistory = provider.rekeyHistory(await WatchHistoryModel.findByUser(userId, 0, endTimestamp, 'episode'));
+    const completionStats = await this.calculateCompletion(history, episodeHistory, provider, startTimestamp);
+    const serverBreakdown = await this.calculateServerBreakdown(history);
+
+    // Attach completed seasons to the top shows
+    topContent.topShows.forEach((show) => {
+      const completed = completionStats.completedShows.find((c) => c.ratingKey === show.ratingKey);
+      show.seasonsCompleted = completed?.seasonsCompleted || 0;
+    });
 
-    // Get Overseerr stats if enabled
+    // Get request stats from the configured request provider (Overseerr, Jellyseerr or Ombi) if enabled
     let overseerrStats: OverseerrUserRequestStats | undefined;
-    if (this.overseerr.isEnabled()) {
+    let requestCorrelation: RequestCorrelation | undefined;
+    if (this.requestProvider.isEnabled()) {
       try {
-        overseerrStats = await this.overseerr.getUserRequestStats(userId, year);
+        overseerrStats = await this.requestProvider.getUserRequestStats(userId, year);
+        const requests = await this.requestProvider.getUserRequestsForYear(userId, year);
+        requestCorrelation = await this.calculateRequestCorrelation(history, requests, provider);
       } catch (error: any) {
-        logger.error('Failed to get Overseerr stats:', error);
+        logger.error(`Failed to get ${this.requestProvider.name} stats:`, error);
       }
     }
 
-    // Generate fun facts and badges
+    // Generate fun facts
     const funFacts = this.generateFunFacts(history, basicStats, viewingPatterns, overseerrStats);
-    const badges = this.generateBadges(history, basicStats, viewingPatterns, overseerrStats);
-
-    const duration = Date.now() - startTime;
-    logger.info(`Stats calculation completed in ${duration}ms for user ${userId}`);
 
-    return {
+    const stats: ProcessedStats = {
       ...basicStats,
       ...viewingPatterns,
       ...topContent,
       topGenres,
       ...topPeople,
+      ...musicStats,
       ...deviceStats,
       monthlyStats,
       contentSharedWith: 0,
+      serverBreakdown,
       ...funStats,
+      ...libraryStats,
+      ...completionStats,
       funFacts,
-      badges,
+      badges: [],
       overseerrStats,
+      requestCorrelation,
     };
+
+    // Badges are evaluated against the finished stats so any metric can be used in a rule
+    stats.badges = await this.generateBadges(stats);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Stats calculation completed in ${duration}ms for user ${userId}`);
+
+    return stats;
   }
 
   /**
-   * Calculate basic statistics
+   * Headline totals from the start of a year up to a number of seconds into it,
+   * e.g. last year up to the point this year's year-to-date wrapped has reached
    */
-  private calculateBasicStats(history: TautulliHistoryRecord[]) {
-    const totalWatchTimeMinutes = Math.round(
-      history.reduce((sum, record) => sum + record.duration / 60, 0)
+  async calculatePeriodTotals(
+    userId: number,
+    year: number,
+    elapsedSeconds: number,
+    timezone?: string | null
+  ): Promise<PeriodTotals> {
+    const timeZone = resolveTimezone(timezone);
+    const { startTimestamp, endTimestamp } = getYearBoundaries(year, timeZone);
+    const history = await WatchHistoryModel.findByUser(
+      userId,
+      startTimestamp,
+      Math.min(endTimestamp, startTimestamp + elapsedSeconds)
     );
 
-    const totalPlays = history.length;
+    const { totalWatchTimeMinutes, totalPlays, totalMovies, totalTvEpisodes, daysActive } =
+      this.calculateBasicStats(history, timeZone);
+
+    return { year, totalWatchTimeMinutes, totalPlays, totalMovies, totalTvEpisodes, daysActive };
+  }
+
+  /**
+   * Calculate basic statistics
+   */
+  private calculateBasicStats(history: TautulliHistoryRecord[], timeZone: string) {
+    // Music is reported separately, as listening time and track plays
+    const watched = history.filter((r) => r.media_type !== 'track');
+    const totalWatchTimeMinutes = Math.round(watched.reduce((sum, record) => sum + record.duration / 60, 0));
+
+    const totalPlays = watched.length;
 
     const movies = history.filter((r) => r.media_type === 'movie');
     const episodes = history.filter((r) => r.media_type === 'episode');
@@ -216,7 +404,7 @@ export class StatsCalculator {
 
     // Count unique days with activity
     const uniqueDays = new Set(
-      history.map((r) => format(new Date(r.started * 1000), 'yyyy-MM-dd'))
+      history.map((r) => getZonedDateKey(r.started, timeZone))
     ).size;
 
     return {
@@ -233,11 +421,11 @@ export class StatsCalculator {
   /**
    * Calculate viewing patterns
    */
-  private calculateViewingPatterns(history: TautulliHistoryRecord[]) {
+  private calculateViewingPatterns(history: TautulliHistoryRecord[], timeZone: string) {
     // Most active month
     const monthCounts: Record<string, number> = {};
     history.forEach((r) => {
-      const month = format(new Date(r.started * 1000), 'MMMM');
+      const month = MONTH_NAMES[getZonedParts(r.started, timeZone).month - 1];
       monthCounts[month] = (monthCounts[month] || 0) + 1;
     });
     const mostActiveMonth =
@@ -247,7 +435,7 @@ export class StatsCalculator {
     const dayOfWeekCounts: Record<string, number> = {};
     const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
     history.forEach((r) => {
-      const day = dayNames[new Date(r.started * 1000).getDay()];
+      const day = dayNames[getZonedParts(r.started, timeZone).dayOfWeek];
       dayOfWeekCounts[day] = (dayOfWeekCounts[day] || 0) + 1;
     });
     const mostActiveDayOfWeek =
@@ -256,7 +444,7 @@ export class StatsCalculator {
     // Most active hour
     const hourCounts: Record<number, number> = {};
     history.forEach((r) => {
-      const hour = new Date(r.started * 1000).getHours();
+      const hour = getZonedParts(r.started, timeZone).hour;
       hourCounts[hour] = (hourCounts[hour] || 0) + 1;
     });
     const mostActiveHour =
@@ -264,7 +452,7 @@ export class StatsCalculator {
 
     // Longest streak (consecutive days)
     const sortedDays = Array.from(
-      new Set(history.map((r) => format(new Date(r.started * 1000), 'yyyy-MM-dd')))
+      new Set(history.map((r) => getZonedDateKey(r.started, timeZone)))
     ).sort();
 
     let longestStreak = 0;
@@ -426,10 +614,12 @@ export class StatsCalculator {
    * Calculate top genres
    */
   private calculateTopGenres(history: TautulliHistoryRecord[]): TopGenre[] {
+    // Music genres are reported separately
+    const videoHistory = history.filter((r) => r.media_type !== 'track');
     const genreStats: Record<string, { count: number; minutes: number }> = {};
-    const totalMinutes = history.reduce((sum, r) => sum + r.duration / 60, 0);
+    const totalMinutes = videoHistory.reduce((sum, r) => sum + r.duration / 60, 0);
 
-    history.forEach((r) => {
+    videoHistory.forEach((r) => {
       const genres = r.genres || [];
       genres.forEach((genre) => {
         if (!genreStats[genre]) {
@@ -499,6 +689,124 @@ export class StatsCalculator {
     return { topActors, topDirectors };
   }
 
+  /**
+   * Calculate music listening stats (artists, albums, tracks and genres)
+   */
+  private async calculateMusicStats(history: TautulliHistoryRecord[], provider: MetadataProvider) {
+    const tracks = history.filter((r) => r.media_type === 'track');
+    const totalListeningMinutes = Math.round(tracks.reduce((sum, r) => sum + r.duration / 60, 0));
+
+    // Top Artists
+    const artistPlays: Record<number, { count: number; duration: number; record: TautulliHistoryRecord }> = {};
+    tracks.forEach((r) => {
+      const key = r.grandparent_rating_key;
+      if (!artistPlays[key]) {
+        artistPlays[key] = { count: 0, duration: 0, record: r };
+      }
+      artistPlays[key].count++;
+      artistPlays[key].duration += r.duration;
+    });
+
+    const topArtists: TopArtist[] = Object.values(artistPlays)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10)
+      .map((a) => ({
+        name: a.record.grandparent_title,
+        plays: a.count,
+        minutes: Math.round(a.duration / 60),
+        thumb: a.record.grandparent_thumb,
+        ratingKey: a.record.grandparent_rating_key,
+      }));
+
+    // Top Albums
+    const albumPlays: Record<number, { count: number; duration: number; record: TautulliHistoryRecord }> = {};
+    tracks.forEach((r) => {
+      const key = r.parent_rating_key;
+      if (!albumPlays[key]) {
+        albumPlays[key] = { count: 0, duration: 0, record: r };
+      }
+      albumPlays[key].count++;
+      albumPlays[key].duration += r.duration;
+    });
+
+    const topAlbums: TopAlbum[] = Object.values(albumPlays)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10)
+      .map((a) => ({
+        title: a.record.parent_title,
+        artist: a.record.grandparent_title,
+        year: a.record.year,
+        plays: a.count,
+        minutes: Math.round(a.duration / 60),
+        thumb: a.record.parent_thumb,
+        ratingKey: a.record.parent_rating_key,
+      }));
+
+    // Top Tracks
+    const trackPlays: Record<number, { count: number; record: TautulliHistoryRecord }> = {};
+    tracks.forEach((r) => {
+      if (!trackPlays[r.rating_key]) {
+        trackPlays[r.rating_key] = { count: 0, record: r };
+      }
+      trackPlays[r.rating_key].count++;
+    });
+
+    const topTracks: TopTrack[] = Object.values(trackPlays)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10)
+      .map((t) => ({
+        title: t.record.title,
+        // Compilation tracks carry the performing artist in original_title
+        artist: t.record.original_title || t.record.grandparent_title,
+        album: t.record.parent_title,
+        plays: t.count,
+        thumb: t.record.parent_thumb,
+        ratingKey: t.record.rating_key,
+      }));
+
+    // Music genres - history records rarely carry genres for tracks, so fall back to the artist's
+    const artistsWithoutGenres = Object.values(artistPlays)
+      .filter((a) => !a.record.genres || a.record.genres.length === 0)
+      .map((a) => a.record.grandparent_rating_key);
+    const artistMetadata = await this.fetchMetadata(provider, artistsWithoutGenres);
+
+    const genreStats: Record<string, { count: number; minutes: number }> = {};
+    tracks.forEach((r) => {
+      const genres = r.genres && r.genres.length > 0
+        ? r.genres
+        : artistMetadata.get(r.grandparent_rating_key)?.genres || [];
+      genres.forEach((genre) => {
+        if (!genreStats[genre]) {
+          genreStats[genre] = { count: 0, minutes: 0 };
+        }
+        genreStats[genre].count++;
+        genreStats[genre].minutes += r.duration / 60;
+      });
+    });
+
+    const topMusicGenres: TopGenre[] = Object.entries(genreStats)
+      .sort(([, a], [, b]) => b.minutes - a.minutes)
+      .slice(0, 10)
+      .map(([genre, stats]) => ({
+        genre,
+        count: stats.count,
+        minutes: Math.round(stats.minutes),
+        percentage: totalListeningMinutes > 0
+          ? parseFloat(((stats.minutes / totalListeningMinutes) * 100).toFixed(1))
+          : 0,
+      }));
+
+    return {
+      totalListeningMinutes,
+      totalTracks: tracks.length,
+      uniqueArtists: Object.keys(artistPlays).length,
+      topArtists,
+      topAlbums,
+      topTracks,
+      topMusicGenres,
+    };
+  }
+
   /**
    * Calculate device and platform stats
    */
@@ -564,15 +872,48 @@ export class StatsCalculator {
     return { topDevices, topPlatforms, qualityStats };
   }
 
+  /**
+   * Plays and watch time per server, named after the server (or the import) they came from
+   */
+  private async calculateServerBreakdown(history: TautulliHistoryRecord[]): Promise<ServerBreakdown[]> {
+    const sourceStats: Record<string, { plays: number; minutes: number }> = {};
+
+    history.forEach((r) => {
+      const source = r.source || 'tautulli';
+      if (!sourceStats[source]) {
+        sourceStats[source] = { plays: 0, minutes: 0 };
+      }
+      sourceStats[source].plays++;
+      sourceStats[source].minutes += r.duration / 60;
+    });
+
+    const providers = await getHistoryProviders().catch(() => []);
+    const breakdown = await Promise.all(
+      Object.entries(sourceStats).map(async ([source, stats]) => {
+        const provider = providers.find((p) => p.name === source);
+        const name = provider ? await provider.getServerName().catch(() => source) : source;
+        return {
+          source,
+          name,
+          plays: stats.plays,
+          minutes: Math.round(stats.minutes),
+          percentage: parseFloat(((stats.plays / history.length) * 100).toFixed(1)),
+        };
+      })
+    );
+
+    return breakdown.sort((a, b) => b.plays - a.plays);
+  }
+
   /**
    * Calculate monthly breakdown
    */
-  private calculateMonthlyStats(history: TautulliHistoryRecord[]): MonthlyStat[] {
+  private calculateMonthlyStats(history: TautulliHistoryRecord[], timeZone: string): MonthlyStat[] {
     const monthlyData: Record<string, { plays: number; minutes: number }> = {};
 
     history.forEach((r) => {
-      const month = format(new Date(r.started * 1000), 'yyyy-MM');
-      const monthName = format(new Date(r.started * 1000), 'MMMM');
+      const month = getZonedMonthKey(r.started, timeZone);
+      const monthName = MONTH_NAMES[parseInt(month.split('-')[1], 10) - 1];
       const key = `${month}|${monthName}`;
 
       if (!monthlyData[key]) {
@@ -598,7 +939,7 @@ export class StatsCalculator {
   /**
    * Calculate fun stats
    */
-  private calculateFunStats(history: TautulliHistoryRecord[]) {
+  private calculateFunStats(history: TautulliHistoryRecord[], timeZone: string) {
     // Rewatches (same content watched more than once)
     const contentPlays: Record<number, number> = {};
     history.forEach((r) => {
@@ -614,22 +955,17 @@ export class StatsCalculator {
     // Most memorable day (most watch time in a single day)
     const dayStats: Record<string, { minutes: number; date: Date }> = {};
     history.forEach((r) => {
-      const day = format(new Date(r.started * 1000), 'yyyy-MM-dd');
+      const day = getZonedDateKey(r.started, timeZone);
       if (!dayStats[day]) {
-        dayStats[day] = { minutes: 0, date: new Date(r.started * 1000) };
+        // Noon UTC keeps the calendar day intact when stored in a DATE column
+        dayStats[day] = { minutes: 0, date: new Date(`${day}T12:00:00Z`) };
       }
       dayStats[day].minutes += r.duration / 60;
     });
 
     const mostMemorableDay = Object.values(dayStats).sort((a, b) => b.minutes - a.minutes)[0];
 
-    // Completed seasons (watched all episodes in a season)
-    // This would require additional metadata queries, so we'll estimate
-    const totalSeasonsCompleted = 0; // TODO: Implement with metadata queries
-
     return {
-      percentageOfLibraryWatched: 0, // TODO: Calculate based on library size
-      totalSeasonsCompleted,
       rewatches,
       firstWatchTitle: firstWatch?.title || null,
       firstWatchDate: firstWatch ? new Date(firstWatch.started * 1000) : null,
@@ -640,111 +976,376 @@ export class StatsCalculator {
     };
   }
 
+  /**
+   * Calculate how much of each library the user watched
+   * Movie libraries are measured in movies, show libraries in episodes
+   */
+  private async calculateLibraryCoverage(history: TautulliHistoryRecord[], provider: MetadataProvider) {
+    let libraries: TautulliLibrary[];
+    try {
+      libraries = (await provider.getLibraries()).filter(
+        (lib) => Number(lib.is_active ?? 1) !== 0 && ['movie', 'show'].includes(lib.section_type)
+      );
+    } catch (error: any) {
+      logger.error(`Failed to get ${provider.name} libraries:`, error);
+      return { percentageOfLibraryWatched: 0, libraryCoverage: [] };
+    }
+
+    const movies = history.filter((r) => r.media_type === 'movie');
+    const episodes = history.filter((r) => r.media_type === 'episode');
+
+    // History records don't carry a section, so resolve it from the movie or show metadata
+    const metadata = await this.fetchMetadata(provider, [
+      ...new Set(movies.map((r) => r.rating_key)),
+      ...new Set(episodes.map((r) => r.grandparent_rating_key)),
+    ]);
+
+    const watchedBySection: Record<number, Set<number>> = {};
+    const addWatched = (sectionKey: number, ratingKey: number) => {
+      const sectionId = metadata.get(sectionKey)?.section_id;
+      if (sectionId === undefined || sectionId === null) return;
+      const key = Number(sectionId);
+      if (!watchedBySection[key]) watchedBySection[key] = new Set();
+      watchedBySection[key].add(ratingKey);
+    };
+
+    movies.forEach((r) => addWatched(r.rating_key, r.rating_key));
+    episodes.forEach((r) => addWatched(r.grandparent_rating_key, r.rating_key));
+
+    let totalWatched = 0;
+    let totalItems = 0;
+
+    const libraryCoverage: LibraryCoverage[] = libraries
+      .map((lib) => {
+        const sectionId = Number(lib.section_id);
+        const total = Number(lib.section_type === 'show' ? lib.child_count : lib.count) || 0;
+        const watched = Math.min(watchedBySection[sectionId]?.size || 0, total);
+
+        totalWatched += watched;
+        totalItems += total;
+
+        return {
+          sectionId,
+          sectionName: lib.section_name,
+          sectionType: lib.section_type,
+          watched,
+          total,
+          percentage: total > 0 ? parseFloat(((watched / total) * 100).toFixed(2)) : 0,
+        };
+      })
+      .filter((lib) => lib.watched > 0)
+      .sort((a, b) => b.percentage - a.percentage);
+
+    return {
+      percentageOfLibraryWatched:
+        totalItems > 0 ? parseFloat(((totalWatched / totalItems) * 100).toFixed(2)) : 0,
+      libraryCoverage,
+    };
+  }
+
+  /**
+   * Calculate which seasons and whole series the user finished during the year
+   * A season is finished when every episode in it has been watched, the last of them this year, and a
+   * series when every one of its seasons is. Specials (season 0) don't count towards either
+   */
+  private async calculateCompletion(
+    history: TautulliHistoryRecord[],
+    episodeHistory: TautulliHistoryRecord[],
+    provider: MetadataProvider,
+    startTimestamp: number
+  ) {
+    const isWatchedEpisode = (r: TautulliHistoryRecord) =>
+      r.media_type === 'episode' &&
+      Number(r.parent_media_index) > 0 &&
+      (Number(r.watched_status) >= 1 || r.percent_complete >= 90);
+
+    // Shows watched this year, with every episode of them the user has watched
+    const watchedShowKeys = new Set(history.filter(isWatchedEpisode).map((r) => r.grandparent_rating_key));
+    const watchedEpisodes = episodeHistory.filter(
+      (r) => watchedShowKeys.has(r.grandparent_rating_key) && isWatchedEpisode(r)
+    );
+
+    // Group watched episodes by show, then by season, with when each episode was first watched
+    const shows: Record<number, { record: TautulliHistoryRecord; seasons: Record<number, { seasonNumber: number; episodes: Map<number, number> }> }> = {};
+    watchedEpisodes.forEach((r) => {
+      const showKey = r.grandparent_rating_key;
+      if (!shows[showKey]) {
+        shows[showKey] = { record: r, seasons: {} };
+      }
+      const seasons = shows[showKey].seasons;
+      if (!seasons[r.parent_rating_key]) {
+        seasons[r.parent_rating_key] = { seasonNumber: r.parent_media_index, episodes: new Map() };
+      }
+      const firstWatched = seasons[r.parent_rating_key].episodes.get(r.rating_key);
+      if (firstWatched === undefined || r.date < firstWatched) {
+        seasons[r.parent_rating_key].episodes.set(r.rating_key, r.date);
+      }
+    });
+
+    const showKeys = Object.keys(shows).map(Number);
+    const seasonKeys = Object.values(shows).flatMap((show) => Object.keys(show.seasons).map(Number));
+    const metadata = await this.fetchMetadata(provider, seasonKeys);
+    const children = await this.fetchChildren(provider, showKeys);
+
+    const completedShows: CompletedShow[] = [];
+
+    showKeys.forEach((showKey) => {
+      const show = shows[showKey];
+      const finishedSeasons = Object.entries(show.seasons).flatMap(([seasonKey, season]) => {
+        const episodeCount = Number(metadata.get(Number(seasonKey))?.children_count) || 0;
+        if (episodeCount === 0 || season.episodes.size < episodeCount) return [];
+        return [{ seasonNumber: Number(season.seasonNumber), finishedAt: Math.max(...season.episodes.values()) }];
+      });
+
+      const completedSeasonNumbers = finishedSeasons
+        .filter((season) => season.finishedAt >= startTimestamp)
+        .map((season) => season.seasonNumber)
+        .sort((a, b) => a - b);
+
+      if (completedSeasonNumbers.length === 0) return;
+
+      const totalSeasons = (children.get(showKey) || []).filter((season) => Number(season.media_index) > 0).length;
+
+      completedShows.push({
+        title: show.record.grandparent_title,
+        ratingKey: showKey,
+        thumb: show.record.grandparent_thumb,
+        seasonsCompleted: completedSeasonNumbers.length,
+        totalSeasons,
+        // A season was finished this year, so if every season is finished the series was finished this year too
+        seriesCompleted: totalSeasons > 0 && finishedSeasons.length >= totalSeasons,
+        completedSeasonNumbers,
+      });
+    });
+
+    completedShows.sort(
+      (a, b) => Number(b.seriesCompleted) - Number(a.seriesCompleted) || b.seasonsCompleted - a.seasonsCompleted
+    );
+
+    return {
+      totalSeasonsCompleted: completedShows.reduce((sum, show) => sum + show.seasonsCompleted, 0),
+      totalSeriesCompleted: completedShows.filter((show) => show.seriesCompleted).length,
+      completedShows,
+    };
+  }
+
+  /**
+   * Match the user's requests against their watch history via TMDB/TVDB GUIDs
+   * A request counts as watched when the title was played after it was requested
+   */
+  private async calculateRequestCorrelation(
+    history: TautulliHistoryRecord[],
+    requests: ProviderRequest[],
+    provider: MetadataProvider
+  ): Promise<RequestCorrelation> {
+    // Group plays by movie or show
+    const items: Record<number, { type: string; starts: number[] }> = {};
+    history.forEach((r) => {
+      if (r.media_type !== 'movie' && r.media_type !== 'episode') return;
+
+      const key = r.media_type === 'movie' ? r.rating_key : r.grandparent_rating_key;
+      if (!items[key]) {
+        items[key] = { type: r.media_type === 'movie' ? 'movie' : 'tv', starts: [] };
+      }
+      items[key].starts.push(r.started);
+    });
+
+    const metadata = await this.fetchMetadata(provider, Object.keys(items).map(Number));
+
+    // Index watched items by external ID, e.g. "movie:tmdb:603" or "tv:tvdb:81189"
+    const itemsByExternalId = new Map<string, number>();
+    metadata.forEach((item, ratingKey) => {
+      const type = items[ratingKey].type;
+      [item.guid, ...(item.guids || [])].filter(Boolean).forEach((guid) => {
+        const tmdb = guid.match(/(?:^tmdb|themoviedb):\/\/(\d+)/);
+        const tvdb = guid.match(/(?:^tvdb|thetvdb):\/\/(\d+)/);
+        if (tmdb) itemsByExternalId.set(`${type}:tmdb:${tmdb[1]}`, ratingKey);
+        if (tvdb) itemsByExternalId.set(`${type}:tvdb:${tvdb[1]}`, ratingKey);
+      });
+    });
+
+    const watched: WatchedRequest[] = [];
+    const neverWatched: RequestedTitle[] = [];
+
+    requests.forEach((req) => {
+      const requested: RequestedTitle = {
+        title: req.title || req.movie?.title || req.tv?.name || 'Unknown',
+        type: req.type,
+        tmdbId: req.media.tmdbId,
+        requestedAt: req.createdAt,
+        posterPath: req.posterPath || req.movie?.posterPath || req.tv?.posterPath,
+      };
+
+      const ratingKey =
+        itemsByExternalId.get(`${req.type}:tmdb:${req.media.tmdbId}`) ??
+        (req.media.tvdbId ? itemsByExternalId.get(`${req.type}:tvdb:${req.media.tvdbId}`) : undefined);
+
+      const requestedAt = Math.floor(new Date(req.createdAt).getTime() / 1000);
+      const starts = ratingKey !== undefined
+        ? items[ratingKey].starts.filter((started) => started >= requestedAt).sort((a, b) => a - b)
+        : [];
+
+      if (starts.length === 0) {
+        neverWatched.push(requested);
+        return;
+      }
+
+      // Plex's added_at is when the request became available in the library
+      const addedAt = Number(metadata.get(ratingKey as number)?.added_at) || 0;
+      const availableFrom = Math.max(addedAt, requestedAt);
+
+      watched.push({
+        ...requested,
+        title: requested.title === 'Unknown' ? metadata.get(ratingKey as number)?.title || requested.title : requested.title,
+        availableAt: addedAt > 0 ? new Date(addedAt * 1000) : null,
+        firstWatchedAt: new Date(starts[0] * 1000),
+        hoursToFirstWatch: parseFloat((Math.max(0, starts[0] - availableFrom) / 3600).toFixed(1)),
+        plays: starts.length,
+      });
+    });
+
+    watched.sort((a, b) => a.hoursToFirstWatch - b.hoursToFirstWatch);
+
+    return {
+      requestedCount: requests.length,
+      watchedCount: watched.length,
+      watchedPercentage: requests.length > 0
+        ? parseFloat(((watched.length / requests.length) * 100).toFixed(1))
+        : 0,
+      averageHoursToFirstWatch: watched.length > 0
+        ? parseFloat((watched.reduce((sum, w) => sum + w.hoursToFirstWatch, 0) / watched.length).toFixed(1))
+        : null,
+      watched,
+      neverWatched,
+    };
+  }
+
+  /**
+   * Fetch metadata for a list of rating keys, skipping items the provider no longer knows about
+   */
+  private async fetchMetadata(provider: MetadataProvider, ratingKeys: number[]): Promise<Map<number, TautulliMetadata>> {
+    const metadata = new Map<number, TautulliMetadata>();
+    const batchSize = 10;
+
+    for (let i = 0; i < ratingKeys.length; i += batchSize) {
+      const batch = ratingKeys.slice(i, i + batchSize);
+      const results = await Promise.all(
+        batch.map((key) =>
+          provider.getMetadata(key).catch((error: any) => {
+            logger.debug(`Failed to get metadata for rating key ${key}: ${error.message}`);
+            return null;
+          })
+        )
+      );
+
+      results.forEach((result, index) => {
+        if (result && result.rating_key) {
+          metadata.set(batch[index], result);
+        }
+      });
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Fetch the children of a list of items, e.g. the seasons of shows, skipping items the provider no longer knows about
+   */
+  private async fetchChildren(
+    provider: MetadataProvider,
+    ratingKeys: number[]
+  ): Promise<Map<number, TautulliChildMetadata[]>> {
+    const children = new Map<number, TautulliChildMetadata[]>();
+    const batchSize = 10;
+
+    for (let i = 0; i < ratingKeys.length; i += batchSize) {
+      const batch = ratingKeys.slice(i, i + batchSize);
+      const results = await Promise.all(
+        batch.map((key) =>
+          provider.getChildrenMetadata(key).catch((error: any) => {
+            logger.debug(`Failed to get children for rating key ${key}: ${error.message}`);
+            return null;
+          })
+        )
+      );
+
+      results.forEach((result, index) => {
+        if (result) {
+          children.set(batch[index], result);
+        }
+      });
+    }
+
+    return children;
+  }
+
   /**
    * Generate fun facts
    */
   private generateFunFacts(
     history: TautulliHistoryRecord[],
-    basicStats: any,
-    patterns: any,
+    basicStats: ReturnType<StatsCalculator['calculateBasicStats']>,
+    patterns: ReturnType<StatsCalculator['calculateViewingPatterns']>,
     overseerrStats?: OverseerrUserRequestStats
-  ): string[] {
-    const facts: string[] = [];
+  ): FunFact[] {
+    const facts: FunFact[] = [];
 
     // Marathon sessions
     if (patterns.longestBingeMinutes > 180) {
-      facts.push(`Marathon Master - Binged ${patterns.longestBingeShow} for ${Math.round(patterns.longestBingeMinutes / 60)} hours!`);
+      facts.push({
+        key: 'marathonMaster',
+        params: { show: patterns.longestBingeShow, hours: Math.round(patterns.longestBingeMinutes / 60) },
+      });
     }
 
     // Night owl
     if (patterns.mostActiveHour >= 22 || patterns.mostActiveHour <= 4) {
-      facts.push(`Night Owl - Most active viewing at ${patterns.mostActiveHour}:00`);
+      facts.push({ key: 'nightOwl', params: { hour: patterns.mostActiveHour } });
     }
 
     // Early bird
     if (patterns.mostActiveHour >= 5 && patterns.mostActiveHour <= 8) {
-      facts.push(`Early Bird - Started the day with content at ${patterns.mostActiveHour}:00 AM`);
+      facts.push({ key: 'earlyBird', params: { hour: patterns.mostActiveHour } });
     }
 
     // Consistent viewer
     if (basicStats.daysActive > 300) {
-      facts.push(`Dedicated Viewer - Active on ${basicStats.daysActive} days this year!`);
+      facts.push({ key: 'dedicatedViewer', params: { days: basicStats.daysActive } });
     }
 
     // Binge watcher
     if (basicStats.totalTvEpisodes > 500) {
-      facts.push(`TV Enthusiast - Watched ${basicStats.totalTvEpisodes} episodes this year`);
+      facts.push({ key: 'tvEnthusiast', params: { count: basicStats.totalTvEpisodes } });
     }
 
     // Movie buff
     if (basicStats.totalMovies > 100) {
-      facts.push(`Movie Buff - Watched ${basicStats.totalMovies} movies this year`);
+      facts.push({ key: 'movieBuff', params: { count: basicStats.totalMovies } });
     }
 
-    // Overseerr facts
+    // Request facts, from whichever request provider is active
     if (overseerrStats && overseerrStats.totalRequests > 20) {
-      facts.push(`Content Curator - Requested ${overseerrStats.totalRequests} new titles`);
+      facts.push({ key: 'contentCurator', params: { count: overseerrStats.totalRequests } });
     }
 
     if (overseerrStats && overseerrStats.averageApprovalTimeHours && overseerrStats.averageApprovalTimeHours < 2) {
-      facts.push(`VIP Treatment - Average request approval in ${Math.round(overseerrStats.averageApprovalTimeHours)} hours`);
+      facts.push({ key: 'vipTreatment', params: { hours: Math.round(overseerrStats.averageApprovalTimeHours) } });
     }
 
     return facts;
   }
 
   /**
-   * Generate badges
+   * Generate badges from the enabled badge definitions
    */
-  private generateBadges(
-    history: TautulliHistoryRecord[],
-    basicStats: any,
-    patterns: any,
-    overseerrStats?: OverseerrUserRequestStats
-  ): Badge[] {
-    const badges: Badge[] = [];
-
-    if (patterns.longestBingeMinutes > 240) {
-      badges.push({
-        name: 'Marathon Master',
-        description: 'Binged for over 4 hours straight',
-        icon: '🏃',
-      });
+  private async generateBadges(stats: ProcessedStats): Promise<Badge[]> {
+    try {
+      const definitions = await BadgeDefinitionModel.findEnabled();
+      return evaluateBadges(definitions, (metric) => metric.fromStats(stats));
+    } catch (error: any) {
+      logger.error('Failed to evaluate badge definitions:', error);
+      return [];
     }
-
-    if (patterns.longestStreakDays > 30) {
-      badges.push({
-        name: 'Consistent Viewer',
-        description: `${patterns.longestStreakDays} day viewing streak`,
-        icon: '🔥',
-      });
-    }
-
-    if (basicStats.totalTvEpisodes > 500) {
-      badges.push({
-        name: 'TV Fanatic',
-        description: 'Watched over 500 episodes',
-        icon: '📺',
-      });
-    }
-
-    if (basicStats.totalMovies > 100) {
-      badges.push({
-        name: 'Cinema Enthusiast',
-        description: 'Watched over 100 movies',
-        icon: '🎬',
-      });
-    }
-
-    if (overseerrStats && overseerrStats.totalRequests > 50) {
-      badges.push({
-        name: 'Content Curator',
-        description: 'Requested over 50 titles',
-        icon: '📝',
-      });
-    }
-
-    return badges;
   }
 
   /**
@@ -771,6 +1372,13 @@ export class StatsCalculator {
       topGenres: [],
       topActors: [],
       topDirectors: [],
+      totalListeningMinutes: 0,
+      totalTracks: 0,
+      uniqueArtists: 0,
+      topArtists: [],
+      topAlbums: [],
+      topTracks: [],
+      topMusicGenres: [],
       topDevices: [],
       topPlatforms: [],
       qualityStats: {
@@ -781,8 +1389,12 @@ export class StatsCalculator {
       },
       monthlyStats: [],
       contentSharedWith: 0,
+      serverBreakdown: [],
       percentageOfLibraryWatched: 0,
+      libraryCoverage: [],
       totalSeasonsCompleted: 0,
+      totalSeriesCompleted: 0,
+      completedShows: [],
       rewatches: 0,
       firstWatchTitle: null,
       firstWatchDate: null,
@@ -0,0 +1,107 @@
+import { diffStats, processedStatsToRow, summarizeChanges } from './stats-diff';
+import type { ProcessedStats } from './stats-calculator';
+
+const row = {
+  total_plays: 812,
+  total_watch_time_minutes: 24000,
+  total_movies: 40,
+  total_tv_episodes: 700,
+  unique_movies: 38,
+  unique_shows: 25,
+  days_active: 250,
+  longest_streak_days: 30,
+  longest_binge_minutes: 420,
+  total_listening_minutes: 0,
+  total_tracks: 0,
+  top_movies: [{ title: 'Heat', plays: 3 }],
+  top_shows: [{ title: 'The Wire', plays: 60 }],
+  top_artists: [],
+  top_genres: [{ genre: 'Drama', count: 300 }],
+  most_active_month: 'January',
+  most_active_day_of_week: 'Sunday',
+  longest_binge_show: 'The Wire',
+  badges: [{ key: 'nightOwl' }, { key: 'bingeMaster' }],
+};
+
+describe('diffStats', () => {
+  it('finds nothing when the stats are the same', () => {
+    expect(diffStats(row, { ...row })).toEqual([]);
+  });
+
+  it('lists changed numbers, top entries and text fields', () => {
+    const changes = diffStats(row, {
+      ...row,
+      total_plays: 845,
+      top_movies: [{ title: 'Ronin', plays: 4 }, ...row.top_movies],
+      most_active_month: 'March',
+    });
+
+    expect(changes).toEqual([
+      { field: 'total_plays', label: 'Total plays', from: 812, to: 845 },
+      { field: 'top_movies', label: 'Top movie', from: 'Heat', to: 'Ronin' },
+      { field: 'most_active_month', label: 'Most active month', from: 'January', to: 'March' },
+    ]);
+  });
+
+  it('ignores reordered badges and reports added ones', () => {
+    expect(diffStats(row, { ...row, badges: [...row.badges].reverse() })).toEqual([]);
+
+    expect(diffStats(row, { ...row, badges: [...row.badges, { key: 'topViewer' }] })).toEqual([
+      { field: 'badges', label: 'Badges', from: 'bingeMaster, nightOwl', to: 'bingeMaster, nightOwl, topViewer' },
+    ]);
+  });
+
+  it('reads fields missing from old snapshots as empty', () => {
+    // Snapshots from before music stats existed have no listening fields or artists
+    const oldSnapshot: Record<string, unknown> = { ...row };
+    delete oldSnapshot.total_listening_minutes;
+    delete oldSnapshot.total_tracks;
+    delete oldSnapshot.top_artists;
+
+    expect(diffStats(oldSnapshot, row)).toEqual([]);
+    expect(diffStats({}, { total_tracks: 12, longest_binge_show: 'Lost', badges: [{ key: 'nightOwl' }] })).toEqual([
+      { field: 'total_tracks', label: 'Tracks', from: 0, to: 12 },
+      { field: 'longest_binge_show', label: 'Longest binge show', from: null, to: 'Lost' },
+      { field: 'badges', label: 'Badges', from: null, to: 'nightOwl' },
+    ]);
+  });
+
+  it('compares numeric columns pg returns as strings by value', () => {
+    expect(diffStats({ ...row, total_watch_time_minutes: '24000' }, row)).toEqual([]);
+  });
+});
+
+describe('processedStatsToRow', () => {
+  it('compares freshly calculated stats against a stored row', () => {
+    const stats = {
+      totalPlays: 812,
+      totalWatchTimeMinutes: 24000,
+      totalMovies: 40,
+      totalTvEpisodes: 700,
+      uniqueMovies: 38,
+      uniqueShows: 25,
+      daysActive: 250,
+      longestStreakDays: 30,
+      longestBingeMinutes: 420,
+      totalListeningMinutes: 0,
+      totalTracks: 0,
+      topMovies: row.top_movies,
+      topShows: row.top_shows,
+      topArtists: [],
+      topGenres: row.top_genres,
+      mostActiveMonth: 'January',
+      mostActiveDayOfWeek: 'Sunday',
+      longestBingeShow: 'The Wire',
+      badges: row.badges,
+    } as unknown as ProcessedStats;
+
+    expect(diffStats(row, processedStatsToRow(stats))).toEqual([]);
+  });
+});
+
+describe('summarizeChanges', () => {
+  it('shows numbers moving and other fields as changed', () => {
+    const changes = diffStats(row, { ...row, total_plays: 845, top_shows: [] });
+    expect(summarizeChanges(changes)).toBe('Total plays 812 → 845, Top show changed');
+  });
+});
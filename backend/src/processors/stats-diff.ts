@@ -0,0 +1,124 @@
+import type { ProcessedStats } from './stats-calculator';
+
+export interface StatsChange {
+  field: string;
+  label: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// Headline numbers worth calling out when they move
+const NUMERIC_FIELDS: Array<{ field: string; label: string }> = [
+  { field: 'total_plays', label: 'Total plays' },
+  { field: 'total_watch_time_minutes', label: 'Watch time (minutes)' },
+  { field: 'total_movies', label: 'Movies' },
+  { field: 'total_tv_episodes', label: 'TV episodes' },
+  { field: 'unique_movies', label: 'Unique movies' },
+  { field: 'unique_shows', label: 'Unique shows' },
+  { field: 'days_active', label: 'Days active' },
+  { field: 'longest_streak_days', label: 'Longest streak (days)' },
+  { field: 'longest_binge_minutes', label: 'Longest binge (minutes)' },
+  { field: 'total_listening_minutes', label: 'Listening time (minutes)' },
+  { field: 'total_tracks', label: 'Tracks' },
+];
+
+// Lists where only the number one spot matters for the summary
+const TOP_FIELDS: Array<{ field: string; label: string; key: string }> = [
+  { field: 'top_movies', label: 'Top movie', key: 'title' },
+  { field: 'top_shows', label: 'Top show', key: 'title' },
+  { field: 'top_artists', label: 'Top artist', key: 'name' },
+  { field: 'top_genres', label: 'Top genre', key: 'genre' },
+];
+
+const TEXT_FIELDS: Array<{ field: string; label: string }> = [
+  { field: 'most_active_month', label: 'Most active month' },
+  { field: 'most_active_day_of_week', label: 'Most active day' },
+  { field: 'longest_binge_show', label: 'Longest binge show' },
+];
+
+/**
+ * Shape freshly calculated stats like a user_wrapped_stats row, for the fields compared here
+ */
+export function processedStatsToRow(stats: ProcessedStats): Record<string, any> {
+  return {
+    total_plays: stats.totalPlays,
+    total_watch_time_minutes: stats.totalWatchTimeMinutes,
+    total_movies: stats.totalMovies,
+    total_tv_episodes: stats.totalTvEpisodes,
+    unique_movies: stats.uniqueMovies,
+    unique_shows: stats.uniqueShows,
+    days_active: stats.daysActive,
+    longest_streak_days: stats.longestStreakDays,
+    longest_binge_minutes: stats.longestBingeMinutes,
+    total_listening_minutes: stats.totalListeningMinutes,
+    total_tracks: stats.totalTracks,
+    top_movies: stats.topMovies,
+    top_shows: stats.topShows,
+    top_artists: stats.topArtists,
+    top_genres: stats.topGenres,
+    most_active_month: stats.mostActiveMonth,
+    most_active_day_of_week: stats.mostActiveDayOfWeek,
+    longest_binge_show: stats.longestBingeShow,
+    badges: stats.badges,
+  };
+}
+
+const topEntry = (list: any, key: string): string | null => {
+  return Array.isArray(list) && list.length > 0 ? list[0][key] ?? null : null;
+};
+
+const badgeKeys = (badges: any): string => {
+  return Array.isArray(badges) ? badges.map((b) => b.key).sort().join(', ') : '';
+};
+
+/**
+ * List what changed between two versions of a user's stats, both shaped like user_wrapped_stats rows
+ */
+export function diffStats(before: Record<string, any>, after: Record<string, any>): StatsChange[] {
+  const changes: StatsChange[] = [];
+
+  NUMERIC_FIELDS.forEach(({ field, label }) => {
+    const from = Number(before[field] || 0);
+    const to = Number(after[field] || 0);
+    if (from !== to) {
+      changes.push({ field, label, from, to });
+    }
+  });
+
+  TOP_FIELDS.forEach(({ field, label, key }) => {
+    const from = topEntry(before[field], key);
+    const to = topEntry(after[field], key);
+    if (from !== to) {
+      changes.push({ field, label, from, to });
+    }
+  });
+
+  TEXT_FIELDS.forEach(({ field, label }) => {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (from !== to) {
+      changes.push({ field, label, from, to });
+    }
+  });
+
+  const fromBadges = badgeKeys(before.badges);
+  const toBadges = badgeKeys(after.badges);
+  if (fromBadges !== toBadges) {
+    changes.push({ field: 'badges', label: 'Badges', from: fromBadges || null, to: toBadges || null });
+  }
+
+  return changes;
+}
+
+/**
+ * One line summary, e.g. "Total plays 812 → 845, Top movie changed"
+ */
+export function summarizeChanges(changes: StatsChange[]): string {
+  return changes
+    .map((change) =>
+      typeof change.from === 'number' && typeof change.to === 'number'
+        ? `${change.label} ${change.from} → ${change.to}`
+        : `${change.label} changed`
+    )
+    .join(', ');
+}
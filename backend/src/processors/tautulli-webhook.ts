@@ -0,0 +1,63 @@
+import logger from '../utils/logger';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import { normalizeHistoryRecord } from './history-import';
+import type { TautulliService } from '../services/tautulli.service';
+
+export interface WebhookEventResult {
+  action: string;
+  stored: boolean;
+  // Why the event wasn't stored
+  reason?: string;
+  rowId?: number;
+}
+
+// Tautulli joins list parameters with commas
+const LIST_FIELDS = ['genres', 'actors', 'directors'];
+
+/**
+ * Store a playback stop event from Tautulli's webhook agent in watch_history under the provider's source
+ * The payload uses history field names (see the README for the agent's JSON data template).
+ * Webhook plays get negative row ids, so they never move the incremental sync's starting row,
+ * and the sync drops them once it stores the same play with its real row id.
+ */
+export async function recordPlaybackStop(payload: Record<string, any>, provider: TautulliService): Promise<WebhookEventResult> {
+  const action = String(payload.action || '').toLowerCase();
+  if (action !== 'stop') {
+    return { action, stored: false, reason: `Ignored ${action || 'unknown'} event` };
+  }
+
+  if (!payload.user_id || !payload.rating_key) {
+    return { action, stored: false, reason: 'Event has no user_id or rating_key' };
+  }
+
+  // The stop time keys the play's row id, so a replayed event lands on the same row
+  const stopped = Number(payload.stopped);
+  if (!stopped) {
+    return { action, stored: false, reason: 'Event has no stopped time' };
+  }
+
+  // The start is worked out from the watched time
+  const started = Number(payload.started) || stopped - (Number(payload.duration) || 0);
+
+  const raw: Record<string, any> = { ...payload, row_id: undefined, started, stopped, date: started };
+  LIST_FIELDS.forEach((field) => {
+    if (typeof raw[field] === 'string') {
+      raw[field] = raw[field].split(',').map((item: string) => item.trim()).filter(Boolean);
+    }
+  });
+
+  const normalized = normalizeHistoryRecord(raw);
+  if (!normalized) {
+    return { action, stored: false, reason: `Unsupported media type ${payload.media_type || '(none)'}` };
+  }
+
+  const record = provider.prefixImages({ ...normalized, row_id: -normalized.row_id });
+  if (await WatchHistoryModel.hasSyncedPlay(record, provider.name)) {
+    return { action, stored: false, reason: 'Play was already synced' };
+  }
+
+  await WatchHistoryModel.upsertMany([record], provider.name);
+  logger.debug(`Stored ${provider.name} webhook play of ${record.rating_key} by user ${record.user_id}`);
+
+  return { action, stored: true, rowId: record.row_id };
+}
@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { asyncHandler, createError } from '../middleware/error.middleware';
 import { authenticateToken, generateToken, hashPassword, verifyPassword } from '../middleware/auth.middleware';
 import { adminRateLimiter, authRateLimiter } from '../middleware/rate-limit.middleware';
@@ -7,10 +7,32 @@ import { WrappedGenerationModel } from '../models/WrappedGeneration';
 import { UserWrappedStatsModel } from '../models/UserWrappedStats';
 import { AccessTokenModel } from '../models/AccessToken';
 import { EmailLogModel } from '../models/EmailLog';
-import { getTautulliService } from '../services/tautulli.service';
+import { BadgeDefinitionModel, type BadgeDefinitionCreate } from '../models/BadgeDefinition';
+import { ServerWrappedStatsModel } from '../models/ServerWrappedStats';
+import { GenerationUserStatusModel } from '../models/GenerationUserStatus';
+import { WrappedStatsSnapshotModel } from '../models/WrappedStatsSnapshot';
+import { StagedWrappedStatsModel } from '../models/StagedWrappedStats';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import { UserServerAccountModel } from '../models/UserServerAccount';
+import { MediaServerModel, getMediaServerSource, type MediaServer } from '../models/MediaServer';
+import { LiveWrappedModel, type LiveWrapped } from '../models/LiveWrapped';
+import {
+  getHistoryProviders,
+  getHistoryProviderNames,
+  getMediaServerProvider,
+  isHistoryProviderName,
+} from '../services/history-provider.service';
 import { getOverseerrService } from '../services/overseerr.service';
-import StatsCalculator from '../processors/stats-calculator';
+import { getGenerationQueue } from '../services/generation-queue.service';
+import { getHistorySyncService } from '../services/history-sync.service';
+import { getLiveWrappedService } from '../services/live-wrapped.service';
+import { getProgressService, type ProgressEvent, type ProgressUpdate } from '../services/progress.service';
+import { BADGE_COMPARATORS, BADGE_METRICS, evaluateBadges, getBadgeMetric } from '../processors/badge-rules';
+import { diffStats, summarizeChanges } from '../processors/stats-diff';
+import { buildDryRunReport } from '../processors/dry-run-report';
+import { detectExportFormat, importHistoryExport, type HistoryExportFormat } from '../processors/history-import';
 import logger from '../utils/logger';
+import { isValidTimezone } from '../utils/timezone';
 import { db } from '../config/database';
 import nodemailer from 'nodemailer';
 
@@ -81,6 +103,8 @@ router.get('/dashboard', asyncHandler(async (req, res) => {
     yearStats,
     latestGeneration,
     emailStats,
+    requestCorrelation,
+    serverWrapped,
   ] = await Promise.all([
     UserModel.count(),
     db.one<{ count: string }>('SELECT COUNT(*) FROM wrapped_generations'),
@@ -94,6 +118,8 @@ router.get('/dashboard', asyncHandler(async (req, res) => {
       FROM email_logs
       WHERE created_at > NOW() - INTERVAL '30 days'
     `),
+    UserWrappedStatsModel.getRequestCorrelationSummary(targetYear),
+    ServerWrappedStatsModel.findByYear(targetYear),
   ]);
 
   res.json({
@@ -106,6 +132,11 @@ router.get('/dashboard', asyncHandler(async (req, res) => {
       totalPending: parseInt(emailStats.total, 10) - parseInt(emailStats.sent, 10) - parseInt(emailStats.failed, 10),
       totalFailed: parseInt(emailStats.failed, 10),
     },
+    requestCorrelation,
+    serverWrapped: serverWrapped ? {
+      ...serverWrapped,
+      url: `${process.env.APP_URL}/server/${serverWrapped.share_token}`,
+    } : null,
     testMode: process.env.TEST_MODE === 'true',
     targetYear,
   });
@@ -113,39 +144,248 @@ router.get('/dashboard', asyncHandler(async (req, res) => {
 
 /**
  * POST /api/admin/users/sync
- * Sync users from Tautulli
+ * Sync users from every history provider and media server
+ * Accounts matching an existing user from another server (same Plex user id or email) are linked to that user,
+ * so their history on every server ends up in one wrapped
  */
 router.post('/users/sync', asyncHandler(async (req, res) => {
-  logger.info('Starting user sync from Tautulli');
+  const synced = [];
+  let linked = 0;
 
-  const tautulli = getTautulliService();
-  const tautulliUsers = await tautulli.getUsers();
+  for (const provider of await getHistoryProviders()) {
+    logger.info(`Starting user sync from ${provider.name}`);
 
-  const synced = [];
-  for (const tUser of tautulliUsers) {
-    const user = await UserModel.upsert({
-      plex_user_id: tUser.user_id,
-      username: tUser.username,
-      email: tUser.email,
-      friendly_name: tUser.friendly_name,
-      thumb: tUser.thumb,
-      is_admin: tUser.is_admin === 1,
-      is_home_user: tUser.is_home_user === 1,
-      is_allow_sync: tUser.is_allow_sync === 1,
-      is_restricted: tUser.is_restricted === 1,
-    });
-    synced.push(user);
-  }
+    const providerUsers = await provider.getUsers();
+    for (const pUser of providerUsers) {
+      const existing = await UserModel.findByServerAccount(provider.name, pUser.user_id, pUser.email);
+      if (existing && (existing.history_provider !== provider.name || existing.plex_user_id !== pUser.user_id)) {
+        await UserServerAccountModel.link(existing.id, provider.name, pUser.user_id);
+        linked++;
+        continue;
+      }
 
-  logger.info(`Synced ${synced.length} users from Tautulli`);
+      const user = await UserModel.upsert({
+        plex_user_id: pUser.user_id,
+        username: pUser.username,
+        email: pUser.email,
+        friendly_name: pUser.friendly_name,
+        thumb: pUser.thumb,
+        is_admin: pUser.is_admin === 1,
+        is_home_user: pUser.is_home_user === 1,
+        is_allow_sync: pUser.is_allow_sync === 1,
+        is_restricted: pUser.is_restricted === 1,
+        history_provider: provider.name,
+      });
+      await UserServerAccountModel.link(user.id, provider.name, pUser.user_id);
+      synced.push(user);
+    }
+
+    logger.info(`Synced ${providerUsers.length} users from ${provider.name}`);
+  }
 
   res.json({
     success: true,
-    message: `Synced ${synced.length} users`,
+    message: `Synced ${synced.length} users, linked ${linked} accounts from other servers`,
     users: synced,
+    linked,
+  });
+}));
+
+/**
+ * GET /api/admin/history
+ * How much watch history is stored locally
+ */
+router.get('/history', asyncHandler(async (req, res) => {
+  const [records, sources] = await Promise.all([
+    WatchHistoryModel.count(),
+    WatchHistoryModel.countBySource(),
+  ]);
+
+  const mediaServers = await MediaServerModel.findEnabled();
+  res.json({
+    records,
+    sources,
+    providers: [...getHistoryProviderNames(), ...mediaServers.map((server) => getMediaServerSource(server.id))],
   });
 }));
 
+/**
+ * POST /api/admin/history/sync
+ * Sync every provider's history into watch_history, only newer plays unless a year is given
+ */
+router.post('/history/sync', asyncHandler(async (req, res) => {
+  const year = req.body.year ? parseInt(req.body.year, 10) : undefined;
+  if (year !== undefined && Number.isNaN(year)) {
+    throw createError('Invalid year', 400);
+  }
+
+  const result = await getHistorySyncService().sync({ year });
+
+  res.json({
+    success: true,
+    message: `Synced ${result.stored} history records`,
+    ...result,
+  });
+}));
+
+/**
+ * POST /api/admin/history/import?source=old-server&format=csv&replace=true
+ * Import a Tautulli history export (CSV or JSON file as the request body) into watch_history
+ */
+router.post(
+  '/history/import',
+  express.text({ type: () => true, limit: process.env.HISTORY_IMPORT_MAX_SIZE || '100mb' }),
+  asyncHandler(async (req, res) => {
+    const source = String(req.query.source || '').trim();
+    if (!/^[a-z0-9][a-z0-9_-]{0,99}$/i.test(source)) {
+      throw createError('source is required: letters, numbers, dashes and underscores', 400);
+    }
+    if (isHistoryProviderName(source)) {
+      throw createError(`"${source}" is reserved for synced history`, 400);
+    }
+
+    const format = req.query.format as string | undefined;
+    if (format && format !== 'csv' && format !== 'json') {
+      throw createError('format must be csv or json', 400);
+    }
+
+    // JSON uploads sent as application/json were already parsed by the global body parser
+    const content = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+    if (!content || content === '{}') {
+      throw createError('Upload the export file as the request body', 400);
+    }
+
+    let result;
+    try {
+      result = await importHistoryExport(content, {
+        source,
+        format: (format as HistoryExportFormat) || detectExportFormat(content, req.query.filename as string | undefined),
+        replace: req.query.replace === 'true',
+      });
+    } catch (error: any) {
+      logger.error('History import failed:', error);
+      throw createError(`Could not import export: ${error.message}`, 400);
+    }
+
+    res.json({
+      success: true,
+      message: `Imported ${result.imported} history records as "${source}"`,
+      ...result,
+    });
+  })
+);
+
+/**
+ * DELETE /api/admin/history/sources/:source
+ * Remove an imported source from watch_history, along with the accounts linked to it
+ */
+router.delete('/history/sources/:source', asyncHandler(async (req, res) => {
+  if (isHistoryProviderName(req.params.source)) {
+    throw createError('Synced history can\'t be removed here', 400);
+  }
+
+  const deleted = await WatchHistoryModel.deleteBySource(req.params.source);
+  if (deleted === 0) {
+    throw createError('Source not found', 404);
+  }
+  await UserServerAccountModel.deleteBySource(req.params.source);
+
+  res.json({ success: true, deleted });
+}));
+
+/**
+ * GET /api/admin/media-servers
+ * List the extra Tautulli servers, API keys masked
+ */
+router.get('/media-servers', asyncHandler(async (req, res) => {
+  const servers = await MediaServerModel.findAll();
+  res.json({ servers: servers.map(toMediaServerResponse) });
+}));
+
+/**
+ * POST /api/admin/media-servers
+ * Add a Tautulli server, its users and history are picked up by the next user and history sync
+ */
+router.post('/media-servers', asyncHandler(async (req, res) => {
+  const error = validateMediaServer(req.body);
+  if (error) {
+    throw createError(error, 400);
+  }
+
+  const server = await MediaServerModel.create({
+    name: req.body.name.trim(),
+    url: req.body.url.trim().replace(/\/+$/, ''),
+    api_key: req.body.api_key.trim(),
+    enabled: req.body.enabled,
+  });
+
+  logger.info(`Added media server ${server.name} (${getMediaServerSource(server.id)})`);
+
+  res.status(201).json(toMediaServerResponse(server));
+}));
+
+/**
+ * PUT /api/admin/media-servers/:id
+ * Update a Tautulli server, the API key is only replaced when one is sent
+ */
+router.put('/media-servers/:id', asyncHandler(async (req, res) => {
+  const serverId = parseInt(req.params.id, 10);
+
+  const error = validateMediaServer(req.body, true);
+  if (error) {
+    throw createError(error, 400);
+  }
+
+  const { name, url, api_key, enabled } = req.body;
+  const updates = Object.fromEntries(
+    Object.entries({
+      name: name?.trim(),
+      url: url?.trim().replace(/\/+$/, ''),
+      api_key: api_key?.trim() || undefined,
+      enabled,
+    }).filter(([, value]) => value !== undefined)
+  );
+
+  const server = await MediaServerModel.update(serverId, updates);
+  if (!server) {
+    throw createError('Media server not found', 404);
+  }
+
+  logger.info(`Updated media server ${server.name} (${getMediaServerSource(server.id)})`);
+
+  res.json(toMediaServerResponse(server));
+}));
+
+/**
+ * DELETE /api/admin/media-servers/:id
+ * Remove a Tautulli server along with the history and user links synced from it
+ */
+router.delete('/media-servers/:id', asyncHandler(async (req, res) => {
+  const serverId = parseInt(req.params.id, 10);
+
+  const deleted = await MediaServerModel.delete(serverId);
+  if (!deleted) {
+    throw createError('Media server not found', 404);
+  }
+
+  logger.info(`Deleted media server ${getMediaServerSource(serverId)}`);
+
+  res.json({ success: true });
+}));
+
+/**
+ * POST /api/admin/media-servers/:id/test
+ * Check that a saved Tautulli server can be reached with its API key
+ */
+router.post('/media-servers/:id/test', asyncHandler(async (req, res) => {
+  const server = await MediaServerModel.findById(parseInt(req.params.id, 10));
+  if (!server) {
+    throw createError('Media server not found', 404);
+  }
+
+  res.json(await getMediaServerProvider(server).healthCheck());
+}));
+
 /**
  * GET /api/admin/users
  * List all users
@@ -159,6 +399,7 @@ router.get('/users', asyncHandler(async (req, res) => {
     users.map(async (user) => {
       const stats = await UserWrappedStatsModel.findByUserAndYear(user.id, targetYear);
       const tokens = stats ? await AccessTokenModel.findByWrappedStatsId(stats.id) : null;
+      const live = await LiveWrappedModel.findByUser(user.id);
 
       return {
         ...user,
@@ -167,6 +408,7 @@ router.get('/users', asyncHandler(async (req, res) => {
         statsYear: stats?.year || null,
         token: tokens?.token || null,
         generatedAt: stats?.generated_at || null,
+        liveWrapped: live?.enabled ? toLiveWrappedResponse(live) : null,
       };
     })
   );
@@ -228,6 +470,89 @@ router.patch('/users/:id/language', asyncHandler(async (req, res) => {
   });
 }));
 
+/**
+ * PATCH /api/admin/users/:id/timezone
+ * Update user's timezone (null falls back to the server timezone)
+ */
+router.patch('/users/:id/timezone', asyncHandler(async (req, res) => {
+  const userId = parseInt(req.params.id, 10);
+  const timezone = req.body.timezone || null;
+
+  // Validate IANA timezone name
+  if (timezone !== null && !isValidTimezone(timezone)) {
+    throw createError('Invalid timezone. Must be an IANA timezone name such as Europe/Ljubljana', 400);
+  }
+
+  // Check if user exists
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  // Update user's timezone
+  const updatedUser = await UserModel.update(userId, { timezone });
+
+  logger.info(`Updated timezone for user ${userId} to ${timezone || 'server default'}`);
+
+  res.json({
+    success: true,
+    user: updatedUser,
+  });
+}));
+
+/**
+ * POST /api/admin/users/:id/live-wrapped
+ * Opt a user into a year-to-date wrapped, calculated right away and then on the refresh schedule
+ */
+router.post('/users/:id/live-wrapped', asyncHandler(async (req, res) => {
+  const userId = parseInt(req.params.id, 10);
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  const live = await LiveWrappedModel.enable(userId);
+  // Calculating can take a while, the link shows the stats once it's done
+  getLiveWrappedService().refresh(live).catch((error) => logger.error('Live wrapped refresh failed:', error));
+
+  logger.info(`Enabled live wrapped for user ${userId}`);
+
+  res.json({
+    success: true,
+    liveWrapped: toLiveWrappedResponse(live),
+  });
+}));
+
+/**
+ * DELETE /api/admin/users/:id/live-wrapped
+ * Opt a user out of the year-to-date wrapped, its link stops working
+ */
+router.delete('/users/:id/live-wrapped', asyncHandler(async (req, res) => {
+  const userId = parseInt(req.params.id, 10);
+  const live = await LiveWrappedModel.disable(userId);
+  if (!live) {
+    throw createError('User has no live wrapped', 404);
+  }
+
+  logger.info(`Disabled live wrapped for user ${userId}`);
+
+  res.json({ success: true });
+}));
+
+/**
+ * POST /api/admin/live-wrapped/refresh
+ * Recalculate every live wrapped now instead of waiting for the schedule
+ */
+router.post('/live-wrapped/refresh', asyncHandler(async (req, res) => {
+  const result = await getLiveWrappedService().refreshAll(true);
+
+  res.json({
+    success: true,
+    message: `Refreshed ${result.refreshed} live wrapped`,
+    ...result,
+  });
+}));
+
 /**
  * POST /api/admin/users/:id/send-email
  * Send wrapped email to a specific user
@@ -357,114 +682,43 @@ router.get('/preview/:userId/:year', asyncHandler(async (req, res) => {
 
 /**
  * POST /api/admin/generate
- * Trigger wrapped generation
+ * Trigger wrapped generation, dry runs stage their results until published
  */
 router.post('/generate', asyncHandler(async (req, res) => {
-  const { year, userIds } = req.body;
+  const { year, userIds, dryRun, resync } = req.body;
   const targetYear = year || parseInt(process.env.TARGET_YEAR || '2025', 10);
 
-  logger.info(`Starting wrapped generation for year ${targetYear}`);
+  logger.info(
+    `Starting wrapped ${dryRun ? 'dry run' : 'generation'} for year ${targetYear}${resync ? ' with a full history re-sync' : ''}`
+  );
 
-  // Create generation record
+  // Create generation record, history newer than what is stored is synced first unless resync asks for the whole year
   const generation = await WrappedGenerationModel.create({
     year: targetYear,
     triggered_by: req.user?.username || 'admin',
-    config: { userIds },
-  });
-
-  // Start generation process (async)
-  generateWrappedStats(generation.id, targetYear, userIds).catch((error) => {
-    logger.error('Generation failed:', error);
+    config: { userIds, resync: resync === true },
+    dry_run: dryRun === true,
   });
 
-  res.json({
-    success: true,
-    message: 'Generation started',
-    generation,
-  });
-}));
-
-/**
- * Background job to generate wrapped stats
- */
-async function generateWrappedStats(generationId: number, year: number, userIds?: number[]) {
+  // Queue one job per user, the generation queue workers pick them up
   try {
-    await WrappedGenerationModel.update(generationId, {
-      status: 'processing',
-      started_at: new Date(),
-    });
-
-    // Get users to process
-    let users = userIds
-      ? await Promise.all(userIds.map(id => UserModel.findById(id)))
-      : await UserModel.findAll();
-
-    users = users.filter(u => u !== null) as any[];
-
-    await WrappedGenerationModel.update(generationId, {
-      total_users: users.length,
-    });
-
-    const calculator = new StatsCalculator();
-    let successful = 0;
-    let failed = 0;
-
-    // Process each user
-    for (const user of users) {
-      try {
-        logger.info(`Processing user ${user.id} (${user.username})`);
-        const startTime = Date.now();
-
-        // Calculate stats
-        const stats = await calculator.calculateUserStats(user.plex_user_id, year);
-        const processingTime = Math.round((Date.now() - startTime) / 1000);
-
-        // Save stats
-        const savedStats = await UserWrappedStatsModel.create({
-          user_id: user.id,
-          generation_id: generationId,
-          year,
-          stats,
-          processing_time_seconds: processingTime,
-        });
-
-        // Generate access token
-        await AccessTokenModel.create({
-          user_wrapped_stats_id: savedStats.id,
-          user_id: user.id,
-          year,
-          created_by: 'generation',
-        });
-
-        successful++;
-        await WrappedGenerationModel.incrementProcessed(generationId, true);
-
-        logger.info(`Successfully processed user ${user.id}`);
-      } catch (error: any) {
-        logger.error(`Failed to process user ${user.id}:`, error);
-        failed++;
-        await WrappedGenerationModel.incrementProcessed(generationId, false);
-      }
-    }
-
-    // Mark as completed
-    await WrappedGenerationModel.update(generationId, {
-      status: 'completed',
-      completed_at: new Date(),
-      successful_users: successful,
-      failed_users: failed,
-    });
-
-    logger.info(`Generation ${generationId} completed: ${successful} successful, ${failed} failed`);
+    await getGenerationQueue().enqueueGeneration(generation.id, targetYear, userIds);
   } catch (error: any) {
-    logger.error(`Generation ${generationId} failed:`, error);
-    await WrappedGenerationModel.update(generationId, {
+    logger.error('Failed to queue generation:', error);
+    await WrappedGenerationModel.update(generation.id, {
       status: 'failed',
       completed_at: new Date(),
       error_log: error.message,
     });
+    throw createError('Failed to queue generation', 500);
   }
-}
+
+  res.json({
+    success: true,
+    message: 'Generation started',
+    generation,
+  });
+}));
 
 /**
  * GET /api/admin/generations
@@ -489,7 +743,10 @@ router.get('/generations/:id', asyncHandler(async (req, res) => {
     throw createError('Generation not found', 404);
   }
 
-  const stats = await UserWrappedStatsModel.findByGeneration(generationId);
+  const [stats, users] = await Promise.all([
+    UserWrappedStatsModel.findByGeneration(generationId),
+    GenerationUserStatusModel.findByGeneration(generationId),
+  ]);
 
   res.json({
     generation,
@@ -497,6 +754,570 @@ router.get('/generations/:id', asyncHandler(async (req, res) => {
       total: stats.length,
       list: stats,
     },
+    users,
+  });
+}));
+
+/**
+ * POST /api/admin/generations/:id/cancel
+ * Cancel a generation, users already being processed are allowed to finish
+ */
+router.post('/generations/:id/cancel', asyncHandler(async (req, res) => {
+  const generationId = parseInt(req.params.id, 10);
+  const generation = await WrappedGenerationModel.findById(generationId);
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  if (!['pending', 'processing', 'paused'].includes(generation.status)) {
+    throw createError(`Cannot cancel a ${generation.status} generation`, 400);
+  }
+
+  const cancelled = await getGenerationQueue().cancelGeneration(generationId);
+
+  res.json({
+    success: true,
+    message: `Generation cancelled, ${cancelled} queued users skipped`,
+    cancelled,
+  });
+}));
+
+/**
+ * POST /api/admin/generations/:id/pause
+ * Pause a running generation
+ */
+router.post('/generations/:id/pause', asyncHandler(async (req, res) => {
+  const generationId = parseInt(req.params.id, 10);
+  const generation = await WrappedGenerationModel.findById(generationId);
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  if (generation.status !== 'processing') {
+    throw createError(`Cannot pause a ${generation.status} generation`, 400);
+  }
+
+  await getGenerationQueue().pauseGeneration(generationId);
+
+  res.json({
+    success: true,
+    message: 'Generation paused',
+  });
+}));
+
+/**
+ * POST /api/admin/generations/:id/resume
+ * Resume a paused generation
+ */
+router.post('/generations/:id/resume', asyncHandler(async (req, res) => {
+  const generationId = parseInt(req.params.id, 10);
+  const generation = await WrappedGenerationModel.findById(generationId);
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  if (generation.status !== 'paused') {
+    throw createError(`Cannot resume a ${generation.status} generation`, 400);
+  }
+
+  await getGenerationQueue().resumeGeneration(generationId);
+
+  res.json({
+    success: true,
+    message: 'Generation resumed',
+  });
+}));
+
+/**
+ * POST /api/admin/generations/:id/retry-failed
+ * Process only the users that failed in a finished generation again
+ */
+router.post('/generations/:id/retry-failed', asyncHandler(async (req, res) => {
+  const generationId = parseInt(req.params.id, 10);
+  const generation = await WrappedGenerationModel.findById(generationId);
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  if (!['completed', 'failed', 'cancelled'].includes(generation.status)) {
+    throw createError('Wait for the generation to finish before retrying failed users', 400);
+  }
+
+  const retried = await getGenerationQueue().retryFailed(generation);
+  if (retried === 0) {
+    throw createError('No failed users to retry', 400);
+  }
+
+  res.json({
+    success: true,
+    message: `Retrying ${retried} failed users`,
+    retried,
+  });
+}));
+
+/**
+ * GET /api/admin/generations/:id/report
+ * Dry run report: changed users, users without history and anomalies
+ */
+router.get('/generations/:id/report', asyncHandler(async (req, res) => {
+  const generationId = parseInt(req.params.id, 10);
+  const generation = await WrappedGenerationModel.findById(generationId);
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  if (!generation.dry_run) {
+    throw createError('Only dry runs have a report', 400);
+  }
+
+  if (generation.published_at) {
+    throw createError('This dry run has already been published', 400);
+  }
+
+  const [staged, live] = await Promise.all([
+    StagedWrappedStatsModel.findByGeneration(generationId),
+    UserWrappedStatsModel.findByYear(generation.year),
+  ]);
+
+  res.json(buildDryRunReport(staged, live));
+}));
+
+/**
+ * POST /api/admin/generations/:id/publish
+ * Promote a finished dry run's staged stats to live stats
+ */
+router.post('/generations/:id/publish', asyncHandler(async (req, res) => {
+  const generationId = parseInt(req.params.id, 10);
+  const generation = await WrappedGenerationModel.findById(generationId);
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  if (!generation.dry_run) {
+    throw createError('Only dry runs can be published', 400);
+  }
+
+  if (generation.published_at) {
+    throw createError('This dry run has already been published', 400);
+  }
+
+  if (generation.status !== 'completed') {
+    throw createError('Wait for the dry run to finish before publishing', 400);
+  }
+
+  await assertNoRunningGeneration(generation.year);
+
+  const published = await getGenerationQueue().publishGeneration(generation);
+
+  res.json({
+    success: true,
+    message: `Published stats for ${published} users`,
+    published,
+  });
+}));
+
+/**
+ * POST /api/admin/generations/:id/rollback
+ * Restore every user's stats from this generation's snapshots
+ */
+router.post('/generations/:id/rollback', asyncHandler(async (req, res) => {
+  const generationId = parseInt(req.params.id, 10);
+  const generation = await WrappedGenerationModel.findById(generationId);
+
+  if (!generation) {
+    throw createError('Generation not found', 404);
+  }
+
+  await assertNoRunningGeneration(generation.year);
+
+  const snapshots = await WrappedStatsSnapshotModel.findByGeneration(generationId);
+  if (snapshots.length === 0) {
+    throw createError('This generation has no snapshots to roll back to', 400);
+  }
+
+  let restored = 0;
+  for (const snapshot of snapshots) {
+    if (await WrappedStatsSnapshotModel.restore(snapshot.id)) {
+      restored++;
+    }
+  }
+
+  logger.info(`Rolled back ${restored} users for ${generation.year} to generation ${generationId}`);
+
+  res.json({
+    success: true,
+    message: `Rolled back ${restored} users to generation #${generationId}`,
+    restored,
+  });
+}));
+
+/**
+ * GET /api/admin/users/:id/snapshots
+ * A user's stats snapshots for a year, each with what changed since the previous one
+ */
+router.get('/users/:id/snapshots', asyncHandler(async (req, res) => {
+  const userId = parseInt(req.params.id, 10);
+  const year = parseInt(req.query.year as string, 10) || parseInt(process.env.TARGET_YEAR || '2025', 10);
+
+  const snapshots = await WrappedStatsSnapshotModel.findByUserAndYear(userId, year);
+
+  res.json(
+    snapshots.map((snapshot, index) => {
+      // Newest first, so the previous version is the next one in the list
+      const previous = snapshots[index + 1];
+      const changes = previous ? diffStats(previous.data, snapshot.data) : [];
+
+      return {
+        id: snapshot.id,
+        generationId: snapshot.generation_id,
+        isActive: snapshot.is_active,
+        createdAt: snapshot.created_at,
+        totalPlays: snapshot.data.total_plays,
+        totalWatchTimeMinutes: snapshot.data.total_watch_time_minutes,
+        changes,
+        summary: summarizeChanges(changes),
+      };
+    })
+  );
+}));
+
+/**
+ * GET /api/admin/snapshots/:id/diff
+ * Compare a snapshot with another one (defaults to the active snapshot)
+ */
+router.get('/snapshots/:id/diff', asyncHandler(async (req, res) => {
+  const snapshot = await WrappedStatsSnapshotModel.findById(parseInt(req.params.id, 10));
+
+  if (!snapshot) {
+    throw createError('Snapshot not found', 404);
+  }
+
+  const compareTo = req.query.compareTo
+    ? await WrappedStatsSnapshotModel.findById(parseInt(req.query.compareTo as string, 10))
+    : await WrappedStatsSnapshotModel.findActive(snapshot.user_id, snapshot.year);
+
+  if (!compareTo) {
+    throw createError('Snapshot to compare with not found', 404);
+  }
+
+  const changes = diffStats(compareTo.data, snapshot.data);
+
+  res.json({
+    from: { id: compareTo.id, generationId: compareTo.generation_id, createdAt: compareTo.created_at },
+    to: { id: snapshot.id, generationId: snapshot.generation_id, createdAt: snapshot.created_at },
+    changes,
+    summary: summarizeChanges(changes),
+  });
+}));
+
+/**
+ * POST /api/admin/snapshots/:id/rollback
+ * Restore a single user's stats from a snapshot
+ */
+router.post('/snapshots/:id/rollback', asyncHandler(async (req, res) => {
+  const snapshot = await WrappedStatsSnapshotModel.findById(parseInt(req.params.id, 10));
+
+  if (!snapshot) {
+    throw createError('Snapshot not found', 404);
+  }
+
+  await assertNoRunningGeneration(snapshot.year);
+
+  const restored = await WrappedStatsSnapshotModel.restore(snapshot.id);
+  if (!restored) {
+    throw createError('User has no stats for this year to roll back', 404);
+  }
+
+  logger.info(`Rolled back user ${snapshot.user_id} for ${snapshot.year} to snapshot ${snapshot.id}`);
+
+  res.json({
+    success: true,
+    message: 'Stats rolled back',
+    stats: restored,
+  });
+}));
+
+/**
+ * Rolling back while a generation for the same year is running would be overwritten by it
+ */
+async function assertNoRunningGeneration(year: number): Promise<void> {
+  const unfinished = await WrappedGenerationModel.findUnfinished();
+  if (unfinished.some((generation) => generation.year === year)) {
+    throw createError(`A generation for ${year} is still running`, 409);
+  }
+}
+
+/**
+ * GET /api/admin/progress/stream
+ * Server-Sent Events stream of per-user generation and email progress
+ */
+router.get('/progress/stream', (req, res) => {
+  const progress = getProgressService();
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering events
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Catch up on runs already in progress
+  send('snapshot', progress.getActiveRuns());
+
+  const onProgress = (event: ProgressEvent) => send('progress', event);
+  progress.on('progress', onProgress);
+
+  // Keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    progress.off('progress', onProgress);
+  });
+});
+
+/**
+ * Validate a media server from the request body
+ * Returns an error message, or null if the server is valid
+ */
+function validateMediaServer(data: Partial<MediaServer>, partial = false): string | null {
+  if (!partial || data.name !== undefined) {
+    if (!data.name || typeof data.name !== 'string' || !data.name.trim()) {
+      return 'Name is required';
+    }
+  }
+  if (!partial || data.url !== undefined) {
+    if (!data.url || typeof data.url !== 'string' || !/^https?:\/\/\S+$/.test(data.url.trim())) {
+      return 'URL must start with http:// or https://';
+    }
+  }
+  if (!partial || data.api_key !== undefined) {
+    if (typeof data.api_key !== 'string' || (!partial && !data.api_key.trim())) {
+      return 'API key is required';
+    }
+  }
+  if (data.enabled !== undefined && typeof data.enabled !== 'boolean') {
+    return 'Enabled must be true or false';
+  }
+  return null;
+}
+
+/**
+ * A media server as returned to the admin panel, with its source name and without the API key
+ */
+function toMediaServerResponse(server: MediaServer) {
+  const { api_key, ...rest } = server;
+  return {
+    ...rest,
+    source: getMediaServerSource(server.id),
+    api_key_set: Boolean(api_key),
+  };
+}
+
+/**
+ * A user's live wrapped as returned to the admin panel, with its link instead of the stats
+ */
+function toLiveWrappedResponse(live: LiveWrapped) {
+  return {
+    url: `${process.env.APP_URL}/wrapped/${live.token}`,
+    year: live.year,
+    refreshedAt: live.refreshed_at,
+    refreshError: live.refresh_error,
+    accessCount: live.access_count,
+  };
+}
+
+/**
+ * Validate a badge definition from the request body
+ * Returns an error message, or null if the definition is valid
+ */
+function validateBadgeDefinition(data: Partial<BadgeDefinitionCreate>, partial = false): string | null {
+  if (!partial || data.key !== undefined) {
+    if (!data.key || !/^[a-zA-Z0-9_-]+$/.test(data.key)) {
+      return 'Badge key is required and may only contain letters, numbers, dashes and underscores';
+    }
+  }
+  if (!partial || data.metric !== undefined) {
+    if (!data.metric || !getBadgeMetric(data.metric)) {
+      return `Invalid metric. Must be one of: ${BADGE_METRICS.map((m) => m.key).join(', ')}`;
+    }
+  }
+  if (!partial || data.comparator !== undefined) {
+    if (!data.comparator || !BADGE_COMPARATORS.includes(data.comparator)) {
+      return `Invalid comparator. Must be one of: ${BADGE_COMPARATORS.join(' ')}`;
+    }
+  }
+  if (!partial || data.threshold !== undefined) {
+    if (typeof data.threshold !== 'number' || !Number.isFinite(data.threshold)) {
+      return 'Threshold must be a number';
+    }
+  }
+  if (!partial || data.icon !== undefined) {
+    if (!data.icon || typeof data.icon !== 'string') {
+      return 'Icon is required';
+    }
+  }
+  if (!partial || data.names !== undefined) {
+    if (!data.names || typeof data.names !== 'object' || !data.names.en?.name) {
+      return 'Names must include at least an English name';
+    }
+  }
+  return null;
+}
+
+/**
+ * GET /api/admin/badges
+ * List badge definitions and the metrics they can use
+ */
+router.get('/badges', asyncHandler(async (req, res) => {
+  const definitions = await BadgeDefinitionModel.findAll();
+
+  res.json({
+    definitions,
+    metrics: BADGE_METRICS.map((m) => ({ key: m.key, label: m.label })),
+    comparators: BADGE_COMPARATORS,
+  });
+}));
+
+/**
+ * POST /api/admin/badges
+ * Create a badge definition
+ */
+router.post('/badges', asyncHandler(async (req, res) => {
+  const error = validateBadgeDefinition(req.body);
+  if (error) {
+    throw createError(error, 400);
+  }
+
+  if (await BadgeDefinitionModel.findByKey(req.body.key)) {
+    throw createError('A badge with this key already exists', 409);
+  }
+
+  const definition = await BadgeDefinitionModel.create({
+    key: req.body.key,
+    metric: req.body.metric,
+    comparator: req.body.comparator,
+    threshold: req.body.threshold,
+    icon: req.body.icon,
+    names: req.body.names,
+    is_enabled: req.body.is_enabled,
+    sort_order: req.body.sort_order,
+  });
+
+  logger.info(`Created badge definition ${definition.key}`);
+
+  res.status(201).json(definition);
+}));
+
+/**
+ * PUT /api/admin/badges/:id
+ * Update a badge definition
+ */
+router.put('/badges/:id', asyncHandler(async (req, res) => {
+  const badgeId = parseInt(req.params.id, 10);
+
+  const error = validateBadgeDefinition(req.body, true);
+  if (error) {
+    throw createError(error, 400);
+  }
+
+  const { metric, comparator, threshold, icon, names, is_enabled, sort_order } = req.body;
+  const updates = Object.fromEntries(
+    Object.entries({ metric, comparator, threshold, icon, names, is_enabled, sort_order })
+      .filter(([, value]) => value !== undefined)
+  );
+
+  const definition = await BadgeDefinitionModel.update(badgeId, updates);
+  if (!definition) {
+    throw createError('Badge definition not found', 404);
+  }
+
+  logger.info(`Updated badge definition ${definition.key}`);
+
+  res.json(definition);
+}));
+
+/**
+ * DELETE /api/admin/badges/:id
+ * Delete a badge definition (badges already in generated stats are kept)
+ */
+router.delete('/badges/:id', asyncHandler(async (req, res) => {
+  const badgeId = parseInt(req.params.id, 10);
+
+  const deleted = await BadgeDefinitionModel.delete(badgeId);
+  if (!deleted) {
+    throw createError('Badge definition not found', 404);
+  }
+
+  res.json({ success: true });
+}));
+
+/**
+ * POST /api/admin/badges/preview
+ * Show which users would unlock each badge, using stats already generated for the year
+ * Unsaved definitions can be passed in the body to try out thresholds before saving
+ */
+router.post('/badges/preview', asyncHandler(async (req, res) => {
+  const targetYear = parseInt(req.body.year, 10) || parseInt(process.env.TARGET_YEAR || '2025', 10);
+
+  let definitions = req.body.definitions;
+  if (definitions) {
+    if (!Array.isArray(definitions)) {
+      throw createError('Definitions must be an array', 400);
+    }
+    for (const definition of definitions) {
+      const error = validateBadgeDefinition(definition);
+      if (error) {
+        throw createError(`${definition.key || 'Badge'}: ${error}`, 400);
+      }
+    }
+  } else {
+    definitions = await BadgeDefinitionModel.findAll();
+  }
+
+  const [allStats, users] = await Promise.all([
+    UserWrappedStatsModel.findByYear(targetYear),
+    UserModel.findAll(),
+  ]);
+  const usersById = new Map(users.map((u) => [u.id, u]));
+
+  const preview = definitions.map((definition: BadgeDefinitionCreate) => {
+    const unlockedBy = allStats
+      .map((stats) => {
+        const [badge] = evaluateBadges([definition], (metric) => metric.fromRow(stats));
+        if (!badge) return null;
+        const user = usersById.get(stats.user_id);
+        return {
+          userId: stats.user_id,
+          username: user?.username || null,
+          friendlyName: user?.friendly_name || null,
+          value: badge.params.value,
+        };
+      })
+      .filter((entry) => entry !== null);
+
+    return {
+      key: definition.key,
+      unlockedCount: unlockedBy.length,
+      unlockedBy,
+    };
+  });
+
+  res.json({
+    year: targetYear,
+    totalUsers: allStats.length,
+    badges: preview,
   });
 }));
 
@@ -563,11 +1384,27 @@ async function sendEmails(statsList: any[], generationId: number) {
   const rateLimit = parseInt(process.env.EMAIL_RATE_LIMIT || '10', 10);
   const delayMs = (60 * 1000) / rateLimit; // Delay between emails
 
+  // Progress for the admin panel's live view
+  const progress = getProgressService();
+  const counts = { total: statsList.length, processed: 0, succeeded: 0, failed: 0 };
+  const publish = (update: Pick<ProgressUpdate, 'type' | 'userId' | 'username' | 'error' | 'status'>) =>
+    progress.publish({ ...update, ...counts, source: 'email', runId: generationId });
+  const recordFailure = (userId: number, username: string | undefined, error: string) => {
+    counts.processed++;
+    counts.failed++;
+    publish({ type: 'failed', userId, username, error });
+  };
+
   for (const stats of statsList) {
+    let username: string | undefined;
     try {
       const user = await UserModel.findById(stats.user_id);
+      username = user?.username;
+      publish({ type: 'started', userId: stats.user_id, username });
+
       if (!user || !user.email) {
         logger.warn(`User ${stats.user_id} has no email, skipping`);
+        recordFailure(stats.user_id, username, 'No email address');
         continue;
       }
 
@@ -575,6 +1412,7 @@ async function sendEmails(statsList: any[], generationId: number) {
       const tokenRecord = await AccessTokenModel.findByWrappedStatsId(stats.id);
       if (!tokenRecord) {
         logger.error(`No token found for stats ${stats.id}`);
+        recordFailure(stats.user_id, username, 'No access token');
         continue;
       }
 
@@ -609,16 +1447,34 @@ async function sendEmails(statsList: any[], generationId: number) {
       await EmailLogModel.markSent(emailLog.id, info.messageId, info.response);
       logger.info(`Email sent to ${user.email}`);
 
+      counts.processed++;
+      counts.succeeded++;
+      publish({ type: 'succeeded', userId: user.id, username });
+
       // Rate limiting delay
       await new Promise(resolve => setTimeout(resolve, delayMs));
     } catch (error: any) {
       logger.error(`Failed to send email:`, error);
+      recordFailure(stats.user_id, username, error.message);
     }
   }
 
+  publish({ type: 'completed', status: 'completed' });
   logger.info('Email sending completed');
 }
 
+/**
+ * Escape text for HTML, names and fun facts contain media titles from the server's metadata
+ */
+function escapeHtml(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Generate email HTML
  */
@@ -627,7 +1483,10 @@ function generateEmailHTML(user: any, stats: any, url: string, locale: string =
   const { i18n } = require('../services/i18n.service');
   const t = (key: string, params?: any) => i18n.t(key, locale, params);
 
-  const name = user.friendly_name || user.username;
+  const name = escapeHtml(user.friendly_name || user.username);
+  const highlights: string[] = (stats.fun_facts || [])
+    .slice(0, 3)
+    .map((fact: any) => escapeHtml(i18n.renderFunFact(fact, locale)));
 
   return `
     <!DOCTYPE html>
@@ -661,6 +1520,15 @@ function generateEmailHTML(user: any, stats: any, url: string, locale: string =
             </ul>
           </div>
 
+          ${highlights.length > 0 ? `
+          <div class="stats">
+            <h2>${t('email.highlights.title')}</h2>
+            <ul>
+              ${highlights.map((fact) => `<li>${fact}</li>`).join('')}
+            </ul>
+          </div>
+          ` : ''}
+
           <p>${t('email.description')}</p>
 
           <center>
@@ -688,6 +1556,7 @@ function generateEmailText(user: any, stats: any, url: string, locale: string =
   const t = (key: string, params?: any) => i18n.t(key, locale, params);
 
   const name = user.friendly_name || user.username;
+  const highlights: string[] = (stats.fun_facts || []).slice(0, 3).map((fact: any) => i18n.renderFunFact(fact, locale));
 
   return `
 ${t('email.plainText.title', { year: stats.year })}
@@ -700,7 +1569,7 @@ ${t('email.plainText.quickPeek')}
 ${t('email.plainText.hoursWatched', { hours })}
 ${t('email.plainText.totalPlays', { plays: stats.total_plays })}
 ${t('email.plainText.daysActive', { days: stats.days_active })}
-
+${highlights.length > 0 ? `\n${t('email.plainText.highlights')}\n${highlights.map((fact) => `- ${fact}`).join('\n')}\n` : ''}
 ${t('email.plainText.viewHere')}
 ${url}
 
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { healthCheck as dbHealthCheck } from '../config/database';
 import { redisHealthCheck } from '../config/redis';
-import { getTautulliService } from '../services/tautulli.service';
-import { getOverseerrService } from '../services/overseerr.service';
+import { getHistoryProviderNames, getHistoryProvider } from '../services/history-provider.service';
+import { MediaServerModel, getMediaServerSource } from '../models/MediaServer';
+import { getRequestProvider } from '../services/request-provider.service';
 import { asyncHandler } from '../middleware/error.middleware';
 
 const router = Router();
@@ -25,18 +26,25 @@ router.get('/', asyncHandler(async (req, res) => {
  * Detailed health check with all services
  */
 router.get('/detailed', asyncHandler(async (req, res) => {
-  const tautulli = getTautulliService();
-  const overseerr = getOverseerrService();
+  const requestProvider = getRequestProvider();
+  const mediaServers = await MediaServerModel.findEnabled().catch(() => []);
+  const providerNames = [...getHistoryProviderNames(), ...mediaServers.map((server) => getMediaServerSource(server.id))];
 
   // Check all services
-  const [database, redis, tautulliCheck, overseerrCheck] = await Promise.all([
+  const [database, redis, requestCheck, ...providerChecks] = await Promise.all([
     dbHealthCheck().catch(() => false),
     redisHealthCheck().catch(() => false),
-    tautulli.healthCheck().catch(() => ({ healthy: false, message: 'Connection failed' })),
-    overseerr.healthCheck().catch(() => ({ healthy: false, message: 'Connection failed' })),
+    requestProvider.healthCheck().catch(() => ({ healthy: false, message: 'Connection failed' })),
+    // Providers throw on construction when they aren't configured
+    ...providerNames.map((name) =>
+      Promise.resolve()
+        .then(() => getHistoryProvider(name))
+        .then((provider) => provider.healthCheck())
+        .catch((error: any) => ({ healthy: false, message: error.message || 'Connection failed' }))
+    ),
   ]);
 
-  const allHealthy = database && redis && tautulliCheck.healthy;
+  const allHealthy = database && redis && providerChecks.every((check) => check.healthy);
 
   res.status(allHealthy ? 200 : 503).json({
     status: allHealthy ? 'healthy' : 'unhealthy',
@@ -50,14 +58,13 @@ router.get('/detailed', asyncHandler(async (req, res) => {
         healthy: redis,
         message: redis ? 'Connected' : 'Disconnected',
       },
-      tautulli: {
-        healthy: tautulliCheck.healthy,
-        message: tautulliCheck.message,
-      },
-      overseerr: {
-        healthy: overseerrCheck.healthy,
-        message: overseerrCheck.message,
-        enabled: overseerr.isEnabled(),
+      ...Object.fromEntries(
+        providerNames.map((name, i) => [name, { healthy: providerChecks[i].healthy, message: providerChecks[i].message }])
+      ),
+      [requestProvider.name]: {
+        healthy: requestCheck.healthy,
+        message: requestCheck.message,
+        enabled: requestProvider.isEnabled(),
       },
     },
   });
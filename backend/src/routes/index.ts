@@ -5,3 +5,4 @@
 export { default as healthRoutes } from './health.routes';
 export { default as wrappedRoutes } from './wrapped.routes';
 export { default as adminRoutes } from './admin.routes';
+export { default as webhookRoutes } from './webhook.routes';
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import webhookRoutes from './webhook.routes';
+import { errorHandler } from '../middleware/error.middleware';
+import { MediaServerModel } from '../models/MediaServer';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import type { TautulliHistoryRecord } from '../types/tautulli.types';
+
+jest.mock('../config/redis', () => ({
+  getCacheService: () => ({ get: jest.fn().mockResolvedValue(null), set: jest.fn() }),
+}));
+jest.mock('../models/WatchHistory', () => ({
+  TAUTULLI_SOURCE: 'tautulli',
+  WatchHistoryModel: { hasSyncedPlay: jest.fn(), upsertMany: jest.fn() },
+}));
+jest.mock('../models/MediaServer', () => ({
+  ...jest.requireActual('../models/MediaServer'),
+  MediaServerModel: { findById: jest.fn() },
+}));
+
+const SECRET = 'test-webhook-secret';
+
+// A playback stop event as Tautulli's webhook agent sends it with the README's data template
+const playbackStop = fs.readFileSync(path.join(__dirname, '__fixtures__', 'tautulli-playback-stop.json'), 'utf8');
+
+const sign = (body: string, secret = SECRET) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const app = express();
+app.use('/api/webhooks', webhookRoutes);
+app.use(errorHandler);
+
+const post = (url: string, body = playbackStop) =>
+  request(app).post(url).set('Content-Type', 'application/json').send(body);
+
+describe('POST /api/webhooks/tautulli', () => {
+  // watch_history rows by source and row id, upserted like ON CONFLICT (source, row_id) does
+  const rows = new Map<string, TautulliHistoryRecord>();
+
+  beforeAll(() => {
+    process.env.TAUTULLI_URL = 'http://tautulli:8181';
+    process.env.TAUTULLI_API_KEY = 'key';
+    process.env.TAUTULLI_WEBHOOK_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.TAUTULLI_URL;
+    delete process.env.TAUTULLI_API_KEY;
+    delete process.env.TAUTULLI_WEBHOOK_SECRET;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rows.clear();
+    (WatchHistoryModel.hasSyncedPlay as jest.Mock).mockResolvedValue(false);
+    (WatchHistoryModel.upsertMany as jest.Mock).mockImplementation(async (records: TautulliHistoryRecord[], source: string) => {
+      records.forEach((record) => rows.set(`${source}:${record.row_id}`, record));
+      return records.length;
+    });
+  });
+
+  it('stores a play signed with an HMAC of the body', async () => {
+    const res = await post('/api/webhooks/tautulli').set('X-Webhook-Signature', sign(playbackStop));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ success: true, source: 'tautulli', action: 'stop', stored: true });
+    expect(res.body.rowId).toBeLessThan(0);
+
+    expect(Array.from(rows.values())).toEqual([
+      expect.objectContaining({
+        row_id: res.body.rowId,
+        user_id: '9917402',
+        rating_key: '601',
+        media_type: 'episode',
+        started: 1740953300 - 3300,
+        stopped: 1740953300,
+        date: 1740953300 - 3300,
+        genres: ['Crime', 'Drama', 'Thriller'],
+        actors: ['Dominic West', 'Idris Elba'],
+      }),
+    ]);
+  });
+
+  it('accepts the static secret header Tautulli can send', async () => {
+    const res = await post('/api/webhooks/tautulli').set('X-Webhook-Secret', SECRET);
+
+    expect(res.status).toBe(200);
+    expect(res.body.stored).toBe(true);
+    expect(rows.size).toBe(1);
+  });
+
+  it('rejects bad signatures and secrets without storing anything', async () => {
+    const tampered = playbackStop.replace('"3300"', '"33000"');
+
+    const responses = await Promise.all([
+      post('/api/webhooks/tautulli', tampered).set('X-Webhook-Signature', sign(playbackStop)),
+      post('/api/webhooks/tautulli').set('X-Webhook-Signature', sign(playbackStop, 'another-secret')),
+      post('/api/webhooks/tautulli').set('X-Webhook-Secret', 'wrong'),
+      post('/api/webhooks/tautulli'),
+    ]);
+
+    responses.forEach((res) => {
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe('Invalid webhook signature');
+    });
+    expect(WatchHistoryModel.upsertMany).not.toHaveBeenCalled();
+  });
+
+  it('upserts a replayed event onto the same row', async () => {
+    const first = await post('/api/webhooks/tautulli').set('X-Webhook-Signature', sign(playbackStop));
+    const replay = await post('/api/webhooks/tautulli').set('X-Webhook-Signature', sign(playbackStop));
+
+    expect(replay.status).toBe(200);
+    expect(replay.body.rowId).toBe(first.body.rowId);
+    expect(rows.size).toBe(1);
+  });
+
+  it('rejects events without a stopped time instead of storing each delivery as a new play', async () => {
+    const event = JSON.parse(playbackStop);
+    delete event.stopped;
+    const body = JSON.stringify(event);
+
+    const first = await post('/api/webhooks/tautulli', body).set('X-Webhook-Signature', sign(body));
+    const replay = await post('/api/webhooks/tautulli', body).set('X-Webhook-Signature', sign(body));
+
+    [first, replay].forEach((res) => {
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ stored: false, reason: 'Event has no stopped time' });
+    });
+    expect(rows.size).toBe(0);
+  });
+
+  it('skips plays the history sync already stored', async () => {
+    (WatchHistoryModel.hasSyncedPlay as jest.Mock).mockResolvedValue(true);
+
+    const res = await post('/api/webhooks/tautulli').set('X-Webhook-Secret', SECRET);
+
+    expect(res.body).toMatchObject({ stored: false, reason: 'Play was already synced' });
+    expect(rows.size).toBe(0);
+  });
+
+  it('ignores events other than playback stop', async () => {
+    const body = JSON.stringify({ ...JSON.parse(playbackStop), action: 'pause' });
+
+    const res = await post('/api/webhooks/tautulli', body).set('X-Webhook-Signature', sign(body));
+
+    expect(res.body).toMatchObject({ stored: false, reason: 'Ignored pause event' });
+  });
+
+  it('stores plays from a media server under its source', async () => {
+    (MediaServerModel.findById as jest.Mock).mockResolvedValue({
+      id: 3,
+      name: 'Cabin',
+      url: 'http://cabin:8181',
+      api_key: 'key-3',
+      enabled: true,
+      updated_at: new Date('2026-10-01T00:00:00Z'),
+    });
+
+    const res = await post('/api/webhooks/tautulli/3').set('X-Webhook-Secret', SECRET);
+
+    expect(res.body).toMatchObject({ source: 'tautulli:3', stored: true });
+    expect(rows.has(`tautulli:3:${res.body.rowId}`)).toBe(true);
+  });
+
+  it('answers 404 for unknown media servers', async () => {
+    (MediaServerModel.findById as jest.Mock).mockResolvedValue(null);
+
+    const res = await post('/api/webhooks/tautulli/9').set('X-Webhook-Secret', SECRET);
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,96 @@
+import express, { Router, type Request } from 'express';
+import crypto from 'crypto';
+import { asyncHandler, createError } from '../middleware/error.middleware';
+import { webhookRateLimiter } from '../middleware/rate-limit.middleware';
+import { MediaServerModel } from '../models/MediaServer';
+import { TAUTULLI_SOURCE } from '../models/WatchHistory';
+import { getHistoryProviderNames, getMediaServerProvider } from '../services/history-provider.service';
+import { getTautulliService, type TautulliService } from '../services/tautulli.service';
+import { recordPlaybackStop } from '../processors/tautulli-webhook';
+
+const router = Router();
+
+router.use(webhookRateLimiter);
+
+// Signatures are checked against the body exactly as it was sent
+router.use(express.raw({ type: () => true, limit: '1mb' }));
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * Check the request carries the webhook secret, either as an HMAC-SHA256 signature of the body
+ * or as the secret itself for senders that can only set static headers, like Tautulli's webhook agent
+ */
+function verifySignature(req: Request, secret: string): boolean {
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+  const signature = req.get('X-Webhook-Signature');
+  if (signature) {
+    const expected = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+    return safeEqual(signature, expected);
+  }
+
+  const provided = req.get('X-Webhook-Secret');
+  return !!provided && safeEqual(provided, secret);
+}
+
+/**
+ * The Tautulli the webhook was sent from, the history provider or one of the media servers
+ */
+async function getWebhookProvider(serverId?: string): Promise<TautulliService> {
+  if (serverId === undefined) {
+    if (!getHistoryProviderNames().includes(TAUTULLI_SOURCE)) {
+      throw createError('Tautulli is not a configured history provider', 404);
+    }
+    return getTautulliService();
+  }
+
+  const server = /^\d+$/.test(serverId) ? await MediaServerModel.findById(parseInt(serverId, 10)) : null;
+  if (!server || !server.enabled) {
+    throw createError('Media server not found', 404);
+  }
+  return getMediaServerProvider(server);
+}
+
+const handleTautulliWebhook = asyncHandler(async (req: Request, res: express.Response) => {
+  const secret = process.env.TAUTULLI_WEBHOOK_SECRET;
+  if (!secret) {
+    throw createError('Tautulli webhook is not configured', 404);
+  }
+  if (!verifySignature(req, secret)) {
+    throw createError('Invalid webhook signature', 401);
+  }
+
+  let payload: Record<string, any>;
+  try {
+    payload = JSON.parse(Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '');
+  } catch {
+    throw createError('Webhook body must be JSON', 400);
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw createError('Webhook body must be a JSON object', 400);
+  }
+
+  const provider = await getWebhookProvider(req.params.serverId);
+  const result = await recordPlaybackStop(payload, provider);
+
+  res.json({ success: true, source: provider.name, ...result });
+});
+
+/**
+ * POST /api/webhooks/tautulli
+ * Playback stop events from the Tautulli history provider's webhook agent
+ */
+router.post('/tautulli', handleTautulliWebhook);
+
+/**
+ * POST /api/webhooks/tautulli/:serverId
+ * Playback stop events from a media server's Tautulli
+ */
+router.post('/tautulli/:serverId', handleTautulliWebhook);
+
+export default router;
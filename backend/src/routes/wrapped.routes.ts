@@ -1,20 +1,58 @@
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import { asyncHandler } from '../middleware/error.middleware';
 import { publicRateLimiter } from '../middleware/rate-limit.middleware';
 import { AccessTokenModel } from '../models/AccessToken';
 import { UserWrappedStatsModel } from '../models/UserWrappedStats';
 import { UserModel } from '../models/User';
+import { ServerWrappedStatsModel } from '../models/ServerWrappedStats';
+import { LiveWrappedModel, type LiveWrapped } from '../models/LiveWrapped';
 import logger from '../utils/logger';
-import axios from 'axios';
+import { getHistoryProviders } from '../services/history-provider.service';
 
 const router = Router();
 
+/**
+ * Send a live wrapped in the same shape as a generated one, with the year-to-date comparison added
+ */
+async function sendLiveWrapped(live: LiveWrapped, res: Response) {
+  await LiveWrappedModel.trackAccess(live.id);
+
+  if (!live.stats) {
+    return res.status(404).json({
+      error: 'Live wrapped is still being calculated',
+    });
+  }
+
+  const user = await UserModel.findById(live.user_id);
+  if (!user) {
+    return res.status(404).json({
+      error: 'User not found',
+    });
+  }
+
+  return res.json({
+    user: {
+      username: user.username,
+      friendly_name: user.friendly_name,
+      thumb: user.thumb,
+    },
+    year: live.year,
+    // Percentiles are only calculated across a generation's users
+    stats: { ...live.stats, percentiles: null },
+    live: {
+      asOf: live.as_of,
+      lastYear: live.last_year_stats,
+    },
+    generatedAt: live.refreshed_at,
+  });
+}
+
 // Apply public rate limiting to all wrapped routes
 router.use(publicRateLimiter);
 
 /**
  * GET /api/wrapped/plex-image
- * Proxy Plex images through Tautulli (public endpoint for wrapped pages)
+ * Proxy artwork through the history provider it came from (public endpoint for wrapped pages)
  * MUST be defined before /:token route to avoid matching issues
  */
 router.get('/plex-image', asyncHandler(async (req, res) => {
@@ -25,42 +63,25 @@ router.get('/plex-image', asyncHandler(async (req, res) => {
   }
 
   try {
-    const tautulliUrl = process.env.TAUTULLI_URL;
-    const tautulliApiKey = process.env.TAUTULLI_API_KEY;
-
-    if (!tautulliUrl || !tautulliApiKey) {
-      return res.status(500).json({ error: 'Tautulli not configured' });
-    }
-
     // Decode the path if it's URL-encoded (it comes encoded from the frontend)
     const decodedPath = decodeURIComponent(path);
 
-    // Extract rating_key from path (format: /library/metadata/{rating_key}/thumb/{timestamp})
-    const match = decodedPath.match(/\/library\/metadata\/(\d+)\//);
-    if (!match) {
+    // Plex paths look like /library/metadata/{rating_key}/thumb/{timestamp}, Jellyfin ones like /jellyfin/Items/{id}/Images/Primary
+    // and ones from extra Tautulli servers like /servers/{id}/library/metadata/...
+    const provider = (await getHistoryProviders()).find((p) => p.handlesImage(decodedPath));
+    if (!provider) {
       return res.status(400).json({ error: 'Invalid image path format' });
     }
 
-    const ratingKey = match[1];
-
-    // Construct Tautulli pms_image_proxy URL with rating_key
-    const imageUrl = `${tautulliUrl}/api/v2?apikey=${tautulliApiKey}&cmd=pms_image_proxy&rating_key=${ratingKey}&width=300&height=450`;
-
-    logger.debug(`Fetching image for rating_key ${ratingKey} from Tautulli`);
-
-    // Fetch the image from Tautulli
-    const response = await axios.get(imageUrl, {
-      responseType: 'arraybuffer',
-      timeout: 10000,
-    });
+    const image = await provider.getImage(decodedPath, 300, 450);
 
     // Forward the image to the client with CORS headers
-    res.set('Content-Type', response.headers['content-type'] || 'image/jpeg');
+    res.set('Content-Type', image.contentType);
     res.set('Cache-Control', 'public, max-age=86400'); // Cache for 24 hours
     res.set('Access-Control-Allow-Origin', '*'); // Allow all origins for public images
     res.set('Access-Control-Allow-Methods', 'GET');
     res.set('Cross-Origin-Resource-Policy', 'cross-origin'); // Allow cross-origin resource loading
-    res.send(response.data);
+    res.send(image.data);
   } catch (error: any) {
     logger.error('Error proxying Plex image:', error.message);
     if (error.response) {
@@ -78,9 +99,45 @@ router.get('/plex-image', asyncHandler(async (req, res) => {
   }
 }));
 
+/**
+ * GET /api/wrapped/server/:token
+ * Get the Server Unwrapped report for a share token
+ * MUST be defined before /:token route to avoid matching issues
+ */
+router.get('/server/:token', asyncHandler(async (req, res) => {
+  const stats = await ServerWrappedStatsModel.findByToken(req.params.token);
+  if (!stats) {
+    return res.status(404).json({
+      error: 'Server wrapped not found',
+    });
+  }
+
+  res.json({
+    year: stats.year,
+    stats: {
+      totalUsers: stats.total_users,
+      activeUsers: stats.active_users,
+      totalWatchTimeMinutes: stats.total_watch_time_minutes,
+      totalListeningMinutes: stats.total_listening_minutes,
+      totalPlays: stats.total_plays,
+      totalMovies: stats.total_movies,
+      totalTvEpisodes: stats.total_tv_episodes,
+      topMovies: stats.top_movies,
+      topShows: stats.top_shows,
+      busiestDayDate: stats.busiest_day_date,
+      busiestDayMinutes: stats.busiest_day_minutes,
+      topDevices: stats.top_devices,
+      mostPopularDevice: stats.most_popular_device,
+      // Only expose how many joined, not who
+      newUsers: Array.isArray(stats.new_users) ? stats.new_users.length : 0,
+    },
+    generatedAt: stats.generated_at,
+  });
+}));
+
 /**
  * GET /api/wrapped/:token
- * Get wrapped stats for a specific token
+ * Get wrapped stats for a specific token, or the year so far for a live wrapped link
  */
 router.get('/:token', asyncHandler(async (req, res) => {
   const { token } = req.params;
@@ -88,6 +145,11 @@ router.get('/:token', asyncHandler(async (req, res) => {
   // Verify token
   const verification = await AccessTokenModel.verifyToken(token);
   if (!verification.valid) {
+    const live = await LiveWrappedModel.findByToken(token);
+    if (live) {
+      return sendLiveWrapped(live, res);
+    }
+
     return res.status(403).json({
       error: 'Invalid or expired token',
       reason: verification.reason,
@@ -146,13 +208,25 @@ router.get('/:token', asyncHandler(async (req, res) => {
       topActors: stats.top_actors,
       topDirectors: stats.top_directors,
 
+      totalListeningMinutes: stats.total_listening_minutes,
+      totalTracks: stats.total_tracks,
+      uniqueArtists: stats.unique_artists,
+      topArtists: stats.top_artists,
+      topAlbums: stats.top_albums,
+      topTracks: stats.top_tracks,
+      topMusicGenres: stats.top_music_genres,
+
       topDevices: stats.top_devices,
       topPlatforms: stats.top_platforms,
       qualityStats: stats.quality_stats,
       monthlyStats: stats.monthly_stats,
+      serverBreakdown: stats.server_breakdown || [],
 
       percentageOfLibraryWatched: stats.percentage_of_library_watched,
+      libraryCoverage: stats.library_coverage,
       totalSeasonsCompleted: stats.total_seasons_completed,
+      totalSeriesCompleted: stats.total_series_completed,
+      completedShows: stats.completed_shows,
       rewatches: stats.rewatches,
       firstWatchTitle: stats.first_watch_title,
       firstWatchDate: stats.first_watch_date,
@@ -163,6 +237,10 @@ router.get('/:token', asyncHandler(async (req, res) => {
 
       funFacts: stats.fun_facts,
       badges: stats.badges,
+
+      overseerrStats: stats.overseerr_stats,
+      requestCorrelation: stats.request_correlation,
+      percentiles: stats.percentiles,
     },
     generatedAt: stats.generated_at,
   });
@@ -178,6 +256,15 @@ router.post('/:token/view', asyncHandler(async (req, res) => {
   // Verify token
   const verification = await AccessTokenModel.verifyToken(token);
   if (!verification.valid) {
+    const live = await LiveWrappedModel.findByToken(token);
+    if (live) {
+      await LiveWrappedModel.trackAccess(live.id);
+      return res.json({
+        success: true,
+        message: 'View tracked',
+      });
+    }
+
     return res.status(403).json({
       error: 'Invalid or expired token',
     });
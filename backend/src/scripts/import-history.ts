@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before anything reads them
+dotenv.config();
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger';
+import { testConnection, closeDatabase } from '../config/database';
+import { detectExportFormat, importHistoryExport } from '../processors/history-import';
+
+/**
+ * Import a Tautulli history export (CSV or JSON) into watch_history
+ * Usage: npm run import:history -- <file> --source <name> [--replace]
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const file = args.find((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--source');
+  const sourceIndex = args.indexOf('--source');
+  const source = sourceIndex !== -1 ? args[sourceIndex + 1] : undefined;
+
+  if (!file || !source) {
+    throw new Error('Usage: npm run import:history -- <file> --source <name> [--replace]');
+  }
+
+  if (!(await testConnection())) {
+    throw new Error('Could not connect to the database');
+  }
+
+  const content = await readFile(file, 'utf8');
+  const result = await importHistoryExport(content, {
+    source,
+    format: detectExportFormat(content, path.basename(file)),
+    replace: args.includes('--replace'),
+  });
+
+  logger.info(`Imported ${result.imported} records from ${file} as "${source}", ${result.skipped} skipped`);
+  if (result.unmatchedUsers.length > 0) {
+    logger.warn(`No matching user for: ${result.unmatchedUsers.join(', ')}, sync users first`);
+  }
+}
+
+main()
+  .then(() => (process.exitCode = 0))
+  .catch((error) => {
+    logger.error('History import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(closeDatabase);
@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before anything reads them
+dotenv.config();
+
+import logger from '../utils/logger';
+import { testConnection, closeDatabase } from '../config/database';
+import { createRedisClient, closeRedis } from '../config/redis';
+import { getHistorySyncService } from '../services/history-sync.service';
+
+/**
+ * Sync every history provider's history into watch_history
+ * Usage: npm run sync:history [-- --year 2025]
+ * Without --year only plays newer than the newest stored one are fetched
+ */
+async function main(): Promise<void> {
+  const yearIndex = process.argv.indexOf('--year');
+  const year = yearIndex !== -1 ? parseInt(process.argv[yearIndex + 1], 10) : undefined;
+  if (year !== undefined && Number.isNaN(year)) {
+    throw new Error('--year must be a number, e.g. --year 2025');
+  }
+
+  if (!(await testConnection())) {
+    throw new Error('Could not connect to the database');
+  }
+  // The history providers cache responses and ids in Redis
+  await createRedisClient();
+
+  const result = await getHistorySyncService().sync({ year });
+  result.providers.forEach((provider) => {
+    logger.info(
+      `History sync of ${provider.source} finished: ${provider.stored} records stored, latest row ${provider.latestRowId ?? 'none'}`
+    );
+  });
+}
+
+main()
+  .then(() => (process.exitCode = 0))
+  .catch((error) => {
+    logger.error('History sync failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeRedis();
+    await closeDatabase();
+  });
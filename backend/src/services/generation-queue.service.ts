@@ -0,0 +1,592 @@
+import type { RedisClientType } from 'redis';
+import logger from '../utils/logger';
+import { getRedisClient } from '../config/redis';
+import { UserModel, type User } from '../models/User';
+import { WrappedGenerationModel, type WrappedGeneration } from '../models/WrappedGeneration';
+import { UserWrappedStatsModel } from '../models/UserWrappedStats';
+import { AccessTokenModel } from '../models/AccessToken';
+import { ServerWrappedStatsModel } from '../models/ServerWrappedStats';
+import { GenerationUserStatusModel } from '../models/GenerationUserStatus';
+import { WrappedStatsSnapshotModel } from '../models/WrappedStatsSnapshot';
+import { StagedWrappedStatsModel } from '../models/StagedWrappedStats';
+import { db } from '../config/database';
+import { getProgressService, type ProgressUpdate } from './progress.service';
+import { getHistorySyncService } from './history-sync.service';
+import StatsCalculator from '../processors/stats-calculator';
+import ServerStatsCalculator from '../processors/server-stats-calculator';
+import { calculatePercentiles, mergeRelativeBadges } from '../processors/percentiles';
+
+// Redis keys
+const WAITING_KEY = 'queue:generation:waiting'; // LIST of job ids, pushed left and popped right
+const ACTIVE_KEY = 'queue:generation:active'; // LIST of job ids currently being worked on
+const DELAYED_KEY = 'queue:generation:delayed'; // ZSET of job ids scored by when they may retry
+const PAUSED_KEY = 'queue:generation:paused'; // SET of paused generation ids
+const jobKey = (jobId: string) => `queue:generation:job:${jobId}`;
+const pendingKey = (generationId: number) => `queue:generation:pending:${generationId}`;
+const parkedKey = (generationId: number) => `queue:generation:parked:${generationId}`; // LIST of a paused generation's job ids
+const jobIdFor = (generationId: number, userId: number) => `${generationId}:${userId}`;
+
+const POLL_INTERVAL_MS = 1000;
+
+export interface GenerationJob {
+  id: string;
+  generationId: number;
+  userId: number;
+  year: number;
+  // Stage the results instead of writing live stats
+  dryRun: boolean;
+  attempts: number;
+  lastError?: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Durable per-user generation queue on the shared Redis connection
+ * Jobs survive restarts: anything left active when the process stopped is put back on boot
+ */
+export class GenerationQueue {
+  private redis: RedisClientType;
+  private calculator = new StatsCalculator();
+  private concurrency: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private running = false;
+  private workers: Promise<void>[] = [];
+
+  // One history sync per generation, shared by the workers processing it
+  private historySyncs = new Map<number, Promise<void>>();
+
+  constructor() {
+    this.redis = getRedisClient();
+    this.concurrency = Math.max(1, parseInt(process.env.MAX_WORKERS || '4', 10));
+    this.maxAttempts = Math.max(1, parseInt(process.env.GENERATION_JOB_ATTEMPTS || '3', 10));
+    this.retryDelayMs = parseInt(process.env.GENERATION_RETRY_DELAY_SECONDS || '30', 10) * 1000;
+  }
+
+  /**
+   * Reconcile state left by a previous process and start the workers
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    await this.reconcile();
+
+    this.running = true;
+    for (let i = 0; i < this.concurrency; i++) {
+      this.workers.push(this.workerLoop(i + 1));
+    }
+
+    logger.info(`Generation queue started with ${this.concurrency} workers`);
+  }
+
+  /**
+   * Stop taking new jobs and wait for the running ones to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    await Promise.all(this.workers);
+    this.workers = [];
+    logger.info('Generation queue stopped');
+  }
+
+  /**
+   * Queue one job per user for a generation
+   */
+  async enqueueGeneration(generationId: number, year: number, userIds?: number[]): Promise<number> {
+    const users = userIds
+      ? (await Promise.all(userIds.map((id) => UserModel.findById(id)))).filter((u) => u !== null)
+      : await UserModel.findAll();
+
+    const generation = await WrappedGenerationModel.update(generationId, {
+      status: 'processing',
+      started_at: new Date(),
+      total_users: users.length,
+    });
+
+    if (users.length === 0) {
+      await this.finalizeGeneration(generationId, year);
+      return 0;
+    }
+
+    await this.queueJobs(generationId, year, users.map((user) => user!.id), generation?.dry_run || false);
+
+    logger.info(`Queued ${users.length} users for generation ${generationId}`);
+    return users.length;
+  }
+
+  /**
+   * Stop a generation: drop its queued jobs and let the ones already running finish
+   */
+  async cancelGeneration(generationId: number): Promise<number> {
+    // Without a pending count, running jobs finish without finalizing the generation
+    await this.redis.del(pendingKey(generationId));
+    await this.redis.sRem(PAUSED_KEY, String(generationId));
+    await this.redis.del(parkedKey(generationId));
+
+    const userIds = await GenerationUserStatusModel.findUserIdsByStatus(generationId, 'queued');
+    for (const userId of userIds) {
+      const jobId = jobIdFor(generationId, userId);
+      await this.redis.lRem(WAITING_KEY, 0, jobId);
+      await this.redis.zRem(DELAYED_KEY, jobId);
+      await this.redis.del(jobKey(jobId));
+    }
+
+    const cancelled = await GenerationUserStatusModel.cancelQueued(generationId);
+    this.historySyncs.delete(generationId);
+
+    await WrappedGenerationModel.update(generationId, {
+      status: 'cancelled',
+      completed_at: new Date(),
+    });
+    await this.publishProgress(generationId, { type: 'completed', status: 'cancelled' });
+
+    logger.info(`Cancelled generation ${generationId}, ${cancelled} queued users dropped`);
+    return cancelled;
+  }
+
+  /**
+   * Hold a generation's remaining jobs; workers park them until it is resumed
+   */
+  async pauseGeneration(generationId: number): Promise<void> {
+    await this.redis.sAdd(PAUSED_KEY, String(generationId));
+    await WrappedGenerationModel.update(generationId, { status: 'paused' });
+    logger.info(`Paused generation ${generationId}`);
+  }
+
+  /**
+   * Put a paused generation's parked jobs back in the queue
+   */
+  async resumeGeneration(generationId: number): Promise<void> {
+    await this.redis.sRem(PAUSED_KEY, String(generationId));
+
+    let jobId = await this.redis.lMove(parkedKey(generationId), WAITING_KEY, 'RIGHT', 'LEFT');
+    while (jobId) {
+      jobId = await this.redis.lMove(parkedKey(generationId), WAITING_KEY, 'RIGHT', 'LEFT');
+    }
+
+    await WrappedGenerationModel.update(generationId, { status: 'processing' });
+    logger.info(`Resumed generation ${generationId}`);
+  }
+
+  /**
+   * Queue the users that failed in a finished generation again
+   */
+  async retryFailed(generation: WrappedGeneration): Promise<number> {
+    const userIds = await GenerationUserStatusModel.findUserIdsByStatus(generation.id, 'failed');
+    if (userIds.length === 0) return 0;
+
+    await WrappedGenerationModel.requeueFailed(generation.id, userIds.length);
+    await this.queueJobs(generation.id, generation.year, userIds, generation.dry_run);
+
+    logger.info(`Retrying ${userIds.length} failed users for generation ${generation.id}`);
+    return userIds.length;
+  }
+
+  /**
+   * Promote a dry run's staged stats to live stats in one transaction, then run the post-generation passes
+   */
+  async publishGeneration(generation: WrappedGeneration): Promise<number> {
+    const staged = await StagedWrappedStatsModel.findByGeneration(generation.id);
+
+    await db.tx(async (t) => {
+      for (const row of staged) {
+        const savedStats = await UserWrappedStatsModel.create({
+          user_id: row.user_id,
+          generation_id: generation.id,
+          year: row.year,
+          stats: row.stats,
+          processing_time_seconds: row.processing_time_seconds || undefined,
+        }, t);
+
+        await AccessTokenModel.create({
+          user_wrapped_stats_id: savedStats.id,
+          user_id: row.user_id,
+          year: row.year,
+          created_by: 'generation',
+        }, t);
+
+        await WrappedStatsSnapshotModel.capture(savedStats.id, t);
+      }
+
+      await StagedWrappedStatsModel.deleteByGeneration(generation.id, t);
+      await WrappedGenerationModel.markPublished(generation.id, t);
+    });
+
+    await this.applyServerPercentiles(generation.year);
+    await this.generateServerWrapped(generation.id, generation.year);
+
+    logger.info(`Published ${staged.length} staged users from generation ${generation.id}`);
+    return staged.length;
+  }
+
+  private async queueJobs(generationId: number, year: number, userIds: number[], dryRun: boolean): Promise<void> {
+    await GenerationUserStatusModel.queue(generationId, userIds);
+    await this.redis.incrBy(pendingKey(generationId), userIds.length);
+
+    for (const userId of userIds) {
+      const job: GenerationJob = {
+        id: jobIdFor(generationId, userId),
+        generationId,
+        userId,
+        year,
+        dryRun,
+        attempts: 0,
+      };
+      await this.redis.set(jobKey(job.id), JSON.stringify(job));
+      await this.redis.lPush(WAITING_KEY, job.id);
+    }
+  }
+
+  /**
+   * Put interrupted jobs back in the queue and settle generations the queue no longer knows about
+   */
+  private async reconcile(): Promise<void> {
+    // Anything still active was interrupted by a restart
+    let requeued = 0;
+    let jobId = await this.redis.lMove(ACTIVE_KEY, WAITING_KEY, 'LEFT', 'RIGHT');
+    while (jobId) {
+      requeued++;
+      jobId = await this.redis.lMove(ACTIVE_KEY, WAITING_KEY, 'LEFT', 'RIGHT');
+    }
+    if (requeued > 0) {
+      logger.info(`Requeued ${requeued} generation jobs interrupted by a restart`);
+    }
+
+    const unfinished = await WrappedGenerationModel.findUnfinished();
+    for (const generation of unfinished) {
+      const pending = parseInt((await this.redis.get(pendingKey(generation.id))) || '0', 10);
+      if (pending > 0) {
+        logger.info(`Resuming generation ${generation.id} with ${pending} users left`);
+        continue;
+      }
+
+      // No queued work: either it finished right before the restart or its jobs were lost
+      if (generation.status === 'processing' && generation.processed_users >= generation.total_users) {
+        await this.finalizeGeneration(generation.id, generation.year);
+      } else {
+        logger.warn(`Generation ${generation.id} has no queued jobs left, marking as failed`);
+        await WrappedGenerationModel.update(generation.id, {
+          status: 'failed',
+          completed_at: new Date(),
+          error_log: 'Interrupted by a restart before its users were queued',
+        });
+      }
+    }
+  }
+
+  private async workerLoop(workerId: number): Promise<void> {
+    while (this.running) {
+      try {
+        await this.promoteDelayed();
+
+        const jobId = await this.redis.lMove(WAITING_KEY, ACTIVE_KEY, 'RIGHT', 'LEFT');
+        if (!jobId) {
+          await sleep(POLL_INTERVAL_MS);
+          continue;
+        }
+
+        await this.runJob(jobId, workerId);
+      } catch (error: any) {
+        logger.error(`Generation worker ${workerId} error:`, error);
+        await sleep(POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  /**
+   * Move retries whose backoff has passed back to the waiting list
+   */
+  private async promoteDelayed(): Promise<void> {
+    const due = await this.redis.zRangeByScore(DELAYED_KEY, 0, Date.now());
+    for (const jobId of due) {
+      // Only the worker that removes it gets to requeue it
+      if (await this.redis.zRem(DELAYED_KEY, jobId)) {
+        await this.redis.lPush(WAITING_KEY, jobId);
+      }
+    }
+  }
+
+  private async runJob(jobId: string, workerId: number): Promise<void> {
+    const raw = await this.redis.get(jobKey(jobId));
+    if (!raw) {
+      await this.redis.lRem(ACTIVE_KEY, 1, jobId);
+      return;
+    }
+
+    const job: GenerationJob = JSON.parse(raw);
+
+    // Set jobs of a paused generation aside until it is resumed
+    if (await this.redis.sIsMember(PAUSED_KEY, String(job.generationId))) {
+      await this.redis.lPush(parkedKey(job.generationId), job.id);
+      await this.redis.lRem(ACTIVE_KEY, 1, job.id);
+      return;
+    }
+
+    job.attempts++;
+    await GenerationUserStatusModel.markProcessing(job.generationId, job.userId, job.attempts);
+    const startTime = Date.now();
+
+    const user = await UserModel.findById(job.userId);
+    await this.publishProgress(job.generationId, { type: 'started', userId: job.userId, username: user?.username });
+
+    try {
+      await this.processUser(job, user, workerId);
+
+      await GenerationUserStatusModel.markSucceeded(job.generationId, job.userId, Date.now() - startTime);
+      await WrappedGenerationModel.incrementProcessed(job.generationId, true);
+      await this.publishProgress(job.generationId, { type: 'succeeded', userId: job.userId, username: user?.username });
+      await this.completeJob(job);
+    } catch (error: any) {
+      job.lastError = error.message;
+      const willRetry = job.attempts < this.maxAttempts && (await this.isTracked(job.generationId));
+
+      await GenerationUserStatusModel.markFailed(
+        job.generationId,
+        job.userId,
+        error.message,
+        Date.now() - startTime,
+        willRetry
+      );
+
+      if (willRetry) {
+        await this.publishProgress(job.generationId, {
+          type: 'failed',
+          userId: job.userId,
+          username: user?.username,
+          error: error.message,
+          retrying: true,
+        });
+
+        const delay = this.retryDelayMs * Math.pow(2, job.attempts - 1);
+        logger.warn(`Generation job ${job.id} failed (attempt ${job.attempts}/${this.maxAttempts}), retrying in ${delay / 1000}s:`, error.message);
+
+        await this.redis.set(jobKey(job.id), JSON.stringify(job));
+        await this.redis.zAdd(DELAYED_KEY, { score: Date.now() + delay, value: job.id });
+        await this.redis.lRem(ACTIVE_KEY, 1, job.id);
+        return;
+      }
+
+      logger.error(`Failed to process user ${job.userId} after ${job.attempts} attempts:`, error);
+      await WrappedGenerationModel.incrementProcessed(job.generationId, false);
+      await this.publishProgress(job.generationId, {
+        type: 'failed',
+        userId: job.userId,
+        username: user?.username,
+        error: error.message,
+      });
+      await this.completeJob(job);
+    }
+  }
+
+  /**
+   * Calculate, save and create a token for one user
+   */
+  private async processUser(job: GenerationJob, user: User | null, workerId: number): Promise<void> {
+    if (!user) {
+      throw new Error(`User ${job.userId} not found`);
+    }
+
+    logger.info(`Worker ${workerId} processing user ${user.id} (${user.username}) for generation ${job.generationId}`);
+    const startTime = Date.now();
+
+    await this.syncHistory(job.generationId, job.year);
+    const stats = await this.calculator.calculateUserStats(
+      user.plex_user_id,
+      job.year,
+      user.timezone,
+      user.history_provider
+    );
+    const processingTime = Math.round((Date.now() - startTime) / 1000);
+
+    if (job.dryRun) {
+      // Nothing goes live until the dry run is published
+      await StagedWrappedStatsModel.upsert({
+        generation_id: job.generationId,
+        user_id: user.id,
+        year: job.year,
+        stats,
+        processing_time_seconds: processingTime,
+      });
+      logger.info(`Staged stats for user ${user.id}`);
+      return;
+    }
+
+    const savedStats = await UserWrappedStatsModel.create({
+      user_id: user.id,
+      generation_id: job.generationId,
+      year: job.year,
+      stats,
+      processing_time_seconds: processingTime,
+    });
+
+    // Keep this generation's version so it can be compared or rolled back to later
+    await WrappedStatsSnapshotModel.capture(savedStats.id);
+
+    await AccessTokenModel.create({
+      user_wrapped_stats_id: savedStats.id,
+      user_id: user.id,
+      year: job.year,
+      created_by: 'generation',
+    });
+
+    logger.info(`Successfully processed user ${user.id}`);
+  }
+
+  /**
+   * Remove a finished job and finalize its generation once it was the last one
+   */
+  private async completeJob(job: GenerationJob): Promise<void> {
+    await this.redis.del(jobKey(job.id));
+    await this.redis.lRem(ACTIVE_KEY, 1, job.id);
+
+    // The generation was cancelled while this job was running
+    if (!(await this.isTracked(job.generationId))) return;
+
+    const remaining = await this.redis.decr(pendingKey(job.generationId));
+    if (remaining <= 0) {
+      await this.finalizeGeneration(job.generationId, job.year);
+    }
+  }
+
+  /**
+   * Whether the queue still has work counted for a generation, false once it is finalized or cancelled
+   */
+  private async isTracked(generationId: number): Promise<boolean> {
+    return (await this.redis.exists(pendingKey(generationId))) > 0;
+  }
+
+  /**
+   * Bring watch_history up to date before a generation's first user is calculated
+   * Only plays newer than the newest stored one are fetched, the webhook keeps the rest current.
+   * Generations started with resync re-sync the whole year first
+   */
+  private syncHistory(generationId: number, year: number): Promise<void> {
+    let sync = this.historySyncs.get(generationId);
+    if (!sync) {
+      sync = (async () => {
+        try {
+          const generation = await WrappedGenerationModel.findById(generationId);
+          await getHistorySyncService().sync(generation?.config?.resync ? { year } : {});
+        } catch (error: any) {
+          logger.error('Failed to sync watch history, calculating from the history already stored:', error);
+        }
+      })();
+      this.historySyncs.set(generationId, sync);
+    }
+    return sync;
+  }
+
+  /**
+   * Run the post-generation passes and mark the generation as completed
+   */
+  private async finalizeGeneration(generationId: number, year: number): Promise<void> {
+    this.historySyncs.delete(generationId);
+    await this.redis.del(pendingKey(generationId));
+
+    // Dry runs get these passes when they are published
+    const { dry_run: dryRun } = (await WrappedGenerationModel.findById(generationId)) || { dry_run: false };
+    if (!dryRun) {
+      // Rank everyone generated for the year against each other
+      await this.applyServerPercentiles(year);
+
+      // Build the whole-server report
+      await this.generateServerWrapped(generationId, year);
+    }
+
+    const generation = await WrappedGenerationModel.update(generationId, {
+      status: 'completed',
+      completed_at: new Date(),
+    });
+
+    logger.info(
+      `Generation ${generationId} completed: ${generation?.successful_users || 0} successful, ${generation?.failed_users || 0} failed`
+    );
+    await this.publishProgress(generationId, { type: 'completed', status: 'completed' });
+  }
+
+  /**
+   * Broadcast a progress event to the admin panel with the generation's current counts
+   */
+  private async publishProgress(
+    generationId: number,
+    update: Pick<ProgressUpdate, 'type' | 'userId' | 'username' | 'error' | 'retrying' | 'status'>
+  ): Promise<void> {
+    try {
+      const generation = await WrappedGenerationModel.findById(generationId);
+      if (!generation) return;
+
+      getProgressService().publish({
+        ...update,
+        source: 'generation',
+        runId: generationId,
+        total: generation.total_users,
+        processed: generation.processed_users,
+        succeeded: generation.successful_users,
+        failed: generation.failed_users,
+      });
+    } catch (error: any) {
+      // Progress is informational, never let it break a job
+      logger.warn(`Failed to publish progress for generation ${generationId}:`, error.message);
+    }
+  }
+
+  /**
+   * Post-generation pass: store each user's percentiles for the year and award relative badges
+   * Runs over every stats row for the year, not only the users in this generation
+   */
+  private async applyServerPercentiles(year: number): Promise<void> {
+    try {
+      const allStats = await UserWrappedStatsModel.findByYear(year);
+      const results = calculatePercentiles(allStats);
+
+      for (const stats of allStats) {
+        const result = results.get(stats.id);
+        if (!result) continue;
+        await UserWrappedStatsModel.updatePercentiles(
+          stats.id,
+          result.percentiles,
+          mergeRelativeBadges(stats.badges, result.badges)
+        );
+      }
+      await WrappedStatsSnapshotModel.syncActiveForYear(year);
+
+      logger.info(`Updated server percentiles for ${allStats.length} users in ${year}`);
+    } catch (error: any) {
+      // Percentiles are a bonus, don't fail the whole generation over them
+      logger.error(`Failed to update server percentiles for ${year}:`, error);
+    }
+  }
+
+  /**
+   * Post-generation pass: aggregate every user's stats for the year into the Server Unwrapped report
+   */
+  private async generateServerWrapped(generationId: number, year: number): Promise<void> {
+    try {
+      const [allStats, users] = await Promise.all([
+        UserWrappedStatsModel.findByYear(year),
+        UserModel.findAll(),
+      ]);
+
+      const serverStats = await new ServerStatsCalculator().calculateServerStats(year, allStats, users);
+      await ServerWrappedStatsModel.upsert(year, generationId, serverStats);
+
+      logger.info(`Generated server wrapped for ${year}`);
+    } catch (error: any) {
+      logger.error(`Failed to generate server wrapped for ${year}:`, error);
+    }
+  }
+}
+
+// Singleton instance
+let generationQueue: GenerationQueue | null = null;
+
+export function getGenerationQueue(): GenerationQueue {
+  if (!generationQueue) {
+    generationQueue = new GenerationQueue();
+  }
+  return generationQueue;
+}
+
+export default getGenerationQueue;
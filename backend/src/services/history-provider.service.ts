@@ -0,0 +1,92 @@
+import { TautulliService, getTautulliService, MEDIA_SERVER_IMAGE_PREFIX } from './tautulli.service';
+import { getJellyfinService } from './jellyfin.service';
+import { getPlexService } from './plex.service';
+import { MediaServerModel, MEDIA_SERVER_SOURCE_PATTERN, getMediaServerSource, type MediaServer } from '../models/MediaServer';
+import type { HistoryProvider } from '../types/history-provider.types';
+
+const PROVIDER_FACTORIES: Record<string, () => HistoryProvider> = {
+  tautulli: getTautulliService,
+  jellyfin: getJellyfinService,
+  plex: getPlexService,
+};
+
+// One client per media server, rebuilt when the server is edited
+const mediaServerProviders = new Map<number, { updatedAt: number; provider: TautulliService }>();
+
+/**
+ * Whether a watch_history source belongs to a provider's synced history rather than an import
+ */
+export function isHistoryProviderName(name: string): boolean {
+  return (
+    Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, name.toLowerCase()) ||
+    MEDIA_SERVER_SOURCE_PATTERN.test(name)
+  );
+}
+
+/**
+ * Names of the providers listed in HISTORY_PROVIDERS, in order
+ */
+export function getHistoryProviderNames(): string[] {
+  const names = (process.env.HISTORY_PROVIDERS || 'tautulli')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = names.filter((name) => !PROVIDER_FACTORIES[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown history provider: ${unknown.join(', ')}`);
+  }
+
+  return names.length > 0 ? [...new Set(names)] : ['tautulli'];
+}
+
+/**
+ * Tautulli client for a media_servers row
+ */
+export function getMediaServerProvider(server: MediaServer): TautulliService {
+  const updatedAt = new Date(server.updated_at).getTime();
+  const cached = mediaServerProviders.get(server.id);
+  if (cached && cached.updatedAt === updatedAt) {
+    return cached.provider;
+  }
+
+  const provider = new TautulliService({
+    name: getMediaServerSource(server.id),
+    url: server.url,
+    apiKey: server.api_key,
+    label: server.name,
+    imagePrefix: `${MEDIA_SERVER_IMAGE_PREFIX}${server.id}`,
+  });
+  mediaServerProviders.set(server.id, { updatedAt, provider });
+  return provider;
+}
+
+/**
+ * Every configured provider followed by the enabled media servers
+ * The first one is the default for users without a provider
+ */
+export async function getHistoryProviders(): Promise<HistoryProvider[]> {
+  const servers = await MediaServerModel.findEnabled();
+  return [
+    ...getHistoryProviderNames().map((name) => PROVIDER_FACTORIES[name]()),
+    ...servers.map(getMediaServerProvider),
+  ];
+}
+
+/**
+ * The provider with this name, falling back to the default one
+ */
+export async function getHistoryProvider(name?: string | null): Promise<HistoryProvider> {
+  const names = getHistoryProviderNames();
+
+  if (name && MEDIA_SERVER_SOURCE_PATTERN.test(name)) {
+    const server = await MediaServerModel.findBySource(name);
+    if (server && server.enabled) {
+      return getMediaServerProvider(server);
+    }
+  }
+
+  return PROVIDER_FACTORIES[name && names.includes(name) ? name : names[0]]();
+}
+
+export default getHistoryProvider;
@@ -0,0 +1,115 @@
+import logger from '../utils/logger';
+import { getHistoryProviders } from './history-provider.service';
+import { WatchHistoryModel } from '../models/WatchHistory';
+import type { HistoryProvider, HistoryRange } from '../types/history-provider.types';
+
+// Timezones range from UTC-12 to UTC+14, so this window covers the year everywhere
+const EARLIEST_OFFSET_SECONDS = 14 * 3600;
+const LATEST_OFFSET_SECONDS = 12 * 3600;
+
+export interface HistorySyncOptions {
+  // Re-sync every play of this year instead of only the ones newer than what's stored
+  year?: number;
+}
+
+export interface ProviderSyncResult {
+  source: string;
+  stored: number;
+  pages: number;
+  // Plays received by webhook that the synced rows replaced
+  webhookReplaced: number;
+  latestRowId: number | null;
+}
+
+export interface HistorySyncResult {
+  stored: number;
+  pages: number;
+  providers: ProviderSyncResult[];
+  durationMs: number;
+}
+
+/**
+ * Copies every history provider's play history into watch_history, under the provider's name
+ * Syncs either the whole requested year or only the rows newer than the newest one stored,
+ * then drops the webhook plays the synced rows stand for
+ */
+export class HistorySyncService {
+  private lastSync: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Sync history, one sync at a time so overlapping requests don't fetch the same pages twice
+   */
+  sync(options: HistorySyncOptions = {}): Promise<HistorySyncResult> {
+    const run = this.lastSync.catch(() => undefined).then(() => this.run(options));
+    this.lastSync = run;
+    return run;
+  }
+
+  private async run(options: HistorySyncOptions): Promise<HistorySyncResult> {
+    const startTime = Date.now();
+    const providers: ProviderSyncResult[] = [];
+
+    for (const provider of await getHistoryProviders()) {
+      providers.push(await this.syncProvider(provider, options));
+    }
+
+    const syncResult: HistorySyncResult = {
+      stored: providers.reduce((sum, p) => sum + p.stored, 0),
+      pages: providers.reduce((sum, p) => sum + p.pages, 0),
+      providers,
+      durationMs: Date.now() - startTime,
+    };
+
+    logger.info(`Synced ${syncResult.stored} history records from ${syncResult.pages} pages in ${syncResult.durationMs}ms`);
+    return syncResult;
+  }
+
+  private async syncProvider(provider: HistoryProvider, options: HistorySyncOptions): Promise<ProviderSyncResult> {
+    const range: HistoryRange = options.year
+      ? {
+          start: Date.UTC(options.year, 0, 1) / 1000 - EARLIEST_OFFSET_SECONDS,
+          end: Date.UTC(options.year + 1, 0, 1) / 1000 + LATEST_OFFSET_SECONDS,
+        }
+      : { afterRowId: await WatchHistoryModel.getLatestRowId(provider.name) };
+
+    logger.info(
+      options.year
+        ? `Syncing ${provider.name} watch history for year ${options.year}`
+        : `Syncing ${provider.name} watch history newer than row ${range.afterRowId ?? 'none'}`
+    );
+
+    let stored = 0;
+    let pages = 0;
+
+    for await (const records of provider.getHistoryPages(range)) {
+      pages++;
+      stored += await WatchHistoryModel.upsertMany(records, provider.name);
+      logger.debug(`Synced ${provider.name} history page ${pages}, ${stored} records stored so far`);
+    }
+
+    const webhookReplaced = await WatchHistoryModel.deleteWebhookDuplicates(provider.name);
+    if (webhookReplaced > 0) {
+      logger.debug(`Replaced ${webhookReplaced} ${provider.name} webhook plays with synced history`);
+    }
+
+    return {
+      source: provider.name,
+      stored,
+      pages,
+      webhookReplaced,
+      latestRowId: await WatchHistoryModel.getLatestRowId(provider.name),
+    };
+  }
+}
+
+// Singleton instance
+let historySyncServiceInstance: HistorySyncService | null = null;
+
+export function getHistorySyncService(): HistorySyncService {
+  if (!historySyncServiceInstance) {
+    historySyncServiceInstance = new HistorySyncService();
+  }
+  return historySyncServiceInstance;
+}
+
+export default getHistorySyncService;
@@ -9,6 +9,22 @@ interface Translations {
   [key: string]: any;
 }
 
+interface StoredFunFact {
+  key: string;
+  params?: Record<string, any>;
+}
+
+interface StoredBadge {
+  key?: string;
+  params?: Record<string, any>;
+  icon: string;
+  // Localized text from an admin-defined badge, keyed by locale
+  names?: Record<string, { name: string; description: string }>;
+  // Legacy badges stored pre-rendered English text
+  name?: string;
+  description?: string;
+}
+
 class I18nService {
   private translations: Map<Locale, Translations> = new Map();
 
@@ -97,6 +113,38 @@ class I18nService {
     return this.translate(key, locale, params);
   }
 
+  /**
+   * Render a stored fun fact in the given locale
+   * Facts generated before they were stored as {key, params} are plain strings and returned as-is
+   */
+  renderFunFact(fact: string | StoredFunFact, locale: Locale = defaultLocale): string {
+    if (typeof fact === 'string') return fact;
+    return this.translate(`funFacts.${fact.key}`, locale, fact.params);
+  }
+
+  /**
+   * Render a stored badge in the given locale
+   * Text from the badge definition wins, then the bundled translations
+   */
+  renderBadge(badge: StoredBadge, locale: Locale = defaultLocale): { name: string; description: string; icon: string } {
+    if (!badge.key) {
+      return { name: badge.name || '', description: badge.description || '', icon: badge.icon };
+    }
+    const defined = badge.names?.[locale] || badge.names?.[defaultLocale];
+    if (defined) {
+      return {
+        name: this.interpolate(defined.name, badge.params || {}),
+        description: this.interpolate(defined.description, badge.params || {}),
+        icon: badge.icon,
+      };
+    }
+    return {
+      name: this.translate(`badges.${badge.key}.name`, locale, badge.params),
+      description: this.translate(`badges.${badge.key}.description`, locale, badge.params),
+      icon: badge.icon,
+    };
+  }
+
   /**
    * Check if a locale is supported
    */
@@ -0,0 +1,255 @@
+import { randomUUID } from 'crypto';
+import fixture from './__fixtures__/jellyfin.json';
+import { JellyfinService, toNumericId, toUserId } from './jellyfin.service';
+import { JellyfinIdModel } from '../models/JellyfinId';
+import { createStubServer } from '../__tests__/stub-server';
+import type { TautulliHistoryRecord } from '../types/tautulli.types';
+
+jest.mock('../config/redis', () => ({
+  getCacheService: () => ({ get: jest.fn().mockResolvedValue(null), set: jest.fn() }),
+}));
+jest.mock('../models/JellyfinId', () => ({
+  JellyfinIdModel: { saveMany: jest.fn(), findGuid: jest.fn() },
+}));
+
+const [alice, bob] = fixture.users;
+const [heat, episode, track] = fixture.items;
+const [, specials] = fixture.seasons;
+const undashed = (guid: string) => guid.replace(/-/g, '');
+
+/**
+ * Stands in for Jellyfin and its Playback Reporting plugin
+ * Custom queries are answered from the fixture's PlaybackActivity rows, honouring the rowid, date and limit filters
+ */
+function createJellyfinStub() {
+  const queries: string[] = [];
+
+  const answerQuery = (sql: string) => {
+    queries.push(sql);
+    const { colums, results } = fixture.playbackActivity;
+
+    const firstPlay = sql.match(/MIN\(DateCreated\).*UserId = '([^']+)'/);
+    if (firstPlay) {
+      const dates = results.filter((row) => row[2] === firstPlay[1]).map((row) => row[1]).sort();
+      return { colums: ['DateCreated'], results: [[dates[0] ?? null]] };
+    }
+
+    const afterRowId = Number(sql.match(/rowid > (\d+)/)?.[1] ?? 0);
+    const from = sql.match(/DateCreated >= '([^']+)'/)?.[1];
+    const until = sql.match(/DateCreated < '([^']+)'/)?.[1];
+    const limit = Number(sql.match(/LIMIT (\d+)/)?.[1] ?? results.length);
+
+    const rows = results
+      .filter((row) => Number(row[0]) > afterRowId)
+      .filter((row) => (!from || row[1] >= from) && (!until || row[1] < until))
+      .slice(0, limit);
+    return { colums, results: rows };
+  };
+
+  const server = createStubServer({ header: 'X-Emby-Token', value: 'test-key' }, ({ method, url, body }) => {
+    if (method === 'POST' && url.pathname === '/user_usage_stats/submit_custom_query') {
+      return answerQuery(JSON.parse(body).CustomQueryString);
+    }
+    if (url.pathname === '/Users') {
+      return fixture.users;
+    }
+    if (url.pathname === '/Items' && url.searchParams.has('ParentId')) {
+      const seasons = fixture.seasons.filter((season) => season.ParentId === url.searchParams.get('ParentId'));
+      return { Items: seasons, TotalRecordCount: seasons.length };
+    }
+    if (url.pathname === '/Items') {
+      const ids = (url.searchParams.get('Ids') || '').split(',');
+      const items = fixture.items.filter((item) => ids.includes(undashed(item.Id)));
+      return { Items: items, TotalRecordCount: items.length };
+    }
+    return undefined;
+  });
+
+  return { server, queries };
+}
+
+async function collect(pages: AsyncGenerator<TautulliHistoryRecord[]>): Promise<TautulliHistoryRecord[][]> {
+  const collected: TautulliHistoryRecord[][] = [];
+  for await (const page of pages) collected.push(page);
+  return collected;
+}
+
+describe('JellyfinService', () => {
+  const stub = createJellyfinStub();
+  let service: JellyfinService;
+
+  beforeAll(async () => {
+    process.env.JELLYFIN_URL = await stub.server.listen();
+    process.env.JELLYFIN_API_KEY = 'test-key';
+    process.env.JELLYFIN_TIMEZONE = 'UTC';
+    process.env.JELLYFIN_PAGE_SIZE = '2';
+  });
+
+  afterAll(async () => {
+    await stub.server.close();
+    delete process.env.JELLYFIN_URL;
+    delete process.env.JELLYFIN_API_KEY;
+    delete process.env.JELLYFIN_TIMEZONE;
+    delete process.env.JELLYFIN_PAGE_SIZE;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stub.queries.length = 0;
+    service = new JellyfinService();
+  });
+
+  describe('getHistoryPages', () => {
+    // 2025 in UTC
+    const year = { start: Date.UTC(2025, 0, 1) / 1000, end: Date.UTC(2026, 0, 1) / 1000 - 1 };
+
+    it('pages the plugin table by rowid, JELLYFIN_PAGE_SIZE rows at a time', async () => {
+      await collect(service.getHistoryPages(year));
+
+      expect(stub.queries).toHaveLength(3);
+      expect(stub.queries.map((sql) => sql.match(/rowid > \d+/)?.[0])).toEqual(['rowid > 0', 'rowid > 2', 'rowid > 4']);
+      stub.queries.forEach((sql) => expect(sql).toMatch(/ORDER BY rowid LIMIT 2$/));
+    });
+
+    it('widens the date filter by a day and applies the exact range after parsing', async () => {
+      const pages = await collect(service.getHistoryPages(year));
+
+      expect(stub.queries[0]).toContain("DateCreated >= '2024-12-31'");
+      expect(stub.queries[0]).toContain("DateCreated < '2026-01-02'");
+      // Plays 1 and 5 fall in the widened window but outside 2025, play 6 isn't queried at all
+      expect(pages.map((page) => page.map((record) => record.row_id))).toEqual([[2], [3, 4], []]);
+    });
+
+    it('reads everything after the last synced row for incremental syncs', async () => {
+      const pages = await collect(service.getHistoryPages({ afterRowId: 3 }));
+
+      expect(stub.queries[0]).toMatch(/WHERE rowid > 3 ORDER BY/);
+      expect(pages.flat().map((record) => record.row_id)).toEqual([4, 5, 6]);
+    });
+
+    it('shapes plays like Tautulli history records', async () => {
+      const records = (await collect(service.getHistoryPages(year))).flat();
+      const [episodePlay, trackPlay, trailerPlay] = records;
+
+      expect(episodePlay).toMatchObject({
+        date: Date.UTC(2025, 0, 1, 10) / 1000,
+        stopped: Date.UTC(2025, 0, 1, 10) / 1000 + 3420,
+        duration: 3420,
+        user: 'alice',
+        user_id: toUserId(alice.Id),
+        media_type: 'episode',
+        rating_key: toNumericId(episode.Id),
+        parent_rating_key: toNumericId(episode.SeasonId!),
+        grandparent_rating_key: toNumericId(episode.SeriesId!),
+        title: 'The Target',
+        parent_title: 'Season 1',
+        grandparent_title: 'The Wire',
+        media_index: 1,
+        parent_media_index: 1,
+        percent_complete: 95,
+        watched_status: 1,
+        transcode_decision: 'transcode',
+        platform: 'Android TV',
+        player: 'SHIELD',
+        genres: ['Crime', 'Drama'],
+        actors: ['Dominic West'],
+        thumb: `/jellyfin/Items/${episode.Id}/Images/Primary`,
+        guid: `jellyfin://${episode.Id}`,
+      });
+
+      expect(trackPlay).toMatchObject({
+        user: 'bob',
+        user_id: toUserId(bob.Id),
+        media_type: 'track',
+        parent_rating_key: toNumericId(track.AlbumId!),
+        grandparent_rating_key: toNumericId(track.AlbumArtists![0].Id),
+        parent_title: 'Mezzanine',
+        grandparent_title: 'Massive Attack',
+        transcode_decision: 'copy',
+        percent_complete: 100,
+      });
+
+      // Items Jellyfin doesn't return anymore still count, as clips named like the play
+      expect(trailerPlay).toMatchObject({ media_type: 'clip', title: 'Heat Trailer', thumb: '', genres: [] });
+    });
+
+    it('stores the GUID behind every numeric id once', async () => {
+      await collect(service.getHistoryPages(year));
+
+      const saved = new Map<number, string>();
+      (JellyfinIdModel.saveMany as jest.Mock).mock.calls.forEach(([ids]: [Map<number, string>]) => {
+        ids.forEach((guid, id) => {
+          expect(saved.has(id)).toBe(false);
+          saved.set(id, guid);
+        });
+      });
+
+      [heat.Id, episode.Id, episode.SeasonId!, episode.SeriesId!, track.AlbumId!].forEach((guid) => {
+        expect(saved.get(toNumericId(guid))).toBe(undashed(guid));
+      });
+      [alice.Id, bob.Id].forEach((guid) => {
+        expect(saved.get(toUserId(guid))).toBe(undashed(guid));
+      });
+    });
+  });
+
+  describe('getUsers', () => {
+    it('gives users negative ids, apart from the positive Plex user ids they are stored alongside', async () => {
+      const users = await service.getUsers();
+
+      expect(users.map((user) => [user.user_id, user.username])).toEqual([
+        [toUserId(alice.Id), 'alice'],
+        [toUserId(bob.Id), 'bob'],
+      ]);
+      users.forEach((user) => expect(user.user_id).toBeLessThan(0));
+    });
+  });
+
+  describe('getChildrenMetadata', () => {
+    it('lists the seasons of a show, specials as season 0', async () => {
+      (JellyfinIdModel.findGuid as jest.Mock).mockResolvedValue(episode.SeriesId);
+
+      const seasons = await service.getChildrenMetadata(toNumericId(episode.SeriesId!));
+
+      expect(seasons.map((season) => [season.rating_key, season.title, season.media_index])).toEqual([
+        [toNumericId(episode.SeasonId!), 'Season 1', 1],
+        [toNumericId(specials.Id), 'Specials', 0],
+      ]);
+      // Their GUIDs are kept for metadata lookups of the seasons
+      expect(JellyfinIdModel.saveMany).toHaveBeenCalledWith(
+        new Map([
+          [toNumericId(episode.SeasonId!), episode.SeasonId],
+          [toNumericId(specials.Id), specials.Id],
+        ])
+      );
+    });
+  });
+
+  describe('getFirstPlayDate', () => {
+    it('resolves the user through the stored GUID', async () => {
+      (JellyfinIdModel.findGuid as jest.Mock).mockResolvedValue(undashed(bob.Id));
+
+      expect(await service.getFirstPlayDate(toUserId(bob.Id))).toBe(Date.UTC(2025, 2, 1, 20, 15) / 1000);
+      expect(JellyfinIdModel.findGuid).toHaveBeenCalledWith(toUserId(bob.Id));
+    });
+
+    it('fails for ids that were never synced', async () => {
+      (JellyfinIdModel.findGuid as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.getFirstPlayDate(12345)).rejects.toThrow('Unknown Jellyfin id 12345');
+    });
+  });
+});
+
+describe('toUserId', () => {
+  it('keeps every user id negative and within INTEGER', () => {
+    const guids = [...fixture.users.map((user) => user.Id), ...Array.from({ length: 1000 }, () => randomUUID())];
+
+    guids.forEach((guid) => {
+      const id = toUserId(guid);
+      expect(id).toBeLessThan(0);
+      expect(id).toBeGreaterThanOrEqual(-(2 ** 31));
+      expect(toNumericId(guid)).toBeGreaterThan(0);
+    });
+  });
+});
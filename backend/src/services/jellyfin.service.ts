@@ -0,0 +1,577 @@
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import { createHash } from 'crypto';
+import logger from '../utils/logger';
+import { getCacheService } from '../config/redis';
+import { JellyfinIdModel } from '../models/JellyfinId';
+import { getServerTimezone, resolveTimezone, zonedTimeToTimestamp } from '../utils/timezone';
+import type {
+  TautulliChildMetadata,
+  TautulliHistoryRecord,
+  TautulliLibrary,
+  TautulliMetadata,
+  TautulliUser,
+} from '../types/tautulli.types';
+import type { HistoryProvider, HistoryRange, ProviderImage } from '../types/history-provider.types';
+import type {
+  JellyfinItem,
+  JellyfinItemsResponse,
+  JellyfinSystemInfo,
+  JellyfinUser,
+  PlaybackActivityRow,
+  PlaybackReportingQueryResult,
+} from '../types/jellyfin.types';
+
+const ITEM_BATCH_SIZE = 100;
+const ITEM_FIELDS = 'Genres,People,ProviderIds,DateCreated,OriginalTitle,ChildCount,Overview,OfficialRating';
+const GUID_PATTERN = /^[a-f0-9-]{32,36}$/i;
+const IMAGE_PATTERN = /^\/jellyfin\/Items\/([a-f0-9-]{32,36})\/Images\/Primary/i;
+
+const MEDIA_TYPES: Record<string, TautulliMetadata['media_type']> = {
+  Movie: 'movie',
+  Series: 'show',
+  Season: 'season',
+  Episode: 'episode',
+  MusicArtist: 'artist',
+  MusicAlbum: 'album',
+  Audio: 'track',
+};
+
+// Anything else that was played (trailers, home videos, ...) is stored as a clip
+const HISTORY_MEDIA_TYPES: Record<string, TautulliHistoryRecord['media_type']> = {
+  Movie: 'movie',
+  Episode: 'episode',
+  Audio: 'track',
+};
+
+const LIBRARY_TYPES: Record<string, { sectionType: string; itemTypes: string; childTypes?: string }> = {
+  movies: { sectionType: 'movie', itemTypes: 'Movie' },
+  tvshows: { sectionType: 'show', itemTypes: 'Series', childTypes: 'Episode' },
+  music: { sectionType: 'artist', itemTypes: 'MusicArtist', childTypes: 'Audio' },
+};
+
+// The plugin stores GUIDs without dashes, the API returns them either way
+const normalizeGuid = (guid: string): string => guid.replace(/-/g, '').toLowerCase();
+
+/**
+ * Integer id for a Jellyfin GUID, since users and history are keyed by Plex style numeric ids
+ * Item ids only have to be unique within the jellyfin source, user ids use toUserId
+ */
+export function toNumericId(guid: string): number {
+  const hash = createHash('md5').update(normalizeGuid(guid)).digest();
+  // Positive and within INTEGER
+  return (hash.readUInt32BE(0) >>> 1) || 1;
+}
+
+/**
+ * Integer id for a Jellyfin user, negative so it never collides with the Plex user ids
+ * kept alongside it in users.plex_user_id and watch_history.plex_user_id
+ */
+export function toUserId(guid: string): number {
+  return -toNumericId(guid);
+}
+
+const imagePath = (guid: string | undefined): string => (guid ? `/jellyfin/Items/${guid}/Images/Primary` : '');
+
+const toTimestamp = (value: string | undefined): number => (value ? Math.floor(Date.parse(value) / 1000) || 0 : 0);
+
+const transcodeDecision = (playbackMethod: string): string => {
+  if (playbackMethod.startsWith('Transcode')) return 'transcode';
+  if (playbackMethod.startsWith('DirectStream')) return 'copy';
+  return 'direct play';
+};
+
+const sqlString = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Jellyfin (or Emby) history read from the Playback Reporting plugin, shaped like Tautulli's
+ * GUIDs are hashed into numeric ids, and the hash to GUID mapping is kept in jellyfin_ids for metadata lookups
+ */
+export class JellyfinService implements HistoryProvider {
+  readonly name = 'jellyfin';
+  private client: AxiosInstance;
+  private baseUrl: string;
+  private apiKey: string;
+  private timeZone: string;
+  private cache: ReturnType<typeof getCacheService>;
+  private items = new Map<string, JellyfinItem>();
+  // Ids already stored in jellyfin_ids
+  private guids = new Map<number, string>();
+
+  constructor() {
+    this.baseUrl = process.env.JELLYFIN_URL || '';
+    this.apiKey = process.env.JELLYFIN_API_KEY || '';
+    // The plugin stores play times in the server's local time
+    this.timeZone = resolveTimezone(process.env.JELLYFIN_TIMEZONE || getServerTimezone());
+
+    if (!this.baseUrl || !this.apiKey) {
+      throw new Error('Jellyfin URL and API key are required');
+    }
+
+    this.client = axios.create({
+      baseURL: this.baseUrl.replace(/\/$/, ''),
+      timeout: parseInt(process.env.JELLYFIN_TIMEOUT || '30000', 10),
+      headers: {
+        'X-Emby-Token': this.apiKey,
+      },
+    });
+
+    this.cache = getCacheService();
+
+    // Add request/response interceptors for logging
+    this.client.interceptors.request.use((config) => {
+      logger.logServiceCall('Jellyfin', config.method?.toUpperCase() || 'GET', config.url || '');
+      return config;
+    });
+
+    this.client.interceptors.response.use(
+      (response) => response,
+      (error: AxiosError) => {
+        logger.logServiceError('Jellyfin', 'API call', error);
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Run a query against the Playback Reporting plugin's database
+   */
+  private async query(sql: string): Promise<PlaybackActivityRow[]> {
+    try {
+      const response = await this.client.post<PlaybackReportingQueryResult>('/user_usage_stats/submit_custom_query', {
+        CustomQueryString: sql,
+        ReplaceUserId: false,
+      });
+
+      const { colums: columns = [], results = [] } = response.data;
+      return results.map(
+        (row) => Object.fromEntries(columns.map((column, i) => [column, row[i]])) as unknown as PlaybackActivityRow
+      );
+    } catch (error: any) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Jellyfin Playback Reporting error: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remember which GUID each numeric id belongs to
+   */
+  private async rememberIds(guids: Array<string | undefined>, toId: (guid: string) => number = toNumericId): Promise<void> {
+    const unsaved = new Map<number, string>();
+    guids.forEach((guid) => {
+      if (!guid) return;
+      const id = toId(guid);
+      if (!this.guids.has(id)) unsaved.set(id, normalizeGuid(guid));
+    });
+
+    await JellyfinIdModel.saveMany(unsaved);
+    unsaved.forEach((guid, id) => this.guids.set(id, guid));
+  }
+
+  private async resolveId(id: number): Promise<string> {
+    let guid = this.guids.get(id);
+    if (!guid) {
+      guid = await JellyfinIdModel.findGuid(id);
+      if (!guid) {
+        throw new Error(`Unknown Jellyfin id ${id}, sync history to refresh it`);
+      }
+      this.guids.set(id, guid);
+    }
+    return guid;
+  }
+
+  /**
+   * Fetch items by GUID, keeping them for the rest of the process
+   */
+  private async getItems(ids: string[]): Promise<Map<string, JellyfinItem>> {
+    const missing = [...new Set(ids.map(normalizeGuid))].filter((id) => !this.items.has(id));
+
+    for (let i = 0; i < missing.length; i += ITEM_BATCH_SIZE) {
+      const response = await this.client.get<JellyfinItemsResponse>('/Items', {
+        params: {
+          Ids: missing.slice(i, i + ITEM_BATCH_SIZE).join(','),
+          Fields: ITEM_FIELDS,
+          Recursive: true,
+        },
+      });
+      response.data.Items.forEach((item) => this.items.set(normalizeGuid(item.Id), item));
+    }
+
+    const found = new Map<string, JellyfinItem>();
+    ids.forEach((id) => {
+      const item = this.items.get(normalizeGuid(id));
+      if (item) found.set(id, item);
+    });
+    return found;
+  }
+
+  /**
+   * Test connection to Jellyfin
+   */
+  async testConnection(): Promise<boolean> {
+    const health = await this.healthCheck();
+    if (health.healthy) {
+      logger.info('Jellyfin connection test successful');
+    } else {
+      logger.error('Jellyfin connection test failed:', health.message);
+    }
+    return health.healthy;
+  }
+
+  /**
+   * Name the Jellyfin server was set up with
+   */
+  async getServerName(): Promise<string> {
+    const response = await this.client.get<JellyfinSystemInfo>('/System/Info');
+    return response.data.ServerName;
+  }
+
+  /**
+   * Get all users
+   */
+  async getUsers(): Promise<TautulliUser[]> {
+    const response = await this.client.get<JellyfinUser[]>('/Users');
+    await this.rememberIds(response.data.map((user) => user.Id), toUserId);
+
+    return response.data.map((user) => ({
+      user_id: toUserId(user.Id),
+      username: user.Name,
+      friendly_name: user.Name,
+      email: null,
+      thumb: user.PrimaryImageTag ? `${this.baseUrl}/Users/${user.Id}/Images/Primary?tag=${user.PrimaryImageTag}` : '',
+      is_admin: user.Policy?.IsAdministrator ? 1 : 0,
+      is_home_user: 0,
+      is_allow_sync: user.Policy?.EnableContentDownloading ? 1 : 0,
+      is_restricted: 0,
+      do_notify: 0,
+      keep_history: 1,
+      deleted_user: user.Policy?.IsDisabled ? 1 : 0,
+      allow_guest: 0,
+      user_thumb: '',
+      filter_all: '',
+      filter_movies: '',
+      filter_tv: '',
+      filter_music: '',
+      filter_photos: '',
+    }));
+  }
+
+  /**
+   * Page the plugin's PlaybackActivity table oldest first by rowid
+   * Play times are local, so the date filter is widened by a day and the exact range applied after parsing
+   */
+  async *getHistoryPages(range: HistoryRange): AsyncGenerator<TautulliHistoryRecord[]> {
+    const pageSize = parseInt(process.env.JELLYFIN_PAGE_SIZE || '1000', 10);
+    const filters: string[] = [];
+    if (range.start !== undefined) {
+      filters.push(`DateCreated >= '${new Date((range.start - 86400) * 1000).toISOString().slice(0, 10)}'`);
+    }
+    if (range.end !== undefined) {
+      filters.push(`DateCreated < '${new Date((range.end + 2 * 86400) * 1000).toISOString().slice(0, 10)}'`);
+    }
+
+    const users = new Map((await this.getUsers()).map((user) => [user.user_id, user.username]));
+    let lastRowId = range.afterRowId ?? 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const rows = await this.query(
+        'SELECT rowid, DateCreated, UserId, ItemId, ItemType, ItemName, PlaybackMethod, ClientName, DeviceName, PlayDuration ' +
+          `FROM PlaybackActivity WHERE ${[`rowid > ${lastRowId}`, ...filters].join(' AND ')} ` +
+          `ORDER BY rowid LIMIT ${pageSize}`
+      );
+      if (rows.length === 0) break;
+
+      lastRowId = Number(rows[rows.length - 1].rowid);
+      hasMore = rows.length === pageSize;
+
+      const items = await this.getItems(rows.map((row) => row.ItemId));
+      await this.rememberIds(rows.map((row) => row.UserId), toUserId);
+      await this.rememberIds(
+        rows.flatMap((row) => {
+          const item = items.get(row.ItemId);
+          return [row.ItemId, item?.AlbumId, item?.SeasonId, item?.AlbumArtists?.[0]?.Id, item?.SeriesId];
+        })
+      );
+      const records = rows.map((row) => this.toRecord(row, items.get(row.ItemId), users));
+
+      yield records.filter((record) => {
+        if (range.start !== undefined && record.date < range.start) return false;
+        return range.end === undefined || record.date <= range.end;
+      });
+    }
+  }
+
+  /**
+   * Shape a PlaybackActivity row and its item like a Tautulli history record
+   */
+  private toRecord(row: PlaybackActivityRow, item: JellyfinItem | undefined, users: Map<number, string>): TautulliHistoryRecord {
+    const started = zonedTimeToTimestamp(row.DateCreated, this.timeZone) || 0;
+    const duration = parseInt(row.PlayDuration, 10) || 0;
+    const runtime = item?.RunTimeTicks ? item.RunTimeTicks / 10_000_000 : 0;
+    const percentComplete = runtime > 0 ? Math.min(100, Math.round((duration / runtime) * 100)) : 0;
+    const userId = toUserId(row.UserId);
+    const ratingKey = toNumericId(row.ItemId);
+    const isTrack = row.ItemType === 'Audio';
+    const artist = item?.AlbumArtists?.[0];
+    const parentGuid = isTrack ? item?.AlbumId : item?.SeasonId;
+    const grandparentGuid = isTrack ? artist?.Id : item?.SeriesId;
+
+    const people = item?.People || [];
+    const decision = transcodeDecision(row.PlaybackMethod || '');
+
+    return {
+      date: started,
+      started,
+      stopped: started + duration,
+      duration,
+      paused_counter: 0,
+      user: users.get(userId) || '',
+      user_id: userId,
+      friendly_name: users.get(userId) || '',
+      platform: row.ClientName,
+      product: row.ClientName,
+      player: row.DeviceName,
+      ip_address: '',
+      live: 0,
+      machine_id: '',
+      location: '',
+      secure: 0,
+      relayed: 0,
+      media_type: HISTORY_MEDIA_TYPES[row.ItemType] || 'clip',
+      rating_key: ratingKey,
+      parent_rating_key: parentGuid ? toNumericId(parentGuid) : 0,
+      grandparent_rating_key: grandparentGuid ? toNumericId(grandparentGuid) : 0,
+      title: item?.Name || row.ItemName,
+      parent_title: (isTrack ? item?.Album : item?.SeasonName) || '',
+      grandparent_title: (isTrack ? artist?.Name : item?.SeriesName) || '',
+      original_title: item?.OriginalTitle || '',
+      year: item?.ProductionYear || 0,
+      media_index: item?.IndexNumber || 0,
+      parent_media_index: item?.ParentIndexNumber || 0,
+      thumb: imagePath(item ? row.ItemId : undefined),
+      parent_thumb: imagePath(parentGuid),
+      grandparent_thumb: imagePath(grandparentGuid),
+      art: '',
+      video_decision: decision,
+      audio_decision: decision,
+      transcode_decision: decision,
+      quality_profile: '',
+      stream_video_resolution: '',
+      stream_container: '',
+      stream_video_codec: '',
+      stream_audio_codec: '',
+      stream_bitrate: 0,
+      genres: item?.Genres || [],
+      labels: [],
+      directors: people.filter((p) => p.Type === 'Director').map((p) => p.Name),
+      writers: people.filter((p) => p.Type === 'Writer').map((p) => p.Name),
+      actors: people.filter((p) => p.Type === 'Actor').map((p) => p.Name),
+      guid: `jellyfin://${row.ItemId}`,
+      summary: item?.Overview || '',
+      tagline: '',
+      rating: item?.CommunityRating || 0,
+      content_rating: item?.OfficialRating || '',
+      percent_complete: percentComplete,
+      watched_status: percentComplete >= 85 ? 1 : 0,
+      group_count: 1,
+      group_ids: row.rowid,
+      state: null,
+      session_key: null,
+      reference_id: Number(row.rowid),
+      row_id: Number(row.rowid),
+    };
+  }
+
+  /**
+   * Unix timestamp of a user's first ever play
+   */
+  async getFirstPlayDate(userId: number): Promise<number | null> {
+    const guid = await this.resolveId(userId);
+    if (!GUID_PATTERN.test(guid)) {
+      throw new Error(`Invalid Jellyfin user id ${guid}`);
+    }
+
+    const rows = await this.query(
+      `SELECT MIN(DateCreated) AS DateCreated FROM PlaybackActivity WHERE UserId = ${sqlString(guid)}`
+    );
+    const first = rows[0]?.DateCreated;
+    return first ? zonedTimeToTimestamp(first, this.timeZone) : null;
+  }
+
+  /**
+   * Get metadata for an item, with its library resolved from the item's ancestors
+   */
+  async getMetadata(ratingKey: number): Promise<TautulliMetadata> {
+    const cacheKey = `jellyfin:metadata:${ratingKey}`;
+    const cached = await this.cache.get<TautulliMetadata>(cacheKey);
+    if (cached) return cached;
+
+    const guid = await this.resolveId(ratingKey);
+    const item = (await this.getItems([guid])).get(guid);
+    if (!item) {
+      throw new Error(`Jellyfin item ${guid} not found`);
+    }
+
+    const ancestors = await this.client.get<JellyfinItem[]>(`/Items/${guid}/Ancestors`);
+    const library = ancestors.data.find((ancestor) => ancestor.Type === 'CollectionFolder');
+    const parentGuid = item.Type === 'Audio' ? item.AlbumId : item.SeasonId;
+    const grandparentGuid = item.Type === 'Audio' ? item.AlbumArtists?.[0]?.Id : item.SeriesId;
+    const providerIds = Object.entries(item.ProviderIds || {}).map(([key, value]) => `${key.toLowerCase()}://${value}`);
+
+    const metadata = {
+      media_type: MEDIA_TYPES[item.Type] || 'movie',
+      section_id: library ? toNumericId(library.Id) : 0,
+      library_name: library?.Name || '',
+      rating_key: ratingKey,
+      parent_rating_key: parentGuid ? toNumericId(parentGuid) : 0,
+      grandparent_rating_key: grandparentGuid ? toNumericId(grandparentGuid) : 0,
+      title: item.Name,
+      sort_title: item.Name,
+      original_title: item.OriginalTitle || '',
+      year: item.ProductionYear || 0,
+      added_at: toTimestamp(item.DateCreated),
+      updated_at: toTimestamp(item.DateCreated),
+      last_viewed_at: 0,
+      guid: `jellyfin://${guid}`,
+      studio: '',
+      content_rating: item.OfficialRating || '',
+      summary: item.Overview || '',
+      tagline: '',
+      rating: item.CommunityRating || 0,
+      audience_rating: 0,
+      user_rating: 0,
+      duration: item.RunTimeTicks ? Math.round(item.RunTimeTicks / 10_000) : 0,
+      thumb: imagePath(guid),
+      art: '',
+      banner: '',
+      directors: (item.People || []).filter((p) => p.Type === 'Director').map((p) => p.Name),
+      writers: (item.People || []).filter((p) => p.Type === 'Writer').map((p) => p.Name),
+      actors: (item.People || []).filter((p) => p.Type === 'Actor').map((p) => p.Name),
+      genres: item.Genres || [],
+      labels: [],
+      collections: [],
+      media_index: item.IndexNumber || 0,
+      parent_media_index: item.ParentIndexNumber || 0,
+      play_count: 0,
+      children_count: item.ChildCount || 0,
+      guids: providerIds,
+    } as TautulliMetadata;
+
+    await this.cache.set(cacheKey, metadata, parseInt(process.env.JELLYFIN_CACHE_TTL || '3600', 10));
+    return metadata;
+  }
+
+  /**
+   * Get the children of an item, e.g. the seasons of a show
+   */
+  async getChildrenMetadata(ratingKey: number): Promise<TautulliChildMetadata[]> {
+    const guid = await this.resolveId(ratingKey);
+    const response = await this.client.get<JellyfinItemsResponse>('/Items', {
+      params: { ParentId: guid, Fields: ITEM_FIELDS },
+    });
+    await this.rememberIds(response.data.Items.map((item) => item.Id));
+
+    return response.data.Items.map((item) => ({
+      media_type: MEDIA_TYPES[item.Type] || 'movie',
+      rating_key: toNumericId(item.Id),
+      parent_rating_key: ratingKey,
+      title: item.Name,
+      media_index: item.IndexNumber || 0,
+      thumb: imagePath(item.Id),
+    }));
+  }
+
+  /**
+   * Movie, show and music libraries with their item counts
+   */
+  async getLibraries(): Promise<TautulliLibrary[]> {
+    const response = await this.client.get<{ Name: string; ItemId: string; CollectionType?: string }[]>(
+      '/Library/VirtualFolders'
+    );
+
+    const libraries: TautulliLibrary[] = [];
+    for (const folder of response.data) {
+      const type = LIBRARY_TYPES[folder.CollectionType || ''];
+      if (!type) continue;
+
+      const countItems = async (itemTypes: string) =>
+        (
+          await this.client.get<JellyfinItemsResponse>('/Items', {
+            params: { ParentId: folder.ItemId, Recursive: true, IncludeItemTypes: itemTypes, Limit: 0 },
+          })
+        ).data.TotalRecordCount;
+
+      libraries.push({
+        section_id: toNumericId(folder.ItemId),
+        section_name: folder.Name,
+        section_type: type.sectionType,
+        agent: '',
+        thumb: '',
+        art: '',
+        count: await countItems(type.itemTypes),
+        is_active: 1,
+        parent_count: 0,
+        child_count: type.childTypes ? await countItems(type.childTypes) : 0,
+      });
+    }
+
+    return libraries;
+  }
+
+  handlesImage(path: string): boolean {
+    return IMAGE_PATTERN.test(path);
+  }
+
+  /**
+   * Primary image of an item, paths look like /jellyfin/Items/{guid}/Images/Primary
+   */
+  async getImage(path: string, width: number, height: number): Promise<ProviderImage> {
+    const match = path.match(IMAGE_PATTERN);
+    if (!match) {
+      throw new Error('Invalid image path format');
+    }
+
+    const response = await this.client.get<ArrayBuffer>(`/Items/${match[1]}/Images/Primary`, {
+      params: { maxWidth: width, maxHeight: height },
+      responseType: 'arraybuffer',
+      timeout: 10000,
+    });
+
+    return {
+      data: Buffer.from(response.data),
+      contentType: String(response.headers['content-type'] || 'image/jpeg'),
+    };
+  }
+
+  /**
+   * Health check
+   */
+  async healthCheck(): Promise<{ healthy: boolean; message?: string }> {
+    try {
+      const response = await this.client.get<JellyfinSystemInfo>('/System/Info');
+      return {
+        healthy: true,
+        message: `Connected to ${response.data.ServerName} v${response.data.Version}`,
+      };
+    } catch (error: any) {
+      return {
+        healthy: false,
+        message: error.message,
+      };
+    }
+  }
+}
+
+// Singleton instance
+let jellyfinServiceInstance: JellyfinService | null = null;
+
+export function getJellyfinService(): JellyfinService {
+  if (!jellyfinServiceInstance) {
+    jellyfinServiceInstance = new JellyfinService();
+  }
+  return jellyfinServiceInstance;
+}
+
+export default getJellyfinService;
@@ -0,0 +1,41 @@
+import { OverseerrService } from './overseerr.service';
+import { toUserId } from './jellyfin.service';
+
+/**
+ * Jellyseerr is a fork of Overseerr with the same API
+ * Its users have ids of their own, so the history provider's user is looked up by Jellyfin GUID or Plex id first
+ */
+export class JellyseerrService extends OverseerrService {
+  constructor() {
+    super({
+      name: 'jellyseerr',
+      label: 'Jellyseerr',
+      url: process.env.JELLYSEERR_URL || '',
+      apiKey: process.env.JELLYSEERR_API_KEY || '',
+      timeout: parseInt(process.env.JELLYSEERR_TIMEOUT || '30000', 10),
+      cacheTTL: parseInt(process.env.JELLYSEERR_CACHE_TTL || '3600', 10),
+    });
+  }
+
+  /**
+   * Jellyfin users are synced under the numeric id derived from their GUID, Plex users under their account id
+   */
+  protected async findRequesterId(userId: number): Promise<number | null> {
+    const user = (await this.getUsers()).find(
+      (u) => (u.jellyfinUserId && toUserId(u.jellyfinUserId) === userId) || u.plexId === userId
+    );
+    return user?.id ?? null;
+  }
+}
+
+// Singleton instance
+let jellyseerrServiceInstance: JellyseerrService | null = null;
+
+export function getJellyseerrService(): JellyseerrService {
+  if (!jellyseerrServiceInstance) {
+    jellyseerrServiceInstance = new JellyseerrService();
+  }
+  return jellyseerrServiceInstance;
+}
+
+export default getJellyseerrService;
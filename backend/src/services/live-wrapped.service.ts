@@ -0,0 +1,143 @@
+import logger from '../utils/logger';
+import { LiveWrappedModel, type LiveWrapped } from '../models/LiveWrapped';
+import { UserModel } from '../models/User';
+import { getHistorySyncService } from './history-sync.service';
+import StatsCalculator from '../processors/stats-calculator';
+import { getYearBoundaries, getZonedParts, resolveTimezone } from '../utils/timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface LiveWrappedRefreshResult {
+  refreshed: number;
+  failed: number;
+  durationMs: number;
+}
+
+/**
+ * Keeps the year-to-date wrapped of opted-in users current
+ * Checks hourly for ones older than LIVE_WRAPPED_REFRESH_HOURS, syncs new history once,
+ * then recalculates each of them. Restarts don't reset the schedule, it goes by when each was last refreshed.
+ */
+export class LiveWrappedService {
+  private calculator = new StatsCalculator();
+  private refreshIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<LiveWrappedRefreshResult> | null = null;
+
+  constructor() {
+    this.refreshIntervalMs = Math.max(1, parseFloat(process.env.LIVE_WRAPPED_REFRESH_HOURS || '24')) * HOUR_MS;
+  }
+
+  /**
+   * Start the schedule, refreshing anything already due right away
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      this.refreshAll().catch((error) => logger.error('Live wrapped refresh failed:', error));
+    };
+    this.timer = setInterval(tick, Math.min(this.refreshIntervalMs, HOUR_MS));
+    tick();
+
+    logger.info(`Live wrapped refreshes every ${this.refreshIntervalMs / HOUR_MS} hours`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh the live wrapped that are due, or all of them when forced
+   * Joins the refresh in progress instead of starting a second one
+   */
+  refreshAll(force = false): Promise<LiveWrappedRefreshResult> {
+    if (!this.running) {
+      this.running = this.run(force).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(force: boolean): Promise<LiveWrappedRefreshResult> {
+    const startTime = Date.now();
+    const due = (await LiveWrappedModel.findEnabled()).filter(
+      (entry) => force || !entry.refreshed_at || startTime - new Date(entry.refreshed_at).getTime() >= this.refreshIntervalMs
+    );
+
+    if (due.length === 0) {
+      return { refreshed: 0, failed: 0, durationMs: Date.now() - startTime };
+    }
+
+    // Calculate from the history already stored when the sync fails
+    try {
+      await getHistorySyncService().sync();
+    } catch (error: any) {
+      logger.warn(`History sync before the live wrapped refresh failed: ${error.message}`);
+    }
+
+    let refreshed = 0;
+    let failed = 0;
+    for (const entry of due) {
+      if (await this.refresh(entry)) {
+        refreshed++;
+      } else {
+        failed++;
+      }
+    }
+
+    const result = { refreshed, failed, durationMs: Date.now() - startTime };
+    logger.info(`Refreshed ${refreshed} live wrapped (${failed} failed) in ${result.durationMs}ms`);
+    return result;
+  }
+
+  /**
+   * Recalculate one user's year so far and the same stretch of last year
+   * Failures are stored on the live wrapped, which keeps serving its previous stats
+   */
+  async refresh(entry: LiveWrapped): Promise<boolean> {
+    try {
+      const user = await UserModel.findById(entry.user_id);
+      if (!user) {
+        throw new Error(`User ${entry.user_id} not found`);
+      }
+
+      // The year and how far into it we are, in the user's timezone
+      const timeZone = resolveTimezone(user.timezone);
+      const asOf = Math.floor(Date.now() / 1000);
+      const year = getZonedParts(asOf, timeZone).year;
+      const elapsedSeconds = asOf - getYearBoundaries(year, timeZone).startTimestamp;
+
+      const stats = await this.calculator.calculateUserStats(user.plex_user_id, year, user.timezone, user.history_provider);
+      const lastYear = await this.calculator.calculatePeriodTotals(user.plex_user_id, year - 1, elapsedSeconds, user.timezone);
+
+      await LiveWrappedModel.saveRefresh(entry.id, {
+        year,
+        stats,
+        last_year_stats: lastYear,
+        as_of: new Date(asOf * 1000),
+      });
+      return true;
+    } catch (error: any) {
+      logger.error(`Failed to refresh live wrapped of user ${entry.user_id}:`, error);
+      await LiveWrappedModel.saveRefreshError(entry.id, error.message);
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+let liveWrappedServiceInstance: LiveWrappedService | null = null;
+
+export function getLiveWrappedService(): LiveWrappedService {
+  if (!liveWrappedServiceInstance) {
+    liveWrappedServiceInstance = new LiveWrappedService();
+  }
+  return liveWrappedServiceInstance;
+}
+
+export default getLiveWrappedService;
@@ -0,0 +1,106 @@
+import fixture from './__fixtures__/ombi.json';
+import { OmbiService } from './ombi.service';
+import { createStubServer } from '../__tests__/stub-server';
+import { MediaRequestStatus, MediaStatus, MediaType } from '../types/overseerr.types';
+
+jest.mock('../config/redis', () => ({
+  getCacheService: () => ({ get: jest.fn().mockResolvedValue(null), set: jest.fn(), delPattern: jest.fn() }),
+}));
+
+const BOB = 9917402;
+
+const responses: Record<string, unknown> = {
+  '/api/v1/Request/movie': fixture.movieRequests,
+  '/api/v1/Request/tv': fixture.tvRequests,
+};
+
+describe('OmbiService', () => {
+  // Stands in for Ombi's request endpoints, answering from the recorded responses in the fixture
+  const stub = createStubServer({ header: 'ApiKey', value: 'test-key' }, ({ url }) => responses[url.pathname]);
+  let service: OmbiService;
+
+  beforeAll(async () => {
+    process.env.OMBI_URL = `${await stub.listen()}/`;
+    process.env.OMBI_API_KEY = 'test-key';
+    // Ombi dates are in the server's local time
+    process.env.OMBI_TIMEZONE = 'Europe/Ljubljana';
+  });
+
+  afterAll(async () => {
+    await stub.close();
+    delete process.env.OMBI_URL;
+    delete process.env.OMBI_API_KEY;
+    delete process.env.OMBI_TIMEZONE;
+  });
+
+  beforeEach(() => {
+    service = new OmbiService();
+  });
+
+  it('maps movie requests and TV child requests into the Overseerr model, newest first', async () => {
+    const requests = await service.getUserRequests(BOB);
+
+    expect(requests).toEqual([
+      {
+        id: 22,
+        status: MediaRequestStatus.DECLINED,
+        type: MediaType.MOVIE,
+        createdAt: '2025-07-14T07:00:00.000Z',
+        updatedAt: '2025-07-14T16:30:00.000Z',
+        title: 'Pulp Fiction',
+        posterPath: '/d5iIlFn5s0ImszYzBPb8JPIfbXD.jpg',
+        media: { tmdbId: 680, tvdbId: undefined, status: MediaStatus.PENDING },
+      },
+      {
+        id: 8,
+        status: MediaRequestStatus.APPROVED,
+        type: MediaType.TV,
+        createdAt: '2025-05-20T17:30:00.000Z',
+        updatedAt: '2025-05-21T06:00:00.000Z',
+        title: 'The Wire',
+        posterPath: '/4lbclFySvugI51fwsyxBTOm4DqK.jpg',
+        media: { tmdbId: 1438, tvdbId: 79126, status: MediaStatus.PROCESSING },
+      },
+      {
+        id: 21,
+        status: MediaRequestStatus.APPROVED,
+        type: MediaType.MOVIE,
+        createdAt: '2025-03-01T19:15:00.000Z',
+        updatedAt: '2025-03-01T22:45:00.000Z',
+        title: 'Heat',
+        posterPath: '/umSVjVdbVwtx5ryCA2QXL44Durm.jpg',
+        media: { tmdbId: 949, tvdbId: undefined, status: MediaStatus.AVAILABLE },
+      },
+    ]);
+  });
+
+  it('keeps undecided requests at their request date', async () => {
+    const [movie, tv] = await service.getUserRequests(4821937);
+
+    expect([movie.id, movie.status, movie.updatedAt]).toEqual([23, MediaRequestStatus.PENDING, '2025-08-02T09:00:00.000Z']);
+    expect([tv.id, tv.status, tv.updatedAt]).toEqual([9, MediaRequestStatus.PENDING, '2025-06-02T08:00:00.000Z']);
+  });
+
+  it('calculates the request stats of a year', async () => {
+    const stats = await service.getUserRequestStats(BOB, 2025);
+
+    expect(stats).toMatchObject({
+      userId: BOB,
+      totalRequests: 3,
+      movieRequests: 2,
+      tvRequests: 1,
+      approvedRequests: 2,
+      declinedRequests: 1,
+      availableRequests: 1,
+      averageApprovalTimeHours: 8,
+      fastestApprovalTimeHours: 3.5,
+      slowestApprovalTimeHours: 12.5,
+      // Ombi doesn't return genres
+      topGenres: [],
+    });
+  });
+
+  it('gives users Ombi never imported no requests', async () => {
+    expect(await service.getUserRequests(12345)).toEqual([]);
+  });
+});
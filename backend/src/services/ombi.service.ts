@@ -0,0 +1,241 @@
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import logger from '../utils/logger';
+import { getCacheService } from '../config/redis';
+import { getServerTimezone, resolveTimezone, zonedTimeToTimestamp } from '../utils/timezone';
+import { calculateRequestStats, filterRequestsByYear } from '../processors/request-stats';
+import { MediaType, MediaRequestStatus, MediaStatus } from '../types/overseerr.types';
+import type { OverseerrUserRequestStats } from '../types/overseerr.types';
+import type { ProviderRequest, RequestProvider } from '../types/request-provider.types';
+import type { OmbiAbout, OmbiMovieRequest, OmbiTvChildRequest, OmbiTvRequest } from '../types/ombi.types';
+
+/**
+ * TMDB poster path (/abc.jpg) from either a path or a full image.tmdb.org URL
+ */
+const toPosterPath = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  if (value.startsWith('/')) return value;
+  return value.match(/image\.tmdb\.org\/t\/p\/[^/]+(\/[^/?]+)/)?.[1];
+};
+
+export class OmbiService implements RequestProvider {
+  readonly name = 'ombi';
+  private client: AxiosInstance | null = null;
+  private apiKey: string;
+  private baseUrl: string;
+  private timeZone: string;
+  private cache: ReturnType<typeof getCacheService>;
+  private cacheTTL: number;
+  private enabled: boolean;
+
+  constructor() {
+    this.baseUrl = process.env.OMBI_URL || '';
+    this.apiKey = process.env.OMBI_API_KEY || '';
+    this.cacheTTL = parseInt(process.env.OMBI_CACHE_TTL || '3600', 10);
+    // Ombi returns dates in the server's local time
+    this.timeZone = resolveTimezone(process.env.OMBI_TIMEZONE || getServerTimezone());
+    this.enabled = !!this.baseUrl && !!this.apiKey;
+
+    if (this.enabled) {
+      this.client = axios.create({
+        baseURL: `${this.baseUrl.replace(/\/$/, '')}/api/v1`,
+        timeout: parseInt(process.env.OMBI_TIMEOUT || '30000', 10),
+        headers: {
+          ApiKey: this.apiKey,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      // Add request/response interceptors for logging
+      this.client.interceptors.request.use((config) => {
+        logger.logServiceCall('Ombi', config.method?.toUpperCase() || 'GET', config.url || '');
+        return config;
+      });
+
+      this.client.interceptors.response.use(
+        (response) => response,
+        (error: AxiosError) => {
+          logger.logServiceError('Ombi', 'API call', error);
+          throw error;
+        }
+      );
+    } else {
+      logger.info('Ombi integration is disabled');
+    }
+
+    this.cache = getCacheService();
+  }
+
+  /**
+   * Check if Ombi is enabled
+   */
+  isEnabled(): boolean {
+    return this.enabled && this.client !== null;
+  }
+
+  /**
+   * ISO date from an Ombi local time, null for unset dates
+   */
+  private toIsoDate(value: string | null | undefined): string | null {
+    if (!value || value.startsWith('0001-')) return null;
+    // Dates that carry an offset are already absolute
+    if (/(Z|[+-]\d{2}:\d{2})$/.test(value)) return new Date(value).toISOString();
+
+    const timestamp = zonedTimeToTimestamp(value, this.timeZone);
+    return timestamp !== null ? new Date(timestamp * 1000).toISOString() : null;
+  }
+
+  /**
+   * Map a movie request or a user's part of a TV request into Overseerr's request model
+   * Ombi has no request status of its own, it is derived from the approved/denied/available flags
+   */
+  private toRequest(
+    request: OmbiMovieRequest | OmbiTvChildRequest,
+    type: MediaType,
+    media: { title: string; tmdbId: number; tvdbId?: number; posterPath?: string }
+  ): ProviderRequest {
+    const createdAt = this.toIsoDate(request.requestedDate) || new Date(0).toISOString();
+    const decidedAt = request.denied ? request.markedAsDenied : request.markedAsApproved;
+
+    let status = MediaRequestStatus.PENDING;
+    if (request.denied) status = MediaRequestStatus.DECLINED;
+    else if (request.approved) status = MediaRequestStatus.APPROVED;
+
+    let mediaStatus = MediaStatus.PENDING;
+    if (request.available) mediaStatus = MediaStatus.AVAILABLE;
+    else if (request.approved) mediaStatus = MediaStatus.PROCESSING;
+
+    return {
+      id: request.id,
+      status,
+      type,
+      createdAt,
+      updatedAt: this.toIsoDate(decidedAt) || createdAt,
+      title: media.title,
+      posterPath: media.posterPath,
+      media: {
+        tmdbId: media.tmdbId,
+        tvdbId: media.tvdbId,
+        status: mediaStatus,
+      },
+    };
+  }
+
+  /**
+   * Every movie and TV request, mapped into Overseerr's model with who requested them
+   */
+  private async getAllRequests(): Promise<{ request: ProviderRequest; plexUserId: string | undefined }[]> {
+    if (!this.client) throw new Error('Ombi client not initialized');
+
+    const [movies, shows] = await Promise.all([
+      this.client.get<OmbiMovieRequest[]>('/Request/movie'),
+      this.client.get<OmbiTvRequest[]>('/Request/tv'),
+    ]);
+
+    const requests = movies.data.map((movie) => ({
+      request: this.toRequest(movie, MediaType.MOVIE, {
+        title: movie.title,
+        tmdbId: movie.theMovieDbId,
+        posterPath: toPosterPath(movie.posterPath),
+      }),
+      plexUserId: movie.requestedUser?.providerUserId,
+    }));
+
+    shows.data.forEach((show) => {
+      (show.childRequests || []).forEach((child) => {
+        requests.push({
+          request: this.toRequest(child, MediaType.TV, {
+            title: show.title,
+            tmdbId: show.externalProviderId || 0,
+            tvdbId: show.tvDbId || undefined,
+            posterPath: toPosterPath(show.posterPath),
+          }),
+          plexUserId: child.requestedUser?.providerUserId,
+        });
+      });
+    });
+
+    return requests;
+  }
+
+  /**
+   * Get requests for a specific user, matched by the Plex account id Ombi imported them with
+   */
+  async getUserRequests(userId: number): Promise<ProviderRequest[]> {
+    const cacheKey = `ombi:user:${userId}:requests`;
+    const cached = await this.cache.get<ProviderRequest[]>(cacheKey);
+    if (cached) return cached;
+
+    const requests = (await this.getAllRequests())
+      .filter((r) => r.plexUserId === String(userId))
+      .map((r) => r.request)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    await this.cache.set(cacheKey, requests, this.cacheTTL);
+    return requests;
+  }
+
+  /**
+   * Get user requests for a specific year
+   */
+  async getUserRequestsForYear(userId: number, year: number): Promise<ProviderRequest[]> {
+    return filterRequestsByYear(await this.getUserRequests(userId), year);
+  }
+
+  /**
+   * Get statistics for a user's requests
+   */
+  async getUserRequestStats(userId: number, year?: number): Promise<OverseerrUserRequestStats> {
+    const requests = year
+      ? await this.getUserRequestsForYear(userId, year)
+      : await this.getUserRequests(userId);
+
+    return calculateRequestStats(userId, requests, year);
+  }
+
+  /**
+   * Clear cache
+   */
+  async clearCache(userId?: number): Promise<number> {
+    if (userId) {
+      return this.cache.delPattern(`ombi:user:${userId}:*`);
+    }
+    return this.cache.delPattern('ombi:*');
+  }
+
+  /**
+   * Health check
+   */
+  async healthCheck(): Promise<{ healthy: boolean; message?: string }> {
+    if (!this.client) {
+      return {
+        healthy: true,
+        message: 'Ombi integration is disabled',
+      };
+    }
+
+    try {
+      const response = await this.client.get<OmbiAbout>('/Settings/about');
+      return {
+        healthy: true,
+        message: `Connected to Ombi v${response.data.version}`,
+      };
+    } catch (error: any) {
+      return {
+        healthy: false,
+        message: error.message,
+      };
+    }
+  }
+}
+
+// Singleton instance
+let ombiServiceInstance: OmbiService | null = null;
+
+export function getOmbiService(): OmbiService {
+  if (!ombiServiceInstance) {
+    ombiServiceInstance = new OmbiService();
+  }
+  return ombiServiceInstance;
+}
+
+export default getOmbiService;
@@ -0,0 +1,182 @@
+import overseerrFixture from './__fixtures__/overseerr.json';
+import jellyseerrFixture from './__fixtures__/jellyseerr.json';
+import { OverseerrService } from './overseerr.service';
+import { JellyseerrService } from './jellyseerr.service';
+import { toUserId } from './jellyfin.service';
+import { createStubServer } from '../__tests__/stub-server';
+import { MediaRequestStatus, MediaStatus, MediaType } from '../types/overseerr.types';
+
+jest.mock('../config/redis', () => ({
+  getCacheService: () => ({ get: jest.fn().mockResolvedValue(null), set: jest.fn(), delPattern: jest.fn() }),
+}));
+jest.mock('../models/JellyfinId', () => ({
+  JellyfinIdModel: { saveMany: jest.fn(), findGuid: jest.fn() },
+}));
+
+interface ApiFixture {
+  users: object[];
+  requests: { requestedBy: { id: number } }[];
+  movies: { id: number }[];
+  tv: { id: number }[];
+}
+
+/**
+ * Stands in for Overseerr or Jellyseerr, answering from the recorded responses in a fixture
+ */
+function createSeerrStub(fixture: ApiFixture) {
+  const page = <T>(results: T[]) => ({
+    pageInfo: { pages: 1, pageSize: results.length, results: results.length, page: 1 },
+    results,
+  });
+
+  return createStubServer({ header: 'X-Api-Key', value: 'test-key' }, ({ url }) => {
+    const details = url.pathname.match(/^\/api\/v1\/(movie|tv)\/(\d+)$/);
+
+    if (url.pathname === '/api/v1/user') {
+      return page(fixture.users);
+    }
+    if (url.pathname === '/api/v1/request') {
+      const requestedBy = url.searchParams.get('requestedBy');
+      return page(fixture.requests.filter((r) => !requestedBy || r.requestedBy.id === Number(requestedBy)));
+    }
+    if (details) {
+      return (details[1] === 'movie' ? fixture.movies : fixture.tv).find((item) => item.id === Number(details[2]));
+    }
+    return undefined;
+  });
+}
+
+const requestedBy = (url: URL) => url.searchParams.get('requestedBy');
+
+describe('OverseerrService', () => {
+  const stub = createSeerrStub(overseerrFixture);
+  let service: OverseerrService;
+
+  beforeAll(async () => {
+    process.env.ENABLE_OVERSEERR = 'true';
+    process.env.OVERSEERR_URL = await stub.listen();
+    process.env.OVERSEERR_API_KEY = 'test-key';
+  });
+
+  afterAll(async () => {
+    await stub.close();
+    delete process.env.ENABLE_OVERSEERR;
+    delete process.env.OVERSEERR_URL;
+    delete process.env.OVERSEERR_API_KEY;
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    service = new OverseerrService();
+  });
+
+  it('reads requests by the Overseerr user id and fills in their media details', async () => {
+    const requests = await service.getUserRequests(7);
+
+    expect(stub.requests.filter((url) => url.pathname === '/api/v1/request').map(requestedBy)).toEqual(['7']);
+    expect(requests.map((r) => [r.id, r.type, r.movie?.title ?? r.tv?.name])).toEqual([
+      [41, MediaType.TV, 'The Wire'],
+      [37, MediaType.MOVIE, 'Heat'],
+      [33, MediaType.MOVIE, 'Pulp Fiction'],
+    ]);
+    expect(requests[1].movie?.genres?.map((g) => g.name)).toEqual(['Action', 'Crime', 'Drama']);
+  });
+
+  it('calculates the request stats of a year', async () => {
+    const stats = await service.getUserRequestStats(7, 2025);
+
+    expect(stats).toMatchObject({
+      userId: 7,
+      totalRequests: 2,
+      movieRequests: 1,
+      tvRequests: 1,
+      approvedRequests: 2,
+      pendingRequests: 0,
+      declinedRequests: 0,
+      availableRequests: 1,
+      // Only the movie was approved after it was requested, the show was approved right away
+      averageApprovalTimeHours: 2.5,
+      requestsByMonth: [
+        { month: '2025-02', count: 1 },
+        { month: '2025-05', count: 1 },
+      ],
+    });
+    expect(stats.topGenres).toEqual([
+      { genre: 'Crime', count: 2 },
+      { genre: 'Drama', count: 2 },
+      { genre: 'Action', count: 1 },
+    ]);
+    expect(stats.topRequests?.[0]).toEqual({
+      title: 'The Wire',
+      type: MediaType.TV,
+      status: MediaStatus.PROCESSING,
+      requestedAt: '2025-05-03T09:15:00.000Z',
+      tmdbId: 1438,
+      posterPath: '/4lbclFySvugI51fwsyxBTOm4DqK.jpg',
+    });
+  });
+});
+
+describe('JellyseerrService', () => {
+  const stub = createSeerrStub(jellyseerrFixture);
+  let service: JellyseerrService;
+
+  const [alice, bob] = jellyseerrFixture.users;
+
+  beforeAll(async () => {
+    process.env.JELLYSEERR_URL = await stub.listen();
+    process.env.JELLYSEERR_API_KEY = 'test-key';
+  });
+
+  afterAll(async () => {
+    await stub.close();
+    delete process.env.JELLYSEERR_URL;
+    delete process.env.JELLYSEERR_API_KEY;
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    service = new JellyseerrService();
+  });
+
+  const requestQueries = () => stub.requests.filter((url) => url.pathname === '/api/v1/request').map(requestedBy);
+
+  it('finds Jellyfin users by the id their GUID was synced under', async () => {
+    const requests = await service.getUserRequests(toUserId(alice.jellyfinUserId!));
+
+    expect(requestQueries()).toEqual([String(alice.id)]);
+    expect(requests.map((r) => [r.id, r.movie?.title ?? r.tv?.name])).toEqual([
+      [11, 'The Wire'],
+      [10, 'Heat'],
+    ]);
+  });
+
+  it('finds Plex users by their Plex id', async () => {
+    const stats = await service.getUserRequestStats(bob.plexId!, 2025);
+
+    expect(requestQueries()).toEqual([String(bob.id)]);
+    expect(stats).toMatchObject({
+      userId: bob.plexId,
+      totalRequests: 1,
+      movieRequests: 1,
+      approvedRequests: 1,
+      availableRequests: 1,
+      averageApprovalTimeHours: 0.75,
+    });
+    expect(stats.topRequests?.[0]).toMatchObject({ title: 'Zodiac', status: MediaStatus.AVAILABLE, tmdbId: 1949 });
+  });
+
+  it('maps the request states of every request', async () => {
+    const requests = await service.getUserRequests(toUserId(alice.jellyfinUserId!));
+
+    expect(requests.map((r) => [r.status, r.media.status])).toEqual([
+      [MediaRequestStatus.APPROVED, MediaStatus.PARTIALLY_AVAILABLE],
+      [MediaRequestStatus.PENDING, MediaStatus.PENDING],
+    ]);
+  });
+
+  it('gives users without a Jellyseerr account no requests', async () => {
+    expect(await service.getUserRequests(12345)).toEqual([]);
+    expect(requestQueries()).toEqual([]);
+  });
+});
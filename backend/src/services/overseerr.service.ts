@@ -1,22 +1,36 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import logger from '../utils/logger';
 import { getCacheService } from '../config/redis';
-import {
-  MediaType,
-  MediaRequestStatus,
-  MediaStatus,
-} from '../types/overseerr.types';
+import { calculateRequestStats, filterRequestsByYear } from '../processors/request-stats';
+import { MediaType } from '../types/overseerr.types';
 import type {
   OverseerrPaginatedResponse,
   OverseerrUser,
+  OverseerrMovie,
+  OverseerrTVShow,
   OverseerrRequest,
   OverseerrRequestQuery,
   OverseerrStats,
   OverseerrStatus,
   OverseerrUserRequestStats,
 } from '../types/overseerr.types';
+import type { RequestProvider } from '../types/request-provider.types';
+
+/**
+ * An app with Overseerr's API other than Overseerr itself, e.g. Jellyseerr
+ */
+export interface OverseerrServerConfig {
+  name: string; // Request provider name, also the cache key prefix
+  label: string; // Shown in logs and health messages
+  url: string;
+  apiKey: string;
+  timeout?: number;
+  cacheTTL?: number;
+}
 
-export class OverseerrService {
+export class OverseerrService implements RequestProvider {
+  readonly name: string;
+  private label: string;
   private client: AxiosInstance | null = null;
   private apiKey: string;
   private baseUrl: string;
@@ -24,16 +38,19 @@ export class OverseerrService {
   private cacheTTL: number;
   private enabled: boolean;
 
-  constructor() {
-    this.baseUrl = process.env.OVERSEERR_URL || '';
-    this.apiKey = process.env.OVERSEERR_API_KEY || '';
-    this.cacheTTL = parseInt(process.env.OVERSEERR_CACHE_TTL || '3600', 10);
-    this.enabled = process.env.ENABLE_OVERSEERR === 'true' && !!this.baseUrl && !!this.apiKey;
+  constructor(config?: OverseerrServerConfig) {
+    this.name = config?.name || 'overseerr';
+    this.label = config?.label || 'Overseerr';
+    this.baseUrl = config ? config.url : process.env.OVERSEERR_URL || '';
+    this.apiKey = config ? config.apiKey : process.env.OVERSEERR_API_KEY || '';
+    this.cacheTTL = config?.cacheTTL || parseInt(process.env.OVERSEERR_CACHE_TTL || '3600', 10);
+    // Overseerr keeps its own switch, other apps are enabled by configuring them
+    this.enabled = (!!config || process.env.ENABLE_OVERSEERR === 'true') && !!this.baseUrl && !!this.apiKey;
 
     if (this.enabled) {
       this.client = axios.create({
         baseURL: `${this.baseUrl}/api/v1`,
-        timeout: parseInt(process.env.OVERSEERR_TIMEOUT || '30000', 10),
+        timeout: config?.timeout || parseInt(process.env.OVERSEERR_TIMEOUT || '30000', 10),
         headers: {
           'X-Api-Key': this.apiKey,
           'Content-Type': 'application/json',
@@ -42,26 +59,26 @@ export class OverseerrService {
 
       // Add request/response interceptors for logging
       this.client.interceptors.request.use((config) => {
-        logger.logServiceCall('Overseerr', config.method?.toUpperCase() || 'GET', config.url || '');
+        logger.logServiceCall(this.label, config.method?.toUpperCase() || 'GET', config.url || '');
         return config;
       });
 
       this.client.interceptors.response.use(
         (response) => response,
         (error: AxiosError) => {
-          logger.logServiceError('Overseerr', 'API call', error);
+          logger.logServiceError(this.label, 'API call', error);
           throw error;
         }
       );
     } else {
-      logger.info('Overseerr integration is disabled');
+      logger.info(`${this.label} integration is disabled`);
     }
 
     this.cache = getCacheService();
   }
 
   /**
-   * Check if Overseerr is enabled
+   * Check if the integration is enabled
    */
   isEnabled(): boolean {
     return this.enabled && this.client !== null;
@@ -72,16 +89,16 @@ export class OverseerrService {
    */
   async testConnection(): Promise<boolean> {
     if (!this.isEnabled()) {
-      logger.info('Overseerr is disabled, skipping connection test');
+      logger.info(`${this.label} is disabled, skipping connection test`);
       return false;
     }
 
     try {
       await this.getStatus();
-      logger.info('Overseerr connection test successful');
+      logger.info(`${this.label} connection test successful`);
       return true;
     } catch (error: any) {
-      logger.error('Overseerr connection test failed:', error);
+      logger.error(`${this.label} connection test failed:`, error);
       return false;
     }
   }
@@ -90,9 +107,9 @@ export class OverseerrService {
    * Get Overseerr status
    */
   async getStatus(): Promise<OverseerrStatus> {
-    if (!this.client) throw new Error('Overseerr client not initialized');
+    if (!this.client) throw new Error(`${this.label} client not initialized`);
 
-    const cacheKey = 'overseerr:status';
+    const cacheKey = `${this.name}:status`;
     const cached = await this.cache.get<OverseerrStatus>(cacheKey);
     if (cached) return cached;
 
@@ -105,9 +122,9 @@ export class OverseerrService {
    * Get all users
    */
   async getUsers(): Promise<OverseerrUser[]> {
-    if (!this.client) throw new Error('Overseerr client not initialized');
+    if (!this.client) throw new Error(`${this.label} client not initialized`);
 
-    const cacheKey = 'overseerr:users';
+    const cacheKey = `${this.name}:users`;
     const cached = await this.cache.get<OverseerrUser[]>(cacheKey);
     if (cached) return cached;
 
@@ -127,7 +144,7 @@ export class OverseerrService {
    * Get user by ID
    */
   async getUserById(userId: number): Promise<OverseerrUser | null> {
-    if (!this.client) throw new Error('Overseerr client not initialized');
+    if (!this.client) throw new Error(`${this.label} client not initialized`);
 
     try {
       const response = await this.client.get<OverseerrUser>(`/user/${userId}`);
@@ -150,7 +167,7 @@ export class OverseerrService {
    * Get all requests
    */
   async getRequests(query: OverseerrRequestQuery = {}): Promise<OverseerrRequest[]> {
-    if (!this.client) throw new Error('Overseerr client not initialized');
+    if (!this.client) throw new Error(`${this.label} client not initialized`);
 
     const params = {
       take: query.take || 1000,
@@ -167,15 +184,24 @@ export class OverseerrService {
     return response.data.results;
   }
 
+  /**
+   * Id of the user the requests of a history provider user are filed under, null when they have no account
+   */
+  protected async findRequesterId(userId: number): Promise<number | null> {
+    return userId;
+  }
+
   /**
    * Get requests for a specific user
    */
   async getUserRequests(userId: number): Promise<OverseerrRequest[]> {
-    const cacheKey = `overseerr:user:${userId}:requests`;
+    const cacheKey = `${this.name}:user:${userId}:requests`;
     const cached = await this.cache.get<OverseerrRequest[]>(cacheKey);
     if (cached) return cached;
 
-    const requests = await this.getRequests({ requestedBy: userId });
+    const requesterId = await this.findRequesterId(userId);
+    const requests =
+      requesterId === null ? [] : await this.enrichRequests(await this.getRequests({ requestedBy: requesterId }));
     await this.cache.set(cacheKey, requests, this.cacheTTL);
     return requests;
   }
@@ -184,15 +210,55 @@ export class OverseerrService {
    * Get user requests for a specific year
    */
   async getUserRequestsForYear(userId: number, year: number): Promise<OverseerrRequest[]> {
-    const allRequests = await this.getUserRequests(userId);
+    return filterRequestsByYear(await this.getUserRequests(userId), year);
+  }
 
-    const startDate = new Date(`${year}-01-01T00:00:00Z`);
-    const endDate = new Date(`${year}-12-31T23:59:59Z`);
+  /**
+   * Get movie or TV show details by TMDB ID
+   */
+  async getMediaDetails(type: MediaType, tmdbId: number): Promise<OverseerrMovie | OverseerrTVShow | null> {
+    if (!this.client) throw new Error(`${this.label} client not initialized`);
 
-    return allRequests.filter((req) => {
-      const createdAt = new Date(req.createdAt);
-      return createdAt >= startDate && createdAt <= endDate;
-    });
+    const cacheKey = `${this.name}:${type}:${tmdbId}`;
+    const cached = await this.cache.get<OverseerrMovie | OverseerrTVShow>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const response = await this.client.get<OverseerrMovie | OverseerrTVShow>(
+        type === MediaType.MOVIE ? `/movie/${tmdbId}` : `/tv/${tmdbId}`
+      );
+      await this.cache.set(cacheKey, response.data, this.cacheTTL);
+      return response.data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Fill in title, poster and genres for requests that came back without media info
+   */
+  private async enrichRequests(requests: OverseerrRequest[]): Promise<OverseerrRequest[]> {
+    const batchSize = 5;
+    const enriched: OverseerrRequest[] = [];
+
+    for (let i = 0; i < requests.length; i += batchSize) {
+      const batch = requests.slice(i, i + batchSize);
+      const results = await Promise.all(
+        batch.map(async (req) => {
+          if (req.movie || req.tv || !req.media?.tmdbId) return req;
+
+          const details = await this.getMediaDetails(req.type, req.media.tmdbId);
+          if (!details) return req;
+
+          return req.type === MediaType.MOVIE
+            ? { ...req, movie: details as OverseerrMovie }
+            : { ...req, tv: details as OverseerrTVShow };
+        })
+      );
+      enriched.push(...results);
+    }
+
+    return enriched;
   }
 
   /**
@@ -203,79 +269,16 @@ export class OverseerrService {
       ? await this.getUserRequestsForYear(userId, year)
       : await this.getUserRequests(userId);
 
-    const stats: OverseerrUserRequestStats = {
-      userId,
-      totalRequests: requests.length,
-      movieRequests: requests.filter((r) => r.type === MediaType.MOVIE).length,
-      tvRequests: requests.filter((r) => r.type === MediaType.TV).length,
-      approvedRequests: requests.filter((r) => r.status === MediaRequestStatus.APPROVED).length,
-      pendingRequests: requests.filter((r) => r.status === MediaRequestStatus.PENDING).length,
-      declinedRequests: requests.filter((r) => r.status === MediaRequestStatus.DECLINED).length,
-      availableRequests: requests.filter((r) => r.media.status === MediaStatus.AVAILABLE).length,
-    };
-
-    // Calculate approval times
-    const approvedWithTimes = requests
-      .filter((r) => r.status === MediaRequestStatus.APPROVED)
-      .map((r) => {
-        const created = new Date(r.createdAt).getTime();
-        const updated = new Date(r.updatedAt).getTime();
-        return (updated - created) / (1000 * 60 * 60); // hours
-      })
-      .filter((time) => time > 0);
-
-    if (approvedWithTimes.length > 0) {
-      stats.averageApprovalTimeHours =
-        approvedWithTimes.reduce((a, b) => a + b, 0) / approvedWithTimes.length;
-      stats.fastestApprovalTimeHours = Math.min(...approvedWithTimes);
-      stats.slowestApprovalTimeHours = Math.max(...approvedWithTimes);
-    }
-
-    // Requests by month (if year specified)
-    if (year) {
-      const byMonth: Record<string, number> = {};
-      requests.forEach((req) => {
-        const month = req.createdAt.substring(0, 7); // YYYY-MM
-        byMonth[month] = (byMonth[month] || 0) + 1;
-      });
-      stats.requestsByMonth = Object.entries(byMonth).map(([month, count]) => ({ month, count }));
-    }
-
-    // Top genres (from movie/tv data)
-    const genreCounts: Record<string, number> = {};
-    requests.forEach((req) => {
-      const genres = req.movie?.genres || req.tv?.genres || [];
-      genres.forEach((g) => {
-        genreCounts[g.name] = (genreCounts[g.name] || 0) + 1;
-      });
-    });
-    stats.topGenres = Object.entries(genreCounts)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5)
-      .map(([genre, count]) => ({ genre, count }));
-
-    // Top requests
-    stats.topRequests = requests
-      .slice(0, 10)
-      .map((req) => ({
-        title: req.title || req.movie?.title || req.tv?.name || 'Unknown',
-        type: req.type,
-        status: req.media.status,
-        requestedAt: req.createdAt,
-        tmdbId: req.media.tmdbId,
-        posterPath: req.posterPath,
-      }));
-
-    return stats;
+    return calculateRequestStats(userId, requests, year);
   }
 
   /**
    * Get overall Overseerr stats
    */
   async getStats(): Promise<OverseerrStats> {
-    if (!this.client) throw new Error('Overseerr client not initialized');
+    if (!this.client) throw new Error(`${this.label} client not initialized`);
 
-    const cacheKey = 'overseerr:stats';
+    const cacheKey = `${this.name}:stats`;
     const cached = await this.cache.get<OverseerrStats>(cacheKey);
     if (cached) return cached;
 
@@ -289,9 +292,9 @@ export class OverseerrService {
    */
   async clearCache(userId?: number): Promise<number> {
     if (userId) {
-      return this.cache.delPattern(`overseerr:user:${userId}:*`);
+      return this.cache.delPattern(`${this.name}:user:${userId}:*`);
     }
-    return this.cache.delPattern('overseerr:*');
+    return this.cache.delPattern(`${this.name}:*`);
   }
 
   /**
@@ -301,7 +304,7 @@ export class OverseerrService {
     if (!this.isEnabled()) {
       return {
         healthy: true,
-        message: 'Overseerr integration is disabled',
+        message: `${this.label} integration is disabled`,
       };
     }
 
@@ -309,7 +312,7 @@ export class OverseerrService {
       const status = await this.getStatus();
       return {
         healthy: true,
-        message: `Connected to Overseerr v${status.version}`,
+        message: `Connected to ${this.label} v${status.version}`,
       };
     } catch (error: any) {
       return {
@@ -0,0 +1,334 @@
+import axios, { type AxiosResponse } from 'axios';
+import fixture from './__fixtures__/plex.json';
+import { PlexService } from './plex.service';
+import { createStubServer } from '../__tests__/stub-server';
+import logger from '../utils/logger';
+import type { TautulliHistoryRecord } from '../types/tautulli.types';
+
+jest.mock('../config/redis', () => ({
+  getCacheService: () => ({ get: jest.fn().mockResolvedValue(null), set: jest.fn() }),
+}));
+
+const OWNER_ID = fixture.plexTv.user.id;
+const rowId = (item: { historyKey: string }) => Number(item.historyKey.split('/').pop());
+
+/**
+ * Stands in for Plex Media Server, answering from the recorded responses in the fixture
+ * History honours the viewedAt filters, account, sort order and X-Plex-Container-Start/Size like PMS does
+ */
+function createPlexStub() {
+  const container = (body: object) => ({ MediaContainer: body });
+
+  const answerHistory = (params: URLSearchParams) => {
+    const from = params.get('viewedAt>');
+    const until = params.get('viewedAt<');
+    const accountId = params.get('accountID');
+    const descending = params.get('sort') === 'viewedAt:desc';
+
+    const matching = fixture.history
+      .filter((item) => (!from || item.viewedAt >= Number(from)) && (!until || item.viewedAt <= Number(until)))
+      .filter((item) => !accountId || item.accountID === Number(accountId))
+      .sort((a, b) => (descending ? b.viewedAt - a.viewedAt : a.viewedAt - b.viewedAt));
+
+    const start = Number(params.get('X-Plex-Container-Start') ?? 0);
+    const size = Number(params.get('X-Plex-Container-Size') ?? matching.length);
+    const page = matching.slice(start, start + size);
+    return container({ size: page.length, totalSize: matching.length, offset: start, Metadata: page });
+  };
+
+  return createStubServer({ header: 'X-Plex-Token', value: 'test-token' }, ({ url }) => {
+    const { pathname, searchParams } = url;
+    const metadataKeys = pathname.match(/^\/library\/metadata\/([\d,]+)$/)?.[1];
+    const childrenKey = pathname.match(/^\/library\/metadata\/(\d+)\/children$/)?.[1];
+    const sectionKey = pathname.match(/^\/library\/sections\/(\d+)\/all$/)?.[1];
+
+    if (pathname === '/') {
+      return container(fixture.identity);
+    }
+    if (pathname === '/accounts') {
+      return container({ Account: fixture.accounts });
+    }
+    if (pathname === '/devices') {
+      return container({ Device: fixture.devices });
+    }
+    if (pathname === '/status/sessions/history/all') {
+      return answerHistory(searchParams);
+    }
+    if (metadataKeys) {
+      const keys = metadataKeys.split(',');
+      return container({ Metadata: fixture.metadata.filter((item) => keys.includes(item.ratingKey)) });
+    }
+    if (childrenKey) {
+      return container({ Metadata: fixture.children[childrenKey as keyof typeof fixture.children] ?? [] });
+    }
+    if (pathname === '/library/sections') {
+      return container({ Directory: fixture.sections });
+    }
+    if (sectionKey) {
+      const counts: Record<string, number> = fixture.sectionCounts[sectionKey as keyof typeof fixture.sectionCounts];
+      return container({ size: 0, totalSize: counts[searchParams.get('type') || 'all'] ?? 0 });
+    }
+    return undefined;
+  });
+}
+
+/**
+ * plex.tv is reached through the plain axios instance, PMS through the service's own client
+ */
+function mockPlexTv() {
+  return jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+    const data = url.endsWith('/user') ? fixture.plexTv.user : fixture.plexTv.friends;
+    return { data } as AxiosResponse;
+  });
+}
+
+async function collect(pages: AsyncGenerator<TautulliHistoryRecord[]>): Promise<TautulliHistoryRecord[][]> {
+  const collected: TautulliHistoryRecord[][] = [];
+  for await (const page of pages) collected.push(page);
+  return collected;
+}
+
+describe('PlexService', () => {
+  const stub = createPlexStub();
+  let service: PlexService;
+  let plexTv: jest.SpyInstance;
+
+  const historyRequests = () => stub.requests.filter((url) => url.pathname === '/status/sessions/history/all');
+
+  beforeAll(async () => {
+    process.env.PLEX_URL = await stub.listen();
+    process.env.PLEX_TOKEN = 'test-token';
+  });
+
+  afterAll(async () => {
+    await stub.close();
+    delete process.env.PLEX_URL;
+    delete process.env.PLEX_TOKEN;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stub.requests.length = 0;
+    process.env.PLEX_PAGE_SIZE = '2';
+    plexTv = mockPlexTv();
+    service = new PlexService();
+  });
+
+  afterEach(() => {
+    plexTv.mockRestore();
+    delete process.env.PLEX_PAGE_SIZE;
+  });
+
+  describe('getUsers', () => {
+    it('maps PMS accounts to their plex.tv accounts', async () => {
+      const users = await service.getUsers();
+
+      expect(plexTv).toHaveBeenCalledWith(
+        'https://plex.tv/api/v2/user',
+        expect.objectContaining({ headers: expect.objectContaining({ 'X-Plex-Token': 'test-token' }) })
+      );
+
+      // Account 0 is the server itself
+      expect(users.map((user) => user.user_id)).toEqual([OWNER_ID, 9917402, 5550001]);
+      expect(users[0]).toMatchObject({
+        username: 'alice',
+        friendly_name: 'Alice',
+        email: 'alice@example.com',
+        thumb: 'https://plex.tv/users/a11ce/avatar?c=1',
+        is_admin: 1,
+        is_home_user: 1,
+        is_restricted: 0,
+      });
+      expect(users[1]).toMatchObject({
+        username: 'bobby',
+        friendly_name: 'Bob',
+        email: 'bob@example.com',
+        is_admin: 0,
+        is_restricted: 1,
+      });
+      // Accounts plex.tv doesn't list keep what PMS knows about them
+      expect(users[2]).toMatchObject({
+        username: 'carol',
+        friendly_name: 'carol',
+        email: null,
+        thumb: 'https://plex.tv/users/ca401/avatar',
+        is_home_user: 0,
+      });
+    });
+
+    it('falls back to the PMS accounts when plex.tv is unreachable', async () => {
+      plexTv.mockRejectedValue(new Error('getaddrinfo ENOTFOUND plex.tv'));
+
+      const users = await service.getUsers();
+
+      expect(users.map((user) => [user.user_id, user.username, user.email])).toEqual([
+        [1, 'alice', null],
+        [9917402, 'bob', null],
+        [5550001, 'carol', null],
+      ]);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('ENOTFOUND'));
+    });
+  });
+
+  describe('getHistoryPages', () => {
+    // 2025 in UTC
+    const year = { start: Date.UTC(2025, 0, 1) / 1000, end: Date.UTC(2026, 0, 1) / 1000 - 1 };
+
+    it('pages the history newest first, PLEX_PAGE_SIZE plays at a time', async () => {
+      const pages = await collect(service.getHistoryPages(year));
+
+      const requests = historyRequests();
+      expect(requests.map((url) => url.searchParams.get('X-Plex-Container-Start'))).toEqual(['0', '2', '4']);
+      requests.forEach((url) => {
+        expect(url.searchParams.get('X-Plex-Container-Size')).toBe('2');
+        expect(url.searchParams.get('sort')).toBe('viewedAt:desc');
+        expect(url.searchParams.get('viewedAt>')).toBe(String(year.start));
+        expect(url.searchParams.get('viewedAt<')).toBe(String(year.end));
+      });
+
+      // 104 is a trailer, 101 finished in 2025 but started in 2024
+      expect(pages.map((page) => page.map((record) => record.row_id))).toEqual([[105], [103, 102], []]);
+    });
+
+    it('stops once the reported total has been read', async () => {
+      process.env.PLEX_PAGE_SIZE = '5';
+
+      await collect(service.getHistoryPages(year));
+
+      expect(historyRequests()).toHaveLength(1);
+    });
+
+    it('stops at the last synced play for incremental syncs', async () => {
+      const pages = await collect(service.getHistoryPages({ afterRowId: 104 }));
+
+      expect(historyRequests()).toHaveLength(2);
+      expect(historyRequests()[0].searchParams.has('viewedAt>')).toBe(false);
+      expect(pages.flat().map((record) => record.row_id)).toEqual([106, 105]);
+    });
+
+    it('shapes plays like Tautulli history records', async () => {
+      const records = (await collect(service.getHistoryPages(year))).flat();
+      const byRowId = new Map(records.map((record) => [record.row_id, record]));
+      const episode = fixture.history.find((item) => rowId(item) === 102)!;
+
+      expect(byRowId.get(102)).toMatchObject({
+        date: episode.viewedAt - 3300,
+        started: episode.viewedAt - 3300,
+        stopped: episode.viewedAt,
+        duration: 3300,
+        user: 'bobby',
+        user_id: 9917402,
+        friendly_name: 'Bob',
+        platform: 'Android',
+        player: 'SHIELD',
+        machine_id: 'shield-77c1',
+        media_type: 'episode',
+        rating_key: 601,
+        parent_rating_key: 600,
+        grandparent_rating_key: 599,
+        title: 'The Target',
+        parent_title: 'Season 1',
+        grandparent_title: 'The Wire',
+        media_index: 1,
+        parent_media_index: 1,
+        // Episodes take genres and cast from their show
+        genres: ['Crime', 'Drama'],
+        actors: ['Dominic West'],
+        directors: ['Clark Johnson'],
+        guid: 'plex://episode/5d9c11154eefaa001f5d6b47',
+        percent_complete: 100,
+        watched_status: 1,
+        group_ids: '102',
+        reference_id: 102,
+      });
+
+      // The owner's plays are recorded under account 1
+      expect(byRowId.get(103)).toMatchObject({
+        user: 'alice',
+        user_id: OWNER_ID,
+        media_type: 'track',
+        duration: 330,
+        parent_rating_key: 699,
+        grandparent_rating_key: 698,
+        grandparent_title: 'Massive Attack',
+        genres: ['Trip Hop'],
+        platform: 'Roku',
+      });
+
+      // Plays without a device keep empty player fields
+      expect(byRowId.get(105)).toMatchObject({
+        user: 'carol',
+        user_id: 5550001,
+        media_type: 'movie',
+        duration: 10200,
+        year: 1995,
+        genres: ['Action', 'Crime'],
+        actors: ['Al Pacino', 'Robert De Niro'],
+        platform: '',
+        player: '',
+      });
+    });
+
+    it('fetches the metadata of a page in one request', async () => {
+      await collect(service.getHistoryPages(year));
+
+      const metadataRequests = stub.requests.filter((url) => url.pathname.startsWith('/library/metadata/'));
+      expect(metadataRequests.map((url) => url.pathname)).toEqual([
+        '/library/metadata/500',
+        '/library/metadata/700,601,698,599',
+        '/library/metadata/500',
+      ]);
+    });
+  });
+
+  describe('getFirstPlayDate', () => {
+    it('asks PMS for the owner under account 1', async () => {
+      expect(await service.getFirstPlayDate(OWNER_ID)).toBe(1734724800);
+
+      const [request] = historyRequests();
+      expect(request.searchParams.get('accountID')).toBe('1');
+      expect(request.searchParams.get('sort')).toBe('viewedAt:asc');
+      expect(request.searchParams.get('X-Plex-Container-Size')).toBe('1');
+    });
+
+    it('gives null for users without plays', async () => {
+      expect(await service.getFirstPlayDate(424242)).toBeNull();
+    });
+  });
+
+  describe('getChildrenMetadata', () => {
+    it('lists the seasons of a show, specials as season 0', async () => {
+      const seasons = await service.getChildrenMetadata(599);
+
+      expect(seasons).toEqual([
+        {
+          media_type: 'season',
+          rating_key: 598,
+          parent_rating_key: 599,
+          title: 'Specials',
+          media_index: 0,
+          thumb: '/library/metadata/598/thumb/1700000000',
+        },
+        expect.objectContaining({ rating_key: 600, title: 'Season 1', media_index: 1 }),
+      ]);
+    });
+  });
+
+  describe('getLibraries', () => {
+    it('counts the items of every section, and episodes and tracks as children', async () => {
+      const libraries = await service.getLibraries();
+
+      expect(libraries.map((library) => [library.section_name, library.section_type, library.count, library.child_count])).toEqual([
+        ['Movies', 'movie', 212, 0],
+        ['TV Shows', 'show', 34, 1587],
+        ['Music', 'artist', 96, 4310],
+      ]);
+      expect(libraries[0]).toMatchObject({ section_id: 1, agent: 'tv.plex.agents.movie', thumb: '/:/resources/movie.png', art: '' });
+
+      // Counts only ask for the total, never the items themselves
+      const countRequests = stub.requests.filter((url) => /\/all$/.test(url.pathname));
+      expect(countRequests).toHaveLength(5);
+      countRequests.forEach((url) => expect(url.searchParams.get('X-Plex-Container-Size')).toBe('0'));
+    });
+  });
+});
@@ -0,0 +1,544 @@
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import logger from '../utils/logger';
+import { getCacheService } from '../config/redis';
+import type {
+  TautulliChildMetadata,
+  TautulliHistoryRecord,
+  TautulliLibrary,
+  TautulliMetadata,
+  TautulliUser,
+} from '../types/tautulli.types';
+import type { HistoryProvider, HistoryRange, ProviderImage } from '../types/history-provider.types';
+import type {
+  PlexAccount,
+  PlexDevice,
+  PlexHistoryItem,
+  PlexLibrarySection,
+  PlexMediaContainer,
+  PlexMetadataItem,
+  PlexServerIdentity,
+  PlexTvAccount,
+} from '../types/plex.types';
+
+const PLEX_TV_URL = 'https://plex.tv/api/v2';
+const METADATA_BATCH_SIZE = 50;
+// PMS keeps the server owner as account 1, plex.tv and Tautulli know them by their real account id
+const OWNER_ACCOUNT_ID = 1;
+
+const HISTORY_MEDIA_TYPES: Record<string, TautulliHistoryRecord['media_type']> = {
+  movie: 'movie',
+  episode: 'episode',
+  track: 'track',
+  photo: 'photo',
+};
+
+// Section type to the item type counted as its children (episodes of a show library, tracks of a music one)
+const CHILD_TYPES: Record<string, number> = {
+  show: 4,
+  artist: 10,
+};
+
+const tags = (list: { tag: string }[] | undefined): string[] => (list || []).map((t) => t.tag);
+
+/**
+ * History straight from Plex Media Server, for servers without Tautulli
+ * PMS only records finished plays (scrobbles), so each play counts as the item's full duration
+ */
+export class PlexService implements HistoryProvider {
+  readonly name = 'plex';
+  private client: AxiosInstance;
+  private baseUrl: string;
+  private token: string;
+  private cache: ReturnType<typeof getCacheService>;
+  private cacheTTL: number;
+  private ownerId: number | null = null;
+  private ownerLookedUp = false;
+
+  constructor() {
+    this.baseUrl = (process.env.PLEX_URL || '').replace(/\/$/, '');
+    this.token = process.env.PLEX_TOKEN || '';
+    this.cacheTTL = parseInt(process.env.PLEX_CACHE_TTL || '3600', 10);
+
+    if (!this.baseUrl || !this.token) {
+      throw new Error('Plex URL and token are required');
+    }
+
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      timeout: parseInt(process.env.PLEX_TIMEOUT || '30000', 10),
+      headers: {
+        Accept: 'application/json',
+        'X-Plex-Token': this.token,
+      },
+    });
+
+    this.cache = getCacheService();
+
+    // Add request/response interceptors for logging
+    this.client.interceptors.request.use((config) => {
+      logger.logServiceCall('Plex', config.method?.toUpperCase() || 'GET', config.url || '');
+      return config;
+    });
+
+    this.client.interceptors.response.use(
+      (response) => response,
+      (error: AxiosError) => {
+        logger.logServiceError('Plex', 'API call', error);
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Make a GET request to PMS, optionally cached
+   */
+  private async get<T>(
+    path: string,
+    params: Record<string, any> = {},
+    useCache = false
+  ): Promise<PlexMediaContainer<T>['MediaContainer']> {
+    const cacheKey = `plex:${path}:${JSON.stringify(params)}`;
+
+    if (useCache) {
+      const cached = await this.cache.get<PlexMediaContainer<T>['MediaContainer']>(cacheKey);
+      if (cached) {
+        logger.debug(`Cache hit for Plex path: ${path}`);
+        return cached;
+      }
+    }
+
+    try {
+      const response = await this.client.get<PlexMediaContainer<T>>(path, { params });
+      const data = response.data.MediaContainer;
+
+      if (useCache) {
+        await this.cache.set(cacheKey, data, this.cacheTTL);
+      }
+
+      return data;
+    } catch (error: any) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Plex API error: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The token owner's plex.tv account and friends, for emails, avatars and the owner's real id
+   * Best effort, PMS alone still gives usable users when plex.tv can't be reached
+   */
+  private async getPlexTvAccounts(): Promise<Map<number, PlexTvAccount>> {
+    const accounts = new Map<number, PlexTvAccount>();
+    const headers = { Accept: 'application/json', 'X-Plex-Token': this.token };
+    this.ownerLookedUp = true;
+
+    try {
+      const [owner, friends] = await Promise.all([
+        axios.get<PlexTvAccount>(`${PLEX_TV_URL}/user`, { headers, timeout: 10000 }),
+        axios.get<PlexTvAccount[]>(`${PLEX_TV_URL}/friends`, { headers, timeout: 10000 }),
+      ]);
+
+      this.ownerId = owner.data.id;
+      accounts.set(OWNER_ACCOUNT_ID, owner.data);
+      friends.data.forEach((friend) => accounts.set(friend.id, friend));
+    } catch (error: any) {
+      logger.warn(`Could not load plex.tv accounts, users will have no emails: ${error.message}`);
+    }
+
+    return accounts;
+  }
+
+  private toUserId(accountId: number): number {
+    return accountId === OWNER_ACCOUNT_ID && this.ownerId ? this.ownerId : accountId;
+  }
+
+  private toAccountId(userId: number): number {
+    return userId === this.ownerId ? OWNER_ACCOUNT_ID : userId;
+  }
+
+  /**
+   * Fetch metadata for several items in one request
+   */
+  private async getMetadataItems(ratingKeys: string[]): Promise<Map<string, PlexMetadataItem>> {
+    const items = new Map<string, PlexMetadataItem>();
+    const keys = [...new Set(ratingKeys.filter(Boolean))];
+
+    for (let i = 0; i < keys.length; i += METADATA_BATCH_SIZE) {
+      const batch = keys.slice(i, i + METADATA_BATCH_SIZE);
+      const result = await this.get<{ Metadata?: PlexMetadataItem[] }>(
+        `/library/metadata/${batch.join(',')}`,
+        { includeGuids: 1 },
+        true
+      );
+      (result.Metadata || []).forEach((item) => items.set(String(item.ratingKey), item));
+    }
+
+    return items;
+  }
+
+  /**
+   * Test connection to Plex
+   */
+  async testConnection(): Promise<boolean> {
+    const health = await this.healthCheck();
+    if (health.healthy) {
+      logger.info('Plex connection test successful');
+    } else {
+      logger.error('Plex connection test failed:', health.message);
+    }
+    return health.healthy;
+  }
+
+  /**
+   * Name the Plex server was set up with
+   */
+  async getServerName(): Promise<string> {
+    const identity = await this.get<PlexServerIdentity>('/');
+    return identity.friendlyName;
+  }
+
+  /**
+   * Get every account that has access to the server
+   */
+  async getUsers(): Promise<TautulliUser[]> {
+    const [result, plexTv] = await Promise.all([
+      this.get<{ Account?: PlexAccount[] }>('/accounts'),
+      this.getPlexTvAccounts(),
+    ]);
+
+    // Account 0 is the server itself
+    return (result.Account || [])
+      .filter((account) => account.id > 0 && account.name)
+      .map((account) => {
+        const plexTvAccount = plexTv.get(account.id);
+        return {
+          user_id: this.toUserId(account.id),
+          username: plexTvAccount?.username || account.name,
+          friendly_name: plexTvAccount?.title || account.name,
+          email: plexTvAccount?.email || null,
+          thumb: plexTvAccount?.thumb || account.thumb || '',
+          is_admin: account.id === OWNER_ACCOUNT_ID ? 1 : 0,
+          is_home_user: plexTvAccount?.home ? 1 : 0,
+          is_allow_sync: 0,
+          is_restricted: plexTvAccount?.restricted ? 1 : 0,
+          do_notify: 0,
+          keep_history: 1,
+          deleted_user: 0,
+          allow_guest: 0,
+          user_thumb: '',
+          filter_all: '',
+          filter_movies: '',
+          filter_tv: '',
+          filter_music: '',
+          filter_photos: '',
+        };
+      });
+  }
+
+  /**
+   * Page /status/sessions/history/all newest first, keeping the records in the range
+   * Same stopping rules as Tautulli: older than the start, or a page with nothing after afterRowId
+   */
+  async *getHistoryPages(range: HistoryRange): AsyncGenerator<TautulliHistoryRecord[]> {
+    const pageSize = parseInt(process.env.PLEX_PAGE_SIZE || '500', 10);
+    const afterRowId = range.afterRowId ?? null;
+    // The owner's real id is needed to map account 1, and device names aren't in the history
+    const users = new Map((await this.getUsers()).map((user) => [user.user_id, user]));
+    const devices = new Map(
+      ((await this.get<{ Device?: PlexDevice[] }>('/devices')).Device || []).map((device) => [device.id, device])
+    );
+
+    // PMS filters are part of the path, as "viewedAt>=" doesn't survive query string encoding
+    const filters = [
+      range.start !== undefined ? `viewedAt>=${range.start}` : null,
+      range.end !== undefined ? `viewedAt<=${range.end}` : null,
+    ].filter(Boolean);
+    const path = `/status/sessions/history/all?sort=viewedAt:desc${filters.map((f) => `&${f}`).join('')}`;
+
+    let start = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const result = await this.get<{ Metadata?: PlexHistoryItem[] }>(path, {
+        'X-Plex-Container-Start': start,
+        'X-Plex-Container-Size': pageSize,
+      });
+      const page = result.Metadata || [];
+      start += pageSize;
+
+      const rowId = (item: PlexHistoryItem) => parseInt(item.historyKey.split('/').pop() || '0', 10);
+      const items = page.filter((item) => HISTORY_MEDIA_TYPES[item.type] && (afterRowId === null || rowId(item) > afterRowId));
+
+      // Episodes take genres and cast from their show, tracks from their artist
+      const metadata = await this.getMetadataItems([
+        ...items.map((item) => item.ratingKey),
+        ...items.map((item) => item.grandparentRatingKey || item.grandparentKey?.split('/').pop() || ''),
+      ]);
+
+      // Plays are filtered by when they finished, keep the ones that started in the range
+      yield items
+        .map((item) => this.toRecord(item, rowId(item), metadata, users, devices))
+        .filter((record) => range.start === undefined || record.date >= range.start);
+
+      const reachedStored = afterRowId !== null && !page.some((item) => rowId(item) > afterRowId);
+      hasMore = !reachedStored && page.length === pageSize && start < (result.totalSize ?? Infinity);
+    }
+  }
+
+  /**
+   * Shape a PMS history entry and its metadata like a Tautulli history record
+   */
+  private toRecord(
+    item: PlexHistoryItem,
+    rowId: number,
+    metadata: Map<string, PlexMetadataItem>,
+    users: Map<number, TautulliUser>,
+    devices: Map<number, PlexDevice>
+  ): TautulliHistoryRecord {
+    const grandparentKey = item.grandparentRatingKey || item.grandparentKey?.split('/').pop() || '';
+    const parentKey = item.parentRatingKey || item.parentKey?.split('/').pop() || '';
+    const details = metadata.get(item.ratingKey);
+    const grandparent = metadata.get(grandparentKey);
+    const duration = Math.round((details?.duration || 0) / 1000);
+    const device = item.deviceID !== undefined ? devices.get(item.deviceID) : undefined;
+    const userId = this.toUserId(item.accountID);
+    const user = users.get(userId);
+
+    const genres = tags(details?.Genre).length > 0 ? tags(details?.Genre) : tags(grandparent?.Genre);
+    const actors = tags(details?.Role).length > 0 ? tags(details?.Role) : tags(grandparent?.Role);
+
+    return {
+      date: item.viewedAt - duration,
+      started: item.viewedAt - duration,
+      stopped: item.viewedAt,
+      duration,
+      paused_counter: 0,
+      user: user?.username || '',
+      user_id: userId,
+      friendly_name: user?.friendly_name || '',
+      platform: device?.platform || '',
+      product: device?.platform || '',
+      player: device?.name || '',
+      ip_address: '',
+      live: 0,
+      machine_id: device?.clientIdentifier || '',
+      location: '',
+      secure: 0,
+      relayed: 0,
+      media_type: HISTORY_MEDIA_TYPES[item.type],
+      rating_key: parseInt(item.ratingKey, 10),
+      parent_rating_key: parseInt(parentKey, 10) || 0,
+      grandparent_rating_key: parseInt(grandparentKey, 10) || 0,
+      title: item.title,
+      parent_title: item.parentTitle || details?.parentTitle || '',
+      grandparent_title: item.grandparentTitle || details?.grandparentTitle || '',
+      original_title: details?.originalTitle || '',
+      year: details?.year || 0,
+      media_index: item.index || 0,
+      parent_media_index: item.parentIndex || 0,
+      thumb: item.thumb || details?.thumb || '',
+      parent_thumb: item.parentThumb || '',
+      grandparent_thumb: item.grandparentThumb || '',
+      art: details?.art || '',
+      // PMS history doesn't keep stream decisions
+      video_decision: '',
+      audio_decision: '',
+      transcode_decision: '',
+      quality_profile: '',
+      stream_video_resolution: '',
+      stream_container: '',
+      stream_video_codec: '',
+      stream_audio_codec: '',
+      stream_bitrate: 0,
+      genres,
+      labels: tags(details?.Label),
+      directors: tags(details?.Director),
+      writers: tags(details?.Writer),
+      actors,
+      guid: details?.guid || '',
+      summary: details?.summary || '',
+      tagline: details?.tagline || '',
+      rating: details?.rating || 0,
+      content_rating: details?.contentRating || '',
+      percent_complete: 100,
+      watched_status: 1,
+      group_count: 1,
+      group_ids: String(rowId),
+      state: null,
+      session_key: null,
+      reference_id: rowId,
+      row_id: rowId,
+    };
+  }
+
+  /**
+   * Unix timestamp of a user's first ever play
+   */
+  async getFirstPlayDate(userId: number): Promise<number | null> {
+    if (!this.ownerLookedUp) {
+      await this.getPlexTvAccounts();
+    }
+
+    const result = await this.get<{ Metadata?: PlexHistoryItem[] }>('/status/sessions/history/all', {
+      sort: 'viewedAt:asc',
+      accountID: this.toAccountId(userId),
+      'X-Plex-Container-Start': 0,
+      'X-Plex-Container-Size': 1,
+    });
+    return result.Metadata?.[0]?.viewedAt ?? null;
+  }
+
+  /**
+   * Get metadata for an item
+   */
+  async getMetadata(ratingKey: number): Promise<TautulliMetadata> {
+    const item = (await this.getMetadataItems([String(ratingKey)])).get(String(ratingKey));
+    if (!item) {
+      throw new Error(`Plex item ${ratingKey} not found`);
+    }
+
+    return {
+      media_type: item.type as TautulliMetadata['media_type'],
+      section_id: Number(item.librarySectionID) || 0,
+      library_name: item.librarySectionTitle || '',
+      rating_key: parseInt(item.ratingKey, 10),
+      parent_rating_key: parseInt(item.parentRatingKey || '', 10) || 0,
+      grandparent_rating_key: parseInt(item.grandparentRatingKey || '', 10) || 0,
+      title: item.title,
+      sort_title: item.titleSort || item.title,
+      original_title: item.originalTitle || '',
+      year: item.year || 0,
+      added_at: item.addedAt || 0,
+      updated_at: item.updatedAt || 0,
+      last_viewed_at: item.lastViewedAt || 0,
+      guid: item.guid,
+      studio: item.studio || '',
+      content_rating: item.contentRating || '',
+      summary: item.summary || '',
+      tagline: item.tagline || '',
+      rating: item.rating || 0,
+      audience_rating: item.audienceRating || 0,
+      user_rating: item.userRating || 0,
+      duration: item.duration || 0,
+      thumb: item.thumb || '',
+      art: item.art || '',
+      banner: item.banner || '',
+      directors: tags(item.Director),
+      writers: tags(item.Writer),
+      actors: tags(item.Role),
+      genres: tags(item.Genre),
+      labels: tags(item.Label),
+      collections: tags(item.Collection),
+      media_index: item.index || 0,
+      parent_media_index: item.parentIndex || 0,
+      play_count: item.viewCount || 0,
+      children_count: item.childCount || item.leafCount || 0,
+      guids: (item.Guid || []).map((guid) => guid.id),
+    };
+  }
+
+  /**
+   * Get the children of an item, e.g. the seasons of a show
+   */
+  async getChildrenMetadata(ratingKey: number): Promise<TautulliChildMetadata[]> {
+    const result = await this.get<{ Metadata?: PlexMetadataItem[] }>(`/library/metadata/${ratingKey}/children`, {}, true);
+
+    return (result.Metadata || []).map((item) => ({
+      media_type: item.type as TautulliMetadata['media_type'],
+      rating_key: parseInt(item.ratingKey, 10),
+      parent_rating_key: ratingKey,
+      title: item.title,
+      media_index: item.index || 0,
+      thumb: item.thumb || '',
+    }));
+  }
+
+  /**
+   * Get all libraries with their item counts
+   */
+  async getLibraries(): Promise<TautulliLibrary[]> {
+    const result = await this.get<{ Directory?: PlexLibrarySection[] }>('/library/sections', {}, true);
+
+    // A container size of 0 returns only the totalSize
+    const countItems = async (sectionKey: string, type?: number) =>
+      (
+        await this.get<object>(
+          `/library/sections/${sectionKey}/all`,
+          { ...(type ? { type } : {}), 'X-Plex-Container-Start': 0, 'X-Plex-Container-Size': 0 },
+          true
+        )
+      ).totalSize || 0;
+
+    return Promise.all(
+      (result.Directory || []).map(async (section) => ({
+        section_id: parseInt(section.key, 10),
+        section_name: section.title,
+        section_type: section.type,
+        agent: section.agent,
+        thumb: section.thumb || '',
+        art: section.art || '',
+        count: await countItems(section.key),
+        is_active: 1,
+        parent_count: 0,
+        child_count: CHILD_TYPES[section.type] ? await countItems(section.key, CHILD_TYPES[section.type]) : 0,
+      }))
+    );
+  }
+
+  handlesImage(path: string): boolean {
+    return /\/library\/metadata\/\d+\//.test(path);
+  }
+
+  /**
+   * Artwork through PMS's photo transcoder
+   * Paths look like /library/metadata/{rating_key}/thumb/{timestamp}
+   */
+  async getImage(path: string, width: number, height: number): Promise<ProviderImage> {
+    if (!this.handlesImage(path)) {
+      throw new Error('Invalid image path format');
+    }
+
+    const response = await this.client.get<ArrayBuffer>('/photo/:/transcode', {
+      params: { url: path, width, height, minSize: 1, upscale: 1 },
+      headers: { Accept: 'image/*' },
+      responseType: 'arraybuffer',
+      timeout: 10000,
+    });
+
+    return {
+      data: Buffer.from(response.data),
+      contentType: String(response.headers['content-type'] || 'image/jpeg'),
+    };
+  }
+
+  /**
+   * Health check
+   */
+  async healthCheck(): Promise<{ healthy: boolean; message?: string }> {
+    try {
+      const identity = await this.get<PlexServerIdentity>('/');
+      return {
+        healthy: true,
+        message: `Connected to ${identity.friendlyName} v${identity.version}`,
+      };
+    } catch (error: any) {
+      return {
+        healthy: false,
+        message: error.message,
+      };
+    }
+  }
+}
+
+// Singleton instance
+let plexServiceInstance: PlexService | null = null;
+
+export function getPlexService(): PlexService {
+  if (!plexServiceInstance) {
+    plexServiceInstance = new PlexService();
+  }
+  return plexServiceInstance;
+}
+
+export default getPlexService;
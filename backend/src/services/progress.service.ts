@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+
+export type ProgressSource = 'generation' | 'email';
+export type ProgressEventType = 'started' | 'succeeded' | 'failed' | 'completed';
+
+export interface ProgressCounts {
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface ProgressUpdate extends ProgressCounts {
+  type: ProgressEventType;
+  source: ProgressSource;
+  // Generation id, emails are sent per generation too
+  runId: number;
+  userId?: number;
+  username?: string;
+  error?: string;
+  // A failed attempt that will be tried again
+  retrying?: boolean;
+  // Final status of the run on 'completed'
+  status?: string;
+}
+
+export interface ProgressEvent extends ProgressUpdate {
+  etaSeconds: number | null;
+  timestamp: string;
+}
+
+interface RunState {
+  startedAt: number;
+  // Processed count when this process first saw the run, so resumed runs get a fair rate
+  processedAtStart: number;
+}
+
+const runKey = (source: ProgressSource, runId: number) => `${source}:${runId}`;
+
+/**
+ * In-process broadcaster for per-user generation and email progress
+ * Listeners (the admin SSE stream) subscribe to 'progress' events
+ */
+export class ProgressService extends EventEmitter {
+  private runs = new Map<string, RunState>();
+  private latestEvents = new Map<string, ProgressEvent>();
+
+  constructor() {
+    super();
+    // One listener per open admin tab
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Broadcast an update, adding the ETA for the rest of the run
+   */
+  publish(update: ProgressUpdate): ProgressEvent {
+    const key = runKey(update.source, update.runId);
+    let run = this.runs.get(key);
+    if (!run) {
+      run = { startedAt: Date.now(), processedAtStart: update.processed };
+      this.runs.set(key, run);
+    }
+
+    const event: ProgressEvent = {
+      ...update,
+      etaSeconds: update.type === 'completed' ? 0 : this.estimateRemaining(run, update),
+      timestamp: new Date().toISOString(),
+    };
+
+    if (update.type === 'completed') {
+      this.runs.delete(key);
+      this.latestEvents.delete(key);
+    } else {
+      this.latestEvents.set(key, event);
+    }
+
+    this.emit('progress', event);
+    return event;
+  }
+
+  /**
+   * Latest event of every run still in progress, sent to streams when they connect
+   */
+  getActiveRuns(): ProgressEvent[] {
+    return Array.from(this.latestEvents.values());
+  }
+
+  private estimateRemaining(run: RunState, counts: ProgressCounts): number | null {
+    const done = counts.processed - run.processedAtStart;
+    if (done <= 0) return null;
+
+    const secondsPerUser = (Date.now() - run.startedAt) / 1000 / done;
+    return Math.round(secondsPerUser * Math.max(0, counts.total - counts.processed));
+  }
+}
+
+// Singleton instance
+let progressService: ProgressService | null = null;
+
+export function getProgressService(): ProgressService {
+  if (!progressService) {
+    progressService = new ProgressService();
+  }
+  return progressService;
+}
+
+export default getProgressService;
@@ -0,0 +1,30 @@
+import { getOverseerrService } from './overseerr.service';
+import { getJellyseerrService } from './jellyseerr.service';
+import { getOmbiService } from './ombi.service';
+import type { RequestProvider } from '../types/request-provider.types';
+
+const PROVIDER_FACTORIES: Record<string, () => RequestProvider> = {
+  overseerr: getOverseerrService,
+  jellyseerr: getJellyseerrService,
+  ombi: getOmbiService,
+};
+
+/**
+ * Name of the request provider picked in REQUEST_PROVIDER
+ */
+export function getRequestProviderName(): string {
+  const name = (process.env.REQUEST_PROVIDER || 'overseerr').trim().toLowerCase();
+  if (!PROVIDER_FACTORIES[name]) {
+    throw new Error(`Unknown request provider: ${name}`);
+  }
+  return name;
+}
+
+/**
+ * The active request provider, check isEnabled() before using it
+ */
+export function getRequestProvider(): RequestProvider {
+  return PROVIDER_FACTORIES[getRequestProviderName()]();
+}
+
+export default getRequestProvider;
@@ -0,0 +1,36 @@
+import { TautulliService } from './tautulli.service';
+
+const cache = { get: jest.fn(), set: jest.fn(), delPattern: jest.fn() };
+
+jest.mock('../config/redis', () => ({ getCacheService: () => cache }));
+
+describe('TautulliService.clearCache', () => {
+  const defaultServer = () => new TautulliService();
+  const mediaServer = () => new TautulliService({ name: 'tautulli:3', url: 'http://tautulli-3:8181/', apiKey: 'key-3' });
+
+  beforeAll(() => {
+    process.env.TAUTULLI_URL = 'http://tautulli:8181';
+    process.env.TAUTULLI_API_KEY = 'key';
+  });
+
+  afterAll(() => {
+    delete process.env.TAUTULLI_URL;
+    delete process.env.TAUTULLI_API_KEY;
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('keeps the default server clear of the media servers caches', async () => {
+    await defaultServer().clearCache();
+
+    // Media servers cache under tautulli:{id}:
+    expect(cache.delPattern).toHaveBeenCalledWith('tautulli:default:*');
+  });
+
+  it('clears a media server under its source name', async () => {
+    await mediaServer().clearCache();
+    await mediaServer().clearCache('get_libraries');
+
+    expect(cache.delPattern.mock.calls).toEqual([['tautulli:3:*'], ['tautulli:3:get_libraries:*']]);
+  });
+});
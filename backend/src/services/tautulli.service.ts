@@ -7,22 +7,50 @@ import type {
   TautulliUsersTable,
   TautulliHistory,
   TautulliHistoryQuery,
+  TautulliHistoryRecord,
   TautulliUserWatchTimeStats,
   TautulliMetadata,
+  TautulliChildMetadata,
+  TautulliChildrenMetadata,
+  TautulliLibrary,
   TautulliServerInfo,
   TautulliActivity,
 } from '../types/tautulli.types';
+import type { HistoryProvider, HistoryRange, ProviderImage } from '../types/history-provider.types';
+
+// Artwork from media_servers rows is served as /servers/{id}/library/metadata/...
+export const MEDIA_SERVER_IMAGE_PREFIX = '/servers/';
+
+/**
+ * A Tautulli server other than the one in the environment, e.g. a row of media_servers
+ */
+export interface TautulliServerConfig {
+  name: string; // Provider and watch_history source name
+  url: string;
+  apiKey: string;
+  label?: string; // Shown instead of the Plex server's name
+  imagePrefix?: string; // Prepended to artwork paths so they can be routed back to this server
+}
 
-export class TautulliService {
+export class TautulliService implements HistoryProvider {
+  readonly name: string;
   private client: AxiosInstance;
   private apiKey: string;
   private baseUrl: string;
+  private label: string | null;
+  private imagePrefix: string;
   private cache: ReturnType<typeof getCacheService>;
   private cacheTTL: number;
-
-  constructor() {
-    this.baseUrl = process.env.TAUTULLI_URL || '';
-    this.apiKey = process.env.TAUTULLI_API_KEY || '';
+  // Media servers cache under their source name, the default server under its own prefix so clearing it leaves theirs alone
+  private cachePrefix: string;
+
+  constructor(config?: TautulliServerConfig) {
+    this.name = config?.name || 'tautulli';
+    this.cachePrefix = config ? config.name : 'tautulli:default';
+    this.baseUrl = config ? config.url.replace(/\/+$/, '') : process.env.TAUTULLI_URL || '';
+    this.apiKey = config ? config.apiKey : process.env.TAUTULLI_API_KEY || '';
+    this.label = config?.label || null;
+    this.imagePrefix = config?.imagePrefix || '';
     this.cacheTTL = parseInt(process.env.TAUTULLI_CACHE_TTL || '3600', 10);
 
     if (!this.baseUrl || !this.apiKey) {
@@ -62,7 +90,7 @@ export class TautulliService {
     params: Record<string, any> = {},
     useCache = true
   ): Promise<T> {
-    const cacheKey = `tautulli:${cmd}:${JSON.stringify(params)}`;
+    const cacheKey = `${this.cachePrefix}:${cmd}:${JSON.stringify(params)}`;
 
     // Try cache first
     if (useCache) {
@@ -122,6 +150,15 @@ export class TautulliService {
     return this.call<TautulliServerInfo>('get_server_info');
   }
 
+  /**
+   * Name shown for this server, the Plex server's own name unless a label was configured
+   */
+  async getServerName(): Promise<string> {
+    if (this.label) return this.label;
+    const serverInfo = await this.getServerInfo();
+    return serverInfo.pms_name;
+  }
+
   /**
    * Get all users
    */
@@ -156,6 +193,108 @@ export class TautulliService {
     });
   }
 
+  /**
+   * Get a page of history across all users
+   * Not cached: pages shift as new plays come in, and they are only read once per generation
+   */
+  async getHistory(query: Partial<TautulliHistoryQuery> = {}): Promise<TautulliHistory> {
+    return this.call<TautulliHistory>('get_history', {
+      length: query.length || parseInt(process.env.TAUTULLI_PAGE_SIZE || '1000', 10),
+      start: query.start || 0,
+      order_column: query.order_column || 'date',
+      order_dir: query.order_dir || 'desc',
+      ...query,
+    }, false);
+  }
+
+  /**
+   * Page the global history newest first, keeping the records in the range
+   * Stops once records are older than the start, or once a page has nothing after afterRowId.
+   * Row ids follow when plays were recorded rather than started, hence the whole page check
+   */
+  async *getHistoryPages(range: HistoryRange): AsyncGenerator<TautulliHistoryRecord[]> {
+    const pageSize = parseInt(process.env.TAUTULLI_PAGE_SIZE || '1000', 10);
+    const afterRowId = range.afterRowId ?? null;
+    let start = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const result = await this.getHistory({ start, length: pageSize });
+      start += pageSize;
+
+      yield result.data
+        .filter((record) => {
+          const date = Number(record.date);
+          if (afterRowId !== null && Number(record.row_id) <= afterRowId) return false;
+          if (range.start !== undefined && date < range.start) return false;
+          return range.end === undefined || date <= range.end;
+        })
+        .map((record) => this.prefixImages(record));
+
+      const oldest = result.data[result.data.length - 1];
+      const reachedStart = oldest !== undefined && range.start !== undefined && Number(oldest.date) < range.start;
+      const reachedStored = afterRowId !== null && !result.data.some((record) => Number(record.row_id) > afterRowId);
+      hasMore = !reachedStart && !reachedStored && result.data.length === pageSize && start < result.recordsFiltered;
+    }
+  }
+
+  /**
+   * Unix timestamp of a user's first ever play
+   */
+  async getFirstPlayDate(userId: number): Promise<number | null> {
+    const history = await this.getUserHistory(userId, {
+      order_column: 'date',
+      order_dir: 'asc',
+      length: 1,
+    });
+    return history.data[0] ? parseInt(String(history.data[0].date), 10) : null;
+  }
+
+  /**
+   * Prefix a record's artwork paths so the image route can tell which server they came from
+   */
+  prefixImages(record: TautulliHistoryRecord): TautulliHistoryRecord {
+    if (!this.imagePrefix) return record;
+    const prefix = (path: string) => (path ? `${this.imagePrefix}${path}` : path);
+    return {
+      ...record,
+      thumb: prefix(record.thumb),
+      parent_thumb: prefix(record.parent_thumb),
+      grandparent_thumb: prefix(record.grandparent_thumb),
+    };
+  }
+
+  handlesImage(path: string): boolean {
+    if (this.imagePrefix) {
+      return path.startsWith(`${this.imagePrefix}/`) && /\/library\/metadata\/\d+\//.test(path);
+    }
+    return !path.startsWith(MEDIA_SERVER_IMAGE_PREFIX) && /\/library\/metadata\/\d+\//.test(path);
+  }
+
+  /**
+   * Artwork through Tautulli's image proxy
+   * Paths look like /library/metadata/{rating_key}/thumb/{timestamp}
+   */
+  async getImage(path: string, width: number, height: number): Promise<ProviderImage> {
+    const match = path.match(/\/library\/metadata\/(\d+)\//);
+    if (!match) {
+      throw new Error('Invalid image path format');
+    }
+
+    logger.debug(`Fetching image for rating_key ${match[1]} from Tautulli`);
+
+    const response = await this.client.get<ArrayBuffer>('', {
+      params: { cmd: 'pms_image_proxy', rating_key: match[1], width, height },
+      responseType: 'arraybuffer',
+      timeout: 10000,
+    });
+
+    return {
+      data: Buffer.from(response.data),
+      contentType: String(response.headers['content-type'] || 'image/jpeg'),
+    };
+  }
+
   /**
    * Get history for a specific date range
    */
@@ -191,6 +330,16 @@ export class TautulliService {
     });
   }
 
+  /**
+   * Get the children of an item, e.g. the seasons of a show
+   */
+  async getChildrenMetadata(ratingKey: number): Promise<TautulliChildMetadata[]> {
+    const result = await this.call<TautulliChildrenMetadata>('get_children_metadata', {
+      rating_key: ratingKey,
+    });
+    return result?.children_list || [];
+  }
+
   /**
    * Get metadata for multiple items
    */
@@ -209,8 +358,8 @@ export class TautulliService {
   /**
    * Get library stats
    */
-  async getLibraries(): Promise<any[]> {
-    return this.call<any[]>('get_libraries');
+  async getLibraries(): Promise<TautulliLibrary[]> {
+    return this.call<TautulliLibrary[]>('get_libraries');
   }
 
   /**
@@ -224,55 +373,14 @@ export class TautulliService {
     });
   }
 
-  /**
-   * Get all history for a year (paginated)
-   * Note: Tautulli's date filtering doesn't work properly, so we fetch all data and filter in code
-   */
-  async getAllHistoryForYear(userId: number, year: number): Promise<TautulliHistory['data']> {
-    // Calculate year boundaries as timestamps
-    const startTimestamp = Math.floor(new Date(`${year}-01-01T00:00:00Z`).getTime() / 1000);
-    const endTimestamp = Math.floor(new Date(`${year}-12-31T23:59:59Z`).getTime() / 1000);
-    const pageSize = 1000;
-    let allData: TautulliHistory['data'] = [];
-    let start = 0;
-    let hasMore = true;
-
-    logger.info(`Fetching all history for user ${userId} for year ${year} (timestamps ${startTimestamp}-${endTimestamp})`);
-
-    while (hasMore) {
-      // Fetch without date filtering since Tautulli's API date filtering is broken
-      const result = await this.getUserHistory(userId, {
-        start,
-        length: pageSize,
-      });
-
-      // Filter results by year in code
-      const yearData = result.data.filter((record: any) => {
-        const recordTimestamp = parseInt(record.date);
-        return recordTimestamp >= startTimestamp && recordTimestamp <= endTimestamp;
-      });
-
-      allData = allData.concat(yearData);
-      start += pageSize;
-
-      // Check if we got all records for this user
-      hasMore = result.data.length === pageSize && start < result.recordsFiltered;
-
-      logger.debug(`Fetched page with ${result.data.length} records, ${yearData.length} match year ${year}, total so far: ${allData.length}`);
-    }
-
-    logger.info(`Fetched total of ${allData.length} history records for user ${userId} for year ${year}`);
-    return allData;
-  }
-
   /**
    * Clear cache for specific command or all
    */
   async clearCache(cmd?: string): Promise<number> {
     if (cmd) {
-      return this.cache.delPattern(`tautulli:${cmd}:*`);
+      return this.cache.delPattern(`${this.cachePrefix}:${cmd}:*`);
     }
-    return this.cache.delPattern('tautulli:*');
+    return this.cache.delPattern(`${this.cachePrefix}:*`);
   }
 
   /**
@@ -0,0 +1,72 @@
+import type {
+  TautulliChildMetadata,
+  TautulliHistoryRecord,
+  TautulliLibrary,
+  TautulliMetadata,
+  TautulliUser,
+} from './tautulli.types';
+
+// Providers speak Tautulli's shapes, so everything downstream of them stays the same
+
+export interface HistoryRange {
+  // Unix timestamps (seconds), inclusive
+  start?: number;
+  end?: number;
+  // Only records added after this row id, for incremental syncs
+  afterRowId?: number | null;
+}
+
+export interface ProviderImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ProviderHealth {
+  healthy: boolean;
+  message?: string;
+}
+
+/**
+ * A media server's play history, users, metadata and artwork
+ */
+export interface HistoryProvider {
+  // Also the watch_history source synced records are stored under
+  readonly name: string;
+
+  /**
+   * Name shown for the server, e.g. in the wrapped page's server breakdown
+   */
+  getServerName(): Promise<string>;
+
+  getUsers(): Promise<TautulliUser[]>;
+
+  /**
+   * History in the range, a page of records at a time
+   */
+  getHistoryPages(range: HistoryRange): AsyncGenerator<TautulliHistoryRecord[]>;
+
+  /**
+   * Unix timestamp of a user's first ever play, null when they have none
+   */
+  getFirstPlayDate(userId: number): Promise<number | null>;
+
+  getMetadata(ratingKey: number): Promise<TautulliMetadata>;
+
+  /**
+   * Children of an item, e.g. the seasons of a show
+   */
+  getChildrenMetadata(ratingKey: number): Promise<TautulliChildMetadata[]>;
+  getLibraries(): Promise<TautulliLibrary[]>;
+
+  /**
+   * Whether an image path came from this provider's history records
+   */
+  handlesImage(path: string): boolean;
+
+  /**
+   * Artwork for an image path from a history record (thumb, parent_thumb, grandparent_thumb)
+   */
+  getImage(path: string, width: number, height: number): Promise<ProviderImage>;
+
+  healthCheck(): Promise<ProviderHealth>;
+}
@@ -0,0 +1,86 @@
+// Jellyfin API types, only the fields the Jellyfin history provider reads
+
+export interface JellyfinUser {
+  Id: string;
+  Name: string;
+  PrimaryImageTag?: string;
+  Policy?: {
+    IsAdministrator?: boolean;
+    IsDisabled?: boolean;
+    EnableContentDownloading?: boolean;
+  };
+}
+
+export interface JellyfinNamedItem {
+  Id: string;
+  Name: string;
+}
+
+export interface JellyfinPerson {
+  Id?: string;
+  Name: string;
+  Type: string; // Actor, Director, Writer, ...
+}
+
+export interface JellyfinItem {
+  Id: string;
+  Name: string;
+  OriginalTitle?: string;
+  Type: string; // Movie, Series, Season, Episode, MusicArtist, MusicAlbum, Audio, ...
+  ProductionYear?: number;
+  DateCreated?: string; // ISO date the item was added
+  RunTimeTicks?: number; // 10,000 ticks per millisecond
+  Overview?: string;
+  CommunityRating?: number;
+  OfficialRating?: string;
+
+  // Episodes
+  SeriesId?: string;
+  SeriesName?: string;
+  SeasonId?: string;
+  SeasonName?: string;
+  IndexNumber?: number;
+  ParentIndexNumber?: number;
+
+  // Music
+  AlbumId?: string;
+  Album?: string;
+  AlbumArtists?: JellyfinNamedItem[];
+
+  ChildCount?: number;
+  Genres?: string[];
+  People?: JellyfinPerson[];
+  ProviderIds?: Record<string, string>; // { Imdb: 'tt...', Tmdb: '...', Tvdb: '...' }
+}
+
+export interface JellyfinItemsResponse {
+  Items: JellyfinItem[];
+  TotalRecordCount: number;
+}
+
+export interface JellyfinSystemInfo {
+  ServerName: string;
+  Version: string;
+}
+
+/**
+ * Playback Reporting plugin custom query response (the plugin spells it "colums")
+ */
+export interface PlaybackReportingQueryResult {
+  colums: string[];
+  results: string[][];
+}
+
+// Row of the plugin's PlaybackActivity table
+export interface PlaybackActivityRow {
+  rowid: string;
+  DateCreated: string; // Server local time, yyyy-MM-dd HH:mm:ss.fffffff
+  UserId: string;
+  ItemId: string;
+  ItemType: string;
+  ItemName: string;
+  PlaybackMethod: string; // DirectPlay, DirectStream, Transcode (...)
+  ClientName: string;
+  DeviceName: string;
+  PlayDuration: string; // Seconds
+}
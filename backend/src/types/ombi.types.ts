@@ -0,0 +1,52 @@
+// Ombi API (v4) types, only the fields the Ombi request provider reads
+// Dates are the Ombi server's local time without an offset, unset ones are 0001-01-01T00:00:00
+
+export interface OmbiUser {
+  id: string;
+  userName: string;
+  email?: string;
+  providerUserId?: string; // Plex account id for users imported from Plex
+  userType: number; // 1 = Local, 2 = Plex, 3 = Emby, 4 = Emby Connect, 5 = Jellyfin
+}
+
+interface OmbiChildRequestState {
+  id: number;
+  approved: boolean;
+  denied: boolean | null;
+  available: boolean;
+  requestedDate: string;
+  markedAsApproved: string;
+  markedAsDenied: string;
+  markedAsAvailable: string | null;
+  requestedUserId: string;
+  requestedUser?: OmbiUser;
+}
+
+export interface OmbiMovieRequest extends OmbiChildRequestState {
+  theMovieDbId: number;
+  imdbId?: string;
+  title: string;
+  posterPath?: string;
+  releaseDate?: string;
+  status?: string; // Release status, e.g. Released
+}
+
+export interface OmbiTvChildRequest extends OmbiChildRequestState {
+  seasonRequests?: { seasonNumber: number }[];
+}
+
+export interface OmbiTvRequest {
+  id: number;
+  tvDbId: number;
+  externalProviderId?: number; // TMDB id
+  imdbId?: string;
+  title: string;
+  posterPath?: string;
+  releaseDate?: string;
+  childRequests: OmbiTvChildRequest[];
+}
+
+export interface OmbiAbout {
+  version: string;
+  applicationBasePath?: string;
+}
@@ -21,7 +21,9 @@ export interface OverseerrUser {
   username?: string;
   plexToken?: string;
   plexUsername?: string;
-  userType: number; // 1 = Plex, 2 = Local
+  plexId?: number; // Plex account id
+  jellyfinUserId?: string | null; // Jellyfin user GUID, Jellyseerr only
+  userType: number; // 1 = Plex, 2 = Local, 3 = Jellyfin (Jellyseerr)
   permissions: number;
   avatar: string;
   createdAt: string; // ISO date
@@ -0,0 +1,123 @@
+// Plex Media Server API types (JSON responses), only the fields the Plex history provider reads
+
+export interface PlexMediaContainer<T> {
+  MediaContainer: T & {
+    size?: number;
+    totalSize?: number;
+    offset?: number;
+  };
+}
+
+export interface PlexTag {
+  tag: string;
+}
+
+export interface PlexGuid {
+  id: string; // imdb://tt..., tmdb://..., tvdb://...
+}
+
+export interface PlexAccount {
+  id: number; // 1 is the server owner, other ids are plex.tv account ids
+  key: string;
+  name: string;
+  thumb?: string;
+}
+
+export interface PlexDevice {
+  id: number;
+  name: string;
+  platform: string;
+  clientIdentifier: string;
+}
+
+export interface PlexHistoryItem {
+  historyKey: string; // /status/sessions/history/{id}
+  key: string;
+  ratingKey: string;
+  librarySectionID: string;
+  parentKey?: string;
+  grandparentKey?: string;
+  parentRatingKey?: string;
+  grandparentRatingKey?: string;
+  title: string;
+  parentTitle?: string;
+  grandparentTitle?: string;
+  type: string; // movie, episode, track, ...
+  thumb?: string;
+  parentThumb?: string;
+  grandparentThumb?: string;
+  index?: number;
+  parentIndex?: number;
+  originallyAvailableAt?: string;
+  viewedAt: number; // Unix timestamp
+  accountID: number;
+  deviceID?: number;
+}
+
+export interface PlexMetadataItem {
+  ratingKey: string;
+  key: string;
+  guid: string;
+  type: string; // movie, show, season, episode, artist, album, track
+  title: string;
+  titleSort?: string;
+  originalTitle?: string;
+  parentRatingKey?: string;
+  grandparentRatingKey?: string;
+  parentTitle?: string;
+  grandparentTitle?: string;
+  librarySectionID?: number;
+  librarySectionTitle?: string;
+  studio?: string;
+  contentRating?: string;
+  summary?: string;
+  tagline?: string;
+  rating?: number;
+  audienceRating?: number;
+  userRating?: number;
+  year?: number;
+  index?: number;
+  parentIndex?: number;
+  duration?: number; // milliseconds
+  thumb?: string;
+  art?: string;
+  banner?: string;
+  addedAt?: number;
+  updatedAt?: number;
+  lastViewedAt?: number;
+  viewCount?: number;
+  childCount?: number;
+  leafCount?: number;
+  Genre?: PlexTag[];
+  Director?: PlexTag[];
+  Writer?: PlexTag[];
+  Role?: PlexTag[];
+  Label?: PlexTag[];
+  Collection?: PlexTag[];
+  Guid?: PlexGuid[];
+}
+
+export interface PlexLibrarySection {
+  key: string;
+  title: string;
+  type: string; // movie, show, artist, photo
+  agent: string;
+  thumb?: string;
+  art?: string;
+}
+
+export interface PlexServerIdentity {
+  friendlyName: string;
+  version: string;
+}
+
+// plex.tv account of the token's owner and their friends, for emails and avatars
+export interface PlexTvAccount {
+  id: number;
+  username: string;
+  title?: string;
+  email?: string;
+  thumb?: string;
+  home?: boolean;
+  restricted?: boolean;
+}
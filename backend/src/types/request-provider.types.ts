@@ -0,0 +1,39 @@
+import type { OverseerrRequest, OverseerrUserRequestStats } from './overseerr.types';
+import type { ProviderHealth } from './history-provider.types';
+
+// Request providers speak Overseerr's shapes: Jellyseerr shares its API and Ombi requests are mapped into it
+
+/**
+ * The parts of an Overseerr request the stats use: status, type, media and timestamps
+ */
+export type ProviderRequest = Pick<OverseerrRequest, 'id' | 'status' | 'type' | 'createdAt' | 'updatedAt' | 'title' | 'posterPath'> & {
+  media: Pick<OverseerrRequest['media'], 'tmdbId' | 'tvdbId' | 'status'>;
+  movie?: {
+    title: string;
+    posterPath?: string;
+    genres?: { id: number; name: string }[];
+  };
+  tv?: {
+    name: string;
+    posterPath?: string;
+    genres?: { id: number; name: string }[];
+  };
+};
+
+/**
+ * A media request app (Overseerr, Jellyseerr, Ombi) users request titles from
+ */
+export interface RequestProvider {
+  readonly name: string;
+
+  isEnabled(): boolean;
+
+  /**
+   * Every request a user made, newest first
+   */
+  getUserRequests(userId: number): Promise<ProviderRequest[]>;
+  getUserRequestsForYear(userId: number, year: number): Promise<ProviderRequest[]>;
+  getUserRequestStats(userId: number, year?: number): Promise<OverseerrUserRequestStats>;
+
+  healthCheck(): Promise<ProviderHealth>;
+}
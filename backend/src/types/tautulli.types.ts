@@ -113,6 +113,9 @@ export interface TautulliHistoryRecord {
   session_key: string | null;
   reference_id: number;
   row_id: number;
+
+  // watch_history source, only set on stored records
+  source?: string;
 }
 
 export interface TautulliHistory {
@@ -250,6 +253,21 @@ export interface TautulliMetadata {
   guids: string[];
 }
 
+// An item's children as get_children_metadata lists them, e.g. the seasons of a show
+export interface TautulliChildMetadata {
+  media_type: TautulliMetadata['media_type'];
+  rating_key: number;
+  parent_rating_key: number;
+  title: string;
+  media_index: number; // Season, episode or track number
+  thumb: string;
+}
+
+export interface TautulliChildrenMetadata {
+  children_count: number;
+  children_list: TautulliChildMetadata[];
+}
+
 // Server Info
 export interface TautulliServerInfo {
   pms_identifier: string;
@@ -0,0 +1,105 @@
+import {
+  getYearBoundaries,
+  getZonedDateKey,
+  getZonedParts,
+  isValidTimezone,
+  resolveTimezone,
+  zonedTimeToTimestamp,
+} from './timezone';
+
+const utc = (...args: [number, number, number, number?, number?, number?]) => Date.UTC(...args) / 1000;
+
+describe('getYearBoundaries', () => {
+  it('spans the calendar year in UTC', () => {
+    expect(getYearBoundaries(2025, 'UTC')).toEqual({
+      startTimestamp: utc(2025, 0, 1),
+      endTimestamp: utc(2026, 0, 1) - 1,
+    });
+  });
+
+  it('starts at local midnight west and east of UTC', () => {
+    expect(getYearBoundaries(2025, 'America/New_York').startTimestamp).toBe(utc(2025, 0, 1, 5));
+    expect(getYearBoundaries(2025, 'Asia/Kolkata').startTimestamp).toBe(utc(2024, 11, 31, 18, 30));
+  });
+
+  it('uses the summer offset where the year turns during daylight saving time', () => {
+    // Auckland is on NZDT (UTC+13) on January 1st
+    expect(getYearBoundaries(2025, 'Pacific/Auckland')).toEqual({
+      startTimestamp: utc(2024, 11, 31, 11),
+      endTimestamp: utc(2025, 11, 31, 11) - 1,
+    });
+  });
+
+  it('covers exactly the days of the year despite DST changes during it', () => {
+    const { startTimestamp, endTimestamp } = getYearBoundaries(2024, 'America/New_York');
+    expect(endTimestamp - startTimestamp + 1).toBe(366 * 24 * 3600);
+  });
+
+  it('puts the first and last second of the year in that year locally', () => {
+    const { startTimestamp, endTimestamp } = getYearBoundaries(2025, 'Europe/Ljubljana');
+    expect(getZonedDateKey(startTimestamp, 'Europe/Ljubljana')).toBe('2025-01-01');
+    expect(getZonedDateKey(startTimestamp - 1, 'Europe/Ljubljana')).toBe('2024-12-31');
+    expect(getZonedDateKey(endTimestamp, 'Europe/Ljubljana')).toBe('2025-12-31');
+    expect(getZonedDateKey(endTimestamp + 1, 'Europe/Ljubljana')).toBe('2026-01-01');
+  });
+});
+
+describe('getZonedParts', () => {
+  it('buckets a play by the local calendar, not UTC', () => {
+    // New Year's Eve evening in New York is already January 1st in UTC
+    expect(getZonedParts(utc(2026, 0, 1, 3), 'America/New_York')).toEqual({
+      year: 2025,
+      month: 12,
+      day: 31,
+      hour: 22,
+      dayOfWeek: 3,
+    });
+  });
+
+  it('reports midnight as hour 0', () => {
+    expect(getZonedParts(utc(2025, 5, 15), 'UTC').hour).toBe(0);
+  });
+});
+
+describe('zonedTimeToTimestamp', () => {
+  it('converts wall clock times on either side of a DST change', () => {
+    expect(zonedTimeToTimestamp('2025-03-09 01:30:00', 'America/New_York')).toBe(utc(2025, 2, 9, 6, 30));
+    expect(zonedTimeToTimestamp('2025-03-09 03:30:00', 'America/New_York')).toBe(utc(2025, 2, 9, 7, 30));
+    expect(zonedTimeToTimestamp('2025-11-02T12:00:00', 'America/New_York')).toBe(utc(2025, 10, 2, 17));
+  });
+
+  it('returns null for anything that is not a date and time', () => {
+    expect(zonedTimeToTimestamp('2025-03-09', 'UTC')).toBeNull();
+    expect(zonedTimeToTimestamp('yesterday', 'UTC')).toBeNull();
+  });
+});
+
+describe('resolveTimezone', () => {
+  const originalTimezone = process.env.TIMEZONE;
+
+  afterEach(() => {
+    if (originalTimezone === undefined) {
+      delete process.env.TIMEZONE;
+    } else {
+      process.env.TIMEZONE = originalTimezone;
+    }
+  });
+
+  it('keeps a valid user timezone', () => {
+    expect(resolveTimezone('Europe/Paris')).toBe('Europe/Paris');
+  });
+
+  it('falls back to the server timezone, then UTC', () => {
+    process.env.TIMEZONE = 'Europe/Berlin';
+    expect(resolveTimezone(null)).toBe('Europe/Berlin');
+    expect(resolveTimezone('Not/AZone')).toBe('Europe/Berlin');
+
+    process.env.TIMEZONE = 'Nowhere';
+    expect(resolveTimezone(undefined)).toBe('UTC');
+  });
+
+  it('rejects names that are not IANA timezones', () => {
+    expect(isValidTimezone('')).toBe(false);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Timezone helpers
+ * Stats are bucketed (hours, days, months, year window) in the viewer's timezone
+ * rather than the backend container's local time
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  dayOfWeek: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Creating Intl formatters is expensive, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is a valid IANA timezone name
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the server-wide default timezone (TIMEZONE env var, falls back to UTC)
+ */
+export function getServerTimezone(): string {
+  const timeZone = process.env.TIMEZONE || 'UTC';
+  return isValidTimezone(timeZone) ? timeZone : 'UTC';
+}
+
+/**
+ * Resolve a user's timezone, falling back to the server default
+ */
+export function resolveTimezone(timeZone?: string | null): string {
+  return timeZone && isValidTimezone(timeZone) ? timeZone : getServerTimezone();
+}
+
+/**
+ * Get calendar parts of a Unix timestamp (seconds) in a timezone
+ */
+export function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(timestamp * 1000))
+    .forEach((part) => {
+      parts[part.type] = part.value;
+    });
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Get the yyyy-MM-dd calendar day of a Unix timestamp (seconds) in a timezone
+ */
+export function getZonedDateKey(timestamp: number, timeZone: string): string {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Get the yyyy-MM month of a Unix timestamp (seconds) in a timezone
+ */
+export function getZonedMonthKey(timestamp: number, timeZone: string): string {
+  const { year, month } = getZonedParts(timestamp, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Offset of a timezone from UTC in seconds at a given Unix timestamp (seconds)
+ */
+function getOffsetSeconds(timestamp: number, timeZone: string): number {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(timestamp * 1000))
+    .forEach((part) => {
+      parts[part.type] = part.value;
+    });
+
+  const asUtc = Date.UTC(
+    parseInt(parts.year, 10),
+    parseInt(parts.month, 10) - 1,
+    parseInt(parts.day, 10),
+    parseInt(parts.hour, 10),
+    parseInt(parts.minute, 10),
+    parseInt(parts.second, 10)
+  ) / 1000;
+
+  return asUtc - timestamp;
+}
+
+/**
+ * Unix timestamp (seconds) of midnight on January 1st of a year in a timezone
+ */
+function getStartOfYear(year: number, timeZone: string): number {
+  const utcMidnight = Date.UTC(year, 0, 1) / 1000;
+  // Re-check the offset at the adjusted time in case it crosses a DST change
+  const guess = utcMidnight - getOffsetSeconds(utcMidnight, timeZone);
+  return utcMidnight - getOffsetSeconds(guess, timeZone);
+}
+
+/**
+ * Unix timestamp (seconds) of a wall clock time in a timezone, e.g. "2025-03-01 20:15:00"
+ */
+export function zonedTimeToTimestamp(dateTime: string, timeZone: string): number | null {
+  const match = dateTime.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second) / 1000;
+  // Same DST re-check as for the start of the year
+  const guess = asUtc - getOffsetSeconds(asUtc, timeZone);
+  return asUtc - getOffsetSeconds(guess, timeZone);
+}
+
+/**
+ * Get the first and last second of a year in a timezone as Unix timestamps
+ */
+export function getYearBoundaries(year: number, timeZone: string): { startTimestamp: number; endTimestamp: number } {
+  return {
+    startTimestamp: getStartOfYear(year, timeZone),
+    endTimestamp: getStartOfYear(year + 1, timeZone) - 1,
+  };
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api, type BadgeComparator } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+
+const locales = [
+  { code: 'en', label: '🇬🇧 English' },
+  { code: 'es', label: '🇪🇸 Español' },
+  { code: 'fr', label: '🇫🇷 Français' },
+  { code: 'de', label: '🇩🇪 Deutsch' },
+  { code: 'sl', label: '🇸🇮 Slovenščina' },
+];
+
+type BadgeNames = Record<string, { name: string; description: string }>;
+
+interface BadgeDefinition {
+  id?: number;
+  key: string;
+  metric: string;
+  comparator: BadgeComparator;
+  threshold: number;
+  icon: string;
+  names: BadgeNames;
+  is_enabled: boolean;
+  sort_order: number;
+}
+
+interface BadgeMetric {
+  key: string;
+  label: string;
+}
+
+interface BadgePreview {
+  key: string;
+  unlockedCount: number;
+  unlockedBy: { userId: number; username: string | null; friendlyName: string | null; value: number }[];
+}
+
+const emptyDefinition: BadgeDefinition = {
+  key: '',
+  metric: 'totalWatchTimeMinutes',
+  comparator: '>',
+  threshold: 0,
+  icon: '🏅',
+  names: { en: { name: '', description: '' } },
+  is_enabled: true,
+  sort_order: 100,
+};
+
+const selectClassName =
+  'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm focus:outline-none focus:border-plex-500';
+
+export default function AdminBadgesPage() {
+  const [definitions, setDefinitions] = useState<BadgeDefinition[]>([]);
+  const [metrics, setMetrics] = useState<BadgeMetric[]>([]);
+  const [comparators, setComparators] = useState<BadgeComparator[]>([]);
+  const [editing, setEditing] = useState<BadgeDefinition | null>(null);
+  const [preview, setPreview] = useState<{ year: number; totalUsers: number; badges: BadgePreview[] } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    loadDefinitions();
+  }, []);
+
+  const loadDefinitions = async () => {
+    try {
+      const data: any = await api.getBadgeDefinitions();
+      setDefinitions(data.definitions);
+      setMetrics(data.metrics);
+      setComparators(data.comparators);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load badges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateEditing = (changes: Partial<BadgeDefinition>) => {
+    setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const updateEditingName = (locale: string, field: 'name' | 'description', value: string) => {
+    setEditing((prev) => {
+      if (!prev) return prev;
+      const updated = { name: '', description: '', ...prev.names[locale], [field]: value };
+      const names = { ...prev.names, [locale]: updated };
+      // Drop locales left completely empty so they fall back to English
+      if (!updated.name && !updated.description && locale !== 'en') {
+        delete names[locale];
+      }
+      return { ...prev, names };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      if (editing.id) {
+        const { metric, comparator, threshold, icon, names, is_enabled, sort_order } = editing;
+        await api.updateBadgeDefinition(editing.id, { metric, comparator, threshold, icon, names, is_enabled, sort_order });
+      } else {
+        await api.createBadgeDefinition(editing);
+      }
+      setSuccessMessage(`Badge "${editing.key}" saved. It will be applied on the next generation.`);
+      setEditing(null);
+      await loadDefinitions();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save badge');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (definition: BadgeDefinition) => {
+    setError('');
+    try {
+      await api.updateBadgeDefinition(definition.id!, { is_enabled: !definition.is_enabled });
+      setDefinitions((prev) =>
+        prev.map((d) => (d.id === definition.id ? { ...d, is_enabled: !definition.is_enabled } : d))
+      );
+    } catch (err: any) {
+      setError(err.message || 'Failed to update badge');
+    }
+  };
+
+  const handleDelete = async (definition: BadgeDefinition) => {
+    const confirmDelete = window.confirm(`Delete the "${definition.key}" badge? Already generated stats keep it.`);
+    if (!confirmDelete) return;
+
+    setError('');
+    setSuccessMessage('');
+    try {
+      await api.deleteBadgeDefinition(definition.id!);
+      setDefinitions((prev) => prev.filter((d) => d.id !== definition.id));
+      setSuccessMessage(`Badge "${definition.key}" deleted`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete badge');
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError('');
+    try {
+      // Preview the badge being edited alongside the saved ones
+      const toPreview = editing
+        ? [...definitions.filter((d) => d.id !== editing.id), editing]
+        : definitions;
+      const data: any = await api.previewBadges(toPreview);
+      setPreview(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to preview badges');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const getMetricLabel = (key: string) => metrics.find((m) => m.key === key)?.label || key;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-plex-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gradient">Badges</h1>
+          <p className="text-gray-400 mt-1">
+            Define the badges users can unlock in their wrapped
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePreview} disabled={previewing}>
+            {previewing ? 'Previewing...' : 'Preview Unlocks'}
+          </Button>
+          <Button onClick={() => setEditing({ ...emptyDefinition })}>New Badge</Button>
+        </div>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="text-sm text-red-500 bg-red-500/10 border border-red-500/20 rounded-md p-3">
+          {error}
+        </div>
+      )}
+      {successMessage && (
+        <div className="text-sm text-green-500 bg-green-500/10 border border-green-500/20 rounded-md p-3">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Editor */}
+      {editing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing.id ? `Edit ${editing.key}` : 'New Badge'}</CardTitle>
+            <CardDescription>
+              Descriptions can use {'{value}'} and {'{threshold}'} placeholders
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+              <div className="space-y-1">
+                <label className="text-xs text-gray-400">Key</label>
+                <Input
+                  value={editing.key}
+                  disabled={!!editing.id}
+                  placeholder="nightOwl"
+                  onChange={(e) => updateEditing({ key: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <label className="text-xs text-gray-400">Metric</label>
+                <select
+                  value={editing.metric}
+                  onChange={(e) => updateEditing({ metric: e.target.value })}
+                  className={`${selectClassName} w-full h-9`}
+                >
+                  {metrics.map((m) => (
+                    <option key={m.key} value={m.key}>{m.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-gray-400">Comparator</label>
+                <select
+                  value={editing.comparator}
+                  onChange={(e) => updateEditing({ comparator: e.target.value as BadgeComparator })}
+                  className={`${selectClassName} w-full h-9`}
+                >
+                  {comparators.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-gray-400">Threshold</label>
+                <Input
+                  type="number"
+                  value={editing.threshold}
+                  onChange={(e) => updateEditing({ threshold: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-gray-400">Icon</label>
+                <Input value={editing.icon} onChange={(e) => updateEditing({ icon: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {locales.map((locale) => (
+                <div key={locale.code} className="grid grid-cols-1 md:grid-cols-[160px_1fr_2fr] gap-3 items-center">
+                  <span className="text-sm text-gray-400">{locale.label}</span>
+                  <Input
+                    placeholder={locale.code === 'en' ? 'Name (required)' : 'Name'}
+                    value={editing.names[locale.code]?.name || ''}
+                    onChange={(e) => updateEditingName(locale.code, 'name', e.target.value)}
+                  />
+                  <Input
+                    placeholder="Description"
+                    value={editing.names[locale.code]?.description || ''}
+                    onChange={(e) => updateEditingName(locale.code, 'description', e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Badge'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Definitions Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Badge Definitions ({definitions.length})</CardTitle>
+          <CardDescription>
+            Enabled badges are checked against each user's stats during generation
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {definitions.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-400">No badges defined yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Badge</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Unlocked</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {definitions.map((definition) => {
+                  const unlocked = preview?.badges.find((b) => b.key === definition.key);
+                  return (
+                    <TableRow key={definition.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {definition.icon} {definition.names.en?.name || definition.key}
+                        </div>
+                        <div className="text-xs text-gray-500">{definition.key}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {getMetricLabel(definition.metric)} {definition.comparator} {definition.threshold}
+                      </TableCell>
+                      <TableCell>
+                        {definition.is_enabled ? (
+                          <Badge variant="default">Enabled</Badge>
+                        ) : (
+                          <Badge variant="outline">Disabled</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-400">
+                        {unlocked ? `${unlocked.unlockedCount} / ${preview!.totalUsers}` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button size="sm" variant="ghost" onClick={() => setEditing({ ...definition })}>
+                            Edit
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleToggle(definition)}>
+                            {definition.is_enabled ? 'Disable' : 'Enable'}
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDelete(definition)}>
+                            Delete
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Preview */}
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Who Would Unlock What ({preview.year})</CardTitle>
+            <CardDescription>
+              Based on the {preview.totalUsers} users with generated stats
+              {editing ? ', including your unsaved changes' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {preview.badges.map((badge) => (
+              <div key={badge.key}>
+                <div className="text-sm font-medium mb-1">
+                  {badge.key} <span className="text-gray-400">({badge.unlockedCount})</span>
+                </div>
+                {badge.unlockedBy.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nobody would unlock this badge</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {badge.unlockedBy.map((user) => (
+                      <Badge key={user.userId} variant="outline">
+                        {user.friendlyName || user.username || `User ${user.userId}`}: {user.value}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
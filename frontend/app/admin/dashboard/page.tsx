@@ -5,6 +5,8 @@ import { api } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import WatchHistoryCard from '@/components/WatchHistoryCard';
+import MediaServersCard from '@/components/MediaServersCard';
 
 interface DashboardStats {
   totalUsers: number;
@@ -21,6 +23,26 @@ interface DashboardStats {
     totalPending: number;
     totalFailed: number;
   };
+  requestCorrelation?: {
+    requestedCount: number;
+    watchedCount: number;
+    averageHoursToFirstWatch: number | null;
+  };
+  serverWrapped?: {
+    year: number;
+    url: string;
+    active_users: number;
+    total_watch_time_minutes: number;
+    total_listening_minutes: number;
+    total_plays: number;
+    busiest_day_date: string | null;
+    busiest_day_minutes: number;
+    most_popular_device: string | null;
+    top_movies: Array<{ title: string; viewers: number }>;
+    top_shows: Array<{ title: string; viewers: number }>;
+    new_users: Array<{ userId: number }>;
+    generated_at: string;
+  } | null;
   testMode: boolean;
 }
 
@@ -141,7 +163,7 @@ export default function AdminDashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats?.totalUsers || 0}</div>
-            <p className="text-xs text-gray-400 mt-1">Synced from Tautulli</p>
+            <p className="text-xs text-gray-400 mt-1">Synced from your media servers</p>
           </CardContent>
         </Card>
 
@@ -225,6 +247,108 @@ export default function AdminDashboardPage() {
         </Card>
       )}
 
+      {/* Requested Then Watched */}
+      {stats?.requestCorrelation && stats.requestCorrelation.requestedCount > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Requests Watched</CardTitle>
+            <CardDescription>How many requested titles were actually played after being requested</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-400">Requested</span>
+                <span className="font-medium">{stats.requestCorrelation.requestedCount}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-400">Watched</span>
+                <span className="font-medium">
+                  {stats.requestCorrelation.watchedCount} (
+                  {Math.round((stats.requestCorrelation.watchedCount / stats.requestCorrelation.requestedCount) * 100)}%)
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-400">Never watched</span>
+                <span className="font-medium">
+                  {stats.requestCorrelation.requestedCount - stats.requestCorrelation.watchedCount}
+                </span>
+              </div>
+              {stats.requestCorrelation.averageHoursToFirstWatch !== null && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-400">Avg. time from available to first play</span>
+                  <span className="font-medium">{stats.requestCorrelation.averageHoursToFirstWatch}h</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Server Unwrapped */}
+      {stats?.serverWrapped && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Server Unwrapped {stats.serverWrapped.year}</CardTitle>
+                <CardDescription>
+                  The whole server's year, updated {new Date(stats.serverWrapped.generated_at).toLocaleString()}
+                </CardDescription>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => window.open(stats.serverWrapped!.url, '_blank')}>
+                Open Public Page
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-400">Hours served</span>
+                  <span className="font-medium">
+                    {Math.round((stats.serverWrapped.total_watch_time_minutes + stats.serverWrapped.total_listening_minutes) / 60).toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-400">Total plays</span>
+                  <span className="font-medium">{stats.serverWrapped.total_plays.toLocaleString()}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-400">Active users</span>
+                  <span className="font-medium">{stats.serverWrapped.active_users}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-400">New users</span>
+                  <span className="font-medium">{stats.serverWrapped.new_users.length}</span>
+                </div>
+                {stats.serverWrapped.busiest_day_date && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-400">Busiest day</span>
+                    <span className="font-medium">
+                      {new Date(stats.serverWrapped.busiest_day_date).toLocaleDateString()} ({Math.round(stats.serverWrapped.busiest_day_minutes / 60)}h)
+                    </span>
+                  </div>
+                )}
+                {stats.serverWrapped.most_popular_device && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-400">Most popular device</span>
+                    <span className="font-medium">{stats.serverWrapped.most_popular_device}</span>
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                {[...stats.serverWrapped.top_movies.slice(0, 3), ...stats.serverWrapped.top_shows.slice(0, 3)].map((title) => (
+                  <div key={title.title} className="flex items-center justify-between">
+                    <span className="text-sm truncate">{title.title}</span>
+                    <span className="text-sm text-gray-400 shrink-0 ml-2">{title.viewers} viewers</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -233,9 +357,9 @@ export default function AdminDashboardPage() {
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <h3 className="text-sm font-medium mb-2">1. Sync Users from Tautulli</h3>
+            <h3 className="text-sm font-medium mb-2">1. Sync Users</h3>
             <p className="text-sm text-gray-400 mb-3">
-              Import or update users from your Tautulli instance
+              Import or update users from Tautulli, Plex or Jellyfin
             </p>
             <Button onClick={handleSyncUsers} disabled={syncing}>
               {syncing ? 'Syncing...' : 'Sync Users'}
@@ -257,6 +381,12 @@ export default function AdminDashboardPage() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Media Servers */}
+      <MediaServersCard />
+
+      {/* Watch History */}
+      <WatchHistoryCard />
     </div>
   );
 }
@@ -14,6 +14,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Label } from '@/components/ui/label';
+import LiveProgress from '@/components/LiveProgress';
 
 interface EmailLog {
   id: number;
@@ -31,6 +32,8 @@ interface Generation {
   year: number;
   status: string;
   userCount: number;
+  dry_run?: boolean;
+  published_at?: string | null;
   createdAt: string;
 }
 
@@ -52,7 +55,10 @@ export default function AdminEmailsPage() {
     try {
       const [logs, gens]: any = await Promise.all([api.getEmailLogs(), api.getGenerations()]);
       setEmailLogs(logs);
-      setGenerations(gens.filter((g: Generation) => g.status === 'completed'));
+      // Unpublished dry runs have no live stats to send
+      setGenerations(
+        gens.filter((g: Generation) => g.status === 'completed' && (!g.dry_run || g.published_at))
+      );
 
       // Auto-select the latest generation
       if (gens.length > 0 && selectedGeneration === '') {
@@ -207,6 +213,9 @@ export default function AdminEmailsPage() {
         </CardContent>
       </Card>
 
+      {/* Live Progress */}
+      <LiveProgress source="email" title="Email Progress" onRunCompleted={loadData} />
+
       {/* Email Stats */}
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
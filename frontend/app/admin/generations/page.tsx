@@ -15,18 +15,48 @@ import {
 } from '@/components/ui/table';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import LiveProgress from '@/components/LiveProgress';
 
 interface Generation {
   id: number;
   year: number;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   total_users: number;
   processed_users?: number;
+  failed_users?: number;
+  dry_run?: boolean;
+  published_at?: string | null;
   error_message?: string;
   created_at: string;
   completed_at?: string;
 }
 
+interface StatsChange {
+  field: string;
+  label: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+interface DryRunReport {
+  totalUsers: number;
+  newUsers: number;
+  unchangedUsers: number;
+  changedUsers: Array<{ userId: number; username: string; isNew: boolean; changes: StatsChange[]; summary: string }>;
+  noHistoryUsers: Array<{ userId: number; username: string }>;
+  anomalies: Array<{ userId: number; username: string; type: string; message: string }>;
+}
+
+interface GenerationUserStatus {
+  user_id: number;
+  username: string;
+  friendly_name: string | null;
+  status: 'queued' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+  attempts: number;
+  error_message: string | null;
+  duration_ms: number | null;
+}
+
 export default function AdminGenerationsPage() {
   const [generations, setGenerations] = useState<Generation[]>([]);
   const [loading, setLoading] = useState(true);
@@ -35,6 +65,12 @@ export default function AdminGenerationsPage() {
   const [successMessage, setSuccessMessage] = useState('');
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [testMode, setTestMode] = useState(false);
+  const [resync, setResync] = useState(false);
+  const [selectedGenerationId, setSelectedGenerationId] = useState<number | null>(null);
+  const [userStatuses, setUserStatuses] = useState<GenerationUserStatus[]>([]);
+  const [actionInProgress, setActionInProgress] = useState<number | null>(null);
+  const [reportGenerationId, setReportGenerationId] = useState<number | null>(null);
+  const [report, setReport] = useState<DryRunReport | null>(null);
 
   useEffect(() => {
     loadGenerations();
@@ -46,6 +82,20 @@ export default function AdminGenerationsPage() {
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    if (selectedGenerationId === null) {
+      setUserStatuses([]);
+      return;
+    }
+
+    loadUserStatuses(selectedGenerationId);
+    const interval = setInterval(() => {
+      loadUserStatuses(selectedGenerationId);
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [selectedGenerationId]);
+
   const loadGenerations = async () => {
     try {
       const data: any = await api.getGenerations();
@@ -57,9 +107,88 @@ export default function AdminGenerationsPage() {
     }
   };
 
+  const loadUserStatuses = async (generationId: number) => {
+    try {
+      const data: any = await api.getGeneration(generationId);
+      setUserStatuses(data.users || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load generation users');
+    }
+  };
+
+  const handleGenerationAction = async (
+    generation: Generation,
+    action: 'cancel' | 'pause' | 'resume' | 'retry' | 'rollback' | 'publish'
+  ) => {
+    if (action === 'cancel' && !confirm(`Cancel generation #${generation.id}?\n\nUsers already being processed will finish, the rest are skipped.`)) {
+      return;
+    }
+    if (action === 'publish' && !confirm(`Publish dry run #${generation.id}?\n\nIts staged stats replace the live ${generation.year} stats for every user in it.`)) {
+      return;
+    }
+    if (action === 'rollback' && !confirm(`Roll ${generation.year} back to generation #${generation.id}?\n\nEvery user in this generation will see its stats again.`)) {
+      return;
+    }
+
+    setActionInProgress(generation.id);
+    setError('');
+    setSuccessMessage('');
+    try {
+      let result: any;
+      switch (action) {
+        case 'cancel':
+          result = await api.cancelGeneration(generation.id);
+          break;
+        case 'pause':
+          result = await api.pauseGeneration(generation.id);
+          break;
+        case 'resume':
+          result = await api.resumeGeneration(generation.id);
+          break;
+        case 'retry':
+          result = await api.retryFailedUsers(generation.id);
+          break;
+        case 'rollback':
+          result = await api.rollbackGeneration(generation.id);
+          break;
+        case 'publish':
+          result = await api.publishGeneration(generation.id);
+          setReportGenerationId(null);
+          setReport(null);
+          break;
+      }
+      setSuccessMessage(result.message);
+      await loadGenerations();
+      if (selectedGenerationId === generation.id) {
+        await loadUserStatuses(generation.id);
+      }
+    } catch (err: any) {
+      setError(err.message || `Failed to ${action} generation`);
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleShowReport = async (generationId: number) => {
+    if (reportGenerationId === generationId) {
+      setReportGenerationId(null);
+      setReport(null);
+      return;
+    }
+
+    setError('');
+    try {
+      const data: any = await api.getDryRunReport(generationId);
+      setReport(data);
+      setReportGenerationId(generationId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load dry run report');
+    }
+  };
+
   const handleGenerateWrapped = async () => {
     const confirmMessage = testMode
-      ? `Generate Wrapped ${selectedYear} stats in TEST MODE?\n\nStats will be generated but NO emails will be sent. You can preview all users afterward.`
+      ? `Dry run Wrapped ${selectedYear}?\n\nStats will be staged for review without touching live stats or creating links. Publish them from the report when ready.`
       : `Generate Wrapped ${selectedYear} stats?\n\nThis will calculate stats for all users. Make sure you're ready!`;
 
     if (!confirm(confirmMessage)) return;
@@ -68,9 +197,9 @@ export default function AdminGenerationsPage() {
     setError('');
     setSuccessMessage('');
     try {
-      const result: any = await api.generateWrapped(selectedYear);
+      const result: any = await api.generateWrapped(selectedYear, undefined, testMode, resync);
       setSuccessMessage(
-        `Generation started successfully (ID: ${result.generationId}). This may take a few minutes...`
+        `${testMode ? 'Dry run' : 'Generation'} started successfully (ID: ${result.generation?.id}). This may take a few minutes...`
       );
       await loadGenerations();
     } catch (err: any) {
@@ -86,13 +215,33 @@ export default function AdminGenerationsPage() {
         return 'default';
       case 'failed':
         return 'destructive';
-      case 'running':
+      case 'processing':
         return 'secondary';
       default:
         return 'outline';
     }
   };
 
+  const getUserStatusColor = (status: GenerationUserStatus['status']) => {
+    switch (status) {
+      case 'succeeded':
+        return 'default';
+      case 'failed':
+        return 'destructive';
+      case 'processing':
+        return 'secondary';
+      default:
+        return 'outline';
+    }
+  };
+
+  const formatDuration = (ms: number | null) => {
+    if (ms === null) return '-';
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  };
+
+  const selectedGeneration = generations.find((gen) => gen.id === selectedGenerationId);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -155,7 +304,20 @@ export default function AdminGenerationsPage() {
                   className="w-4 h-4 rounded border-gray-300"
                 />
                 <Label htmlFor="testMode" className="cursor-pointer">
-                  Test Mode (don't send emails)
+                  Test Mode (dry run, review before publishing)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  id="resync"
+                  type="checkbox"
+                  checked={resync}
+                  onChange={(e) => setResync(e.target.checked)}
+                  disabled={generating}
+                  className="w-4 h-4 rounded border-gray-300"
+                />
+                <Label htmlFor="resync" className="cursor-pointer">
+                  Re-sync the whole year's history first (slower, for history edited in Tautulli)
                 </Label>
               </div>
             </div>
@@ -163,8 +325,8 @@ export default function AdminGenerationsPage() {
 
           {testMode && (
             <div className="text-sm text-plex-500 bg-plex-500/10 border border-plex-500/20 rounded-md p-3">
-              Test mode enabled: Stats will be generated but emails will NOT be sent. Perfect for
-              testing!
+              Test mode enabled: Stats are staged without changing what users see. Review the report,
+              then publish it to go live.
             </div>
           )}
 
@@ -174,6 +336,9 @@ export default function AdminGenerationsPage() {
         </CardContent>
       </Card>
 
+      {/* Live Progress */}
+      <LiveProgress source="generation" title="Generation Progress" onRunCompleted={loadGenerations} />
+
       {/* Generations List */}
       <Card>
         <CardHeader>
@@ -198,6 +363,7 @@ export default function AdminGenerationsPage() {
                   <TableHead>Progress</TableHead>
                   <TableHead>Started</TableHead>
                   <TableHead>Completed</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -209,13 +375,18 @@ export default function AdminGenerationsPage() {
                       <Badge variant={getStatusColor(gen.status)}>
                         {gen.status}
                       </Badge>
+                      {gen.dry_run && (
+                        <Badge variant="outline" className="ml-2">
+                          {gen.published_at ? 'published' : 'dry run'}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>{gen.total_users}</TableCell>
                     <TableCell>
                       {gen.processed_users !== undefined ? (
                         <span className="text-sm">
                           {gen.processed_users}/{gen.total_users}
-                          {gen.status === 'running' && (
+                          {(gen.status === 'processing' || gen.status === 'paused') && (
                             <span className="text-gray-400 ml-2">
                               ({Math.round((gen.processed_users / gen.total_users) * 100)}%)
                             </span>
@@ -235,6 +406,86 @@ export default function AdminGenerationsPage() {
                         <span className="text-gray-500">-</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() =>
+                            setSelectedGenerationId(selectedGenerationId === gen.id ? null : gen.id)
+                          }
+                        >
+                          {selectedGenerationId === gen.id ? 'Hide' : 'Users'}
+                        </Button>
+                        {gen.status === 'processing' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleGenerationAction(gen, 'pause')}
+                            disabled={actionInProgress === gen.id}
+                          >
+                            Pause
+                          </Button>
+                        )}
+                        {gen.status === 'paused' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleGenerationAction(gen, 'resume')}
+                            disabled={actionInProgress === gen.id}
+                          >
+                            Resume
+                          </Button>
+                        )}
+                        {['pending', 'processing', 'paused'].includes(gen.status) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-500"
+                            onClick={() => handleGenerationAction(gen, 'cancel')}
+                            disabled={actionInProgress === gen.id}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                        {['completed', 'failed', 'cancelled'].includes(gen.status) &&
+                          (gen.failed_users || 0) > 0 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleGenerationAction(gen, 'retry')}
+                              disabled={actionInProgress === gen.id}
+                            >
+                              Retry {gen.failed_users} failed
+                            </Button>
+                          )}
+                        {gen.status === 'completed' && gen.dry_run && !gen.published_at && (
+                          <>
+                            <Button size="sm" variant="ghost" onClick={() => handleShowReport(gen.id)}>
+                              {reportGenerationId === gen.id ? 'Hide Report' : 'Report'}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleGenerationAction(gen, 'publish')}
+                              disabled={actionInProgress === gen.id}
+                            >
+                              Publish
+                            </Button>
+                          </>
+                        )}
+                        {gen.status === 'completed' && (!gen.dry_run || gen.published_at) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleGenerationAction(gen, 'rollback')}
+                            disabled={actionInProgress === gen.id}
+                          >
+                            Roll Back To
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -243,6 +494,123 @@ export default function AdminGenerationsPage() {
         </CardContent>
       </Card>
 
+      {/* Dry run report */}
+      {report && reportGenerationId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Dry Run #{reportGenerationId} Report</CardTitle>
+            <CardDescription>
+              {report.totalUsers} users staged: {report.changedUsers.length - report.newUsers} changed,{' '}
+              {report.newUsers} new, {report.unchangedUsers} unchanged
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {report.anomalies.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-red-500">Anomalies ({report.anomalies.length})</h3>
+                <div className="text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-md p-3 space-y-1">
+                  {report.anomalies.map((anomaly, index) => (
+                    <p key={index}>
+                      <span className="font-medium">{anomaly.username}:</span> {anomaly.message}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.noHistoryUsers.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">No History ({report.noHistoryUsers.length})</h3>
+                <p className="text-sm text-gray-400">
+                  {report.noHistoryUsers.map((user) => user.username).join(', ')}
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Changed Users ({report.changedUsers.length})</h3>
+              {report.changedUsers.length === 0 ? (
+                <p className="text-sm text-gray-400">Nobody's stats would change.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.changedUsers.map((user) => (
+                      <TableRow key={user.userId}>
+                        <TableCell className="font-medium">
+                          {user.username}
+                          {user.isNew && (
+                            <Badge variant="secondary" className="ml-2">new</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-400">{user.summary}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per-user status */}
+      {selectedGeneration && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Generation #{selectedGeneration.id} Users</CardTitle>
+            <CardDescription>
+              How each user fared in this run
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {userStatuses.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-gray-400">No per-user status recorded for this generation.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {userStatuses.map((userStatus) => (
+                    <TableRow key={userStatus.user_id}>
+                      <TableCell className="font-medium">
+                        {userStatus.friendly_name || userStatus.username}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getUserStatusColor(userStatus.status)}>
+                          {userStatus.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{userStatus.attempts}</TableCell>
+                      <TableCell className="text-sm text-gray-400">
+                        {formatDuration(userStatus.duration_ms)}
+                      </TableCell>
+                      <TableCell className="text-sm text-red-400 max-w-md truncate" title={userStatus.error_message || undefined}>
+                        {userStatus.error_message || <span className="text-gray-500">-</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Info Card */}
       <Card className="border-dark-700 bg-dark-800/50">
         <CardHeader>
@@ -250,7 +618,7 @@ export default function AdminGenerationsPage() {
         </CardHeader>
         <CardContent className="text-sm text-gray-400 space-y-2">
           <p>
-            1. Fetches all users from Tautulli
+            1. Syncs new watch history from your media servers
           </p>
           <p>
             2. For each user, calculates comprehensive viewing statistics for the selected year
@@ -262,7 +630,11 @@ export default function AdminGenerationsPage() {
             4. Stores all data in the database
           </p>
           <p>
-            5. In test mode, emails are NOT sent - preview users from the Users page
+            5. In test mode the results are staged as a dry run - review the report, then publish
+          </p>
+          <p>
+            6. Running generations can be paused, resumed or cancelled, and failed users retried once
+            a run has finished
           </p>
           <p className="pt-2 text-plex-500">
             Large libraries may take several minutes to process. The page will auto-refresh.
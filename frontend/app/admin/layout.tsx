@@ -20,7 +20,7 @@ import {
   SidebarProvider,
   SidebarTrigger,
 } from '@/components/ui/sidebar';
-import { Home, Users, Settings, Mail, FileText, LogOut } from 'lucide-react';
+import { Home, Users, Settings, Mail, FileText, LogOut, Award } from 'lucide-react';
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
   const router = useRouter();
@@ -66,6 +66,7 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     { name: 'Dashboard', href: '/admin/dashboard', icon: Home },
     { name: 'Users', href: '/admin/users', icon: Users },
     { name: 'Generations', href: '/admin/generations', icon: Settings },
+    { name: 'Badges', href: '/admin/badges', icon: Award },
     { name: 'Emails', href: '/admin/emails', icon: Mail },
     { name: 'Logs', href: '/admin/logs', icon: FileText },
   ];
@@ -15,6 +15,8 @@ import {
 } from '@/components/ui/table';
 import { Input } from '@/components/ui/input';
 
+const timezones: string[] = Intl.supportedValuesOf('timeZone');
+
 interface User {
   id: number;
   plex_user_id: number;
@@ -22,20 +24,57 @@ interface User {
   email: string;
   friendly_name?: string;
   preferred_language?: string;
+  timezone?: string | null;
   hasStats?: boolean;
   statsYear?: number;
   wrappedUrl?: string;
+  // Year-to-date wrapped, null unless the user is opted in
+  liveWrapped?: {
+    url: string;
+    year: number | null;
+    refreshedAt: string | null;
+    refreshError: string | null;
+    accessCount: number;
+  } | null;
   updated_at: string;
 }
 
+interface StatsChange {
+  field: string;
+  label: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+interface StatsSnapshot {
+  id: number;
+  generationId: number | null;
+  isActive: boolean;
+  createdAt: string;
+  totalPlays: number;
+  totalWatchTimeMinutes: number;
+  changes: StatsChange[];
+  summary: string;
+}
+
+interface SnapshotDiff {
+  from: { id: number; generationId: number | null };
+  to: { id: number; generationId: number | null };
+  changes: StatsChange[];
+}
+
 export default function AdminUsersPage() {
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const [refreshingLive, setRefreshingLive] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
+  const [historyUser, setHistoryUser] = useState<User | null>(null);
+  const [snapshots, setSnapshots] = useState<StatsSnapshot[]>([]);
+  const [snapshotDiff, setSnapshotDiff] = useState<SnapshotDiff | null>(null);
 
   useEffect(() => {
     loadUsers();
@@ -118,6 +157,58 @@ export default function AdminUsersPage() {
     }
   };
 
+  const loadSnapshots = async (user: User) => {
+    try {
+      const year = user.statsYear || new Date().getFullYear();
+      const data: any = await api.getUserSnapshots(user.id, year);
+      setSnapshots(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load stats history');
+    }
+  };
+
+  const handleShowHistory = async (user: User) => {
+    setError('');
+    setSnapshotDiff(null);
+    if (historyUser?.id === user.id) {
+      setHistoryUser(null);
+      return;
+    }
+    setHistoryUser(user);
+    await loadSnapshots(user);
+  };
+
+  const handleCompareSnapshot = async (snapshotId: number) => {
+    setError('');
+    try {
+      const diff: any = await api.getSnapshotDiff(snapshotId);
+      setSnapshotDiff(diff);
+    } catch (err: any) {
+      setError(err.message || 'Failed to compare snapshots');
+    }
+  };
+
+  const handleRollbackSnapshot = async (snapshot: StatsSnapshot) => {
+    if (!historyUser) return;
+    if (!confirm(`Roll ${historyUser.username}'s stats back to generation #${snapshot.generationId}?\n\nTheir wrapped link will show these stats again.`)) {
+      return;
+    }
+
+    setError('');
+    setSuccessMessage('');
+    try {
+      await api.rollbackSnapshot(snapshot.id);
+      setSuccessMessage(`Rolled ${historyUser.username} back to generation #${snapshot.generationId}`);
+      setSnapshotDiff(null);
+      await loadSnapshots(historyUser);
+    } catch (err: any) {
+      setError(err.message || 'Failed to roll back stats');
+    }
+  };
+
+  const formatChange = (change: StatsChange) =>
+    `${change.label}: ${change.from ?? '-'} → ${change.to ?? '-'}`;
+
   const handleLanguageChange = async (userId: number, language: string) => {
     setError('');
     setSuccessMessage('');
@@ -132,6 +223,55 @@ export default function AdminUsersPage() {
     }
   };
 
+  const handleTimezoneChange = async (userId: number, timezone: string) => {
+    setError('');
+    setSuccessMessage('');
+    try {
+      await api.updateUserTimezone(userId, timezone || null);
+      setSuccessMessage(`Timezone updated to ${timezone || 'server default'}`);
+      // Update local state
+      setUsers(prevUsers => prevUsers.map(u => u.id === userId ? { ...u, timezone: timezone || null } : u));
+      setFilteredUsers(prevUsers => prevUsers.map(u => u.id === userId ? { ...u, timezone: timezone || null } : u));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update timezone');
+    }
+  };
+
+  const handleLiveWrappedToggle = async (user: User) => {
+    setError('');
+    setSuccessMessage('');
+    try {
+      if (user.liveWrapped) {
+        await api.disableLiveWrapped(user.id);
+        setSuccessMessage(`Live wrapped disabled for ${user.username}, the link no longer works`);
+      } else {
+        const result: any = await api.enableLiveWrapped(user.id);
+        await navigator.clipboard?.writeText(result.liveWrapped.url).catch(() => undefined);
+        setSuccessMessage(`Live wrapped enabled for ${user.username}, link copied: ${result.liveWrapped.url}`);
+      }
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update live wrapped');
+    }
+  };
+
+  const handleRefreshLiveWrapped = async () => {
+    setRefreshingLive(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const result: any = await api.refreshLiveWrapped();
+      setSuccessMessage(
+        result.failed > 0 ? `${result.message}, ${result.failed} failed` : result.message
+      );
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message || 'Failed to refresh live wrapped');
+    } finally {
+      setRefreshingLive(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -150,9 +290,14 @@ export default function AdminUsersPage() {
             Manage Plex users and preview their wrapped stats
           </p>
         </div>
-        <Button onClick={handleSyncUsers} disabled={syncing}>
-          {syncing ? 'Syncing...' : 'Sync from Tautulli'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleRefreshLiveWrapped} disabled={refreshingLive}>
+            {refreshingLive ? 'Refreshing...' : 'Refresh Live Wrapped'}
+          </Button>
+          <Button onClick={handleSyncUsers} disabled={syncing}>
+            {syncing ? 'Syncing...' : 'Sync Users'}
+          </Button>
+        </div>
       </div>
 
       {/* Messages */}
@@ -197,7 +342,7 @@ export default function AdminUsersPage() {
               <p className="text-gray-400">
                 {searchQuery
                   ? 'No users found matching your search'
-                  : 'No users found. Sync from Tautulli to get started.'}
+                  : 'No users found. Sync users to get started.'}
               </p>
             </div>
           ) : (
@@ -208,7 +353,9 @@ export default function AdminUsersPage() {
                   <TableHead>Email</TableHead>
                   <TableHead>Friendly Name</TableHead>
                   <TableHead>Language</TableHead>
+                  <TableHead>Timezone</TableHead>
                   <TableHead>Stats Status</TableHead>
+                  <TableHead>Live Wrapped</TableHead>
                   <TableHead>Last Synced</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -234,6 +381,18 @@ export default function AdminUsersPage() {
                         <option value="sl">🇸🇮 Slovenščina</option>
                       </select>
                     </TableCell>
+                    <TableCell>
+                      <select
+                        value={user.timezone || ''}
+                        onChange={(e) => handleTimezoneChange(user.id, e.target.value)}
+                        className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm focus:outline-none focus:border-plex-500"
+                      >
+                        <option value="">Server default</option>
+                        {timezones.map((tz) => (
+                          <option key={tz} value={tz}>{tz}</option>
+                        ))}
+                      </select>
+                    </TableCell>
                     <TableCell>
                       {user.hasStats ? (
                         <Badge variant="default">
@@ -243,6 +402,27 @@ export default function AdminUsersPage() {
                         <Badge variant="outline">No Stats</Badge>
                       )}
                     </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {user.liveWrapped && (
+                          <a
+                            href={user.liveWrapped.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            title={user.liveWrapped.refreshError || undefined}
+                          >
+                            <Badge variant={user.liveWrapped.refreshError ? 'destructive' : 'default'}>
+                              {user.liveWrapped.refreshedAt
+                                ? `Updated ${new Date(user.liveWrapped.refreshedAt).toLocaleDateString()}`
+                                : 'Calculating'}
+                            </Badge>
+                          </a>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => handleLiveWrappedToggle(user)}>
+                          {user.liveWrapped ? 'Disable' : 'Enable'}
+                        </Button>
+                      </div>
+                    </TableCell>
                     <TableCell className="text-sm text-gray-400">
                       {new Date(user.updated_at).toLocaleString()}
                     </TableCell>
@@ -256,6 +436,14 @@ export default function AdminUsersPage() {
                         >
                           Preview
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleShowHistory(user)}
+                          disabled={!user.hasStats}
+                        >
+                          {historyUser?.id === user.id ? 'Hide History' : 'History'}
+                        </Button>
                         <Button
                           size="sm"
                           variant="default"
@@ -274,6 +462,86 @@ export default function AdminUsersPage() {
         </CardContent>
       </Card>
 
+      {/* Stats History */}
+      {historyUser && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Stats History: {historyUser.friendly_name || historyUser.username}</CardTitle>
+            <CardDescription>
+              Each generation keeps its own version of the stats. Roll back to show an earlier one again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {snapshots.length === 0 ? (
+              <p className="text-sm text-gray-400">No history for this user yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Generation</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Plays</TableHead>
+                    <TableHead>Watch Time</TableHead>
+                    <TableHead>Changes From Previous</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {snapshots.map((snapshot) => (
+                    <TableRow key={snapshot.id}>
+                      <TableCell className="font-medium">
+                        {snapshot.generationId ? `#${snapshot.generationId}` : '-'}
+                        {snapshot.isActive && (
+                          <Badge variant="default" className="ml-2">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-400">
+                        {new Date(snapshot.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{snapshot.totalPlays}</TableCell>
+                      <TableCell>{Math.round(snapshot.totalWatchTimeMinutes / 60)}h</TableCell>
+                      <TableCell className="text-sm text-gray-400 max-w-md">
+                        {snapshot.summary || <span className="text-gray-500">-</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!snapshot.isActive && (
+                          <div className="flex items-center justify-end gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => handleCompareSnapshot(snapshot.id)}>
+                              Compare
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => handleRollbackSnapshot(snapshot)}>
+                              Roll Back
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {snapshotDiff && (
+              <div className="rounded-md border border-dark-700 p-3 text-sm space-y-1">
+                <p className="font-medium">
+                  Active (#{snapshotDiff.from.generationId ?? '-'}) compared with generation #
+                  {snapshotDiff.to.generationId ?? '-'}
+                </p>
+                {snapshotDiff.changes.length === 0 ? (
+                  <p className="text-gray-400">No differences in the headline stats.</p>
+                ) : (
+                  snapshotDiff.changes.map((change) => (
+                    <p key={change.field} className="text-gray-400">
+                      {formatChange(change)}
+                    </p>
+                  ))
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Info Card */}
       <Card className="border-dark-700 bg-dark-800/50">
         <CardHeader>
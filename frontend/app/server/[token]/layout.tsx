@@ -0,0 +1,9 @@
+import LocaleProvider from '@/components/LocaleProvider';
+
+type Props = {
+  children: React.ReactNode;
+};
+
+export default function ServerWrappedLayout({ children }: Props) {
+  return <LocaleProvider>{children}</LocaleProvider>;
+}
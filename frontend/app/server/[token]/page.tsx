@@ -0,0 +1,340 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { useTranslations, useLocale } from 'next-intl';
+import { api } from '@/lib/api';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+
+interface ServerTopTitle {
+  title: string;
+  ratingKey: number;
+  thumb: string;
+  plays: number;
+  durationMinutes: number;
+  viewers: number;
+}
+
+interface ServerWrappedData {
+  year: number;
+  stats: {
+    totalUsers: number;
+    activeUsers: number;
+    totalWatchTimeMinutes: number;
+    totalListeningMinutes: number;
+    totalPlays: number;
+    totalMovies: number;
+    totalTvEpisodes: number;
+    topMovies: ServerTopTitle[];
+    topShows: ServerTopTitle[];
+    busiestDayDate: string | null;
+    busiestDayMinutes: number;
+    topDevices: Array<{
+      device: string;
+      platform: string;
+      plays: number;
+      minutes: number;
+      users: number;
+    }>;
+    mostPopularDevice: string | null;
+    newUsers: number;
+  };
+  generatedAt: string;
+}
+
+export default function ServerWrappedPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const t = useTranslations('server');
+  const locale = useLocale();
+  const [data, setData] = useState<ServerWrappedData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const getTautulliImageUrl = (thumb: string) => {
+    if (!thumb) return '';
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL || '';
+    return `${apiUrl}/api/wrapped/plex-image?path=${encodeURIComponent(thumb)}`;
+  };
+
+  useEffect(() => {
+    loadServerWrapped();
+  }, []);
+
+  const loadServerWrapped = async () => {
+    try {
+      const result: any = await api.getServerWrapped(token);
+      setData(result);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load server wrapped');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!data) return;
+    document.title = `${data.year} Server Unwrapped - Unwrapped for Plex`;
+  }, [data]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#0a0a0a]">
+        <style jsx global>{`
+          @import url('https://fonts.googleapis.com/css2?family=Bebas+Neue&family=DM+Sans:wght@400;500;700&display=swap');
+        `}</style>
+        <div className="text-center">
+          <div className="relative w-24 h-24 mx-auto">
+            <motion.div
+              className="absolute inset-0 border-4 border-[#ff6b35] rounded-full"
+              animate={{ rotate: 360 }}
+              transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+              style={{ borderTopColor: 'transparent' }}
+            />
+          </div>
+          <p className="text-[#e8e8e8] mt-6 font-['DM_Sans'] text-base font-medium">{t('loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#0a0a0a] p-4">
+        <style jsx global>{`
+          @import url('https://fonts.googleapis.com/css2?family=Bebas+Neue&family=DM+Sans:wght@400;500;700&display=swap');
+        `}</style>
+        <div className="text-center max-w-md">
+          <div className="text-8xl mb-6 font-['Bebas_Neue'] text-[#ff6b35]">{t('error.notFound')}</div>
+          <p className="text-[#e8e8e8] mb-8 font-['DM_Sans'] text-base">
+            {error || t('error.invalidLink')}
+          </p>
+          <button
+            onClick={() => window.location.reload()}
+            className="px-8 py-3 bg-[#ff6b35] text-[#0a0a0a] font-['Bebas_Neue'] text-xl tracking-wider hover:bg-[#ff8555] transition-all hover:scale-105"
+          >
+            {t('error.tryAgain')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { year, stats } = data;
+  const totalHours = Math.round((stats.totalWatchTimeMinutes + stats.totalListeningMinutes) / 60);
+  const topDevice = stats.topDevices[0];
+
+  const numbers = [
+    { label: t('numbers.movies'), value: stats.totalMovies },
+    { label: t('numbers.episodes'), value: stats.totalTvEpisodes },
+    { label: t('numbers.activeUsers'), value: stats.activeUsers },
+    { label: t('numbers.newUsers'), value: stats.newUsers },
+  ];
+
+  const renderTitles = (heading: string, titles: ServerTopTitle[]) => (
+    <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+      <motion.div
+        className="max-w-7xl w-full"
+        initial={{ opacity: 0 }}
+        whileInView={{ opacity: 1 }}
+        viewport={{ once: true, amount: 0.2 }}
+      >
+        <motion.h2
+          className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-12"
+          initial={{ opacity: 0, y: 30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true }}
+          transition={{ delay: 0.2 }}
+        >
+          {heading}
+        </motion.h2>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+          {titles.map((title, index) => (
+            <motion.div
+              key={title.ratingKey}
+              className="relative"
+              initial={{ opacity: 0, y: 50 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              transition={{ delay: index * 0.1 }}
+            >
+              <div className="aspect-[2/3] bg-[#1a1a1a] border-2 border-[#333] overflow-hidden relative rounded-lg">
+                {title.thumb && (
+                  <motion.img
+                    src={getTautulliImageUrl(title.thumb)}
+                    alt={title.title}
+                    className="w-full h-full object-cover"
+                  />
+                )}
+                <div className="absolute inset-0 bg-gradient-to-t from-black via-black/50 to-transparent">
+                  <div className="absolute bottom-0 left-0 right-0 p-4">
+                    <div className="font-['Bebas_Neue'] text-base md:text-lg text-[#e8e8e8] leading-tight line-clamp-2">
+                      {title.title}
+                    </div>
+                    <div className="font-['DM_Sans'] text-sm text-[#ff6b35] mt-1">
+                      {t('topTitles.viewers', { count: title.viewers })}
+                    </div>
+                  </div>
+                </div>
+                <div className="absolute top-3 right-3 bg-[#ff6b35] text-[#0a0a0a] font-['Bebas_Neue'] text-2xl px-3 py-1 rounded">
+                  {index + 1}
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      </motion.div>
+    </section>
+  );
+
+  return (
+    <>
+      <style jsx global>{`
+        @import url('https://fonts.googleapis.com/css2?family=Bebas+Neue&family=DM+Sans:wght@400;500;700&display=swap');
+
+        * {
+          scroll-behavior: smooth;
+        }
+
+        body {
+          overflow-x: hidden;
+        }
+      `}</style>
+
+      <div className="bg-[#0a0a0a] snap-y snap-mandatory h-screen overflow-y-scroll">
+        {/* Welcome */}
+        <section className="snap-start min-h-screen flex items-center justify-center relative overflow-hidden">
+          <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,#ff6b35_0%,transparent_70%)] opacity-10" />
+
+          <motion.div
+            className="text-center z-10 px-6"
+            initial={{ opacity: 0, y: 40 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, ease: "easeOut" }}
+          >
+            <div className="font-['DM_Sans'] text-[#ff6b35] text-base font-medium tracking-[0.2em] mb-4">
+              {t('welcome.eyebrow')}
+            </div>
+            <h1 className="font-['Bebas_Neue'] text-7xl md:text-9xl text-[#e8e8e8] tracking-wider">
+              {t('welcome.title', { year })}
+            </h1>
+            <p className="font-['DM_Sans'] text-[#888] text-base max-w-md mx-auto mt-6">
+              {t('welcome.subtitle')}
+            </p>
+            <div className="mt-8">
+              <LanguageSwitcher />
+            </div>
+          </motion.div>
+        </section>
+
+        {/* Hours Served */}
+        <section className="snap-start min-h-screen flex items-center justify-center relative overflow-hidden">
+          <motion.div
+            className="text-center px-6"
+            initial={{ opacity: 0 }}
+            whileInView={{ opacity: 1 }}
+            viewport={{ once: true, amount: 0.5 }}
+            transition={{ duration: 0.6 }}
+          >
+            <div className="relative inline-block">
+              <div className="absolute inset-0 bg-[#ff6b35] blur-[100px] opacity-30" />
+              <h2 className="font-['Bebas_Neue'] text-8xl md:text-[12rem] text-[#e8e8e8] relative">
+                {totalHours.toLocaleString(locale)}
+              </h2>
+            </div>
+            <p className="font-['Bebas_Neue'] text-4xl md:text-6xl text-[#ff6b35] mt-4">
+              {t('hoursServed.title')}
+            </p>
+            <p className="font-['DM_Sans'] text-[#888] text-sm mt-8">
+              {t('hoursServed.subtitle', {
+                plays: stats.totalPlays.toLocaleString(locale),
+                users: stats.activeUsers,
+              })}
+            </p>
+          </motion.div>
+        </section>
+
+        {/* Numbers and Busiest Day */}
+        <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+          <motion.div
+            className="max-w-4xl w-full"
+            initial={{ opacity: 0 }}
+            whileInView={{ opacity: 1 }}
+            viewport={{ once: true, amount: 0.3 }}
+          >
+            <h2 className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-12">
+              {t('numbers.title')}
+            </h2>
+            <div className="grid grid-cols-2 gap-4">
+              {numbers.map((item, index) => (
+                <motion.div
+                  key={item.label}
+                  className="p-6 rounded-lg bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] text-center"
+                  initial={{ opacity: 0, y: 30 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true }}
+                  transition={{ delay: index * 0.1 }}
+                >
+                  <div className="font-['Bebas_Neue'] text-5xl text-[#ff6b35]">{item.value.toLocaleString(locale)}</div>
+                  <div className="font-['DM_Sans'] text-sm text-[#888] mt-2">{item.label}</div>
+                </motion.div>
+              ))}
+            </div>
+
+            {stats.busiestDayDate && (
+              <motion.div
+                className="mt-8 p-8 rounded-lg bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] text-center"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.5 }}
+              >
+                <div className="font-['DM_Sans'] text-base text-[#888] mb-2">{t('busiestDay.title')}</div>
+                <div className="font-['Bebas_Neue'] text-4xl text-[#f7931e]">
+                  {new Date(stats.busiestDayDate).toLocaleDateString(locale, { month: 'long', day: 'numeric' })}
+                </div>
+                <div className="font-['DM_Sans'] text-sm text-[#e8e8e8] mt-2">
+                  {t('busiestDay.hours', { hours: Math.round(stats.busiestDayMinutes / 60) })}
+                </div>
+              </motion.div>
+            )}
+          </motion.div>
+        </section>
+
+        {stats.topMovies.length > 0 && renderTitles(t('topTitles.movies'), stats.topMovies)}
+        {stats.topShows.length > 0 && renderTitles(t('topTitles.shows'), stats.topShows)}
+
+        {/* Most Popular Device */}
+        {topDevice && (
+          <section className="snap-start min-h-screen flex items-center justify-center px-6">
+            <motion.div
+              className="text-center"
+              initial={{ opacity: 0, scale: 0.9 }}
+              whileInView={{ opacity: 1, scale: 1 }}
+              viewport={{ once: true, amount: 0.5 }}
+            >
+              <div className="font-['DM_Sans'] text-base text-[#888] mb-4">{t('device.title')}</div>
+              <div className="font-['Bebas_Neue'] text-6xl md:text-8xl text-[#e8e8e8]">{topDevice.device}</div>
+              <div className="font-['DM_Sans'] text-lg text-[#ff6b35] mt-2">{topDevice.platform}</div>
+              <div className="font-['DM_Sans'] text-sm text-[#888] mt-6">
+                {t('device.subtitle', { plays: topDevice.plays.toLocaleString(locale), users: topDevice.users })}
+              </div>
+            </motion.div>
+          </section>
+        )}
+
+        {/* Thank You */}
+        <section className="snap-start min-h-screen flex items-center justify-center px-6">
+          <div className="text-center">
+            <h2 className="font-['Bebas_Neue'] text-6xl md:text-8xl text-[#e8e8e8]">{t('thankYou.title')}</h2>
+            <p className="font-['DM_Sans'] text-xs text-[#888] mt-8">
+              {t('thankYou.generated', { year, date: new Date(data.generatedAt).toLocaleDateString(locale) })}
+            </p>
+          </div>
+        </section>
+      </div>
+    </>
+  );
+}
@@ -54,6 +54,39 @@ interface WrappedData {
     topGenres: Array<any>;
     topActors: Array<any>;
     topDirectors: Array<any>;
+    totalListeningMinutes?: number;
+    totalTracks?: number;
+    uniqueArtists?: number;
+    topArtists?: Array<{
+      name: string;
+      plays: number;
+      minutes: number;
+      thumb: string;
+      ratingKey: number;
+    }>;
+    topAlbums?: Array<{
+      title: string;
+      artist: string;
+      year: number;
+      plays: number;
+      minutes: number;
+      thumb: string;
+      ratingKey: number;
+    }>;
+    topTracks?: Array<{
+      title: string;
+      artist: string;
+      album: string;
+      plays: number;
+      thumb: string;
+      ratingKey: number;
+    }>;
+    topMusicGenres?: Array<{
+      genre: string;
+      count: number;
+      minutes: number;
+      percentage: number;
+    }>;
     topDevices: Array<{
       device: string;
       platform: string;
@@ -79,8 +112,33 @@ interface WrappedData {
       plays: number;
       minutes: number;
     }>;
+    serverBreakdown?: Array<{
+      source: string;
+      name: string;
+      plays: number;
+      minutes: number;
+      percentage: number;
+    }>;
     percentageOfLibraryWatched: string;
+    libraryCoverage?: Array<{
+      sectionId: number;
+      sectionName: string;
+      sectionType: string;
+      watched: number;
+      total: number;
+      percentage: number;
+    }>;
     totalSeasonsCompleted: number;
+    totalSeriesCompleted?: number;
+    completedShows?: Array<{
+      title: string;
+      ratingKey: number;
+      thumb: string;
+      seasonsCompleted: number;
+      totalSeasons: number;
+      seriesCompleted: boolean;
+      completedSeasonNumbers: number[];
+    }>;
     rewatches: number;
     firstWatchTitle: string;
     firstWatchDate: string;
@@ -88,12 +146,82 @@ interface WrappedData {
     lastWatchDate: string;
     mostMemorableDayDate: string;
     mostMemorableDayMinutes: number;
-    funFacts: string[];
+    funFacts: Array<string | {
+      key: string;
+      params: Record<string, string | number>;
+    }>;
     badges: Array<{
-      name: string;
-      description: string;
+      key?: string;
       icon: string;
+      params?: Record<string, string | number>;
+      // Localized text from an admin-defined badge, keyed by locale
+      names?: Record<string, { name: string; description: string }>;
+      // Legacy badges stored pre-rendered English text
+      name?: string;
+      description?: string;
     }>;
+    overseerrStats?: {
+      totalRequests: number;
+      movieRequests: number;
+      tvRequests: number;
+      approvedRequests: number;
+      availableRequests: number;
+      averageApprovalTimeHours?: number;
+      fastestApprovalTimeHours?: number;
+      requestsByMonth?: Array<{
+        month: string;
+        count: number;
+      }>;
+      topGenres?: Array<{
+        genre: string;
+        count: number;
+      }>;
+      topRequests?: Array<{
+        title: string;
+        type: string;
+        requestedAt: string;
+        tmdbId: number;
+        posterPath?: string;
+      }>;
+    } | null;
+    requestCorrelation?: {
+      requestedCount: number;
+      watchedCount: number;
+      watchedPercentage: number;
+      averageHoursToFirstWatch: number | null;
+      watched: Array<{
+        title: string;
+        type: string;
+        tmdbId: number;
+        posterPath?: string;
+        hoursToFirstWatch: number;
+        plays: number;
+      }>;
+      neverWatched: Array<{
+        title: string;
+        type: string;
+        tmdbId: number;
+      }>;
+    } | null;
+    percentiles?: {
+      watchTime: number;
+      streak: number;
+      uniqueTitles: number;
+      binge: number;
+      totalUsers: number;
+    } | null;
+  };
+  // Set for a year-to-date wrapped, with the previous year's totals up to the same point
+  live?: {
+    asOf: string;
+    lastYear: {
+      year: number;
+      totalWatchTimeMinutes: number;
+      totalPlays: number;
+      totalMovies: number;
+      totalTvEpisodes: number;
+      daysActive: number;
+    } | null;
   };
   generatedAt: string;
 }
@@ -163,6 +291,37 @@ export default function WrappedPage() {
     return `${apiUrl}/api/wrapped/plex-image?path=${encodeURIComponent(thumb)}`;
   };
 
+  const getTmdbPosterUrl = (posterPath: string) => {
+    return `https://image.tmdb.org/t/p/w342${posterPath}`;
+  };
+
+  const formatApprovalTime = (hours: number) => {
+    if (hours < 1) return t('requests.minutes', { minutes: Math.max(1, Math.round(hours * 60)) });
+    if (hours < 48) return t('time.duration.hours', { hours: Math.round(hours) });
+    return t('time.duration.days', { days: Math.round(hours / 24) });
+  };
+
+  // Text from the badge definition wins, then the bundled translations
+  const getBadgeText = (badge: WrappedData['stats']['badges'][number], field: 'name' | 'description') => {
+    if (!badge.key) return badge[field];
+    const defined = badge.names?.[locale] || badge.names?.en;
+    if (defined) {
+      return defined[field].replace(/\{(\w+)\}/g, (match, key) =>
+        badge.params?.[key] !== undefined ? String(badge.params[key]) : match
+      );
+    }
+    return t(`badges.${badge.key}.${field}`, badge.params);
+  };
+
+  // How a year-to-date number compares with this time last year, nothing without last year's numbers
+  const compareToLastYear = (current: number, previous: number | undefined) => {
+    if (!previous) return null;
+    const change = Math.round(((current - previous) / previous) * 100);
+    if (change > 0) return t('live.moreThanLastYear', { percent: change });
+    if (change < 0) return t('live.lessThanLastYear', { percent: -change });
+    return t('live.sameAsLastYear');
+  };
+
   const getLocalizedMonthName = (monthYearString: string) => {
     // monthYearString is like "2025-07", extract the month part
     const monthNumber = monthYearString.split('-')[1] || '1'; // Gets "07", fallback to "1"
@@ -193,9 +352,10 @@ export default function WrappedPage() {
     const displayName = user.friendly_name || user.username;
     const totalHours = Math.floor(stats.totalWatchTimeMinutes / 60);
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3222';
+    const title = data.live ? `${displayName}'s ${year} So Far` : `${displayName}'s ${year} Wrapped`;
 
     // Update page title
-    document.title = `${displayName}'s ${year} Wrapped - Unwrapped for Plex`;
+    document.title = `${title} - Unwrapped for Plex`;
 
     // Create or update meta tags
     const updateMetaTag = (property: string, content: string, isProperty = true) => {
@@ -212,11 +372,13 @@ export default function WrappedPage() {
     };
 
     // Basic meta tags
-    const description = `${displayName} watched ${totalHours} hours across ${stats.uniqueMovies} movies and ${stats.uniqueShows} shows in ${year}. Check out their year in entertainment!`;
+    const description = data.live
+      ? `${displayName} has watched ${totalHours} hours across ${stats.uniqueMovies} movies and ${stats.uniqueShows} shows so far in ${year}. Check out their year in entertainment!`
+      : `${displayName} watched ${totalHours} hours across ${stats.uniqueMovies} movies and ${stats.uniqueShows} shows in ${year}. Check out their year in entertainment!`;
     updateMetaTag('description', description, false);
 
     // Open Graph tags for Facebook/LinkedIn
-    updateMetaTag('og:title', `${displayName}'s ${year} Wrapped`);
+    updateMetaTag('og:title', title);
     updateMetaTag('og:description', description);
     updateMetaTag('og:type', 'website');
     updateMetaTag('og:url', `${appUrl}/wrapped/${token}`);
@@ -232,7 +394,7 @@ export default function WrappedPage() {
 
     // Twitter Card tags
     updateMetaTag('twitter:card', 'summary_large_image', false);
-    updateMetaTag('twitter:title', `${displayName}'s ${year} Wrapped`, false);
+    updateMetaTag('twitter:title', title, false);
     updateMetaTag('twitter:description', description, false);
 
     if (stats.topMovies[0]?.thumb) {
@@ -308,9 +470,13 @@ export default function WrappedPage() {
     );
   }
 
-  const { user, year, stats } = data;
+  const { user, year, stats, live } = data;
   const displayName = user.friendly_name || user.username;
   const totalHours = Math.floor(stats.totalWatchTimeMinutes / 60);
+  const watchTimeComparison = compareToLastYear(stats.totalWatchTimeMinutes, live?.lastYear?.totalWatchTimeMinutes);
+  const daysActiveComparison = compareToLastYear(stats.daysActive, live?.lastYear?.daysActive);
+  // Comparing against the server only makes sense with other users on it
+  const percentiles = stats.percentiles && stats.percentiles.totalUsers > 1 ? stats.percentiles : null;
   const plexUrl = process.env.NEXT_PUBLIC_PLEX_URL;
 
   return (
@@ -349,7 +515,7 @@ export default function WrappedPage() {
                 {displayName.toUpperCase()}
               </div>
               <h1 className="font-['Bebas_Neue'] text-7xl md:text-9xl text-[#e8e8e8] tracking-wider">
-                {t('welcome.yourYear', { year })}
+                {live ? t('live.yourYearSoFar', { year }) : t('welcome.yourYear', { year })}
               </h1>
               <h2 className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#ff6b35] tracking-wider mt-2">
                 {t('welcome.wrapped')}
@@ -362,7 +528,7 @@ export default function WrappedPage() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.8 }}
             >
-              {t('welcome.subtitle')}
+              {live ? t('live.subtitle') : t('welcome.subtitle')}
             </motion.p>
 
             {/* Language Switcher - Integrated */}
@@ -440,6 +606,30 @@ export default function WrappedPage() {
             >
               {t('totalWatchTime.daysOfEntertainment', { days: Math.floor(totalHours / 24) })}
             </motion.p>
+
+            {percentiles && percentiles.watchTime > 0 && (
+              <motion.p
+                className="font-['DM_Sans'] text-[#ff6b35] text-sm mt-3"
+                initial={{ opacity: 0 }}
+                whileInView={{ opacity: 1 }}
+                viewport={{ once: true }}
+                transition={{ delay: 1.4 }}
+              >
+                {t('totalWatchTime.moreThanUsers', { percent: percentiles.watchTime })}
+              </motion.p>
+            )}
+
+            {watchTimeComparison && (
+              <motion.p
+                className="font-['DM_Sans'] text-[#ff6b35] text-sm mt-3"
+                initial={{ opacity: 0 }}
+                whileInView={{ opacity: 1 }}
+                viewport={{ once: true }}
+                transition={{ delay: 1.4 }}
+              >
+                {watchTimeComparison}
+              </motion.p>
+            )}
           </motion.div>
         </section>
 
@@ -460,7 +650,7 @@ export default function WrappedPage() {
               viewport={{ once: true }}
               transition={{ delay: 0.2 }}
             >
-              {t('numbers.title')}
+              {live ? t('live.numbersTitle') : t('numbers.title')}
             </motion.h2>
 
             <div className="grid md:grid-cols-2 gap-8 md:gap-12">
@@ -512,7 +702,43 @@ export default function WrappedPage() {
                 </div>
                 <div className="font-['Bebas_Neue'] text-2xl text-[#888]">{t('numbers.daysActive')}</div>
               </div>
+              {daysActiveComparison && (
+                <div className="font-['DM_Sans'] text-sm text-[#ff6b35] mt-2">{daysActiveComparison}</div>
+              )}
             </motion.div>
+
+            {stats.libraryCoverage && stats.libraryCoverage.length > 0 && (
+              <motion.div
+                className="mt-8 p-8 rounded-lg bg-[#1a1a1a] border border-[#333]"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.8 }}
+              >
+                <div className="font-['DM_Sans'] text-base text-[#888] mb-4 text-center">
+                  {t('numbers.libraryOverall', { percentage: parseFloat(stats.percentageOfLibraryWatched) })}
+                </div>
+                <div className="space-y-3">
+                  {stats.libraryCoverage.slice(0, 4).map((library) => (
+                    <div key={library.sectionId}>
+                      <div className="flex items-center justify-between font-['DM_Sans'] text-sm text-[#e8e8e8] mb-1">
+                        <span>{t('numbers.libraryCoverage', { percentage: library.percentage, library: library.sectionName })}</span>
+                        <span className="text-[#888]">{library.watched}/{library.total}</span>
+                      </div>
+                      <div className="h-2 rounded-full bg-[#0a0a0a] overflow-hidden">
+                        <motion.div
+                          className="h-full bg-gradient-to-r from-[#ff6b35] to-[#f7931e]"
+                          initial={{ width: 0 }}
+                          whileInView={{ width: `${Math.max(library.percentage, 1)}%` }}
+                          viewport={{ once: true }}
+                          transition={{ delay: 1, duration: 1 }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
           </motion.div>
         </section>
 
@@ -651,6 +877,299 @@ export default function WrappedPage() {
           </section>
         )}
 
+        {/* Slide 6: Completionist */}
+        {stats.completedShows && stats.completedShows.length > 0 && (
+          <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+            <motion.div
+              className="max-w-5xl w-full"
+              initial={{ opacity: 0 }}
+              whileInView={{ opacity: 1 }}
+              viewport={{ once: true, amount: 0.2 }}
+            >
+              <motion.h2
+                className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-4"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.2 }}
+              >
+                {t('completionist.title')}
+              </motion.h2>
+              <motion.p
+                className="font-['DM_Sans'] text-lg text-[#888] text-center mb-12"
+                initial={{ opacity: 0 }}
+                whileInView={{ opacity: 1 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.4 }}
+              >
+                {t('completionist.subtitle')}
+              </motion.p>
+
+              <div className="grid grid-cols-2 gap-6 mb-10">
+                <motion.div
+                  className="bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] rounded-lg p-8 text-center"
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  whileInView={{ opacity: 1, scale: 1 }}
+                  viewport={{ once: true }}
+                  transition={{ delay: 0.5 }}
+                >
+                  <div className="font-['Bebas_Neue'] text-6xl text-[#ff6b35]">
+                    <AnimatedCounter value={stats.totalSeasonsCompleted} />
+                  </div>
+                  <div className="font-['DM_Sans'] text-base text-[#888] mt-2">{t('completionist.seasonsCompleted')}</div>
+                </motion.div>
+                <motion.div
+                  className="bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] rounded-lg p-8 text-center"
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  whileInView={{ opacity: 1, scale: 1 }}
+                  viewport={{ once: true }}
+                  transition={{ delay: 0.6 }}
+                >
+                  <div className="font-['Bebas_Neue'] text-6xl text-[#f7931e]">
+                    <AnimatedCounter value={stats.totalSeriesCompleted || 0} />
+                  </div>
+                  <div className="font-['DM_Sans'] text-base text-[#888] mt-2">{t('completionist.seriesCompleted')}</div>
+                </motion.div>
+              </div>
+
+              <div className="space-y-4">
+                {stats.completedShows.slice(0, 5).map((show, index) => (
+                  <motion.div
+                    key={show.ratingKey}
+                    className="rounded-lg bg-gradient-to-r from-[#1a1a1a] to-[#0a0a0a] border border-[#333] p-6"
+                    initial={{ opacity: 0, y: 20 }}
+                    whileInView={{ opacity: 1, y: 0 }}
+                    viewport={{ once: true }}
+                    transition={{ delay: 0.7 + index * 0.1 }}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-['Bebas_Neue'] text-2xl text-[#e8e8e8] truncate">{show.title}</div>
+                        <div className="font-['DM_Sans'] text-base text-[#888] mt-1">
+                          {t('completionist.seasonsOf', { completed: show.seasonsCompleted, total: show.totalSeasons || show.seasonsCompleted })}
+                        </div>
+                      </div>
+                      {show.seriesCompleted && (
+                        <div className="font-['Bebas_Neue'] text-xl text-[#0a0a0a] bg-gradient-to-r from-[#ff6b35] to-[#f7931e] rounded-full px-4 py-1">
+                          {t('completionist.finishedSeries')}
+                        </div>
+                      )}
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            </motion.div>
+          </section>
+        )}
+
+        {/* Music Slide 1: Year in Music */}
+        {stats.totalTracks && stats.totalTracks > 0 ? (
+          <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+            <motion.div
+              className="max-w-5xl w-full"
+              initial={{ opacity: 0 }}
+              whileInView={{ opacity: 1 }}
+              viewport={{ once: true, amount: 0.2 }}
+            >
+              <motion.h2
+                className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-12"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.2 }}
+              >
+                {t('music.title')}
+              </motion.h2>
+
+              <motion.div
+                className="text-center mb-12"
+                initial={{ opacity: 0, scale: 0.8 }}
+                whileInView={{ opacity: 1, scale: 1 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.4 }}
+              >
+                <div className="font-['Bebas_Neue'] text-7xl md:text-9xl text-[#ff6b35]">
+                  <AnimatedCounter value={stats.totalListeningMinutes || 0} />
+                </div>
+                <div className="font-['DM_Sans'] text-xl text-[#888] mt-2">{t('music.minutesListened')}</div>
+              </motion.div>
+
+              <div className="grid grid-cols-2 gap-6 mb-12">
+                <div className="bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] rounded-lg p-6 text-center">
+                  <div className="font-['Bebas_Neue'] text-5xl text-[#f7931e]">
+                    <AnimatedCounter value={stats.totalTracks} />
+                  </div>
+                  <div className="font-['DM_Sans'] text-base text-[#888] mt-2">{t('music.tracksPlayed')}</div>
+                </div>
+                <div className="bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] rounded-lg p-6 text-center">
+                  <div className="font-['Bebas_Neue'] text-5xl text-[#f7931e]">
+                    <AnimatedCounter value={stats.uniqueArtists || 0} />
+                  </div>
+                  <div className="font-['DM_Sans'] text-base text-[#888] mt-2">{t('music.artists')}</div>
+                </div>
+              </div>
+
+              {stats.topMusicGenres && stats.topMusicGenres.length > 0 && (
+                <div className="space-y-3">
+                  <div className="font-['Bebas_Neue'] text-2xl text-[#e8e8e8] text-center mb-4">{t('music.topGenres')}</div>
+                  {stats.topMusicGenres.slice(0, 5).map((genre, index) => (
+                    <motion.div
+                      key={genre.genre}
+                      initial={{ opacity: 0, x: -30 }}
+                      whileInView={{ opacity: 1, x: 0 }}
+                      viewport={{ once: true }}
+                      transition={{ delay: 0.6 + index * 0.1 }}
+                    >
+                      <div className="flex justify-between font-['DM_Sans'] text-sm text-[#888] mb-1">
+                        <span>{genre.genre}</span>
+                        <span>{genre.percentage}%</span>
+                      </div>
+                      <div className="h-2 bg-[#1a1a1a] rounded-full overflow-hidden">
+                        <motion.div
+                          className="h-full bg-gradient-to-r from-[#ff6b35] to-[#f7931e]"
+                          initial={{ width: 0 }}
+                          whileInView={{ width: `${Math.min(genre.percentage, 100)}%` }}
+                          viewport={{ once: true }}
+                          transition={{ delay: 0.8 + index * 0.1, duration: 1 }}
+                        />
+                      </div>
+                    </motion.div>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          </section>
+        ) : null}
+
+        {/* Music Slide 2: Top Artists */}
+        {stats.topArtists && stats.topArtists.length > 0 && (
+          <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+            <motion.div
+              className="max-w-5xl w-full"
+              initial={{ opacity: 0 }}
+              whileInView={{ opacity: 1 }}
+              viewport={{ once: true, amount: 0.2 }}
+            >
+              <motion.h2
+                className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-12"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.2 }}
+              >
+                {t('music.topArtists')}
+              </motion.h2>
+
+              <div className="space-y-4">
+                {stats.topArtists.slice(0, 5).map((artist, index) => (
+                  <motion.div
+                    key={artist.ratingKey}
+                    className="relative overflow-hidden rounded-lg bg-gradient-to-r from-[#1a1a1a] to-[#0a0a0a] border border-[#333] p-4 hover:border-[#ff6b35] transition-all"
+                    initial={{ opacity: 0, x: index % 2 === 0 ? -50 : 50 }}
+                    whileInView={{ opacity: 1, x: 0 }}
+                    viewport={{ once: true }}
+                    transition={{ delay: index * 0.15 }}
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="flex-shrink-0 w-16 h-16 rounded-full bg-[#333] overflow-hidden">
+                        {artist.thumb && (
+                          <motion.img
+                            src={getTautulliImageUrl(artist.thumb)}
+                            alt={artist.name}
+                            className="w-full h-full object-cover"
+                          />
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-['Bebas_Neue'] text-2xl text-[#e8e8e8] truncate">
+                          {index + 1}. {artist.name}
+                        </div>
+                        <div className="font-['DM_Sans'] text-base text-[#888] mt-1">
+                          {t('music.plays', { count: artist.plays })} • {formatHours(artist.minutes)}
+                        </div>
+                      </div>
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            </motion.div>
+          </section>
+        )}
+
+        {/* Music Slide 3: Top Albums & Tracks */}
+        {stats.topAlbums && stats.topAlbums.length > 0 && (
+          <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+            <motion.div
+              className="max-w-7xl w-full"
+              initial={{ opacity: 0 }}
+              whileInView={{ opacity: 1 }}
+              viewport={{ once: true, amount: 0.2 }}
+            >
+              <motion.h2
+                className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-12"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.2 }}
+              >
+                {t('music.topAlbums')}
+              </motion.h2>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-12">
+                {stats.topAlbums.slice(0, 5).map((album, index) => (
+                  <motion.div
+                    key={album.ratingKey}
+                    initial={{ opacity: 0, y: 50 }}
+                    whileInView={{ opacity: 1, y: 0 }}
+                    viewport={{ once: true }}
+                    transition={{ delay: index * 0.1 }}
+                  >
+                    <div className="aspect-square bg-[#1a1a1a] border-2 border-[#333] rounded-lg overflow-hidden">
+                      {album.thumb && (
+                        <motion.img
+                          src={getTautulliImageUrl(album.thumb)}
+                          alt={album.title}
+                          className="w-full h-full object-cover"
+                        />
+                      )}
+                    </div>
+                    <div className="font-['Bebas_Neue'] text-lg text-[#e8e8e8] mt-2 leading-tight line-clamp-2">{album.title}</div>
+                    <div className="font-['DM_Sans'] text-sm text-[#888] truncate">{album.artist}</div>
+                    <div className="font-['DM_Sans'] text-sm text-[#ff6b35]">{t('music.plays', { count: album.plays })}</div>
+                  </motion.div>
+                ))}
+              </div>
+
+              {stats.topTracks && stats.topTracks.length > 0 && (
+                <div className="max-w-3xl mx-auto">
+                  <div className="font-['Bebas_Neue'] text-3xl text-[#e8e8e8] text-center mb-6">{t('music.topTracks')}</div>
+                  <div className="space-y-2">
+                    {stats.topTracks.slice(0, 5).map((track, index) => (
+                      <motion.div
+                        key={track.ratingKey}
+                        className="flex items-center justify-between gap-4 border-b border-[#333] pb-2"
+                        initial={{ opacity: 0 }}
+                        whileInView={{ opacity: 1 }}
+                        viewport={{ once: true }}
+                        transition={{ delay: 0.6 + index * 0.1 }}
+                      >
+                        <div className="flex items-center gap-4 min-w-0">
+                          <span className="font-['Bebas_Neue'] text-2xl text-[#f7931e] w-6">{index + 1}</span>
+                          <div className="min-w-0">
+                            <div className="font-['DM_Sans'] text-base text-[#e8e8e8] truncate">{track.title}</div>
+                            <div className="font-['DM_Sans'] text-sm text-[#888] truncate">{track.artist}</div>
+                          </div>
+                        </div>
+                        <span className="font-['DM_Sans'] text-sm text-[#888] flex-shrink-0">{t('music.plays', { count: track.plays })}</span>
+                      </motion.div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          </section>
+        )}
+
         {/* Slide 7: Monthly Journey */}
         {stats.monthlyStats && stats.monthlyStats.length > 0 && (
           <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
@@ -782,6 +1301,68 @@ export default function WrappedPage() {
           </section>
         )}
 
+        {/* Servers Slide: Which server you used most (only with history from more than one server) */}
+        {stats.serverBreakdown && stats.serverBreakdown.length > 1 && (
+          <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+            <motion.div
+              className="max-w-4xl w-full"
+              initial={{ opacity: 0 }}
+              whileInView={{ opacity: 1 }}
+              viewport={{ once: true, amount: 0.3 }}
+            >
+              <motion.h2
+                className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-4"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.2 }}
+              >
+                {t('servers.title')}
+              </motion.h2>
+              {stats.serverBreakdown[0] && (
+                <p className="font-['DM_Sans'] text-lg text-[#888] text-center mb-12">
+                  {t('servers.subtitle', { server: stats.serverBreakdown[0].name, percentage: stats.serverBreakdown[0].percentage })}
+                </p>
+              )}
+
+              <div className="space-y-4">
+                {stats.serverBreakdown.map((server, index) => (
+                  <motion.div
+                    key={server.source}
+                    className="relative"
+                    initial={{ opacity: 0, x: -50 }}
+                    whileInView={{ opacity: 1, x: 0 }}
+                    viewport={{ once: true }}
+                    transition={{ delay: index * 0.2 }}
+                  >
+                    <div className="p-6 rounded-lg bg-[#1a1a1a] border border-[#333] relative overflow-hidden">
+                      <motion.div
+                        className="absolute inset-0 bg-gradient-to-r from-[#ff6b35]/10 to-transparent"
+                        initial={{ width: 0 }}
+                        whileInView={{ width: `${server.percentage}%` }}
+                        viewport={{ once: true }}
+                        transition={{ delay: index * 0.2 + 0.3, duration: 1 }}
+                      />
+                      <div className="relative z-10 flex items-center justify-between">
+                        <div>
+                          <div className="font-['Bebas_Neue'] text-2xl text-[#e8e8e8]">{server.name}</div>
+                          <div className="font-['DM_Sans'] text-base text-[#888]">
+                            {t('servers.hours', { hours: formatHours(server.minutes) })}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-['Bebas_Neue'] text-3xl text-[#ff6b35]">{Math.round(server.percentage)}%</div>
+                          <div className="font-['DM_Sans'] text-base text-[#888]">{t('servers.plays', { count: server.plays })}</div>
+                        </div>
+                      </div>
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            </motion.div>
+          </section>
+        )}
+
         {/* Slide 9: Most Memorable Day */}
         {stats.mostMemorableDayDate && stats.mostMemorableDayMinutes > 0 && (
           <section className="snap-start min-h-screen flex items-center justify-center relative overflow-hidden">
@@ -962,6 +1543,11 @@ export default function WrappedPage() {
                     <div className="font-['Bebas_Neue'] text-4xl text-[#ff6b35]">
                       {t('peakPerformance.longestStreakDays', { days: stats.longestStreakDays })}
                     </div>
+                    {percentiles && percentiles.streak > 0 && (
+                      <div className="font-['DM_Sans'] text-xs text-[#888] mt-1">
+                        {t('peakPerformance.streakPercentile', { percent: percentiles.streak })}
+                      </div>
+                    )}
                   </div>
                   <div className="font-['DM_Sans'] text-sm text-[#e8e8e8]">
                     {t('peakPerformance.couldntStop')}
@@ -982,6 +1568,11 @@ export default function WrappedPage() {
                     <div className="font-['Bebas_Neue'] text-4xl text-[#f7931e]">
                       {formatHours(stats.longestBingeMinutes)}
                     </div>
+                    {percentiles && percentiles.binge > 0 && (
+                      <div className="font-['DM_Sans'] text-xs text-[#888] mt-1">
+                        {t('peakPerformance.bingePercentile', { percent: percentiles.binge })}
+                      </div>
+                    )}
                   </div>
                   <div className="font-['DM_Sans'] text-sm text-[#e8e8e8] md:text-right">
                     {stats.longestBingeShow && (
@@ -1014,6 +1605,229 @@ export default function WrappedPage() {
           </motion.div>
         </section>
 
+        {/* Overseerr Slide: Your Requests */}
+        {stats.overseerrStats && stats.overseerrStats.totalRequests > 0 && (() => {
+          const requestStats = stats.overseerrStats;
+          const maxMonthCount = Math.max(...(requestStats.requestsByMonth || []).map((m) => m.count), 1);
+          const posters = (requestStats.topRequests || []).filter((r) => r.posterPath).slice(0, 5);
+
+          return (
+            <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+              <motion.div
+                className="max-w-6xl w-full"
+                initial={{ opacity: 0 }}
+                whileInView={{ opacity: 1 }}
+                viewport={{ once: true, amount: 0.2 }}
+              >
+                <motion.h2
+                  className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-4"
+                  initial={{ opacity: 0, y: 30 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true }}
+                  transition={{ delay: 0.2 }}
+                >
+                  {t('requests.title')}
+                </motion.h2>
+                <motion.p
+                  className="font-['DM_Sans'] text-lg text-[#888] text-center mb-12"
+                  initial={{ opacity: 0 }}
+                  whileInView={{ opacity: 1 }}
+                  viewport={{ once: true }}
+                  transition={{ delay: 0.4 }}
+                >
+                  {t('requests.summary', {
+                    count: requestStats.totalRequests,
+                    movies: requestStats.movieRequests,
+                    shows: requestStats.tvRequests,
+                  })}
+                </motion.p>
+
+                {posters.length > 0 && (
+                  <div className="grid grid-cols-3 md:grid-cols-5 gap-4 mb-12">
+                    {posters.map((request, index) => (
+                      <motion.div
+                        key={`${request.type}-${request.tmdbId}`}
+                        className="aspect-[2/3] bg-[#1a1a1a] border-2 border-[#333] rounded-lg overflow-hidden relative"
+                        initial={{ opacity: 0, y: 50 }}
+                        whileInView={{ opacity: 1, y: 0 }}
+                        viewport={{ once: true }}
+                        transition={{ delay: 0.5 + index * 0.1 }}
+                      >
+                        <motion.img
+                          src={getTmdbPosterUrl(request.posterPath as string)}
+                          alt={request.title}
+                          className="w-full h-full object-cover"
+                        />
+                      </motion.div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid md:grid-cols-3 gap-6">
+                  {requestStats.requestsByMonth && requestStats.requestsByMonth.length > 0 && (
+                    <motion.div
+                      className="md:col-span-2 bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] rounded-lg p-6"
+                      initial={{ opacity: 0, y: 30 }}
+                      whileInView={{ opacity: 1, y: 0 }}
+                      viewport={{ once: true }}
+                      transition={{ delay: 0.6 }}
+                    >
+                      <div className="font-['Bebas_Neue'] text-xl text-[#888] mb-4">{t('requests.byMonth')}</div>
+                      <div className="flex items-end gap-2 h-40">
+                        {requestStats.requestsByMonth.map((month, index) => (
+                          <div key={month.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                            <div className="font-['DM_Sans'] text-xs text-[#e8e8e8] mb-1">{month.count}</div>
+                            <motion.div
+                              className="w-full bg-gradient-to-t from-[#ff6b35] to-[#f7931e] rounded-t"
+                              initial={{ height: 0 }}
+                              whileInView={{ height: `${(month.count / maxMonthCount) * 100}%` }}
+                              viewport={{ once: true }}
+                              transition={{ delay: 0.8 + index * 0.05, duration: 0.6 }}
+                            />
+                            <div className="font-['DM_Sans'] text-xs text-[#888] mt-2 truncate w-full text-center">
+                              {getLocalizedMonthName(month.month).slice(0, 3)}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </motion.div>
+                  )}
+
+                  <div className="space-y-6">
+                    {requestStats.averageApprovalTimeHours !== undefined && requestStats.averageApprovalTimeHours !== null && (
+                      <motion.div
+                        className="bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] rounded-lg p-6 text-center"
+                        initial={{ opacity: 0, scale: 0.8 }}
+                        whileInView={{ opacity: 1, scale: 1 }}
+                        viewport={{ once: true }}
+                        transition={{ delay: 0.7 }}
+                      >
+                        <div className="font-['Bebas_Neue'] text-xl text-[#888] mb-2">{t('requests.averageApproval')}</div>
+                        <div className="font-['Bebas_Neue'] text-4xl text-[#ff6b35]">
+                          {formatApprovalTime(requestStats.averageApprovalTimeHours)}
+                        </div>
+                        {requestStats.fastestApprovalTimeHours !== undefined && requestStats.fastestApprovalTimeHours !== null && (
+                          <div className="font-['DM_Sans'] text-sm text-[#888] mt-2">
+                            {t('requests.fastestApproval', { time: formatApprovalTime(requestStats.fastestApprovalTimeHours) })}
+                          </div>
+                        )}
+                      </motion.div>
+                    )}
+
+                    {requestStats.topGenres && requestStats.topGenres.length > 0 && (
+                      <motion.div
+                        className="bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] rounded-lg p-6"
+                        initial={{ opacity: 0, scale: 0.8 }}
+                        whileInView={{ opacity: 1, scale: 1 }}
+                        viewport={{ once: true }}
+                        transition={{ delay: 0.8 }}
+                      >
+                        <div className="font-['Bebas_Neue'] text-xl text-[#888] mb-3 text-center">{t('requests.topGenres')}</div>
+                        <div className="flex flex-wrap justify-center gap-2">
+                          {requestStats.topGenres.map((genre) => (
+                            <span
+                              key={genre.genre}
+                              className="font-['DM_Sans'] text-sm text-[#e8e8e8] border border-[#ff6b35] rounded-full px-3 py-1"
+                            >
+                              {genre.genre} · {genre.count}
+                            </span>
+                          ))}
+                        </div>
+                      </motion.div>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            </section>
+          );
+        })()}
+
+        {/* Overseerr Slide: Requested Then Watched */}
+        {stats.requestCorrelation && stats.requestCorrelation.watchedCount > 0 && (
+          <section className="snap-start min-h-screen flex items-center justify-center py-20 px-6">
+            <motion.div
+              className="max-w-5xl w-full"
+              initial={{ opacity: 0 }}
+              whileInView={{ opacity: 1 }}
+              viewport={{ once: true, amount: 0.2 }}
+            >
+              <motion.h2
+                className="font-['Bebas_Neue'] text-5xl md:text-7xl text-[#e8e8e8] text-center mb-4"
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.2 }}
+              >
+                {t('requestedWatched.title')}
+              </motion.h2>
+              <motion.p
+                className="font-['DM_Sans'] text-lg text-[#888] text-center mb-12"
+                initial={{ opacity: 0 }}
+                whileInView={{ opacity: 1 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.4 }}
+              >
+                {t('requestedWatched.summary', {
+                  watched: stats.requestCorrelation.watchedCount,
+                  requested: stats.requestCorrelation.requestedCount,
+                })}
+              </motion.p>
+
+              <div className="space-y-4 mb-10">
+                {stats.requestCorrelation.watched.slice(0, 5).map((request, index) => (
+                  <motion.div
+                    key={`${request.type}-${request.tmdbId}`}
+                    className="rounded-lg bg-gradient-to-r from-[#1a1a1a] to-[#0a0a0a] border border-[#333] p-4"
+                    initial={{ opacity: 0, x: index % 2 === 0 ? -50 : 50 }}
+                    whileInView={{ opacity: 1, x: 0 }}
+                    viewport={{ once: true }}
+                    transition={{ delay: 0.5 + index * 0.1 }}
+                  >
+                    <div className="flex items-center gap-4">
+                      {request.posterPath && (
+                        <div className="flex-shrink-0 w-12 aspect-[2/3] rounded overflow-hidden bg-[#333]">
+                          <motion.img
+                            src={getTmdbPosterUrl(request.posterPath)}
+                            alt={request.title}
+                            className="w-full h-full object-cover"
+                          />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="font-['Bebas_Neue'] text-2xl text-[#e8e8e8] truncate">{request.title}</div>
+                        <div className="font-['DM_Sans'] text-base text-[#888] mt-1">
+                          {request.hoursToFirstWatch < 1
+                            ? t('requestedWatched.immediately')
+                            : t('requestedWatched.after', { time: formatApprovalTime(request.hoursToFirstWatch) })}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-['Bebas_Neue'] text-3xl text-[#f7931e]">{request.plays}</div>
+                        <div className="font-['DM_Sans'] text-base text-[#888]">{t('topShows.plays')}</div>
+                      </div>
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+
+              {stats.requestCorrelation.neverWatched.length > 0 && (
+                <motion.p
+                  className="text-center font-['DM_Sans'] text-base text-[#888]"
+                  initial={{ opacity: 0 }}
+                  whileInView={{ opacity: 1 }}
+                  viewport={{ once: true }}
+                  transition={{ delay: 1 }}
+                >
+                  {t('requestedWatched.neverWatched', {
+                    count: stats.requestCorrelation.neverWatched.length,
+                    titles: stats.requestCorrelation.neverWatched.slice(0, 3).map((r) => r.title).join(', '),
+                  })}
+                </motion.p>
+              )}
+            </motion.div>
+          </section>
+        )}
+
         {/* Slide 12: Fun Facts */}
         <section className="snap-start min-h-screen flex items-center justify-center px-6 py-20">
           <motion.div
@@ -1034,7 +1848,10 @@ export default function WrappedPage() {
 
             <div className="space-y-6">
               {(() => {
-                const generatedFacts = [];
+                // Facts stored with the stats come first, legacy ones are plain strings
+                const generatedFacts: string[] = (stats.funFacts || []).map((fact) =>
+                  typeof fact === 'string' ? fact : t(`funFacts.${fact.key}`, fact.params)
+                );
 
                 // Generate facts from data with translations
                 if (stats.mostActiveDayOfWeek) {
@@ -1084,6 +1901,32 @@ export default function WrappedPage() {
                 ));
               })()}
             </div>
+
+            {stats.badges && stats.badges.length > 0 && (
+              <div className="mt-12">
+                <div className="font-['Bebas_Neue'] text-3xl text-[#e8e8e8] text-center mb-6">{t('badges.title')}</div>
+                <div className="flex flex-wrap justify-center gap-4">
+                  {stats.badges.map((badge, index) => (
+                    <motion.div
+                      key={badge.key || badge.name || index}
+                      className="w-40 p-4 rounded-lg bg-gradient-to-br from-[#1a1a1a] to-[#0a0a0a] border border-[#333] text-center"
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      whileInView={{ opacity: 1, scale: 1 }}
+                      viewport={{ once: true }}
+                      transition={{ delay: index * 0.1 }}
+                    >
+                      <div className="text-4xl mb-2">{badge.icon}</div>
+                      <div className="font-['Bebas_Neue'] text-xl text-[#ff6b35]">
+                        {getBadgeText(badge, 'name')}
+                      </div>
+                      <div className="font-['DM_Sans'] text-xs text-[#888] mt-1">
+                        {getBadgeText(badge, 'description')}
+                      </div>
+                    </motion.div>
+                  ))}
+                </div>
+              </div>
+            )}
           </motion.div>
         </section>
 
@@ -1117,7 +1960,7 @@ export default function WrappedPage() {
                 {t('thankYou.title')}
               </h2>
               <p className="font-['DM_Sans'] text-[#888] text-sm mb-12">
-                {t('thankYou.subtitle')}
+                {live ? t('live.thankYouSubtitle') : t('thankYou.subtitle')}
               </p>
             </motion.div>
 
@@ -1155,7 +1998,9 @@ export default function WrappedPage() {
               </div>
 
               <div className="font-['DM_Sans'] text-sm text-[#555] mt-4">
-                {t('thankYou.generated', { year, date: new Date(data.generatedAt).toLocaleDateString() })}
+                {live
+                  ? t('live.updated', { year, date: new Date(data.generatedAt).toLocaleDateString() })
+                  : t('thankYou.generated', { year, date: new Date(data.generatedAt).toLocaleDateString() })}
               </div>
             </motion.div>
           </motion.div>
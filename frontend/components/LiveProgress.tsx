@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { api } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+
+export interface ProgressEvent {
+  type: 'started' | 'succeeded' | 'failed' | 'completed';
+  source: 'generation' | 'email';
+  runId: number;
+  userId?: number;
+  username?: string;
+  error?: string;
+  retrying?: boolean;
+  status?: string;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  etaSeconds: number | null;
+  timestamp: string;
+}
+
+interface LiveProgressProps {
+  source: ProgressEvent['source'];
+  title: string;
+  onRunCompleted?: (event: ProgressEvent) => void;
+}
+
+const MAX_LOG_ENTRIES = 200;
+const RECONNECT_DELAY_MS = 5000;
+
+const formatEta = (seconds: number | null) => {
+  if (seconds === null) return 'estimating...';
+  if (seconds < 60) return `${seconds}s left`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s left`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+};
+
+const describeEvent = (event: ProgressEvent) => {
+  const user = event.username || (event.userId ? `user ${event.userId}` : '');
+  switch (event.type) {
+    case 'started':
+      return `Started ${user}`;
+    case 'succeeded':
+      return `Finished ${user}`;
+    case 'failed':
+      return `Failed ${user}${event.retrying ? ' (will retry)' : ''}: ${event.error || 'unknown error'}`;
+    case 'completed':
+      return `Run ${event.status || 'completed'}: ${event.succeeded} succeeded, ${event.failed} failed`;
+  }
+};
+
+const eventColor = (event: ProgressEvent) => {
+  switch (event.type) {
+    case 'succeeded':
+      return 'text-green-500';
+    case 'failed':
+      return event.retrying ? 'text-yellow-500' : 'text-red-500';
+    case 'completed':
+      return 'text-plex-500';
+    default:
+      return 'text-gray-400';
+  }
+};
+
+/**
+ * Live progress bar and event log fed by the admin progress stream
+ */
+export default function LiveProgress({ source, title, onRunCompleted }: LiveProgressProps) {
+  const [runs, setRuns] = useState<Record<number, ProgressEvent>>({});
+  const [currentUsers, setCurrentUsers] = useState<Record<number, string>>({});
+  const [log, setLog] = useState<ProgressEvent[]>([]);
+  const [connected, setConnected] = useState(false);
+  const logRef = useRef<HTMLDivElement>(null);
+  const onRunCompletedRef = useRef(onRunCompleted);
+  onRunCompletedRef.current = onRunCompleted;
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const handleEvent = (name: string, data: any) => {
+      if (name === 'snapshot') {
+        const active: ProgressEvent[] = data.filter((event: ProgressEvent) => event.source === source);
+        setRuns(Object.fromEntries(active.map((event) => [event.runId, event])));
+        return;
+      }
+
+      const event: ProgressEvent = data;
+      if (event.source !== source) return;
+
+      setLog((prev) => [...prev, event].slice(-MAX_LOG_ENTRIES));
+
+      if (event.type === 'completed') {
+        setRuns((prev) => {
+          const next = { ...prev };
+          delete next[event.runId];
+          return next;
+        });
+        onRunCompletedRef.current?.(event);
+        return;
+      }
+
+      setRuns((prev) => ({ ...prev, [event.runId]: event }));
+      if (event.type === 'started' && event.username) {
+        setCurrentUsers((prev) => ({ ...prev, [event.runId]: event.username as string }));
+      }
+    };
+
+    // Reconnect until the page goes away
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          setConnected(true);
+          await api.streamProgress(handleEvent, controller.signal);
+        } catch {
+          // Dropped connection or server restart, try again shortly
+        }
+        setConnected(false);
+        if (controller.signal.aborted) break;
+        await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+      }
+    };
+
+    connect();
+    return () => controller.abort();
+  }, [source]);
+
+  // Keep the newest entry in view
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [log]);
+
+  const activeRuns = Object.values(runs);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription>Updates stream in as each user is processed</CardDescription>
+          </div>
+          <Badge variant={connected ? 'secondary' : 'outline'}>{connected ? 'Live' : 'Reconnecting'}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {activeRuns.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing running right now.</p>
+        ) : (
+          activeRuns.map((run) => {
+            const percent = run.total > 0 ? Math.round((run.processed / run.total) * 100) : 0;
+            return (
+              <div key={run.runId} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>
+                    Generation #{run.runId}: {run.processed}/{run.total} ({percent}%)
+                    {run.failed > 0 && <span className="text-red-500 ml-2">{run.failed} failed</span>}
+                  </span>
+                  <span className="text-gray-400">{formatEta(run.etaSeconds)}</span>
+                </div>
+                <div className="h-2 w-full rounded bg-gray-800 overflow-hidden">
+                  <div className="h-full bg-plex-500 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+                {currentUsers[run.runId] && (
+                  <p className="text-xs text-gray-400">Current user: {currentUsers[run.runId]}</p>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <div
+          ref={logRef}
+          className="h-48 overflow-y-auto rounded border border-gray-800 bg-gray-900/50 p-2 font-mono text-xs space-y-1"
+        >
+          {log.length === 0 ? (
+            <p className="text-gray-500">Waiting for events...</p>
+          ) : (
+            log.map((event, index) => (
+              <div key={index} className={eventColor(event)}>
+                <span className="text-gray-500 mr-2">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                #{event.runId} {describeEvent(event)}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
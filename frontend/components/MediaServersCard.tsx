@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+
+interface MediaServer {
+  id: number;
+  name: string;
+  url: string;
+  enabled: boolean;
+  // watch_history source the server's history is synced under
+  source: string;
+  api_key_set: boolean;
+}
+
+/**
+ * Extra Tautulli servers, their users are matched to existing ones by Plex user id or email
+ * and their history is merged into the same wrapped
+ */
+export default function MediaServersCard() {
+  const [servers, setServers] = useState<MediaServer[]>([]);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadServers();
+  }, []);
+
+  const loadServers = async () => {
+    try {
+      const result: any = await api.getMediaServers();
+      setServers(result.servers);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load media servers');
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim() || !url.trim() || !apiKey.trim()) {
+      setError('Name, Tautulli URL and API key are required');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const server: any = await api.createMediaServer({ name: name.trim(), url: url.trim(), api_key: apiKey.trim() });
+      setMessage(`Added ${server.name}. Sync users and history to pick up its plays.`);
+      setName('');
+      setUrl('');
+      setApiKey('');
+      await loadServers();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add media server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (server: MediaServer) => {
+    setError('');
+    setMessage('');
+    try {
+      await api.updateMediaServer(server.id, { enabled: !server.enabled });
+      await loadServers();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update media server');
+    }
+  };
+
+  const handleTest = async (server: MediaServer) => {
+    setError('');
+    setMessage('');
+    try {
+      const result: any = await api.testMediaServer(server.id);
+      if (result.healthy) {
+        setMessage(`${server.name}: ${result.message}`);
+      } else {
+        setError(`${server.name}: ${result.message}`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to test media server');
+    }
+  };
+
+  const handleDelete = async (server: MediaServer) => {
+    if (!confirm(`Remove ${server.name} along with the history synced from it?`)) return;
+
+    setError('');
+    setMessage('');
+    try {
+      await api.deleteMediaServer(server.id);
+      setMessage(`Removed ${server.name}`);
+      await loadServers();
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove media server');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Media Servers</CardTitle>
+        <CardDescription>
+          Add the Tautulli of other Plex servers your users watch on. Users are matched across servers by Plex account or
+          email, and their plays on every server are combined into one wrapped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="text-sm text-red-500 bg-red-500/10 border border-red-500/20 rounded-md p-3">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="text-sm text-green-500 bg-green-500/10 border border-green-500/20 rounded-md p-3">
+            {message}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {servers.length === 0 ? (
+            <p className="text-sm text-gray-400">No extra servers added.</p>
+          ) : (
+            servers.map((server) => (
+              <div key={server.id} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant={server.enabled ? 'default' : 'secondary'}>{server.source}</Badge>
+                  <span>{server.name}</span>
+                  <span className="text-gray-400">{server.url}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button size="sm" variant="ghost" onClick={() => handleTest(server)}>
+                    Test
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleToggle(server)}>
+                    {server.enabled ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(server)}>
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="border-t border-dark-700 pt-4 space-y-3">
+          <h3 className="text-sm font-medium">Add a Tautulli server</h3>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="serverName">Name</Label>
+              <Input
+                id="serverName"
+                placeholder="Home"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serverUrl">Tautulli URL</Label>
+              <Input
+                id="serverUrl"
+                placeholder="http://tautulli:8181"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serverApiKey">API key</Label>
+              <Input
+                id="serverApiKey"
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <Button onClick={handleAdd} disabled={saving} variant="outline">
+            {saving ? 'Adding...' : 'Add Server'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+
+interface HistorySource {
+  source: string;
+  records: number;
+  latest_date: number | null;
+  // Plays received by webhook, replaced by the next sync
+  webhook_records: number;
+}
+
+interface HistoryStatus {
+  records: number;
+  sources: HistorySource[];
+  // Configured history providers, their synced history is stored under their name
+  providers: string[];
+}
+
+/**
+ * Stored watch history per source, with a sync from the history providers and an import for history export files
+ */
+export default function WatchHistoryCard() {
+  const [status, setStatus] = useState<HistoryStatus | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [source, setSource] = useState('');
+  const [replace, setReplace] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const isSynced = (name: string) => status?.providers.includes(name) ?? false;
+
+  const loadStatus = async () => {
+    try {
+      setStatus((await api.getHistoryStatus()) as HistoryStatus);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load watch history');
+    }
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setError('');
+    setMessage('');
+    try {
+      const result: any = await api.syncHistory();
+      setMessage(result.message);
+      await loadStatus();
+    } catch (err: any) {
+      setError(err.message || 'Failed to sync history');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const file = fileRef.current?.files?.[0];
+    if (!file || !source.trim()) {
+      setError('Pick an export file and name the import');
+      return;
+    }
+
+    setImporting(true);
+    setError('');
+    setMessage('');
+    try {
+      const result: any = await api.importHistory(file, source.trim(), replace);
+      const unmatched = result.unmatchedUsers?.length
+        ? ` No matching user for: ${result.unmatchedUsers.join(', ')}.`
+        : '';
+      setMessage(`${result.message} (${result.skipped} skipped).${unmatched}`);
+      if (fileRef.current) fileRef.current.value = '';
+      await loadStatus();
+    } catch (err: any) {
+      setError(err.message || 'Failed to import history');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Remove all history imported as "${name}"?`)) return;
+
+    setError('');
+    setMessage('');
+    try {
+      const result: any = await api.deleteHistorySource(name);
+      setMessage(`Removed ${result.deleted} records imported as "${name}"`);
+      await loadStatus();
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove import');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Watch History</CardTitle>
+        <CardDescription>
+          Stats are calculated from this local copy of your history. Sync it from your media servers or import a history export.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="text-sm text-red-500 bg-red-500/10 border border-red-500/20 rounded-md p-3">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="text-sm text-green-500 bg-green-500/10 border border-green-500/20 rounded-md p-3">
+            {message}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {!status || status.sources.length === 0 ? (
+            <p className="text-sm text-gray-400">No history stored yet.</p>
+          ) : (
+            status.sources.map((item) => (
+              <div key={item.source} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant={isSynced(item.source) ? 'default' : 'secondary'}>{item.source}</Badge>
+                  <span>{item.records.toLocaleString()} plays</span>
+                  {item.latest_date && (
+                    <span className="text-gray-400">
+                      latest {new Date(item.latest_date * 1000).toLocaleDateString()}
+                    </span>
+                  )}
+                  {item.webhook_records > 0 && (
+                    <span className="text-gray-400">{item.webhook_records.toLocaleString()} from webhook, not synced yet</span>
+                  )}
+                </div>
+                {!isSynced(item.source) && (
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(item.source)}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <Button onClick={handleSync} disabled={syncing}>
+          {syncing ? 'Syncing...' : 'Sync New History'}
+        </Button>
+
+        <div className="border-t border-dark-700 pt-4 space-y-3">
+          <h3 className="text-sm font-medium">Import a Tautulli history export (CSV or JSON)</h3>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="historyFile">Export file</Label>
+              <Input id="historyFile" ref={fileRef} type="file" accept=".csv,.json" disabled={importing} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="historySource">Import name</Label>
+              <Input
+                id="historySource"
+                placeholder="old-server"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                disabled={importing}
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              id="historyReplace"
+              type="checkbox"
+              checked={replace}
+              onChange={(e) => setReplace(e.target.checked)}
+              disabled={importing}
+              className="w-4 h-4 rounded border-gray-300"
+            />
+            <Label htmlFor="historyReplace" className="cursor-pointer">
+              Replace what was imported under this name before
+            </Label>
+          </div>
+          <Button onClick={handleImport} disabled={importing} variant="outline">
+            {importing ? 'Importing...' : 'Import History'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,22 @@
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+export type BadgeComparator = '>' | '>=' | '<' | '<=' | '=';
+
+// A badge definition as the admin badge routes accept it
+export interface BadgeDefinitionInput {
+  key: string;
+  metric: string;
+  comparator: BadgeComparator;
+  threshold: number;
+  icon: string;
+  names: Record<string, { name: string; description: string }>;
+  is_enabled?: boolean;
+  sort_order?: number;
+}
+
+// The key can't be changed once a badge is created
+export type BadgeDefinitionUpdate = Partial<Omit<BadgeDefinitionInput, 'key'>>;
+
 // API client class
 class ApiClient {
   private baseURL: string;
@@ -60,6 +77,10 @@ class ApiClient {
     return this.request(`/api/wrapped/${token}`);
   }
 
+  async getServerWrapped(token: string) {
+    return this.request(`/api/wrapped/server/${token}`);
+  }
+
   async trackView(token: string) {
     return this.request(`/api/wrapped/${token}/view`, { method: 'POST' });
   }
@@ -87,6 +108,65 @@ class ApiClient {
     return this.request('/api/admin/users/sync', { method: 'POST' });
   }
 
+  async getHistoryStatus() {
+    return this.request('/api/admin/history');
+  }
+
+  async syncHistory(year?: number) {
+    return this.request('/api/admin/history/sync', {
+      method: 'POST',
+      body: JSON.stringify({ year }),
+    });
+  }
+
+  /**
+   * Upload a Tautulli history export as-is, sent as text so large files skip the JSON body limit
+   */
+  async importHistory(file: File, source: string, replace?: boolean) {
+    const params = new URLSearchParams({ source, filename: file.name });
+    if (replace) params.append('replace', 'true');
+    return this.request(`/api/admin/history/import?${params.toString()}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: await file.text(),
+    });
+  }
+
+  async deleteHistorySource(source: string) {
+    return this.request(`/api/admin/history/sources/${encodeURIComponent(source)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Media servers API
+  async getMediaServers() {
+    return this.request('/api/admin/media-servers');
+  }
+
+  async createMediaServer(server: { name: string; url: string; api_key: string; enabled?: boolean }) {
+    return this.request('/api/admin/media-servers', {
+      method: 'POST',
+      body: JSON.stringify(server),
+    });
+  }
+
+  async updateMediaServer(id: number, server: { name?: string; url?: string; api_key?: string; enabled?: boolean }) {
+    return this.request(`/api/admin/media-servers/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(server),
+    });
+  }
+
+  async deleteMediaServer(id: number) {
+    return this.request(`/api/admin/media-servers/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async testMediaServer(id: number) {
+    return this.request(`/api/admin/media-servers/${id}/test`, { method: 'POST' });
+  }
+
   async getUsers() {
     return this.request('/api/admin/users');
   }
@@ -99,10 +179,10 @@ class ApiClient {
     return this.request(`/api/admin/preview/${userId}/${year}`);
   }
 
-  async generateWrapped(year?: number, userIds?: number[]) {
+  async generateWrapped(year?: number, userIds?: number[], dryRun?: boolean, resync?: boolean) {
     return this.request('/api/admin/generate', {
       method: 'POST',
-      body: JSON.stringify({ year, userIds }),
+      body: JSON.stringify({ year, userIds, dryRun, resync }),
     });
   }
 
@@ -114,6 +194,90 @@ class ApiClient {
     return this.request(`/api/admin/generations/${id}`);
   }
 
+  async cancelGeneration(id: number) {
+    return this.request(`/api/admin/generations/${id}/cancel`, { method: 'POST' });
+  }
+
+  async pauseGeneration(id: number) {
+    return this.request(`/api/admin/generations/${id}/pause`, { method: 'POST' });
+  }
+
+  async resumeGeneration(id: number) {
+    return this.request(`/api/admin/generations/${id}/resume`, { method: 'POST' });
+  }
+
+  async retryFailedUsers(id: number) {
+    return this.request(`/api/admin/generations/${id}/retry-failed`, { method: 'POST' });
+  }
+
+  async getDryRunReport(id: number) {
+    return this.request(`/api/admin/generations/${id}/report`);
+  }
+
+  async publishGeneration(id: number) {
+    return this.request(`/api/admin/generations/${id}/publish`, { method: 'POST' });
+  }
+
+  async rollbackGeneration(id: number) {
+    return this.request(`/api/admin/generations/${id}/rollback`, { method: 'POST' });
+  }
+
+  async getUserSnapshots(userId: number, year: number) {
+    return this.request(`/api/admin/users/${userId}/snapshots?year=${year}`);
+  }
+
+  async getSnapshotDiff(snapshotId: number, compareTo?: number) {
+    const query = compareTo ? `?compareTo=${compareTo}` : '';
+    return this.request(`/api/admin/snapshots/${snapshotId}/diff${query}`);
+  }
+
+  async rollbackSnapshot(snapshotId: number) {
+    return this.request(`/api/admin/snapshots/${snapshotId}/rollback`, { method: 'POST' });
+  }
+
+  /**
+   * Follow the admin progress stream until it ends or the signal aborts
+   * Uses fetch instead of EventSource so the auth header can be sent
+   */
+  async streamProgress(onEvent: (event: string, data: any) => void, signal: AbortSignal) {
+    const response = await fetch(`${this.baseURL}/api/admin/progress/stream`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let event = 'message';
+        let data = '';
+        block.split('\n').forEach((line) => {
+          if (line.startsWith('event: ')) event = line.slice(7);
+          else if (line.startsWith('data: ')) data += line.slice(6);
+        });
+
+        if (data) onEvent(event, JSON.parse(data));
+      }
+    }
+  }
+
   async sendEmails(generationId: number, userIds?: number[], testMode?: boolean) {
     return this.request('/api/admin/emails/send', {
       method: 'POST',
@@ -143,6 +307,57 @@ class ApiClient {
     });
   }
 
+  async updateUserTimezone(userId: number, timezone: string | null) {
+    return this.request(`/api/admin/users/${userId}/timezone`, {
+      method: 'PATCH',
+      body: JSON.stringify({ timezone }),
+    });
+  }
+
+  async enableLiveWrapped(userId: number) {
+    return this.request(`/api/admin/users/${userId}/live-wrapped`, { method: 'POST' });
+  }
+
+  async disableLiveWrapped(userId: number) {
+    return this.request(`/api/admin/users/${userId}/live-wrapped`, { method: 'DELETE' });
+  }
+
+  async refreshLiveWrapped() {
+    return this.request('/api/admin/live-wrapped/refresh', { method: 'POST' });
+  }
+
+  // Badges API
+  async getBadgeDefinitions() {
+    return this.request('/api/admin/badges');
+  }
+
+  async createBadgeDefinition(definition: BadgeDefinitionInput) {
+    return this.request('/api/admin/badges', {
+      method: 'POST',
+      body: JSON.stringify(definition),
+    });
+  }
+
+  async updateBadgeDefinition(id: number, definition: BadgeDefinitionUpdate) {
+    return this.request(`/api/admin/badges/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(definition),
+    });
+  }
+
+  async deleteBadgeDefinition(id: number) {
+    return this.request(`/api/admin/badges/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async previewBadges(definitions?: BadgeDefinitionInput[], year?: number) {
+    return this.request('/api/admin/badges/preview', {
+      method: 'POST',
+      body: JSON.stringify({ definitions, year }),
+    });
+  }
+
   // Health API
   async getHealth() {
     return this.request('/api/health');